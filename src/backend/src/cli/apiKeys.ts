@@ -0,0 +1,111 @@
+import { ApiKey, CreateApiKeyRequestSchema } from '@loogi/shared';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { Storage } from '../services/storage';
+
+/**
+ * Manage API keys in the configured database (DATABASE_PATH), e.g. to issue the first
+ * admin key:
+ *
+ *   npm run keys -- create "Ops" --admin
+ *   npm run keys -- create "Partner" --rate-limit 30 --daily-tokens 200000 --modes code,json
+ *   npm run keys -- list
+ *   npm run keys -- revoke key_...
+ */
+
+const USAGE = `Usage: npm run keys -- <command>
+
+Commands:
+  create <name> [--admin] [--rate-limit <n>] [--daily-tokens <n>] [--modes <mode,...>]
+  list
+  revoke <id>
+`;
+
+const print = (line: string) => {
+  process.stdout.write(`${line}\n`);
+};
+
+const describe = (key: ApiKey) => [
+  key.id,
+  key.prefix,
+  key.name,
+  `scopes=${key.scopes.join(',')}`,
+  `rateLimit=${key.rateLimit ?? 'default'}`,
+  `tokensToday=${key.tokensUsedToday}/${key.dailyTokenQuota ?? 'unlimited'}`,
+  `modes=${key.allowedModes?.join(',') ?? 'all'}`,
+  key.revokedAt ? `revoked=${key.revokedAt}` : 'active',
+].join('  ');
+
+const parseCreate = (args: string[]) => {
+  const [name, ...flags] = args;
+  const request: Record<string, unknown> = { name, scopes: ['enhance'] };
+
+  for (let i = 0; i < flags.length; i++) {
+    const flag = flags[i];
+    const value = flags[i + 1];
+    switch (flag) {
+      case '--admin':
+        request.scopes = ['enhance', 'admin'];
+        break;
+      case '--rate-limit':
+        request.rateLimit = Number(value);
+        i++;
+        break;
+      case '--daily-tokens':
+        request.dailyTokenQuota = Number(value);
+        i++;
+        break;
+      case '--modes':
+        request.allowedModes = value?.split(',').map(mode => mode.trim());
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  const parsed = CreateApiKeyRequestSchema.safeParse(request);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n'));
+  }
+  return parsed.data;
+};
+
+const run = async (command: string | undefined, args: string[]): Promise<void> => {
+  const apiKeys = new ApiKeyService(Storage.getApiKeyRepository());
+
+  switch (command) {
+    case 'create': {
+      const created = await apiKeys.issue(parseCreate(args));
+      print(describe(created));
+      print('');
+      print(`API key (shown only once): ${created.key}`);
+      return;
+    }
+    case 'list': {
+      const keys = await apiKeys.list();
+      keys.forEach(key => print(describe(key)));
+      if (keys.length === 0) {
+        print('No API keys');
+      }
+      return;
+    }
+    case 'revoke': {
+      const revoked = args[0] ? await apiKeys.revoke(args[0]) : undefined;
+      if (!revoked) {
+        throw new Error(`No active API key ${args[0] ?? ''}`.trim());
+      }
+      print(describe(revoked));
+      return;
+    }
+    default:
+      process.stderr.write(USAGE);
+      process.exitCode = 1;
+  }
+};
+
+run(process.argv[2], process.argv.slice(3))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => Storage.close());
@@ -1,8 +1,17 @@
 import dotenv from 'dotenv';
+import { CacheConfig, isCacheStoreName } from '../services/cache/types';
+import { TracingConfig, isTracingExporterName } from '../services/tracing/types';
+import { LoggingConfig, isLogLevelName } from '../services/logging/types';
+import { AIEventStoreConfig, isAIEventStoreName } from '../services/storage/types';
+import { parseModelPricing } from '../services/pricing';
 
 // Load environment variables
 dotenv.config();
 
+const rateLimitMaxRequests = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '10', 10);
+// Enhancement endpoints get half the general limit; batch items count against it
+const enhancementMaxRequests = Math.floor(rateLimitMaxRequests / 2);
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || '3001', 10),
@@ -10,6 +19,7 @@ export const config = {
   },
   
   ai: {
+    provider: process.env.AI_PROVIDER || 'deepseek',
     apiUrl: process.env.AI_API_URL || 'https://api.deepseek.com/v1',
     apiKey: process.env.AI_API_KEY || '',
     model: process.env.AI_MODEL || 'deepseek-chat',
@@ -17,7 +27,13 @@ export const config = {
   
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
-    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '10', 10),
+    maxRequests: rateLimitMaxRequests,
+    enhancementMaxRequests,
+  },
+  
+  auth: {
+    // Reject requests without an API key; when false, anonymous callers are limited per IP
+    required: process.env.API_KEYS_REQUIRED === 'true',
   },
   
   cors: {
@@ -25,18 +41,123 @@ export const config = {
   },
   
   logging: {
-    level: process.env.LOG_LEVEL || 'info',
+    // JSON lines at or above this level: debug, info, warn, error or silent
+    level: (process.env.LOG_LEVEL || 'info') as LoggingConfig['level'],
     enabled: process.env.ENABLE_LOGGING !== 'false',
+    // Prompt and completion text is logged as its length unless enabled
+    logPrompts: process.env.LOG_PROMPTS === 'true',
+  },
+  
+  database: {
+    // SQLite file for enhancement history; ':memory:' keeps it in-process
+    path: process.env.DATABASE_PATH || 'data/history.db',
+  },
+  
+  events: {
+    // AI event log (GET /enhance/logs): sqlite (DATABASE_PATH) or file (rotated JSON Lines)
+    store: (process.env.AI_EVENT_STORE || 'sqlite') as AIEventStoreConfig['store'],
+    file: process.env.AI_EVENTS_FILE || 'data/ai-events.jsonl',
+    maxFileBytes: parseInt(process.env.AI_EVENTS_MAX_FILE_MB || '10', 10) * 1024 * 1024,
+    maxFiles: parseInt(process.env.AI_EVENTS_MAX_FILES || '5', 10),
+  },
+  
+  batch: {
+    // Items per POST /enhance/batch request; each item counts against the enhancement rate
+    // limit, so by default a batch may use it up but not exceed it
+    maxItems: parseInt(process.env.BATCH_MAX_ITEMS || String(Math.max(enhancementMaxRequests, 1)), 10),
+    // Items enhanced in parallel, to stay within the AI provider's own rate limits
+    concurrency: parseInt(process.env.BATCH_CONCURRENCY || '2', 10),
+  },
+  
+  jobs: {
+    // Async enhancements (POST /enhance?async=true) processed in parallel
+    concurrency: parseInt(process.env.JOB_WORKERS || '2', 10),
+  },
+  
+  webhooks: {
+    // HMAC-SHA256 key for the X-Webhook-Signature header; callbackUrl is rejected while unset
+    secret: process.env.WEBHOOK_SECRET || '',
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+    // Delay before the first retry; doubles with every further attempt
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    // Comma-separated hosts callbacks may go to; when empty, any host with only public addresses.
+    // Listed hosts may also be internal ones.
+    allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean),
+  },
+  
+  metrics: {
+    // Prometheus text format at GET /metrics
+    enabled: process.env.METRICS_ENABLED !== 'false',
+  },
+  
+  tracing: {
+    // OpenTelemetry spans: otlp (OTLP/HTTP), console, file (JSON Lines) or none
+    exporter: (process.env.TRACING_EXPORTER || 'none') as TracingConfig['exporter'],
+    serviceName: process.env.OTEL_SERVICE_NAME || 'loogi-prompt-supercharger-backend',
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || undefined,
+    file: process.env.TRACING_FILE || 'data/traces.jsonl',
+  },
+  
+  usage: {
+    // USD per million prompt/completion tokens: "deepseek-chat=0.27/1.10,gpt-4o-mini=0.15/0.60"
+    pricing: process.env.MODEL_PRICING || '',
+  },
+  
+  modes: {
+    // Extra mode definitions (YAML/JSON) added to, or overriding, the built-in ones in modes/
+    directory: process.env.MODES_DIR || '',
+    // Reload the definitions when their files change
+    hotReload: process.env.MODES_HOT_RELOAD !== 'false',
+  },
+  
+  cache: {
+    store: (process.env.CACHE_STORE || 'memory') as CacheConfig['store'],
+    ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || '3600', 10),
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10),
+    directory: process.env.CACHE_DIR || '.cache/enhancements',
+    redisUrl: process.env.CACHE_REDIS_URL || 'redis://localhost:6379',
   },
 };
 
 // Validate required configuration
 export function validateConfig(): void {
-  const requiredEnvVars = ['AI_API_KEY'];
+  // Local providers (Ollama, in-process mock) work without an API key
+  const keylessProviders = ['ollama', 'mock'];
+  const requiredEnvVars = keylessProviders.includes(config.ai.provider) ? [] : ['AI_API_KEY'];
   
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
       throw new Error(`Missing required environment variable: ${envVar}`);
     }
   }
+  
+  if (!isCacheStoreName(config.cache.store)) {
+    throw new Error(`CACHE_STORE must be one of: memory, file, redis, none`);
+  }
+  
+  if (!isTracingExporterName(config.tracing.exporter)) {
+    throw new Error(`TRACING_EXPORTER must be one of: otlp, console, file, none`);
+  }
+  
+  if (!isLogLevelName(config.logging.level)) {
+    throw new Error(`LOG_LEVEL must be one of: debug, info, warn, error, silent`);
+  }
+  
+  if (!isAIEventStoreName(config.events.store)) {
+    throw new Error(`AI_EVENT_STORE must be one of: sqlite, file`);
+  }
+  
+  if (config.batch.maxItems > config.rateLimit.enhancementMaxRequests) {
+    throw new Error(
+      `BATCH_MAX_ITEMS (${config.batch.maxItems}) exceeds the enhancement rate limit, half of RATE_LIMIT_MAX_REQUESTS ` +
+      `(${config.rateLimit.enhancementMaxRequests}): larger batches would always be rejected`
+    );
+  }
+  
+  // Throws on malformed entries
+  parseModelPricing(config.usage.pricing);
 }
\ No newline at end of file
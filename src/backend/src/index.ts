@@ -4,8 +4,16 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { config, validateConfig } from './config';
 import { errorHandler } from './middleware/errorHandler';
-import { healthRouter } from './routes/health';
-import { enhanceRouter } from './routes/enhance';
+import { authenticate } from './middleware/auth';
+import { metricsEndpoint, requestMetrics } from './middleware/metrics';
+import { traceRequests } from './middleware/tracing';
+import { logRequests } from './middleware/logging';
+import { API_PREFIX, apiRoutes } from './routes';
+import { jobQueue } from './routes/enhance';
+import { Storage } from './services/storage';
+import { modeRegistry } from './services/modes';
+import { TracerProviderFactory } from './services/tracing';
+import { logger } from './services/logging';
 
 // Load environment variables
 dotenv.config();
@@ -14,10 +22,13 @@ dotenv.config();
 try {
   validateConfig();
 } catch (error) {
-  console.error('Configuration validation failed:', error);
+  logger.error('Configuration validation failed', { error });
   process.exit(1);
 }
 
+// OpenTelemetry tracing (TRACING_EXPORTER); spans are no-ops while it is off
+const tracerProvider = TracerProviderFactory.register(config.tracing);
+
 const app = express();
 const PORT = config.server.port;
 
@@ -34,11 +45,15 @@ app.use(cors({
 app.use(express.json({ limit: '20mb' }));
 app.use(express.urlencoded({ extended: true, limit: '20mb' }));
 
-// Health check endpoint
-app.use('/api/health', healthRouter);
+// Prometheus scrape endpoint, outside the API and its authentication
+if (config.metrics.enabled) {
+  app.get('/metrics', metricsEndpoint);
+}
 
-// Main API endpoints
-app.use('/api/enhance', enhanceRouter);
+// API endpoints: health checks, enhancement, history and the OpenAPI docs
+apiRoutes.forEach(({ path, router, public: isPublic }) => {
+  app.use(`${API_PREFIX}${path}`, requestMetrics, traceRequests, logRequests, ...(isPublic ? [] : [authenticate]), router);
+});
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
@@ -54,23 +69,42 @@ app.use('*', (req, res) => {
 
 // Start server
 const server = app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
-  console.log(`Environment: ${config.server.nodeEnv}`);
+  logger.info('Server is running', { port: PORT, environment: config.server.nodeEnv });
 });
 
+// Process async enhancement jobs, including those queued before a restart
+jobQueue.start().catch(error => {
+  logger.error('Failed to start the job queue', { error });
+});
+
+// Pick up edited mode definitions without a restart
+if (config.modes.hotReload) {
+  modeRegistry.watch();
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
+  logger.info('SIGTERM received, shutting down gracefully');
+  jobQueue.stop();
+  modeRegistry.close();
+  server.close(async () => {
+    Storage.close();
+    // Export the spans still buffered
+    await tracerProvider?.shutdown();
+    logger.info('Process terminated');
     process.exit(0);
   });
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
+  logger.info('SIGINT received, shutting down gracefully');
+  jobQueue.stop();
+  modeRegistry.close();
+  server.close(async () => {
+    Storage.close();
+    // Export the spans still buffered
+    await tracerProvider?.shutdown();
+    logger.info('Process terminated');
     process.exit(0);
   });
 });
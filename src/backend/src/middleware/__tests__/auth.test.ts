@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createAuthenticator, createKeyLimits, requireScope } from '../auth';
+import { createRateLimiter } from '../rateLimiter';
+import { errorHandler } from '../errorHandler';
+import { ApiKeyService } from '../../services/ApiKeyService';
+import { SqliteApiKeyRepository, openDatabase } from '../../services/storage';
+
+const createApp = (required = false) => {
+  const db = openDatabase(':memory:');
+  const apiKeys = new ApiKeyService(new SqliteApiKeyRepository(() => db));
+
+  const app = express();
+  app.use(express.json());
+  app.use(createAuthenticator(apiKeys, required));
+  app.post('/enhance', createRateLimiter(60000, 2), createKeyLimits(apiKeys), (req, res) => {
+    res.status(200).json({ key: req.apiKey?.id ?? null });
+  });
+  app.get('/config', requireScope('admin'), (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+  app.use(errorHandler);
+
+  return { app, apiKeys };
+};
+
+describe('API key authentication', () => {
+  it('should accept keys as bearer token or X-API-Key header', async () => {
+    const { app, apiKeys } = createApp();
+    const { id, key } = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+
+    const bearer = await request(app).post('/enhance').set('Authorization', `Bearer ${key}`).send({ mode: 'code' });
+    expect(bearer.body.key).toBe(id);
+
+    const header = await request(app).post('/enhance').set('X-API-Key', key).send({ mode: 'code' });
+    expect(header.body.key).toBe(id);
+  });
+
+  it('should reject invalid keys and, when required, missing ones', async () => {
+    const optional = createApp();
+    expect((await request(optional.app).post('/enhance').send({ mode: 'code' })).status).toBe(200);
+    expect((await request(optional.app).post('/enhance').set('X-API-Key', 'lps_nope').send({})).status).toBe(401);
+
+    const required = createApp(true);
+    expect((await request(required.app).post('/enhance').send({ mode: 'code' })).status).toBe(401);
+  });
+
+  it('should require the admin scope', async () => {
+    const { app, apiKeys } = createApp();
+    const client = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+    const admin = await apiKeys.issue({ name: 'Ops', scopes: ['admin'] });
+
+    expect((await request(app).get('/config')).status).toBe(401);
+    expect((await request(app).get('/config').set('X-API-Key', client.key)).status).toBe(403);
+    expect((await request(app).get('/config').set('X-API-Key', admin.key)).status).toBe(200);
+  });
+
+  it('should enforce the mode allow-list, including batch items', async () => {
+    const { app, apiKeys } = createApp();
+    const { key } = await apiKeys.issue({ name: 'CI', scopes: ['enhance'], allowedModes: ['code'] });
+
+    expect((await request(app).post('/enhance').set('X-API-Key', key).send({ mode: 'code' })).status).toBe(200);
+
+    const denied = await request(app).post('/enhance').set('X-API-Key', key)
+      .send({ items: [{ mode: 'code' }, { mode: 'json' }] });
+    expect(denied.status).toBe(403);
+    expect(denied.body.error.message).toContain('json');
+  });
+
+  it('should reject requests once the daily token quota is used up', async () => {
+    const { app, apiKeys } = createApp();
+    const created = await apiKeys.issue({ name: 'CI', scopes: ['enhance'], dailyTokenQuota: 100 });
+
+    await apiKeys.recordUsage(created.id, 100);
+
+    expect((await request(app).post('/enhance').set('X-API-Key', created.key).send({ mode: 'code' })).status).toBe(429);
+  });
+
+  it('should rate limit per key using the key\'s own limit', async () => {
+    const { app, apiKeys } = createApp();
+    const generous = await apiKeys.issue({ name: 'Partner', scopes: ['enhance'], rateLimit: 3 });
+    const other = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request(app).post('/enhance').set('X-API-Key', generous.key).send({ mode: 'code' })).status).toBe(200);
+    }
+    expect((await request(app).post('/enhance').set('X-API-Key', generous.key).send({ mode: 'code' })).status).toBe(429);
+
+    // Same IP, different key: counted separately against the default limit
+    expect((await request(app).post('/enhance').set('X-API-Key', other.key).send({ mode: 'code' })).status).toBe(200);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import express, { Router } from 'express';
+import http from 'http';
+import net from 'net';
+import request from 'supertest';
+import { logRequests } from '../logging';
+import { AIServiceError, errorHandler } from '../errorHandler';
+import { logger } from '../../services/logging';
+import { config } from '../../config/index';
+
+const service = logger.child({ component: 'ItemService' });
+
+// Called once the stream route's response closed, after the listeners of the middleware
+let streamClosed: () => void = () => undefined;
+
+const createApp = () => {
+  const items = Router();
+  items.post('/', (req, res) => {
+    service.info('item created', { prompt: req.body.prompt });
+    res.status(201).json({ requestId: req.requestId });
+  });
+  items.get('/:id', async (_req, _res, next) => {
+    await new Promise(resolve => setImmediate(resolve));
+    next(new AIServiceError('Upstream failed'));
+  });
+
+  // Streams until the client leaves
+  items.get('/stream/events', (_req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.flushHeaders();
+    res.write(': connected\n\n');
+    res.on('close', () => streamClosed());
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/items', logRequests, items);
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Opens the stream, then closes the connection once the first bytes arrive
+ */
+const abortStream = async (app: express.Express): Promise<void> => {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  const closed = new Promise<void>(resolve => {
+    streamClosed = resolve;
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const req = http.get(`http://127.0.0.1:${port}/api/items/stream/events`, res => {
+      res.once('data', () => {
+        req.destroy();
+        resolve();
+      });
+    });
+    req.on('error', reject);
+  });
+  await closed;
+  await new Promise(resolve => server.close(resolve));
+};
+
+describe('logRequests', () => {
+  let lines: Array<Record<string, any>>;
+
+  beforeEach(() => {
+    config.logging.level = 'info';
+    lines = [];
+    const capture = (chunk: unknown) => {
+      lines.push(JSON.parse(String(chunk)));
+      return true;
+    };
+    jest.spyOn(process.stdout, 'write').mockImplementation(capture);
+    jest.spyOn(process.stderr, 'write').mockImplementation(capture);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    config.logging.level = 'silent';
+  });
+
+  it('should correlate every line of a request with its ID', async () => {
+    const response = await request(createApp()).post('/api/items').send({ prompt: 'Write a haiku' });
+
+    const requestId = response.body.requestId;
+    expect(requestId).toMatch(/^req_/);
+    expect(response.headers['x-request-id']).toBe(requestId);
+    expect(lines).toEqual([
+      expect.objectContaining({ msg: 'item created', component: 'ItemService', requestId, prompt: '[redacted 13 chars]' }),
+      expect.objectContaining({ msg: 'request completed', requestId, route: '/api/items', status: 201 }),
+    ]);
+  });
+
+  it('should keep a valid caller ID through asynchronous error handling', async () => {
+    const response = await request(createApp()).get('/api/items/42').set('X-Request-Id', 'client-7f3a');
+
+    expect(response.status).toBe(503);
+    expect(response.headers['x-request-id']).toBe('client-7f3a');
+    expect(lines).toEqual([
+      expect.objectContaining({ level: 'error', msg: 'Request failed', component: 'errorHandler', requestId: 'client-7f3a' }),
+      expect.objectContaining({ level: 'error', msg: 'request completed', route: '/api/items/:id', status: 503 }),
+    ]);
+  });
+
+  it('should log streams the client aborts as aborted', async () => {
+    await abortStream(createApp());
+
+    expect(lines).toEqual([
+      expect.objectContaining({ msg: 'request completed', route: '/api/items/stream/events', status: 200, aborted: true }),
+    ]);
+  });
+
+  it('should replace caller IDs that are not plain tokens', async () => {
+    const response = await request(createApp()).post('/api/items').set('X-Request-Id', 'bad id <script>').send({});
+
+    expect(response.body.requestId).toMatch(/^req_/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import express, { Router } from 'express';
+import http from 'http';
+import net from 'net';
+import request from 'supertest';
+import { metricsEndpoint, requestMetrics } from '../metrics';
+import { createRateLimiter } from '../rateLimiter';
+import { NotFoundError, errorHandler } from '../errorHandler';
+import { metrics, metricsRegistry } from '../../services/metrics';
+
+// Called once the stream route's response closed, after the listeners of the middleware
+let streamClosed: () => void = () => undefined;
+
+const createApp = () => {
+  const items = Router();
+  items.post('/', (_req, res) => {
+    res.status(201).json({ ok: true });
+  });
+  items.get('/:id', (req, _res, next) => {
+    next(new NotFoundError(`Item ${req.params.id} not found`));
+  });
+
+  // Streams until the client leaves
+  items.get('/stream/events', (_req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.flushHeaders();
+    res.write(': connected\n\n');
+    res.on('close', () => streamClosed());
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.get('/metrics', metricsEndpoint);
+  app.use('/api/items', requestMetrics, createRateLimiter(60000, 3), items);
+  app.use('/api', requestMetrics, Router());
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Opens the stream, then closes the connection once the first bytes arrive
+ */
+const abortStream = async (app: express.Express): Promise<void> => {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  const closed = new Promise<void>(resolve => {
+    streamClosed = resolve;
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const req = http.get(`http://127.0.0.1:${port}/api/items/stream/events`, res => {
+      res.once('data', () => {
+        req.destroy();
+        resolve();
+      });
+    });
+    req.on('error', reject);
+  });
+  await closed;
+  await new Promise(resolve => server.close(resolve));
+};
+
+describe('requestMetrics', () => {
+  beforeEach(() => {
+    metricsRegistry.reset();
+  });
+
+  it('should label requests with the route pattern, status and mode', async () => {
+    const app = createApp();
+
+    await request(app).post('/api/items').send({ mode: 'code' });
+    await request(app).get('/api/items/42');
+    await request(app).get('/api/items/42/unknown');
+
+    expect(metrics.httpRequests.get({ route: '/api/items', method: 'POST', status: 201, mode: 'code' })).toBe(1);
+    expect(metrics.httpRequests.get({ route: '/api/items/:id', method: 'GET', status: 404, mode: 'none' })).toBe(1);
+    // Counted once, although it falls through to the /api mount
+    expect(metrics.httpRequests.get({ route: '/api/items/*', method: 'GET', status: 404, mode: 'none' })).toBe(1);
+    expect(metrics.httpRequestDuration.count({ route: '/api/items', method: 'POST' })).toBe(1);
+  });
+
+  it('should count and time streams the client aborts', async () => {
+    await abortStream(createApp());
+
+    expect(metrics.httpRequests.get({ route: '/api/items/stream/events', method: 'GET', status: 200, mode: 'none' })).toBe(1);
+    expect(metrics.httpRequestDuration.count({ route: '/api/items/stream/events', method: 'GET' })).toBe(1);
+  });
+
+  it('should count rate-limit rejections', async () => {
+    const app = createApp();
+
+    for (let i = 0; i < 4; i++) {
+      await request(app).post('/api/items').send({ mode: 'json' });
+    }
+
+    expect(metrics.rateLimitRejections.get({ reason: 'rate_limit', client: 'ip' })).toBe(1);
+    expect(metrics.httpRequests.get({ route: '/api/items/*', method: 'POST', status: 429, mode: 'json' })).toBe(1);
+  });
+
+  it('should serve the registry in the Prometheus text format', async () => {
+    const app = createApp();
+    await request(app).post('/api/items').send({ mode: 'code' });
+
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain('# TYPE loogi_http_requests_total counter');
+    expect(response.text).toContain('loogi_http_requests_total{route="/api/items",method="POST",status="201",mode="code"} 1');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createRateLimiter } from '../rateLimiter';
+import { errorHandler } from '../errorHandler';
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use(createRateLimiter(60000, 3, req => Array.isArray(req.body?.items) ? req.body.items.length : 1));
+  app.post('/', (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+  app.use(errorHandler);
+  return app;
+};
+
+describe('createRateLimiter', () => {
+  it('should count weighted requests as several hits', async () => {
+    const app = createApp();
+
+    expect((await request(app).post('/').send({ items: [1, 2] })).status).toBe(200);
+    expect((await request(app).post('/').send({ items: [1, 2] })).status).toBe(429);
+  });
+
+  it('should count unweighted requests once', async () => {
+    const app = createApp();
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request(app).post('/').send({})).status).toBe(200);
+    }
+    expect((await request(app).post('/').send({})).status).toBe(429);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { validateJsonSchemas } from '../validation';
+import { errorHandler } from '../errorHandler';
+
+const app = express();
+app.use(express.json());
+app.post('/enhance', validateJsonSchemas, (_req, res) => {
+  res.status(200).json({ ok: true });
+});
+app.use(errorHandler);
+
+describe('validateJsonSchemas', () => {
+  it('should pass requests with compilable or without schemas', async () => {
+    expect((await request(app).post('/enhance').send({ prompt: 'Hi', jsonSchema: { type: 'object' } })).status).toBe(200);
+    expect((await request(app).post('/enhance').send({ items: [{ prompt: 'Hi' }] })).status).toBe(200);
+  });
+
+  it('should reject schemas that do not compile with the offending fields', async () => {
+    const response = await request(app).post('/enhance').send({
+      items: [{ jsonSchema: { type: 'object' } }, { jsonSchema: { type: 'objekt' } }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details).toEqual([
+      expect.objectContaining({ field: 'items.1.jsonSchema', message: expect.stringMatching(/^Invalid JSON Schema: /) }),
+    ]);
+  });
+});
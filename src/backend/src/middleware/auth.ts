@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope, TaskMode } from '@loogi/shared';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { ApiKeyRecord, RowOwner } from '../services/storage';
+import { AuthenticationError, ForbiddenError, RateLimitError } from './errorHandler';
+import { metrics } from '../services/metrics';
+import { config } from '../config/index';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Key the request authenticated with; absent for anonymous requests */
+    apiKey?: ApiKeyRecord;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+
+/**
+ * Key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+const readApiKey = (req: Request): string | undefined => {
+  const bearer = /^Bearer\s+(\S+)\s*$/i.exec(req.get('Authorization') || '');
+  return bearer?.[1] ?? (req.get('X-API-Key') || undefined);
+};
+
+/**
+ * Attach the request's API key. Unknown and revoked keys are rejected; requests without
+ * a key pass anonymously unless `required` (API_KEYS_REQUIRED).
+ */
+export const createAuthenticator = (apiKeys: ApiKeyService = apiKeyService, required = config.auth.required) =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const secret = readApiKey(req);
+      if (!secret) {
+        next(required ? new AuthenticationError('An API key is required') : undefined);
+        return;
+      }
+
+      const key = await apiKeys.authenticate(secret);
+      if (!key) {
+        throw new AuthenticationError('Invalid or revoked API key');
+      }
+
+      req.apiKey = key;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const authenticate = createAuthenticator();
+
+/**
+ * Only let through requests whose key has `scope`, even when anonymous access is allowed
+ */
+export const requireScope = (scope: ApiKeyScope) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.apiKey) {
+      next(new AuthenticationError(`An API key with the ${scope} scope is required`));
+      return;
+    }
+
+    next(ApiKeyService.hasScope(req.apiKey, scope) ? undefined : new ForbiddenError(`API key lacks the ${scope} scope`));
+  };
+
+/**
+ * Stored rows (history, jobs, webhook deliveries) a request may access: admin keys all of
+ * them, other keys their own, anonymous requests those made without a key
+ */
+export const rowOwner = (req: Request): RowOwner => {
+  if (!req.apiKey) {
+    return null;
+  }
+  return ApiKeyService.hasScope(req.apiKey, 'admin') ? undefined : req.apiKey.id;
+};
+
+/**
+ * Per-key checks for enhancement requests, after body validation: the enhance scope, the
+ * mode allow-list (for every batch item) and the daily token quota. Anonymous requests pass.
+ * A request that starts within the quota is completed even if it ends up exceeding it.
+ */
+export const createKeyLimits = (apiKeys: ApiKeyService = apiKeyService) =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const key = req.apiKey;
+    if (!key) {
+      next();
+      return;
+    }
+
+    try {
+      if (!ApiKeyService.hasScope(key, 'enhance')) {
+        throw new ForbiddenError('API key lacks the enhance scope');
+      }
+
+      const modes: TaskMode[] = Array.isArray(req.body.items)
+        ? req.body.items.map((item: { mode: TaskMode }) => item.mode)
+        : [req.body.mode];
+      const denied = [...new Set(modes.filter(mode => !ApiKeyService.allowsMode(key, mode)))];
+      if (denied.length > 0) {
+        throw new ForbiddenError(`Mode not allowed for this API key: ${denied.join(', ')}`);
+      }
+
+      if ((await apiKeys.remainingTokens(key)) === 0) {
+        metrics.rateLimitRejections.inc({ reason: 'token_quota', client: 'key' });
+        throw new RateLimitError(`Daily token quota of ${key.dailyTokenQuota} exhausted for this API key`);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const enforceKeyLimits = createKeyLimits();
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
+import { OperationError } from '@loogi/shared';
+import { logger } from '../services/logging';
+
+const log = logger.child({ component: 'errorHandler' });
 
 export class AppError extends Error {
   public readonly statusCode: number;
@@ -22,6 +26,30 @@ export class ValidationError extends AppError {
   }
 }
 
+export class AuthenticationError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, true);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 403, true);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found') {
+    super(message, 404, true);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string = 'Resource is in a conflicting state') {
+    super(message, 409, true);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Too many requests') {
     super(message, 429, true);
@@ -34,6 +62,22 @@ export class AIServiceError extends AppError {
   }
 }
 
+/**
+ * Error body for an operation that failed inside an otherwise successful response
+ * (batch items, jobs). Like errorHandler, unexpected errors are not exposed.
+ */
+export const toOperationError = (error: unknown): OperationError =>
+  error instanceof AppError
+    ? { message: error.message, statusCode: error.statusCode, ...(error.details !== undefined && { details: error.details }) }
+    : { message: 'Internal server error', statusCode: 500 };
+
+/**
+ * ZodErrors of schemas from @loogi/shared come from the package's own zod copy, which
+ * `instanceof ZodError` does not recognize
+ */
+export const isZodError = (error: unknown): error is ZodError =>
+  error instanceof ZodError || (error instanceof Error && error.name === 'ZodError');
+
 export const errorHandler = (
   error: Error,
   req: Request,
@@ -48,7 +92,7 @@ export const errorHandler = (
     statusCode = error.statusCode;
     message = error.message;
     details = error.details;
-  } else if (error instanceof ZodError) {
+  } else if (isZodError(error)) {
     statusCode = 400;
     message = 'Validation error';
     details = error.errors.map(err => ({
@@ -72,13 +116,12 @@ export const errorHandler = (
     }
   };
 
-  console.error('Error occurred:', {
-    message: error.message,
-    stack: error.stack,
-    statusCode,
-    path: req.path,
-    method: req.method
-  });
+  // Client errors are expected; only server errors are logged with their stack
+  if (statusCode >= 500) {
+    log.error('Request failed', { error, statusCode, path: req.path, method: req.method });
+  } else {
+    log.warn('Request rejected', { message: error.message, statusCode, path: req.path, method: req.method });
+  }
 
   res.status(statusCode).json(errorResponse);
 };
\ No newline at end of file
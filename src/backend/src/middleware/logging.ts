@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { trace } from '@opentelemetry/api';
+import { Logger, logger, withLogFields } from '../services/logging';
+import { onRequestEnd } from './metrics';
+
+declare module 'express-serve-static-core' {
+  // Set by logRequests in front of every API router
+  interface Request {
+    /** Correlation ID of the request: the caller's X-Request-Id or a generated one */
+    requestId: string;
+    /** Logger whose lines carry the requestId */
+    log: Logger;
+  }
+}
+
+// Callers may pass their own ID; anything that is not a plain token is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const newRequestId = () => `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+const onLoggedRequestEnd = onRequestEnd();
+
+/**
+ * Assigns the request its ID (echoed in X-Request-Id and recorded on the trace), runs the
+ * rest of the chain with it bound to every log line and logs the completed or aborted request
+ */
+export const logRequests = (req: Request, res: Response, next: NextFunction): void => {
+  const startTime = Date.now();
+  const registered = onLoggedRequestEnd(req, res, ({ route, aborted }) => {
+    const fields = {
+      method: req.method,
+      route,
+      status: res.statusCode,
+      durationMs: Date.now() - startTime,
+      ...(aborted && { aborted }),
+    };
+    if (res.statusCode >= 500) {
+      req.log.error('request completed', fields);
+    } else {
+      req.log.info('request completed', fields);
+    }
+  });
+  if (!registered) {
+    next();
+    return;
+  }
+
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : newRequestId();
+  req.requestId = requestId;
+  req.log = logger.child({ requestId });
+  res.setHeader('X-Request-Id', requestId);
+  trace.getActiveSpan()?.setAttribute('loogi.request_id', requestId);
+
+  withLogFields({ requestId }, next);
+};
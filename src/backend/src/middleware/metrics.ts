@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { metrics, metricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../services/metrics';
+import { modeRegistry } from '../services/modes';
+
+/**
+ * Label for the matched route: mount path plus route pattern (e.g. /api/history/:id), so
+ * IDs in the URL don't create new series. Requests rejected before reaching a route
+ * (authentication, unknown paths) are labelled with the mount path and `/*`.
+ */
+export const routeLabel = (mountPath: string, routePath: unknown): string => {
+  if (typeof routePath !== 'string') {
+    return `${mountPath}/*`;
+  }
+  const route = `${mountPath}${routePath}`;
+  return route.length > 1 ? route.replace(/\/$/, '') : route;
+};
+
+export interface RequestEnd {
+  /** routeLabel() of the request */
+  route: string;
+  /** The client closed the connection before the response was complete, e.g. by leaving a stream */
+  aborted: boolean;
+}
+
+/**
+ * Hook for middleware that acts when a request ends. The returned function registers `callback`
+ * for the request's end and returns false, without registering, if it already did for this
+ * request: requests falling through one router pass the middleware of the next mount again.
+ * Aborted responses emit only 'close', completed ones 'finish' and then 'close'; the callback
+ * runs once, on whichever comes first.
+ */
+export const onRequestEnd = () => {
+  const seen = new WeakSet<Request>();
+
+  return (req: Request, res: Response, callback: (end: RequestEnd) => void): boolean => {
+    if (seen.has(req)) {
+      return false;
+    }
+    seen.add(req);
+
+    // Express restores baseUrl when an error leaves the router, so keep the mount path now
+    const mountPath = req.baseUrl;
+    let ended = false;
+    const end = () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      callback({ route: routeLabel(mountPath, req.route?.path), aborted: !res.writableFinished });
+    };
+    res.on('finish', end);
+    res.on('close', end);
+    return true;
+  };
+};
+
+const onMetricsRequestEnd = onRequestEnd();
+
+/**
+ * Count and time the requests of the router it is mounted in front of
+ */
+export const requestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const observeDuration = metrics.httpRequestDuration.startTimer({ method: req.method });
+
+  onMetricsRequestEnd(req, res, ({ route }) => {
+    // Only registered modes become label values
+    const mode = req.body?.mode;
+
+    observeDuration({ route });
+    metrics.httpRequests.inc({
+      route,
+      method: req.method,
+      status: res.statusCode,
+      mode: typeof mode === 'string' && modeRegistry.has(mode) ? mode : 'none',
+    });
+  });
+
+  next();
+};
+
+/**
+ * GET /metrics in the Prometheus text format
+ */
+export const metricsEndpoint = (_req: Request, res: Response): void => {
+  res.status(200).type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
+};
@@ -1,35 +1,82 @@
 import { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { MemoryStore } from 'express-rate-limit';
 import { RateLimitError } from './errorHandler';
+import { metrics } from '../services/metrics';
+import { config } from '../config/index';
 
-const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10);
-const MAX_REQUESTS = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '10', 10);
+const WINDOW_MS = config.rateLimit.windowMs;
+const MAX_REQUESTS = config.rateLimit.maxRequests;
 
-export const createRateLimiter = (windowMs = WINDOW_MS, max = MAX_REQUESTS) => {
-  return rateLimit({
+/**
+ * Requests with an API key are counted per key, against the key's own limit when it has
+ * one; anonymous requests are counted per IP. `weight` lets a request count as several
+ * hits, e.g. one per item of a batch.
+ */
+export const createRateLimiter = (windowMs = WINDOW_MS, max = MAX_REQUESTS, weight?: (req: Request) => number) => {
+  const store = new MemoryStore();
+  const keyGenerator = (req: Request) =>
+    req.apiKey ? `key:${req.apiKey.id}` : req.ip || req.socket.remoteAddress || 'unknown';
+  const limitFor = (req: Request) => req.apiKey?.rateLimit ?? max;
+  const exceeded = (req: Request) => {
+    metrics.rateLimitRejections.inc({ reason: 'rate_limit', client: req.apiKey ? 'key' : 'ip' });
+    return new RateLimitError(`Rate limit exceeded. Maximum ${limitFor(req)} requests per ${windowMs / 1000} seconds.`);
+  };
+
+  const limiter = rateLimit({
     windowMs,
-    max,
+    max: limitFor,
+    store,
+    keyGenerator,
     message: 'Too many requests from this IP, please try again later.',
     standardHeaders: true,
     legacyHeaders: false,
     handler: (req: Request, res: Response, next: NextFunction) => {
-      const error = new RateLimitError(
-        `Rate limit exceeded. Maximum ${max} requests per ${windowMs / 1000} seconds.`
-      );
-      next(error);
+      next(exceeded(req));
     },
     skip: (req: Request) => {
       // Skip rate limiting for health checks
       return req.path === '/api/health';
     },
   });
+
+  if (!weight) {
+    return limiter;
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    limiter(req, res, async (error?: unknown) => {
+      if (error) {
+        next(error);
+        return;
+      }
+
+      try {
+        // The limiter already counted one hit; past the limit further hits change nothing
+        const key = keyGenerator(req);
+        const hits = Math.min(weight(req), limitFor(req) + 1);
+        let totalHits = 0;
+        for (let hit = 1; hit < hits; hit++) {
+          ({ totalHits } = await store.increment(key));
+        }
+        next(totalHits > limitFor(req) ? exceeded(req) : undefined);
+      } catch (storeError) {
+        next(storeError);
+      }
+    });
+  };
 };
 
 // Default rate limiter for general API endpoints
 export const apiRateLimiter = createRateLimiter();
 
+// Batch requests count once per item; oversized batches count once and are rejected by the route
+export const enhancementWeight = (req: Request): number => {
+  const items: unknown = req.path === '/batch' ? req.body?.items : undefined;
+  return Array.isArray(items) && items.length <= config.batch.maxItems ? Math.max(items.length, 1) : 1;
+};
+
 // Stricter rate limiter for enhancement endpoints
-export const enhancementRateLimiter = createRateLimiter(WINDOW_MS, Math.floor(MAX_REQUESTS / 2));
+export const enhancementRateLimiter = createRateLimiter(WINDOW_MS, config.rateLimit.enhancementMaxRequests, enhancementWeight);
 
 // IP-based rate limiting with custom logic
 export const createIPRateLimiter = (windowMs = WINDOW_MS, max = MAX_REQUESTS) => {
@@ -47,6 +94,7 @@ export const createIPRateLimiter = (windowMs = WINDOW_MS, max = MAX_REQUESTS) =>
     }
     
     if (ipData.count >= max) {
+      metrics.rateLimitRejections.inc({ reason: 'rate_limit', client: 'ip' });
       const error = new RateLimitError(
         `Rate limit exceeded for IP ${ip}. Maximum ${max} requests per ${windowMs / 1000} seconds.`
       );
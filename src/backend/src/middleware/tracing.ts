@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { ROOT_CONTEXT, SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { tracer } from '../services/tracing';
+import { onRequestEnd } from './metrics';
+
+const onTracedRequestEnd = onRequestEnd();
+
+/**
+ * Server span for each request of the router it is mounted in front of, continuing the
+ * caller's trace from an incoming W3C `traceparent` header. Later stages run as its children.
+ */
+export const traceRequests = (req: Request, res: Response, next: NextFunction): void => {
+  // Ends the span started below
+  const registered = onTracedRequestEnd(req, res, ({ route }) => {
+    span.updateName(`${req.method} ${route}`);
+    span.setAttributes({ 'http.route': route, 'http.response.status_code': res.statusCode });
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+  if (!registered) {
+    next();
+    return;
+  }
+
+  const parentContext = propagation.extract(ROOT_CONTEXT, req.headers);
+  const span = tracer.startSpan(`${req.method} ${req.baseUrl}`, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      'http.request.method': req.method,
+      'url.path': req.originalUrl.split('?')[0],
+    },
+  }, parentContext);
+
+  context.with(trace.setSpan(parentContext, span), next);
+};
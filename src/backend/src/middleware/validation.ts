@@ -1,15 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import { ZodSchema, ZodError } from 'zod';
-import { ValidationError } from './errorHandler';
+import { ZodSchema } from 'zod';
+import type { UserInput } from '@loogi/shared';
+import { ValidationError, isZodError } from './errorHandler';
+import { withSpanSync } from '../services/tracing';
+import { ModeRegistry, modeRegistry } from '../services/modes';
+import { compileJsonSchema } from '../services/validation';
 
 export const validateRequest = (schema: ZodSchema) => {
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
-      const validated = schema.parse(req.body);
+      const validated = withSpanSync('request.validate', { attributes: { 'validation.target': 'body' } }, () => schema.parse(req.body));
       req.body = validated;
       next();
     } catch (error) {
-      if (error instanceof ZodError) {
+      if (isZodError(error)) {
         const validationError = new ValidationError(
           'Request validation failed',
           error.errors.map(err => ({
@@ -29,11 +33,11 @@ export const validateRequest = (schema: ZodSchema) => {
 export const validateQuery = (schema: ZodSchema) => {
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
-      const validated = schema.parse(req.query);
+      const validated = withSpanSync('request.validate', { attributes: { 'validation.target': 'query' } }, () => schema.parse(req.query));
       req.query = validated;
       next();
     } catch (error) {
-      if (error instanceof ZodError) {
+      if (isZodError(error)) {
         const validationError = new ValidationError(
           'Query validation failed',
           error.errors.map(err => ({
@@ -48,4 +52,50 @@ export const validateQuery = (schema: ZodSchema) => {
       }
     }
   };
-};
\ No newline at end of file
+};
+
+// The validated enhancement request, or every item of a batch, with the prefix of its fields
+const enhancementInputs = (body: { items?: UserInput[] } & Partial<UserInput>): Array<[UserInput, string]> =>
+  Array.isArray(body.items)
+    ? body.items.map((item, index) => [item, `items.${index}.`])
+    : [[body as UserInput, '']];
+
+/**
+ * Reject enhancement requests for modes the registry doesn't define, after body validation:
+ * the `mode` of the request, or of every batch item
+ */
+export const createModeValidation = (registry: ModeRegistry = modeRegistry) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const unknownModes = enhancementInputs(req.body).flatMap(([{ mode }, prefix]) => registry.has(mode) ? [] : [{
+      field: `${prefix}mode`,
+      message: `Unknown mode: ${mode}`,
+      code: 'invalid_enum_value'
+    }]);
+
+    next(unknownModes.length > 0 ? new ValidationError('Request validation failed', unknownModes) : undefined);
+  };
+
+export const validateModes = createModeValidation();
+
+/**
+ * Reject JSON Schemas that don't compile, after body validation
+ */
+export const validateJsonSchemas = (req: Request, _res: Response, next: NextFunction): void => {
+  const invalidSchemas = enhancementInputs(req.body).flatMap(([{ jsonSchema }, prefix]) => {
+    if (!jsonSchema) {
+      return [];
+    }
+    try {
+      compileJsonSchema(jsonSchema);
+      return [];
+    } catch (error) {
+      return [{
+        field: `${prefix}jsonSchema`,
+        message: `Invalid JSON Schema: ${error instanceof Error ? error.message : error}`,
+        code: 'custom'
+      }];
+    }
+  });
+
+  next(invalidSchemas.length > 0 ? new ValidationError('Request validation failed', invalidSchemas) : undefined);
+};
@@ -1,32 +1,7 @@
-import { z } from 'zod';
-import { TaskMode, LegacyAIMode } from './UserInput';
+import { EnhancedPrompt, EnhancedPromptSchema, LegacyAIMode, TaskMode } from '@loogi/shared';
 
-export const EnhancedPromptSchema = z.object({
-  originalPrompt: z.string().min(1),
-  enhancedPrompt: z.string().min(1),
-  mode: z.enum(['standard', 'creative', 'technical', 'scientifically', 'code', 'json', 'translate', 'summarize', 'analysis', 'plan', 'recipe', 'support', 'marketing', 'write', 'table']),
-  improvements: z.array(z.string()),
-  metadata: z.object({
-    processingTime: z.number().positive(),
-    tokenUsage: z.object({
-      promptTokens: z.number().int().nonnegative(),
-      completionTokens: z.number().int().nonnegative(),
-      totalTokens: z.number().int().nonnegative(),
-    }),
-    model: z.string(),
-    timestamp: z.string().datetime(),
-    taskMode: z.string().optional(),
-    validationResult: z.object({
-      isValid: z.boolean(),
-      violations: z.array(z.string()),
-    }).optional(),
-    attempts: z.number().int().min(1).default(1),
-    promptId: z.string().optional(),
-    contractEnforced: z.boolean().default(false),
-  }),
-});
-
-export type EnhancedPrompt = z.infer<typeof EnhancedPromptSchema>;
+export { EnhancedPromptSchema } from '@loogi/shared';
+export type { EnhancedPrompt } from '@loogi/shared';
 
 export class EnhancedPromptModel implements EnhancedPrompt {
   public readonly originalPrompt: string;
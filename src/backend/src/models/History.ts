@@ -0,0 +1,3 @@
+// Request/response contracts of the /api/history routes
+export { ContractStatsQuerySchema, HistoryQuerySchema } from '@loogi/shared';
+export type { ContractStats, ContractStatsQuery, ContractTotals, HistoryEntry, HistoryPage, HistoryQuery } from '@loogi/shared';
@@ -1,28 +1,9 @@
-import { z } from 'zod';
+import { TaskMode, UserInput, UserInputSchema } from '@loogi/shared';
+import { modeRegistry } from '../services/modes';
 
-// Legacy modes for backward compatibility
-export const LegacyAIModeSchema = z.enum(['standard', 'creative', 'technical', 'scientifically']);
-export type LegacyAIMode = z.infer<typeof LegacyAIModeSchema>;
-
-// New task modes
-export const TaskModeSchema = z.enum([
-  'code', 'json', 'translate', 'summarize', 'analysis', 'plan', 'recipe', 
-  'support', 'marketing', 'write', 'table', 'standard', 'creative', 'technical', 'scientifically'
-]);
-export type TaskMode = z.infer<typeof TaskModeSchema>;
-
-export const UserInputSchema = z.object({
-  prompt: z.string().min(1).max(50000),
-  mode: TaskModeSchema.default('standard'),
-  context: z.string().optional(),
-  maxTokens: z.number().int().min(100).max(4000).default(2000),
-  language: z.string().optional(),
-  enableContractEnforcement: z.boolean().default(true),
-  targetLanguage: z.string().optional(), // For translation tasks
-  codeLanguage: z.string().optional(), // For code tasks
-});
-
-export type UserInput = z.infer<typeof UserInputSchema>;
+// Schemas live in the shared API contract package consumed by the frontend as well
+export { LegacyAIModeSchema, TaskModeSchema, UserInputSchema } from '@loogi/shared';
+export type { LegacyAIMode, TaskMode, UserInput } from '@loogi/shared';
 
 export class UserInputModel implements UserInput {
   public readonly prompt: string;
@@ -33,6 +14,8 @@ export class UserInputModel implements UserInput {
   public readonly enableContractEnforcement: boolean;
   public readonly targetLanguage?: string;
   public readonly codeLanguage?: string;
+  public readonly jsonSchema?: Record<string, unknown>;
+  public readonly tableColumns?: string[];
   public readonly id: string;
   public readonly createdAt: Date;
   public readonly hash: string;
@@ -47,6 +30,8 @@ export class UserInputModel implements UserInput {
     this.enableContractEnforcement = validated.enableContractEnforcement;
     this.targetLanguage = validated.targetLanguage;
     this.codeLanguage = validated.codeLanguage;
+    this.jsonSchema = validated.jsonSchema;
+    this.tableColumns = validated.tableColumns;
     this.id = this.generateId();
     this.hash = this.generateHash();
     this.createdAt = new Date();
@@ -65,8 +50,12 @@ export class UserInputModel implements UserInput {
       context: this.context,
       maxTokens: this.maxTokens,
       language: this.language,
+      // Unenforced output is unvalidated and must not be served to enforced requests
+      enableContractEnforcement: this.enableContractEnforcement,
       targetLanguage: this.targetLanguage,
-      codeLanguage: this.codeLanguage
+      codeLanguage: this.codeLanguage,
+      jsonSchema: this.jsonSchema,
+      tableColumns: this.tableColumns
     }));
     return hash.digest('hex').substring(0, 16);
   }
@@ -81,6 +70,8 @@ export class UserInputModel implements UserInput {
       enableContractEnforcement: this.enableContractEnforcement,
       targetLanguage: this.targetLanguage,
       codeLanguage: this.codeLanguage,
+      jsonSchema: this.jsonSchema,
+      tableColumns: this.tableColumns,
     };
   }
 
@@ -92,28 +83,11 @@ export class UserInputModel implements UserInput {
   }
 
   public getModeDescription(): string {
-    const modeDescriptions = {
-      code: 'Generate code with strict formatting requirements',
-      json: 'Generate valid JSON data structures',
-      translate: 'Translate text between languages',
-      summarize: 'Create concise summaries of content',
-      analysis: 'Provide structured analysis with TL;DR',
-      plan: 'Create detailed execution plans',
-      recipe: 'Provide step-by-step instructions',
-      support: 'Provide technical support solutions',
-      marketing: 'Create persuasive marketing content',
-      write: 'Generate general written content',
-      table: 'Create structured comparison tables',
-      standard: 'Standard enhancement for general purpose prompts',
-      creative: 'Creative enhancement with imaginative and artistic elements',
-      technical: 'Technical enhancement with precise and detailed specifications',
-      scientifically: 'Scientific enhancement focusing on academic rigor and methodological precision'
-    };
-    return modeDescriptions[this.mode] || modeDescriptions.standard;
+    return (modeRegistry.get(this.mode) ?? modeRegistry.get('standard'))?.purpose ?? '';
   }
 
   public isLegacyMode(): boolean {
-    return ['standard', 'creative', 'technical', 'scientifically'].includes(this.mode);
+    return modeRegistry.get(this.mode)?.group === 'style';
   }
 
   public getTaskMode(): TaskMode {
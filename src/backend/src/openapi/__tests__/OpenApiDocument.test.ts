@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { Router } from 'express';
+import { apiRoutes } from '../../routes';
+import { buildOpenApiDocument, ROUTE_SPECS } from '..';
+
+/**
+ * Collect `METHOD /path` for every route registered on the mounted routers, with
+ * express params converted to OpenAPI templates and optional params expanded
+ */
+const registeredRoutes = (): string[] => apiRoutes.flatMap(({ path: mountPath, router }: { path: string; router: Router }) =>
+  router.stack.flatMap(layer => {
+    if (!layer.route) {
+      return [];
+    }
+
+    const fullPath = `${mountPath}${layer.route.path}`.replace(/\/$/, '') || '/';
+    const variants = fullPath.includes('?')
+      ? [fullPath.replace(/\/:\w+\?/g, ''), fullPath.replace(/\?/g, '')]
+      : [fullPath];
+    const methods = [...new Set(layer.route.stack.map(routeLayer => routeLayer.method))];
+
+    return variants.flatMap(variant => methods.map(method =>
+      `${method.toUpperCase()} ${variant.replace(/:(\w+)/g, '{$1}')}`
+    ));
+  })
+);
+
+const documentedRoutes = (): string[] => {
+  const { paths } = buildOpenApiDocument();
+  return Object.entries(paths).flatMap(([path, operations]) =>
+    Object.keys(operations).map(method => `${method.toUpperCase()} ${path}`)
+  );
+};
+
+describe('OpenAPI document', () => {
+  it('should document every registered route', () => {
+    const documented = new Set(documentedRoutes());
+    const undocumented = registeredRoutes().filter(route => !documented.has(route));
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('should not document routes that do not exist', () => {
+    const registered = new Set(registeredRoutes());
+    const stale = documentedRoutes().filter(route => !registered.has(route));
+
+    expect(stale).toEqual([]);
+  });
+
+  it('should describe request bodies with the shared UserInput schema', () => {
+    const document = buildOpenApiDocument();
+    const userInput = document.components.schemas.UserInput as { properties: Record<string, { enum?: string[] }>; required: string[] };
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(userInput.required).toEqual(['prompt']);
+    // Any mode ID; the mode registry decides which exist
+    expect(userInput.properties.mode).toMatchObject({ type: 'string', pattern: expect.any(String), default: 'standard' });
+    expect(document.paths['/enhance']?.post).toMatchObject({
+      requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/UserInput' } } } },
+    });
+  });
+
+  it('should document history query parameters and path templates', () => {
+    const document = buildOpenApiDocument();
+    const list = document.paths['/history']?.get as { parameters: Array<{ name: string; in: string; required: boolean }> };
+
+    expect(list.parameters.map(param => param.name)).toEqual(['page', 'pageSize', 'mode', 'taskMode', 'from', 'to', 'valid', 'q']);
+    expect(list.parameters.every(param => param.in === 'query' && !param.required)).toBe(true);
+    expect(document.paths['/history/{id}']?.delete).toMatchObject({
+      parameters: [{ name: 'id', in: 'path', required: true }],
+    });
+  });
+
+  it('should keep operation IDs unique', () => {
+    const { paths } = buildOpenApiDocument();
+    const operationIds = ROUTE_SPECS.map(route =>
+      (paths[route.path]?.[route.method] as { operationId: string }).operationId
+    );
+
+    expect(new Set(operationIds).size).toBe(ROUTE_SPECS.length);
+  });
+});
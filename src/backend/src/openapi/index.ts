@@ -0,0 +1,668 @@
+import { z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  AIEventPageSchema,
+  AIEventQuerySchema,
+  AIEventSchema,
+  ApiKeySchema,
+  BatchEnhanceRequestSchema,
+  BatchEnhanceResponseSchema,
+  ClientConfigSchema,
+  ContractStatsQuerySchema,
+  ContractStatsSchema,
+  CreateApiKeyRequestSchema,
+  CreatedApiKeySchema,
+  EnhanceResponseSchema,
+  EnhancedPromptSchema,
+  HistoryEntrySchema,
+  HistoryPageSchema,
+  HistoryQuerySchema,
+  JobSchema,
+  ModeListSchema,
+  ServiceStatusSchema,
+  TableExportQuerySchema,
+  UsageQuerySchema,
+  UsageReportSchema,
+  UserInputSchema,
+  WebhookDeliveryPageSchema,
+  WebhookDeliveryQuerySchema,
+  WebhookDeliverySchema,
+  WebhookPayloadSchema,
+} from '@loogi/shared';
+
+/**
+ * OpenAPI 3.1 description of the HTTP API, generated from the shared zod contracts.
+ * Every route registered in src/routes must have an entry in ROUTE_SPECS.
+ */
+
+export type HttpMethod = 'get' | 'post' | 'delete';
+
+type JsonSchema = Record<string, unknown>;
+
+interface ResponseSpec {
+  description: string;
+  // Component name or inline zod schema of a JSON body
+  schema?: string | ZodTypeAny;
+  contentType?: string;
+  // Other representations of the same response, by media type
+  alternatives?: Record<string, ZodTypeAny>;
+}
+
+interface ParameterSpec {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface RouteSpec {
+  method: HttpMethod;
+  // OpenAPI path relative to the /api server URL, e.g. /history/{id}
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  requestBody?: string;
+  query?: z.AnyZodObject;
+  pathParams?: ParameterSpec[];
+  // `public` routes take no API key, `admin` routes require one with the admin scope;
+  // all others accept a key and require one when API_KEYS_REQUIRED is set
+  access?: 'public' | 'admin';
+  responses: Record<number, ResponseSpec>;
+}
+
+const HealthStatusSchema = z.object({
+  status: z.enum(['healthy', 'degraded', 'unhealthy']),
+  timestamp: z.string(),
+  uptime: z.number(),
+  version: z.string(),
+  environment: z.string(),
+  dependencies: z.object({
+    database: z.enum(['connected', 'disconnected']),
+    aiService: z.enum(['available', 'unavailable']),
+  }),
+});
+
+const ApiErrorSchema = z.object({
+  error: z.object({
+    message: z.string(),
+    statusCode: z.number().int(),
+    timestamp: z.string(),
+    path: z.string(),
+    method: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+const COMPONENT_SCHEMAS: Record<string, ZodTypeAny> = {
+  UserInput: UserInputSchema,
+  EnhancedPrompt: EnhancedPromptSchema,
+  EnhanceResponse: EnhanceResponseSchema,
+  BatchEnhanceRequest: BatchEnhanceRequestSchema,
+  BatchEnhanceResponse: BatchEnhanceResponseSchema,
+  HistoryEntry: HistoryEntrySchema,
+  HistoryPage: HistoryPageSchema.extend({ timestamp: z.string() }),
+  Job: JobSchema,
+  WebhookPayload: WebhookPayloadSchema,
+  WebhookDelivery: WebhookDeliverySchema,
+  WebhookDeliveryPage: WebhookDeliveryPageSchema.extend({ timestamp: z.string() }),
+  ApiKey: ApiKeySchema,
+  CreateApiKeyRequest: CreateApiKeyRequestSchema,
+  CreatedApiKey: CreatedApiKeySchema,
+  UsageReport: UsageReportSchema.extend({ timestamp: z.string() }),
+  ContractStats: ContractStatsSchema.extend({ timestamp: z.string() }),
+  AIEvent: AIEventSchema,
+  AIEventPage: AIEventPageSchema.extend({ timestamp: z.string() }),
+  ModeList: ModeListSchema.extend({ timestamp: z.string() }),
+  HealthStatus: HealthStatusSchema,
+  ApiError: ApiErrorSchema,
+};
+
+const timestamped = <T extends z.ZodRawShape>(shape: T) => z.object({ ...shape, timestamp: z.string() });
+
+const errors = {
+  validation: { description: 'Request validation failed', schema: 'ApiError' },
+  unauthorized: { description: 'Missing, invalid or revoked API key', schema: 'ApiError' },
+  forbidden: { description: 'API key lacks the required scope or mode', schema: 'ApiError' },
+  notFound: { description: 'Resource not found', schema: 'ApiError' },
+  conflict: { description: 'Resource is in a conflicting state', schema: 'ApiError' },
+  rateLimited: { description: 'Rate limit or daily token quota exceeded', schema: 'ApiError' },
+  aiService: { description: 'AI service unavailable', schema: 'ApiError' },
+} satisfies Record<string, ResponseSpec>;
+
+const LOGS_AVAILABILITY = 'Only registered while AI request logging is enabled (disable with `ENABLE_LOGGING=false`); otherwise the route responds with 404.';
+const LOGS_QUERY = 'Events are returned oldest first; pass `nextCursor` as `cursor` for the next page. With `follow=true` the response is an event stream: the events after `cursor` (or `Last-Event-ID`) are replayed, then new events are sent as they are recorded, each as an SSE event named after its type with its ID as the SSE `id`.';
+
+export const ROUTE_SPECS: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/health',
+    tag: 'Health',
+    summary: 'Service health including database connectivity',
+    access: 'public',
+    responses: {
+      200: { description: 'Service is healthy', schema: 'HealthStatus' },
+      503: { description: 'A dependency is unavailable', schema: 'HealthStatus' },
+    },
+  },
+  {
+    method: 'get',
+    path: '/health/ready',
+    tag: 'Health',
+    summary: 'Readiness probe',
+    access: 'public',
+    responses: {
+      200: { description: 'Ready to accept requests', schema: timestamped({ ready: z.boolean() }) },
+      503: { description: 'Not ready', schema: timestamped({ ready: z.boolean() }) },
+    },
+  },
+  {
+    method: 'get',
+    path: '/health/live',
+    tag: 'Health',
+    summary: 'Liveness probe',
+    access: 'public',
+    responses: {
+      200: { description: 'Process is alive', schema: timestamped({ alive: z.boolean() }) },
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance',
+    tag: 'Enhancement',
+    summary: 'Enhance a prompt',
+    description: 'Identical requests are served from the response cache. Send `Cache-Control: no-cache` to force a fresh generation; the `X-Cache` header reports the cache status. With `async=true` the enhancement runs in the background: the response is `202` with a job, whose `Location` header points at `/jobs/{id}`. A `callbackUrl` implies async mode; when the job succeeds or fails a signed WebhookPayload is POSTed to it.',
+    requestBody: 'UserInput',
+    query: z.object({ async: z.enum(['true', 'false']).optional() }),
+    responses: {
+      200: { description: 'Enhanced prompt', schema: 'EnhanceResponse' },
+      202: { description: 'Enhancement queued (`async=true`)', schema: 'Job' },
+      400: errors.validation,
+      403: errors.forbidden,
+      429: errors.rateLimited,
+      503: errors.aiService,
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance/stream',
+    tag: 'Enhancement',
+    summary: 'Enhance a prompt and stream the result as server-sent events',
+    description: 'Emits `delta`, `contract_validation` and `reprompt_started` events while generating, then a `result` event carrying an EnhanceResponse, or an `error` event.',
+    requestBody: 'UserInput',
+    responses: {
+      200: { description: 'Event stream', contentType: 'text/event-stream', schema: z.string() },
+      400: errors.validation,
+      403: errors.forbidden,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance/batch',
+    tag: 'Enhancement',
+    summary: 'Enhance several prompts in one request',
+    description: 'Items are processed with limited concurrency (`BATCH_CONCURRENCY`) and succeed or fail independently. Each item counts against the rate limit; at most `BATCH_MAX_ITEMS` items are accepted.',
+    requestBody: 'BatchEnhanceRequest',
+    responses: {
+      200: { description: 'Per-item results in request order', schema: 'BatchEnhanceResponse' },
+      400: errors.validation,
+      403: errors.forbidden,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance/suggestions',
+    tag: 'Enhancement',
+    summary: 'Suggest improvements without enhancing',
+    requestBody: 'UserInput',
+    responses: {
+      200: {
+        description: 'Suggestions for the prompt',
+        schema: z.object({ suggestions: z.array(z.string()), prompt: z.string(), mode: z.string() }),
+      },
+      400: errors.validation,
+      403: errors.forbidden,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance/validate',
+    tag: 'Enhancement',
+    summary: 'Check a prompt against the quality rules',
+    requestBody: 'UserInput',
+    responses: {
+      200: {
+        description: 'Validation result, with suggestions when the prompt is valid',
+        schema: z.object({
+          validation: z.object({ isValid: z.boolean(), issues: z.array(z.string()), warnings: z.array(z.string()) }),
+          suggestions: z.array(z.string()),
+        }),
+      },
+      400: errors.validation,
+      403: errors.forbidden,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'post',
+    path: '/enhance/deterministic-id',
+    tag: 'Enhancement',
+    summary: 'Compute the deterministic prompt ID used for caching and logs',
+    requestBody: 'UserInput',
+    responses: {
+      200: {
+        description: 'Prompt ID of the normalized input',
+        schema: timestamped({ promptId: z.string(), input: UserInputSchema }),
+      },
+      400: errors.validation,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'get',
+    path: '/enhance/status',
+    tag: 'Service',
+    summary: 'AI service availability and provider circuit breaker state',
+    responses: {
+      200: {
+        description: 'Service status',
+        schema: ServiceStatusSchema.extend({ timestamp: z.string() }),
+      },
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'get',
+    path: '/enhance/config',
+    tag: 'Service',
+    summary: 'Active AI client configuration',
+    access: 'admin',
+    responses: {
+      200: {
+        description: 'Client configuration without credentials',
+        schema: timestamped({ config: ClientConfigSchema }),
+      },
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/enhance/cache',
+    tag: 'Service',
+    summary: 'Flush the enhancement cache',
+    access: 'admin',
+    responses: {
+      200: { description: 'Cache cleared', schema: timestamped({ message: z.string() }) },
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'get',
+    path: '/enhance/logs',
+    tag: 'Logging',
+    summary: 'Recorded AI events, filtered by prompt, event type, mode and time',
+    description: `${LOGS_QUERY} ${LOGS_AVAILABILITY}`,
+    query: AIEventQuerySchema,
+    access: 'admin',
+    responses: {
+      200: { description: 'AI events', schema: 'AIEventPage', alternatives: { 'text/event-stream': z.string() } },
+      400: errors.validation,
+      404: errors.notFound,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'get',
+    path: '/enhance/logs/{promptId}',
+    tag: 'Logging',
+    summary: 'AI events recorded for one prompt',
+    description: `${LOGS_QUERY} ${LOGS_AVAILABILITY}`,
+    query: AIEventQuerySchema.omit({ promptId: true }),
+    pathParams: [{ name: 'promptId', description: 'Deterministic prompt ID', required: true }],
+    access: 'admin',
+    responses: {
+      200: { description: 'AI events of the prompt', schema: 'AIEventPage', alternatives: { 'text/event-stream': z.string() } },
+      400: errors.validation,
+      404: errors.notFound,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/enhance/logs',
+    tag: 'Logging',
+    summary: 'Clear the recorded AI logs',
+    description: LOGS_AVAILABILITY,
+    access: 'admin',
+    responses: {
+      200: { description: 'Logs cleared', schema: timestamped({ message: z.string(), removed: z.number().int() }) },
+      404: errors.notFound,
+      429: errors.rateLimited,
+    },
+  },
+  {
+    method: 'get',
+    path: '/history',
+    tag: 'History',
+    summary: 'List stored enhancements, newest first',
+    query: HistoryQuerySchema,
+    responses: {
+      200: { description: 'Page of history entries', schema: 'HistoryPage' },
+      400: errors.validation,
+    },
+  },
+  {
+    method: 'get',
+    path: '/history/stats',
+    tag: 'History',
+    summary: 'Contract pass rates per mode of the stored enhancements',
+    query: ContractStatsQuerySchema,
+    responses: {
+      200: { description: 'Pass rates per mode', schema: 'ContractStats' },
+      400: errors.validation,
+    },
+  },
+  {
+    method: 'get',
+    path: '/history/{id}',
+    tag: 'History',
+    summary: 'Get a stored enhancement',
+    pathParams: [{ name: 'id', description: 'History entry ID', required: true }],
+    responses: {
+      200: { description: 'History entry', schema: 'HistoryEntry' },
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'get',
+    path: '/history/{id}/table',
+    tag: 'History',
+    summary: 'Export the table of a stored enhancement',
+    description: 'The markdown table of a table mode enhancement, one object per row keyed by column header. `format=csv` returns it as a CSV attachment.',
+    query: TableExportQuerySchema,
+    pathParams: [{ name: 'id', description: 'History entry ID', required: true }],
+    responses: {
+      200: { description: 'Table rows', schema: z.array(z.record(z.string())), alternatives: { 'text/csv': z.string() } },
+      400: errors.validation,
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/history/{id}',
+    tag: 'History',
+    summary: 'Delete a stored enhancement',
+    pathParams: [{ name: 'id', description: 'History entry ID', required: true }],
+    responses: {
+      204: { description: 'Entry deleted' },
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'get',
+    path: '/jobs/{id}',
+    tag: 'Jobs',
+    summary: 'Status, progress and result of an async enhancement',
+    pathParams: [{ name: 'id', description: 'Job ID', required: true }],
+    responses: {
+      200: { description: 'Job', schema: 'Job' },
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/jobs/{id}',
+    tag: 'Jobs',
+    summary: 'Cancel a queued or running async enhancement',
+    pathParams: [{ name: 'id', description: 'Job ID', required: true }],
+    responses: {
+      200: { description: 'Cancelled job', schema: 'Job' },
+      404: errors.notFound,
+      409: errors.conflict,
+    },
+  },
+  {
+    method: 'get',
+    path: '/webhooks/deliveries',
+    tag: 'Jobs',
+    summary: 'Delivery log of job callbacks, newest first',
+    query: WebhookDeliveryQuerySchema,
+    responses: {
+      200: { description: 'Page of webhook deliveries', schema: 'WebhookDeliveryPage' },
+      400: errors.validation,
+    },
+  },
+  {
+    method: 'get',
+    path: '/webhooks/deliveries/{id}',
+    tag: 'Jobs',
+    summary: 'A webhook delivery and its attempts',
+    pathParams: [{ name: 'id', description: 'Delivery ID', required: true }],
+    responses: {
+      200: { description: 'Webhook delivery', schema: 'WebhookDelivery' },
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'get',
+    path: '/keys',
+    tag: 'Access',
+    summary: 'List API keys with today\'s token usage',
+    access: 'admin',
+    responses: {
+      200: { description: 'API keys, newest first', schema: timestamped({ items: z.array(ApiKeySchema) }) },
+    },
+  },
+  {
+    method: 'post',
+    path: '/keys',
+    tag: 'Access',
+    summary: 'Issue an API key',
+    description: 'The key is only returned in this response; the server keeps its SHA-256 hash.',
+    access: 'admin',
+    requestBody: 'CreateApiKeyRequest',
+    responses: {
+      201: { description: 'Issued key including the secret', schema: 'CreatedApiKey' },
+      400: errors.validation,
+    },
+  },
+  {
+    method: 'get',
+    path: '/keys/{id}',
+    tag: 'Access',
+    summary: 'Get an API key with today\'s token usage',
+    access: 'admin',
+    pathParams: [{ name: 'id', description: 'API key ID', required: true }],
+    responses: {
+      200: { description: 'API key', schema: 'ApiKey' },
+      404: errors.notFound,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/keys/{id}',
+    tag: 'Access',
+    summary: 'Revoke an API key',
+    access: 'admin',
+    pathParams: [{ name: 'id', description: 'API key ID', required: true }],
+    responses: {
+      200: { description: 'Revoked key', schema: 'ApiKey' },
+      404: errors.notFound,
+      409: errors.conflict,
+    },
+  },
+  {
+    method: 'get',
+    path: '/usage',
+    tag: 'Access',
+    summary: 'Token usage and cost, aggregated by mode, day, key or model',
+    description: 'Counts every upstream AI call, including contract re-prompts and suggestions; cache hits cost nothing. Requires an API key: keys without the admin scope only see their own usage. `format=csv` returns the groups as a CSV attachment.',
+    query: UsageQuerySchema,
+    responses: {
+      200: { description: 'Usage report', schema: 'UsageReport', alternatives: { 'text/csv': z.string() } },
+      400: errors.validation,
+      403: errors.forbidden,
+    },
+  },
+  {
+    method: 'get',
+    path: '/modes',
+    tag: 'Modes',
+    summary: 'Enhancement styles and task modes offered by the server',
+    description: 'Built-in modes plus those defined in MODES_DIR. Keys restricted to some modes only see those.',
+    responses: {
+      200: { description: 'Modes, styles first, each group in display order', schema: 'ModeList' },
+    },
+  },
+  {
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Documentation',
+    summary: 'This OpenAPI document',
+    access: 'public',
+    responses: {
+      200: { description: 'OpenAPI 3.1 document', schema: z.record(z.unknown()) },
+    },
+  },
+  {
+    method: 'get',
+    path: '/docs',
+    tag: 'Documentation',
+    summary: 'Interactive API viewer',
+    access: 'public',
+    responses: {
+      200: { description: 'Swagger UI page', contentType: 'text/html', schema: z.string() },
+    },
+  },
+];
+
+const toJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+  // Request schemas describe what clients send, so effects/pipes use their input side
+  // zod-to-json-schema types against zod/v3, which is the same runtime as our zod import
+  const jsonSchema = zodToJsonSchema(schema as unknown as Parameters<typeof zodToJsonSchema>[0], {
+    target: 'jsonSchema2019-09',
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+    pipeStrategy: 'input',
+    // Unknown keys are stripped, not rejected, unless a schema is .strict()
+    removeAdditionalStrategy: 'strict',
+    allowedAdditionalProperties: undefined,
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+};
+
+const schemaFor = (schema: string | ZodTypeAny): JsonSchema =>
+  typeof schema === 'string' ? { $ref: `#/components/schemas/${schema}` } : toJsonSchema(schema);
+
+const buildParameters = (route: RouteSpec): JsonSchema[] => {
+  const pathParams = (route.pathParams ?? []).map(param => ({
+    name: param.name,
+    in: 'path',
+    description: param.description,
+    required: param.required,
+    schema: { type: 'string' },
+  }));
+
+  const shape: Record<string, ZodTypeAny> = route.query?.shape ?? {};
+  const queryParams = Object.entries(shape).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: !schema.isOptional(),
+    // Optionality is expressed by `required`; the shared package may bring its own zod copy, so no instanceof
+    schema: toJsonSchema(schema._def.typeName === z.ZodFirstPartyTypeKind.ZodOptional ? schema._def.innerType : schema),
+  }));
+
+  return [...pathParams, ...queryParams];
+};
+
+const securityFor = (route: RouteSpec): JsonSchema[] => {
+  switch (route.access) {
+    case 'public':
+      return [];
+    case 'admin':
+      return [{ bearerAuth: ['admin'] }, { apiKeyHeader: ['admin'] }];
+    default:
+      // `{}` makes the key optional (anonymous access unless API_KEYS_REQUIRED)
+      return [{ bearerAuth: [] }, { apiKeyHeader: [] }, {}];
+  }
+};
+
+const buildResponses = (route: RouteSpec): Record<string, JsonSchema> => {
+  // Every route behind the authentication can answer 401, admin routes also 403
+  const responses: Record<number, ResponseSpec> = { ...route.responses };
+  if (route.access !== 'public') {
+    responses[401] = errors.unauthorized;
+  }
+  if (route.access === 'admin') {
+    responses[403] = errors.forbidden;
+  }
+
+  return Object.fromEntries(Object.entries(responses).map(([status, response]) => [
+    status,
+    {
+      description: response.description,
+      ...(response.schema && {
+        content: {
+          [response.contentType ?? 'application/json']: { schema: schemaFor(response.schema) },
+          ...Object.fromEntries(Object.entries(response.alternatives ?? {}).map(([contentType, schema]) => [
+            contentType,
+            { schema: schemaFor(schema) },
+          ])),
+        },
+      }),
+    },
+  ]));
+};
+
+/**
+ * Build the OpenAPI document served at /api/openapi.json
+ */
+export const buildOpenApiDocument = (version = process.env.npm_package_version || '1.0.0') => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of ROUTE_SPECS) {
+    const parameters = buildParameters(route);
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        tags: [route.tag],
+        summary: route.summary,
+        ...(route.description && { description: route.description }),
+        operationId: `${route.method}${route.path.replace(/[^a-zA-Z0-9]+(.)?/g, (_match, next?: string) => next?.toUpperCase() ?? '')}`,
+        ...(parameters.length > 0 && { parameters }),
+        security: securityFor(route),
+        ...(route.requestBody && {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: schemaFor(route.requestBody) } },
+          },
+        }),
+        responses: buildResponses(route),
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'LOOGI Prompt Supercharger API',
+      version,
+      description: 'Enhances prompts for AI models using legacy styles and contract-enforced task modes.',
+    },
+    servers: [{ url: '/api' }],
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [name, toJsonSchema(schema)])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key as `Authorization: Bearer <key>`' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+// Read by the config when the router is loaded: answer offline
+process.env.AI_PROVIDER = 'mock';
+process.env.CACHE_STORE = 'none';
+
+const { enhanceRouter } = require('../enhance') as typeof import('../enhance');
+const { apiKeyService, authenticate } = require('../../middleware/auth') as typeof import('../../middleware/auth');
+const { errorHandler } = require('../../middleware/errorHandler') as typeof import('../../middleware/errorHandler');
+const { config } = require('../../config/index') as typeof import('../../config/index');
+
+const app = express();
+app.use(express.json());
+app.use(authenticate);
+app.use('/api/enhance', enhanceRouter);
+app.use(errorHandler);
+
+const items = (count: number, mode = 'standard') =>
+  Array.from({ length: count }, (_, index) => ({ prompt: `Explain topic number ${index + 1} in detail`, mode }));
+
+// The rate limiter counts per key, so every test gets a fresh allowance
+const issueKey = async (allowedModes?: string[]) =>
+  (await apiKeyService.issue({ name: 'Batch test', scopes: ['enhance'], allowedModes })).key;
+
+describe('POST /api/enhance/batch', () => {
+  it('should accept batches of up to BATCH_MAX_ITEMS with the default limits', async () => {
+    const key = await issueKey();
+
+    const response = await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({ items: items(config.batch.maxItems) });
+
+    expect(response.status).toBe(200);
+    expect(response.body.summary).toMatchObject({ total: config.batch.maxItems, succeeded: config.batch.maxItems, failed: 0 });
+  });
+
+  it('should reject oversized batches with 400 and count them once', async () => {
+    const key = await issueKey();
+
+    const oversized = await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({ items: items(1000) });
+    expect(oversized.status).toBe(400);
+    expect(oversized.body.error.message).toBe(`A batch may contain at most ${config.batch.maxItems} items`);
+
+    // One hit used, the rest of the allowance remains
+    const batch = await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({ items: items(config.rateLimit.enhancementMaxRequests - 1) });
+    expect(batch.status).toBe(200);
+  });
+
+  it('should count every item against the enhancement rate limit', async () => {
+    const key = await issueKey();
+
+    expect((await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({ items: items(config.batch.maxItems) })).status).toBe(200);
+
+    const next = await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({ items: items(1) });
+    expect(next.status).toBe(429);
+  });
+
+  it('should check the key\'s mode allow-list for every item', async () => {
+    const key = await issueKey(['standard']);
+
+    const response = await request(app).post('/api/enhance/batch').set('X-API-Key', key).send({
+      items: [...items(1), ...items(1, 'creative')],
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.body.error.message).toBe('Mode not allowed for this API key: creative');
+  });
+});
+
+describe('POST /api/enhance with a callbackUrl', () => {
+  it('should refuse callbacks to non-public addresses', async () => {
+    const key = await issueKey();
+    config.webhooks.secret = 'test-secret';
+    try {
+      const response = await request(app).post('/api/enhance').set('X-API-Key', key).send({
+        ...items(1)[0],
+        callbackUrl: 'http://169.254.169.254/latest/meta-data',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe('Callback host 169.254.169.254 resolves to the non-public address 169.254.169.254');
+    } finally {
+      config.webhooks.secret = '';
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { webhooksRouter } from '../webhooks';
+import { apiKeyService, authenticate } from '../../middleware/auth';
+import { errorHandler } from '../../middleware/errorHandler';
+import { Storage } from '../../services/storage';
+
+const app = express();
+app.use(authenticate);
+app.use('/api/webhooks', webhooksRouter);
+app.use(errorHandler);
+
+const issueKey = async (name: string, scopes: Array<'enhance' | 'admin'> = ['enhance']) =>
+  apiKeyService.issue({ name, scopes });
+
+describe('GET /api/webhooks/deliveries', () => {
+  it('should only show a key the deliveries of its own jobs', async () => {
+    const owner = await issueKey('Owner');
+    const other = await issueKey('Other');
+    const admin = await issueKey('Admin', ['admin']);
+    const delivery = await Storage.getWebhookDeliveryRepository().create({
+      jobId: 'job_owned',
+      url: 'https://hooks.example.com/done',
+      event: 'job.succeeded',
+      payload: '{}',
+      apiKeyId: owner.id,
+    });
+
+    const list = (key: string) => request(app).get('/api/webhooks/deliveries').query({ jobId: 'job_owned' }).set('X-API-Key', key);
+    const read = (key: string) => request(app).get(`/api/webhooks/deliveries/${delivery.id}`).set('X-API-Key', key);
+
+    expect((await list(other.key)).body.total).toBe(0);
+    expect((await read(other.key)).status).toBe(404);
+    expect((await request(app).get(`/api/webhooks/deliveries/${delivery.id}`)).status).toBe(404);
+
+    expect((await list(owner.key)).body.items.map((item: { id: string }) => item.id)).toEqual([delivery.id]);
+    expect((await read(owner.key)).status).toBe(200);
+    expect((await read(admin.key)).status).toBe(200);
+  });
+});
@@ -0,0 +1,40 @@
+import express, { Router } from 'express';
+import { getAbsoluteFSPath } from 'swagger-ui-dist';
+import { buildOpenApiDocument } from '../openapi';
+
+const router = Router();
+const openApiDocument = buildOpenApiDocument();
+
+router.get('/openapi.json', (_req, res) => {
+  res.status(200).json(openApiDocument);
+});
+
+// Swagger UI viewer; assets are served locally so the default helmet CSP applies
+router.get('/docs', (req, res) => {
+  const assets = `${req.baseUrl}/docs`;
+
+  res.status(200).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${openApiDocument.info.title}</title>
+  <link rel="stylesheet" href="${assets}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui" data-url="${req.baseUrl}/openapi.json"></div>
+  <script src="${assets}/swagger-ui-bundle.js"></script>
+  <script src="${assets}/swagger-initializer.js"></script>
+</body>
+</html>`);
+});
+
+// Viewer assets; the initializer replaces the Swagger UI demo one to load our document
+router.use('/docs/swagger-initializer.js', (_req, res) => {
+  res.status(200).type('js').send(
+    "window.ui = SwaggerUIBundle({ url: document.getElementById('swagger-ui').dataset.url, dom_id: '#swagger-ui' });"
+  );
+});
+
+router.use('/docs', express.static(getAbsoluteFSPath(), { index: false }));
+
+export { router as docsRouter };
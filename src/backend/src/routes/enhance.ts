@@ -1,18 +1,34 @@
-import { Router } from 'express';
-import { validateRequest } from '../middleware/validation';
+import { Request, Response, Router } from 'express';
+import {
+  AIEvent,
+  AIEventQuery,
+  AIEventQuerySchema,
+  BatchEnhanceRequestSchema,
+  BatchEnhanceResponse,
+  EnhanceResponse,
+} from '@loogi/shared';
+import { validateJsonSchemas, validateModes, validateQuery, validateRequest } from '../middleware/validation';
 import { enhancementRateLimiter } from '../middleware/rateLimiter';
+import { enforceKeyLimits, requireScope } from '../middleware/auth';
 import { UserInputSchema } from '../models/UserInput';
 import { EnhancedPromptEnhancementService } from '../services/EnhancedPromptEnhancementService';
-import { ValidationError } from '../middleware/errorHandler';
+import { JobQueue } from '../services/JobQueue';
+import { AIEventFilter } from '../services/storage';
+import { AppError, ValidationError } from '../middleware/errorHandler';
 import { config } from '../config/index';
 
 const router = Router();
 const enhancementService = new EnhancedPromptEnhancementService();
+// Background runner for `?async=true` requests, shared with the /api/jobs routes
+export const jobQueue = new JobQueue(enhancementService);
 
 // Apply rate limiting to enhancement endpoint
 router.use(enhancementRateLimiter);
 
-router.post('/', validateRequest(UserInputSchema), async (req, res, next) => {
+// `Cache-Control: no-cache` forces a fresh generation (the result still refreshes the cache)
+const shouldBypassCache = (req: Request) => /\bno-cache\b/i.test(req.get('Cache-Control') || '');
+
+router.post('/', validateRequest(UserInputSchema), validateModes, validateJsonSchemas, enforceKeyLimits, async (req, res, next) => {
   try {
     const startTime = Date.now();
     
@@ -25,31 +41,150 @@ router.post('/', validateRequest(UserInputSchema), async (req, res, next) => {
     let warnings: string[] = [];
     if (validation.warnings.length > 0) {
       warnings = validation.warnings;
-      console.log(`Prompt warnings for request: ${validation.warnings.join(', ')}`);
+      req.log.info('Prompt warnings', { warnings });
+    }
+
+    // `?async=true` queues the enhancement and answers right away; poll /api/jobs/:id for the result.
+    // A callbackUrl implies async mode: the outcome is POSTed there when the job finishes.
+    const { callbackUrl, ...input } = req.body;
+    if (req.query.async === 'true' || callbackUrl) {
+      if (callbackUrl && !jobQueue.callbacksEnabled) {
+        throw new ValidationError('Callbacks are disabled: WEBHOOK_SECRET is not configured');
+      }
+      const refused = callbackUrl && await jobQueue.checkCallbackUrl(callbackUrl);
+      if (refused) {
+        throw new ValidationError(refused);
+      }
+
+      const job = await jobQueue.enqueue(input, {
+        bypassCache: shouldBypassCache(req),
+        callbackUrl,
+        apiKeyId: req.apiKey?.id,
+      });
+      res.location(`/api/jobs/${job.id}`);
+      res.status(202).json(job);
+      return;
     }
 
-    // Enhance the prompt
-    const enhancedPrompt = await enhancementService.enhancePrompt(req.body);
+    // Enhance the prompt (identical requests are served from the cache)
+    const { enhancedPrompt, cache, historyId } = await enhancementService.enhancePromptCached(req.body, {
+      bypassCache: shouldBypassCache(req),
+      apiKeyId: req.apiKey?.id,
+    });
     
     const processingTime = Date.now() - startTime;
     
-    res.status(200).json({
+    const response: EnhanceResponse = {
       ...enhancedPrompt,
       ...(warnings.length > 0 && { warnings }),
       _meta: {
         processingTime,
-        requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        cache,
+        ...(historyId && { historyId }),
+        requestId: req.requestId,
+      }
+    };
+
+    res.setHeader('X-Cache', cache.toUpperCase());
+    res.status(200).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stream the enhancement as server-sent events
+router.post('/stream', validateRequest(UserInputSchema), validateModes, validateJsonSchemas, enforceKeyLimits, async (req, res, next) => {
+  const startTime = Date.now();
+
+  const validation = enhancementService.validatePrompt(req.body.prompt);
+  if (!validation.isValid) {
+    next(new ValidationError('Invalid prompt', validation.issues));
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Abort the upstream request when the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  try {
+    const { enhancedPrompt, cache, historyId } = await enhancementService.enhancePromptCached(req.body, {
+      bypassCache: shouldBypassCache(req),
+      apiKeyId: req.apiKey?.id,
+      stream: {
+        onEvent: (event) => sendEvent(event.type, event),
+        signal: abortController.signal,
+      },
+    });
+
+    const result: EnhanceResponse = {
+      ...enhancedPrompt,
+      ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+      _meta: {
+        processingTime: Date.now() - startTime,
+        cache,
+        ...(historyId && { historyId }),
+        requestId: req.requestId,
       }
+    };
+    sendEvent('result', result);
+  } catch (error) {
+    sendEvent('error', {
+      message: error instanceof Error ? error.message : 'Internal server error',
+      statusCode: error instanceof AppError ? error.statusCode : 500,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    res.end();
+  }
+});
+
+// Enhance several prompts in one request; every item counts against the rate limit
+router.post('/batch', validateRequest(BatchEnhanceRequestSchema), validateModes, validateJsonSchemas, enforceKeyLimits, async (req, res, next) => {
+  try {
+    const startTime = Date.now();
+
+    if (req.body.items.length > config.batch.maxItems) {
+      throw new ValidationError(`A batch may contain at most ${config.batch.maxItems} items`);
+    }
+
+    const batch = await enhancementService.enhancePromptBatch(req.body.items, {
+      bypassCache: shouldBypassCache(req),
+      apiKeyId: req.apiKey?.id,
     });
+
+    const response: BatchEnhanceResponse = {
+      ...batch,
+      _meta: {
+        processingTime: Date.now() - startTime,
+        requestId: req.requestId,
+      },
+    };
+
+    res.status(200).json(response);
   } catch (error) {
     next(error);
   }
 });
 
 // Get enhancement suggestions without actually enhancing
-router.post('/suggestions', validateRequest(UserInputSchema), async (req, res, next) => {
+router.post('/suggestions', validateRequest(UserInputSchema), validateModes, validateJsonSchemas, enforceKeyLimits, async (req, res, next) => {
   try {
-    const suggestions = await enhancementService.getEnhancementSuggestions(req.body);
+    const suggestions = await enhancementService.getEnhancementSuggestions(req.body, { apiKeyId: req.apiKey?.id });
     
     res.status(200).json({
       suggestions,
@@ -62,11 +197,11 @@ router.post('/suggestions', validateRequest(UserInputSchema), async (req, res, n
 });
 
 // Validate prompt endpoint
-router.post('/validate', validateRequest(UserInputSchema), async (req, res, next) => {
+router.post('/validate', validateRequest(UserInputSchema), validateModes, validateJsonSchemas, enforceKeyLimits, async (req, res, next) => {
   try {
     const validation = enhancementService.validatePrompt(req.body.prompt);
     const suggestions = validation.isValid ? 
-      await enhancementService.getEnhancementSuggestions(req.body) : 
+      await enhancementService.getEnhancementSuggestions(req.body, { apiKeyId: req.apiKey?.id }) : 
       [];
     
     res.status(200).json({
@@ -93,17 +228,90 @@ router.get('/status', async (_req, res, next) => {
   }
 });
 
-// Only add log endpoints if logging is enabled
+// Comment sent to clients following the AI event log, so proxies keep the connection open
+const FOLLOW_KEEPALIVE_MS = 15000;
+
+/**
+ * `GET /logs?follow=true`: replay the events after the cursor (or the Last-Event-ID of a
+ * reconnecting client), then stream new events as they are recorded
+ */
+const followLogs = async (req: Request, res: Response, filter: AIEventFilter) => {
+  const lastEventId = req.get('Last-Event-ID');
+  const cursor = filter.cursor ?? (lastEventId && /^\d+$/.test(lastEventId) ? lastEventId : undefined);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  // Events arrive in ID order; one both replayed and received live is sent once
+  let lastSent = Number(cursor ?? 0);
+  const send = (event: AIEvent) => {
+    if (Number(event.id) <= lastSent) {
+      return;
+    }
+    lastSent = Number(event.id);
+    res.write(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Follow before replaying so no event is lost in between; live events wait for the replay
+  let replaying = true;
+  const received: AIEvent[] = [];
+  const stop = enhancementService.followLogs(filter, (event) => {
+    if (replaying) {
+      received.push(event);
+    } else {
+      send(event);
+    }
+  });
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), FOLLOW_KEEPALIVE_MS);
+  res.on('close', () => {
+    stop();
+    clearInterval(keepAlive);
+  });
+
+  try {
+    if (cursor) {
+      let page;
+      do {
+        page = await enhancementService.getLogs({ ...filter, cursor: String(lastSent) });
+        page.logs.forEach(send);
+      } while (page.hasMore && !res.destroyed);
+    }
+  } catch (error) {
+    res.write(`event: error\ndata: ${JSON.stringify({
+      message: error instanceof Error ? error.message : 'Internal server error',
+      statusCode: error instanceof AppError ? error.statusCode : 500,
+      timestamp: new Date().toISOString(),
+    })}\n\n`);
+    res.end();
+    return;
+  }
+
+  replaying = false;
+  received.forEach(send);
+};
+
+// Only add log endpoints if logging is enabled; they expose prompts of every caller
 if (config.logging.enabled) {
-  // Get AI logs for debugging
-  router.get('/logs/:promptId?', async (req, res, next) => {
+  // AI events, oldest first: filter by prompt, event type, mode and time; page with ?cursor=
+  router.get('/logs/:promptId?', requireScope('admin'), validateQuery(AIEventQuerySchema), async (req, res, next) => {
     try {
-      const { promptId } = req.params;
-      const logs = enhancementService.getLogs(promptId);
-      
+      const { follow, ...filter } = req.query as unknown as AIEventQuery;
+      if (req.params.promptId) {
+        filter.promptId = req.params.promptId;
+      }
+
+      if (follow) {
+        await followLogs(req, res, filter);
+        return;
+      }
+
+      const page = await enhancementService.getLogs(filter);
       res.status(200).json({
-        logs,
-        count: logs.length,
+        ...page,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -112,12 +320,13 @@ if (config.logging.enabled) {
   });
 
   // Clear AI logs
-  router.delete('/logs', async (_req, res, next) => {
+  router.delete('/logs', requireScope('admin'), async (_req, res, next) => {
     try {
-      enhancementService.clearLogs();
+      const removed = await enhancementService.clearLogs();
       
       res.status(200).json({
         message: 'AI logs cleared successfully',
+        removed,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -126,8 +335,22 @@ if (config.logging.enabled) {
   });
 }
 
+// Flush the enhancement cache (admin only)
+router.delete('/cache', requireScope('admin'), async (_req, res, next) => {
+  try {
+    await enhancementService.clearCache();
+
+    res.status(200).json({
+      message: 'Enhancement cache cleared successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get deterministic prompt ID
-router.post('/deterministic-id', validateRequest(UserInputSchema), async (req, res, next) => {
+router.post('/deterministic-id', validateRequest(UserInputSchema), validateModes, validateJsonSchemas, async (req, res, next) => {
   try {
     const promptId = enhancementService.getDeterministicPromptId(req.body);
     
@@ -141,13 +364,14 @@ router.post('/deterministic-id', validateRequest(UserInputSchema), async (req, r
   }
 });
 
-// Get client configuration
-router.get('/config', async (_req, res, next) => {
+// Get client configuration (admin only)
+router.get('/config', requireScope('admin'), async (_req, res, next) => {
   try {
     const config = enhancementService.getClientConfig();
     
     res.status(200).json({
       config: {
+        provider: config.provider,
         model: config.model,
         baseURL: config.baseURL,
         maxTokens: config.maxTokens,
@@ -1,20 +1,12 @@
 import { Router } from 'express';
+import { HealthStatus } from '@loogi/shared';
+import { Storage } from '../services/storage';
 
 const router = Router();
 
-interface HealthStatus {
-  status: 'healthy' | 'degraded' | 'unhealthy';
-  timestamp: string;
-  uptime: number;
-  version: string;
-  environment: string;
-  dependencies: {
-    database: 'connected' | 'disconnected';
-    aiService: 'available' | 'unavailable';
-  };
-}
+router.get('/', async (_req, res) => {
+  const databaseConnected = await Storage.getHistoryRepository().ping();
 
-router.get('/', (_req, res) => {
   const healthStatus: HealthStatus = {
     status: 'healthy',
     timestamp: new Date().toISOString(),
@@ -22,7 +14,7 @@ router.get('/', (_req, res) => {
     version: process.env.npm_package_version || '1.0.0',
     environment: process.env.NODE_ENV || 'development',
     dependencies: {
-      database: 'connected', // TODO: Implement actual database check
+      database: databaseConnected ? 'connected' : 'disconnected',
       aiService: 'available', // TODO: Implement actual AI service check
     },
   };
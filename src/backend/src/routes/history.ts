@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { TableExportQuery, TableExportQuerySchema } from '@loogi/shared';
+import { validateQuery } from '../middleware/validation';
+import { rowOwner } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { ContractStatsQuery, ContractStatsQuerySchema, HistoryQuery, HistoryQuerySchema } from '../models/History';
+import { Storage } from '../services/storage';
+import { parseMarkdownTable, tableData, tableToCsv, tableToRecords } from '../services/validation';
+
+const router = Router();
+// Entries are visible to the key that made them and to admin keys; anonymous callers only see
+// entries made without a key
+const historyRepository = Storage.getHistoryRepository();
+
+// List past enhancements, newest first; supports filters and full-text search (?q=)
+router.get('/', validateQuery(HistoryQuerySchema), async (req, res, next) => {
+  try {
+    const page = await historyRepository.list(req.query as unknown as HistoryQuery, rowOwner(req));
+
+    res.status(200).json({
+      ...page,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Contract pass rates per mode of the stored enhancements, optionally within ?from=&to=
+router.get('/stats', validateQuery(ContractStatsQuerySchema), async (req, res, next) => {
+  try {
+    const stats = await historyRepository.contractStats(req.query as unknown as ContractStatsQuery, rowOwner(req));
+
+    res.status(200).json({
+      ...stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const entry = await historyRepository.findById(req.params.id, rowOwner(req));
+    if (!entry) {
+      throw new NotFoundError(`History entry ${req.params.id} not found`);
+    }
+
+    res.status(200).json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Table of a table mode enhancement, as JSON rows keyed by column or ?format=csv
+router.get('/:id/table', validateQuery(TableExportQuerySchema), async (req, res, next) => {
+  try {
+    const { format } = req.query as unknown as TableExportQuery;
+    const { id } = req.params as { id: string };
+    const entry = await historyRepository.findById(id, rowOwner(req));
+    if (!entry) {
+      throw new NotFoundError(`History entry ${id} not found`);
+    }
+
+    // Entries stored before tables were parsed only have the markdown
+    const parsed = entry.result.metadata.table ?? parseMarkdownTable(entry.result.enhancedPrompt);
+    if (!parsed) {
+      throw new NotFoundError(`History entry ${id} has no table`);
+    }
+
+    const table = tableData(parsed);
+    if (format === 'csv') {
+      res
+        .status(200)
+        .type('text/csv')
+        .attachment(`table-${entry.id}.csv`)
+        .send(tableToCsv(table));
+      return;
+    }
+
+    res.status(200).json(tableToRecords(table));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const deleted = await historyRepository.delete(req.params.id, rowOwner(req));
+    if (!deleted) {
+      throw new NotFoundError(`History entry ${req.params.id} not found`);
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as historyRouter };
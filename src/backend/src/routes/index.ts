@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { healthRouter } from './health';
+import { enhanceRouter } from './enhance';
+import { historyRouter } from './history';
+import { jobsRouter } from './jobs';
+import { webhooksRouter } from './webhooks';
+import { keysRouter } from './keys';
+import { usageRouter } from './usage';
+import { modesRouter } from './modes';
+import { docsRouter } from './docs';
+
+export const API_PREFIX = '/api';
+
+/**
+ * Routers mounted under API_PREFIX. Every route they register must be described in
+ * the OpenAPI document (see src/openapi). Routers that are not `public` run behind the
+ * API key authentication.
+ */
+export const apiRoutes: ReadonlyArray<{ path: string; router: Router; public?: boolean }> = [
+  { path: '/health', router: healthRouter, public: true },
+  { path: '/enhance', router: enhanceRouter },
+  { path: '/history', router: historyRouter },
+  { path: '/jobs', router: jobsRouter },
+  { path: '/webhooks', router: webhooksRouter },
+  { path: '/keys', router: keysRouter },
+  { path: '/usage', router: usageRouter },
+  { path: '/modes', router: modesRouter },
+  // /openapi.json and the /docs viewer
+  { path: '', router: docsRouter, public: true },
+];
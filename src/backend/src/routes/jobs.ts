@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { rowOwner } from '../middleware/auth';
+import { jobQueue } from './enhance';
+
+const router = Router();
+
+// Status, progress and, once finished, the result of an async enhancement; only for the key
+// that submitted it and admin keys
+router.get('/:id', async (req, res, next) => {
+  try {
+    const job = await jobQueue.get(req.params.id, rowOwner(req));
+    if (!job) {
+      throw new NotFoundError(`Job ${req.params.id} not found`);
+    }
+
+    res.status(200).json(job);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Cancel a queued or running job
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const job = await jobQueue.cancel(req.params.id, rowOwner(req));
+    if (!job) {
+      throw new NotFoundError(`Job ${req.params.id} not found`);
+    }
+    if (job.status !== 'cancelled') {
+      throw new ConflictError(`Job ${req.params.id} already ${job.status}`);
+    }
+
+    res.status(200).json(job);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as jobsRouter };
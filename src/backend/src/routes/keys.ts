@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { CreateApiKeyRequestSchema } from '@loogi/shared';
+import { validateRequest } from '../middleware/validation';
+import { apiKeyService, requireScope } from '../middleware/auth';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Managing keys requires an admin key (bootstrap the first one with `npm run keys`)
+router.use(requireScope('admin'));
+
+router.get('/', async (_req, res, next) => {
+  try {
+    const items = await apiKeyService.list();
+
+    res.status(200).json({
+      items,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue a key; the secret is only part of this response
+router.post('/', validateRequest(CreateApiKeyRequestSchema), async (req, res, next) => {
+  try {
+    const created = await apiKeyService.issue(req.body);
+
+    res.status(201).json(created);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const key = await apiKeyService.get(req.params.id);
+    if (!key) {
+      throw new NotFoundError(`API key ${req.params.id} not found`);
+    }
+
+    res.status(200).json(key);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke a key; it is kept for the usage records but no longer authenticates
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const revoked = await apiKeyService.revoke(req.params.id);
+    if (!revoked) {
+      const key = await apiKeyService.get(req.params.id);
+      throw key
+        ? new ConflictError(`API key ${req.params.id} already revoked`)
+        : new NotFoundError(`API key ${req.params.id} not found`);
+    }
+
+    res.status(200).json(revoked);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as keysRouter };
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { ModeRegistry, modeRegistry } from '../services/modes';
+
+const router = Router();
+
+// The modes clients can pick from; keys restricted to some modes only see those
+router.get('/', (req, res, next) => {
+  try {
+    const modes = modeRegistry.list()
+      .filter(mode => !req.apiKey || ApiKeyService.allowsMode(req.apiKey, mode.id))
+      .map(ModeRegistry.toMode);
+
+    res.status(200).json({
+      modes,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as modesRouter };
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { UsageQuery, UsageQuerySchema } from '@loogi/shared';
+import { validateQuery } from '../middleware/validation';
+import { apiKeyService, requireScope } from '../middleware/auth';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { UsageService } from '../services/UsageService';
+
+const router = Router();
+const usageService = new UsageService(undefined, apiKeyService);
+
+// Keys see their own usage; admin keys see everyone's and may filter by ?keyId=
+router.use(requireScope('enhance'));
+
+// Token usage and cost aggregated by mode, day, key or model; ?format=csv for a spreadsheet export
+router.get('/', validateQuery(UsageQuerySchema), async (req, res, next) => {
+  try {
+    const { format, ...query } = req.query as unknown as UsageQuery;
+    if (req.apiKey && !ApiKeyService.hasScope(req.apiKey, 'admin')) {
+      query.keyId = req.apiKey.id;
+    }
+
+    const report = await usageService.report(query);
+
+    if (format === 'csv') {
+      res
+        .status(200)
+        .type('text/csv')
+        .attachment(`usage-${report.groupBy}.csv`)
+        .send(UsageService.toCsv(report));
+      return;
+    }
+
+    res.status(200).json({
+      ...report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as usageRouter };
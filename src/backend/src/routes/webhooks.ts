@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { WebhookDeliveryQuery, WebhookDeliveryQuerySchema } from '@loogi/shared';
+import { validateQuery } from '../middleware/validation';
+import { rowOwner } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { Storage } from '../services/storage';
+
+const router = Router();
+const deliveryRepository = Storage.getWebhookDeliveryRepository();
+
+// Delivery log of job callbacks, newest first; filter by ?jobId= and ?status=. Keys see the
+// deliveries of their own jobs, admin keys all of them
+router.get('/deliveries', validateQuery(WebhookDeliveryQuerySchema), async (req, res, next) => {
+  try {
+    const page = await deliveryRepository.list(req.query as unknown as WebhookDeliveryQuery, rowOwner(req));
+
+    res.status(200).json({
+      ...page,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/deliveries/:id', async (req, res, next) => {
+  try {
+    const delivery = await deliveryRepository.findById(req.params.id, rowOwner(req));
+    if (!delivery) {
+      throw new NotFoundError(`Webhook delivery ${req.params.id} not found`);
+    }
+
+    res.status(200).json(delivery);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as webhooksRouter };
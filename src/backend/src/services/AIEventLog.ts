@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { AIEvent, AIEventData, AIEventPage, AIEventType, TaskMode } from '@loogi/shared';
+import { AIEventFilter, AIEventRepository, Storage, matchesAIEventFilter } from './storage';
+import { currentLogFields, logger } from './logging';
+
+const log = logger.child({ component: 'AIEventLog' });
+
+export type AIEventListener = (event: AIEvent) => void;
+
+/**
+ * Durable log of enhancement events (GET /enhance/logs). Events are persisted in the
+ * configured store (AI_EVENT_STORE), written to the structured log and pushed to the
+ * subscribers following the log.
+ */
+export class AIEventLog {
+  private readonly repository: AIEventRepository;
+  private readonly emitter = new EventEmitter();
+
+  constructor(repository: AIEventRepository = Storage.getAIEventRepository()) {
+    this.repository = repository;
+    // One listener per client following the log
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Record an event of the enhancement `promptId`, tagged with the current request ID.
+   * Store failures are logged, never thrown, so they can't fail an enhancement.
+   */
+  async record<E extends AIEventType>(promptId: string, mode: TaskMode, event: E, data: AIEventData<E>): Promise<void> {
+    const { requestId } = currentLogFields();
+    const entry = {
+      event,
+      promptId,
+      mode,
+      ...(typeof requestId === 'string' && { requestId }),
+      data,
+    } as Parameters<AIEventRepository['append']>[0];
+
+    log.info(event, { promptId, mode, ...data });
+    try {
+      this.emitter.emit('event', await this.repository.append(entry));
+    } catch (error) {
+      log.error('Failed to record AI event', { event, promptId, error });
+    }
+  }
+
+  query(filter: AIEventFilter): Promise<AIEventPage> {
+    return this.repository.query(filter);
+  }
+
+  /**
+   * Call `listener` with every event recorded from now on that matches `filter`; returns
+   * the function that stops following
+   */
+  follow(filter: Omit<AIEventFilter, 'cursor' | 'limit'>, listener: AIEventListener): () => void {
+    const onEvent = (event: AIEvent) => {
+      if (matchesAIEventFilter(event, filter)) {
+        listener(event);
+      }
+    };
+    this.emitter.on('event', onEvent);
+    return () => {
+      this.emitter.off('event', onEvent);
+    };
+  }
+
+  clear(): Promise<number> {
+    return this.repository.clear();
+  }
+}
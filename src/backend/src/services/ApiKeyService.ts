@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { ApiKey, ApiKeyScope, CreatedApiKey, TaskMode } from '@loogi/shared';
+import { ApiKeyRecord, ApiKeyRepository, NewApiKey, Storage } from './storage';
+
+const KEY_PREFIX = 'lps_';
+
+/**
+ * Issues and checks API keys. Only the SHA-256 hash of a key is stored; the key itself is
+ * returned once by issue(). Token usage is counted per key and UTC day for the daily quota.
+ */
+export class ApiKeyService {
+  private readonly repository: ApiKeyRepository;
+
+  constructor(repository: ApiKeyRepository = Storage.getApiKeyRepository()) {
+    this.repository = repository;
+  }
+
+  static hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /** The admin scope grants every other scope */
+  static hasScope(key: ApiKeyRecord, scope: ApiKeyScope): boolean {
+    return key.scopes.includes(scope) || key.scopes.includes('admin');
+  }
+
+  static allowsMode(key: ApiKeyRecord, mode: TaskMode): boolean {
+    return !key.allowedModes || key.allowedModes.includes(mode);
+  }
+
+  /** Quota day of `date`, as YYYY-MM-DD in UTC */
+  static day(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  async issue(key: NewApiKey): Promise<CreatedApiKey> {
+    const secret = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const record = await this.repository.create(key, {
+      hash: ApiKeyService.hash(secret),
+      prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    });
+    return { ...record, tokensUsedToday: 0, key: secret };
+  }
+
+  /**
+   * The active key matching `secret`, or undefined for unknown and revoked keys
+   */
+  async authenticate(secret: string): Promise<ApiKeyRecord | undefined> {
+    const key = await this.repository.findByHash(ApiKeyService.hash(secret));
+    if (!key || key.revokedAt) {
+      return undefined;
+    }
+
+    await this.repository.touch(key.id);
+    return key;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const keys = await this.repository.list();
+    return Promise.all(keys.map(key => this.withUsage(key)));
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    const key = await this.repository.findById(id);
+    return key && this.withUsage(key);
+  }
+
+  /**
+   * Revoke an active key; undefined when it does not exist or was already revoked
+   */
+  async revoke(id: string): Promise<ApiKey | undefined> {
+    const key = await this.repository.revoke(id);
+    return key && this.withUsage(key);
+  }
+
+  async recordUsage(keyId: string, totalTokens: number): Promise<void> {
+    if (totalTokens > 0) {
+      await this.repository.addTokens(keyId, ApiKeyService.day(), totalTokens);
+    }
+  }
+
+  /**
+   * Tokens left in today's quota; undefined for keys without a quota
+   */
+  async remainingTokens(key: ApiKeyRecord): Promise<number | undefined> {
+    if (key.dailyTokenQuota === undefined) {
+      return undefined;
+    }
+    const used = await this.repository.tokensUsed(key.id, ApiKeyService.day());
+    return Math.max(0, key.dailyTokenQuota - used);
+  }
+
+  private async withUsage(key: ApiKeyRecord): Promise<ApiKey> {
+    return { ...key, tokensUsedToday: await this.repository.tokensUsed(key.id, ApiKeyService.day()) };
+  }
+}
@@ -1,7 +1,16 @@
-import { OutputContract, ValidationResult } from './OutputValidators';
+import { ModeDefinition, TaskMode } from '@loogi/shared';
+import { OutputContract, ValidationFinding, ValidationResult, ValidatorOptions } from './OutputValidators';
+import type { JsonSchema } from './validation';
 import { AIServiceError } from '../middleware/errorHandler';
+import type { StreamOptions } from './EnhancedDeepseekClient';
+import { AIRequest, AIResponse, jsonSchemaResponseFormat } from './providers';
+import { withSpan } from './tracing';
+import { logger } from './logging';
+import { DEFAULT_TASK_MODE, modeRegistry } from './modes';
 
-export type TaskMode = 'code' | 'json' | 'translate' | 'summarize' | 'analysis' | 'plan' | 'recipe' | 'support' | 'marketing' | 'write' | 'table';
+const log = logger.child({ component: 'ContractEnforcer' });
+
+export type { TaskMode };
 
 export interface ContractEnforcementResult {
   success: boolean;
@@ -9,6 +18,8 @@ export interface ContractEnforcementResult {
   validationResult: ValidationResult;
   attempts: number;
   finalPromptId?: string;
+  /** Upstream responses of the re-prompts, so their token usage can be accounted for */
+  rePromptResponses: AIResponse[];
 }
 
 export interface ContractEnforcementConfig {
@@ -17,11 +28,24 @@ export interface ContractEnforcementConfig {
   enableContractReminder: boolean;
 }
 
+/**
+ * The completion surface the enforcer needs from an AI client
+ */
+export interface CompletionClient {
+  generateCompletion(request: AIRequest): Promise<AIResponse>;
+  generateCompletionStream(
+    request: AIRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse>;
+  getModelInfo(): { model: string };
+}
+
 export class ContractEnforcer {
-  private readonly client: any; // Use any to accept both DeepseekClient and EnhancedDeepseekClient
+  private readonly client: CompletionClient;
   private readonly config: ContractEnforcementConfig;
   
-  constructor(client: any, config: ContractEnforcementConfig = {
+  constructor(client: CompletionClient, config: ContractEnforcementConfig = {
     maxAttempts: 2,
     enableAutoRetry: true,
     enableContractReminder: true
@@ -37,14 +61,18 @@ export class ContractEnforcer {
     content: string,
     mode: TaskMode,
     originalPrompt: string,
-    context?: string
+    context?: string,
+    stream?: StreamOptions,
+    validatorOptions: ValidatorOptions = {}
   ): Promise<ContractEnforcementResult> {
-    const validator = this.getValidator(mode);
+    const validator = this.getValidator(mode, validatorOptions);
     let currentContent = content;
     let attempts = 1;
+    const rePromptResponses: AIResponse[] = [];
     
     // Initial validation
     let validationResult = validator.validate(currentContent);
+    this.emitValidation(stream, attempts, validationResult);
     
     // If valid, return immediately
     if (validationResult.isValid) {
@@ -52,7 +80,8 @@ export class ContractEnforcer {
         success: true,
         content: currentContent,
         validationResult,
-        attempts
+        attempts,
+        rePromptResponses
       };
     }
     
@@ -62,29 +91,45 @@ export class ContractEnforcer {
         success: false,
         content: currentContent,
         validationResult,
-        attempts
+        attempts,
+        rePromptResponses
       };
     }
     
     // Attempt to fix with re-prompting
     while (attempts < this.config.maxAttempts && !validationResult.isValid) {
       attempts++;
+      stream?.onEvent({ type: 'reprompt_started', attempt: attempts, violations: validationResult.violations });
       
       try {
-        const fixedContent = await this.rePromptForContractCompliance(
-          currentContent,
-          validationResult,
-          validator,
-          mode,
-          originalPrompt,
-          context
+        const response = await withSpan(
+          'contract.reprompt',
+          { attributes: { 'loogi.task_mode': mode, 'contract.attempt': attempts, 'contract.violations': validationResult.violations } },
+          () => this.rePromptForContractCompliance(
+            currentContent,
+            validationResult,
+            validator,
+            mode,
+            originalPrompt,
+            context,
+            stream ? { ...stream, attempt: attempts } : undefined,
+            validatorOptions.jsonSchema
+          )
         );
+        // Tokens are spent even when the re-prompt yields nothing usable
+        rePromptResponses.push(response);
+        
+        const fixedContent = response.choices[0]?.message?.content;
+        if (!fixedContent) {
+          throw new AIServiceError('No content generated during contract enforcement');
+        }
         
-        currentContent = fixedContent;
+        currentContent = fixedContent.trim();
         validationResult = validator.validate(currentContent);
+        this.emitValidation(stream, attempts, validationResult);
         
       } catch (error) {
-        console.error(`Contract enforcement attempt ${attempts} failed:`, error);
+        log.error('Contract enforcement attempt failed', { attempt: attempts, error });
         break;
       }
     }
@@ -93,12 +138,13 @@ export class ContractEnforcer {
       success: validationResult.isValid,
       content: currentContent,
       validationResult,
-      attempts
+      attempts,
+      rePromptResponses
     };
   }
   
   /**
-   * Re-prompt the AI to fix contract violations
+   * Re-prompt the AI to fix contract violations; returns the raw response
    */
   private async rePromptForContractCompliance(
     violatingContent: string,
@@ -106,13 +152,21 @@ export class ContractEnforcer {
     validator: OutputContract,
     mode: TaskMode,
     originalPrompt: string,
-    context?: string
-  ): Promise<string> {
+    context?: string,
+    stream?: StreamOptions & { attempt: number },
+    jsonSchema?: JsonSchema
+  ): Promise<AIResponse> {
     const contractReminder = this.config.enableContractReminder 
       ? validator.getRePromptInstruction() 
       : '';
     
-    const violationsList = validationResult.violations.map(v => `- ${v}`).join('\n');
+    // Name every failed rule with its position, so the model can fix the output in place
+    const describe = (severity: ValidationFinding['severity']) => validationResult.findings
+      .filter(finding => finding.severity === severity)
+      .map(finding => this.describeFinding(finding))
+      .join('\n');
+    const violationsList = describe('error');
+    const warningsList = describe('warning');
     
     const rePrompt = `CONTRACT VIOLATION DETECTED
 
@@ -123,7 +177,7 @@ ${violatingContent}
 
 Contract violations:
 ${violationsList}
-
+${warningsList ? `\nAlso improve:\n${warningsList}\n` : ''}
 ${contractReminder}
 
 Original user request:
@@ -134,7 +188,7 @@ ${originalPrompt}
 PRODUCE CORRECT OUTPUT THAT FULLY COMPLIES WITH THE CONTRACT ABOVE.
 NO EXPLANATIONS. NO APOLOGIES. JUST THE CORRECT OUTPUT.`;
 
-    const response = await this.client.generateCompletion({
+    const request: AIRequest = {
       model: this.client.getModelInfo().model,
       messages: [
         {
@@ -148,245 +202,90 @@ NO EXPLANATIONS. NO APOLOGIES. JUST THE CORRECT OUTPUT.`;
       ],
       max_tokens: 2000,
       temperature: 0.1, // Low temperature for consistency
-    });
-    
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new AIServiceError('No content generated during contract enforcement');
-    }
+      ...(jsonSchema && { response_format: jsonSchemaResponseFormat(jsonSchema) }),
+    };
     
-    return content.trim();
+    return stream
+      ? this.client.generateCompletionStream(
+          request,
+          (delta: string) => stream.onEvent({ type: 'delta', attempt: stream.attempt, content: delta }),
+          stream.signal
+        )
+      : this.client.generateCompletion(request);
+  }
+  
+  /**
+   * One finding as a re-prompt line: rule, position and how to fix it
+   */
+  private describeFinding({ rule, message, location, fix }: ValidationFinding): string {
+    const position = location ? ` (line ${location.line}, column ${location.column})` : '';
+    return `- [${rule}]${position} ${message}${fix ? `\n  Fix: ${fix}` : ''}`;
+  }
+  
+  /**
+   * Report a validation outcome to a streaming caller
+   */
+  private emitValidation(stream: StreamOptions | undefined, attempt: number, result: ValidationResult): void {
+    stream?.onEvent({
+      type: 'contract_validation',
+      attempt,
+      isValid: result.isValid,
+      violations: result.violations
+    });
   }
   
   /**
    * Get appropriate validator for the task mode
    */
-  private getValidator(mode: TaskMode): OutputContract {
+  private getValidator(mode: TaskMode, options: ValidatorOptions = {}): OutputContract {
     const { OutputValidatorFactory } = require('./OutputValidators');
-    return OutputValidatorFactory.createValidator(mode);
+    return OutputValidatorFactory.createValidator(mode, options);
   }
   
   /**
    * Validate content against contract without re-prompting
    */
-  validateContent(content: string, mode: TaskMode): ValidationResult {
-    const validator = this.getValidator(mode);
+  validateContent(content: string, mode: TaskMode, options: ValidatorOptions = {}): ValidationResult {
+    const validator = this.getValidator(mode, options);
     return validator.validate(content);
   }
   
   /**
    * Get contract description for a specific mode
    */
-  getContractDescription(mode: TaskMode): string {
-    const validator = this.getValidator(mode);
+  getContractDescription(mode: TaskMode, options: ValidatorOptions = {}): string {
+    const validator = this.getValidator(mode, options);
     return validator.getContractDescription();
   }
 }
 
 /**
- * Intent router for deterministic task mode inference
+ * Intent router for deterministic task mode inference, backed by the mode definitions
  */
 export class IntentRouter {
   /**
    * Deterministically infer task mode from prompt content
    */
   static inferTaskMode(prompt: string, userMode?: string): TaskMode {
-    const lowerPrompt = prompt.toLowerCase().trim();
-    
-    // If user explicitly specified a mode, validate and use it
-    if (userMode) {
-      const validModes: TaskMode[] = ['code', 'json', 'translate', 'summarize', 'analysis', 'plan', 'recipe', 'support', 'marketing', 'write', 'table'];
-      if (validModes.includes(userMode as TaskMode)) {
-        return userMode as TaskMode;
-      }
-    }
-    
-    // Code detection
-    const codeKeywords = ['code', 'programming', 'function', 'class', 'algorithm', 'script', 'compile', 'debug'];
-    const hasCodeKeywords = codeKeywords.some(keyword => lowerPrompt.includes(keyword));
-    const hasCodeBlock = prompt.includes('```') || prompt.includes('def ') || prompt.includes('function ') || prompt.includes('class ');
-    
-    if (hasCodeKeywords || hasCodeBlock) {
-      return 'code';
-    }
-    
-    // JSON detection
-    const jsonKeywords = ['json', 'api', 'data structure', 'object', 'array'];
-    if (jsonKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'json';
-    }
-    
-    // Translation detection
-    const translateKeywords = ['translate', 'übersetz', 'traduc', 'traduire', 'translation'];
-    const languageIndicators = ['english', 'german', 'french', 'spanish', 'chinese', 'japanese'];
-    
-    if (translateKeywords.some(keyword => lowerPrompt.includes(keyword)) || 
-        languageIndicators.some(lang => lowerPrompt.includes(lang))) {
-      return 'translate';
-    }
-    
-    // Summary detection
-    const summaryKeywords = ['summarize', 'summary', 'tl;dr', 'abstract', 'overview', 'condense'];
-    if (summaryKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'summarize';
-    }
-    
-    // Analysis detection
-    const analysisKeywords = ['analyze', 'analysis', 'evaluate', 'assess', 'examine', 'review'];
-    if (analysisKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'analysis';
-    }
-    
-    // Plan detection
-    const planKeywords = ['plan', 'strategy', 'approach', 'method', 'steps', 'procedure'];
-    if (planKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'plan';
-    }
-    
-    // Recipe detection
-    const recipeKeywords = ['recipe', 'how to', 'instructions', 'guide', 'tutorial', 'steps'];
-    if (recipeKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'recipe';
-    }
-    
-    // Table detection
-    const tableKeywords = ['table', 'list', 'compare', 'comparison', 'columns', 'rows'];
-    if (tableKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'table';
-    }
-    
-    // Support detection
-    const supportKeywords = ['help', 'support', 'assist', 'problem', 'issue', 'error', 'fix'];
-    if (supportKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'support';
-    }
-    
-    // Marketing detection
-    const marketingKeywords = ['marketing', 'advertising', 'promotion', 'campaign', 'sales', 'copy'];
-    if (marketingKeywords.some(keyword => lowerPrompt.includes(keyword))) {
-      return 'marketing';
-    }
-    
-    // Default to write mode
-    return 'write';
+    return modeRegistry.inferTaskMode(prompt, userMode);
   }
   
   /**
    * Get deterministic role template for a task mode
    */
   static getRoleTemplate(mode: TaskMode): string {
-    const roles = {
-      code: 'Senior Software Engineer with 10+ years experience in multiple programming languages. Expert in clean code, best practices, and performance optimization.',
-      json: 'Data Engineer specializing in JSON APIs and data structures. Expert in schema design and data validation.',
-      translate: 'Professional translator fluent in multiple languages. Expert in cultural context and accurate translation.',
-      summarize: 'Professional editor and content strategist. Expert in concise communication and key point extraction.',
-      analysis: 'Senior Business Analyst with expertise in data analysis and strategic evaluation.',
-      plan: 'Project Manager and strategic planner with expertise in detailed execution planning.',
-      recipe: 'Professional chef and culinary instructor with expertise in clear, actionable recipes.',
-      support: 'Technical Support Specialist with expertise in clear problem-solving communication.',
-      marketing: 'Marketing Professional with expertise in persuasive copywriting and campaign strategy.',
-      write: 'Professional writer and editor with expertise in clear, engaging content creation.',
-      table: 'Data Analyst specializing in structured data presentation and comparison tables.'
-    };
-    
-    return roles[mode] || roles.write;
+    return IntentRouter.definition(mode).roleTemplate;
   }
   
   /**
    * Get specific contract rules for a task mode
    */
   static getContractRules(mode: TaskMode): string[] {
-    const rules = {
-      code: [
-        'Provide ONLY the code block with no explanation',
-        'Use proper syntax and best practices',
-        'Include necessary imports/dependencies',
-        'Add error handling where appropriate',
-        'Follow language conventions',
-        'Optimize for readability and performance'
-      ],
-      json: [
-        'Provide ONLY valid JSON',
-        'No markdown or formatting',
-        'Use proper data types',
-        'Follow JSON schema conventions',
-        'No comments or explanations',
-        'Ensure valid syntax'
-      ],
-      translate: [
-        'Provide ONLY the translation',
-        'Maintain original meaning',
-        'Use natural language flow',
-        'Consider cultural context',
-        'No explanation needed',
-        'Preserve tone when possible'
-      ],
-      summarize: [
-        'Provide ONLY the summary',
-        'Keep it concise but complete',
-        'Highlight key points',
-        'Use clear language',
-        'Maintain logical flow',
-        'No personal commentary'
-      ],
-      analysis: [
-        'Start with TL;DR section',
-        'Use H2/H3 headings',
-        'Provide numbered steps',
-        'Be objective and factual',
-        'Include actionable insights',
-        'No unnecessary prose'
-      ],
-      plan: [
-        'Start with TL;DR section',
-        'Use H2/H3 headings',
-        'Provide numbered steps',
-        'Be specific and detailed',
-        'Include timelines where relevant',
-        'Focus on actionable items'
-      ],
-      recipe: [
-        'Start with TL;DR section',
-        'Use H2/H3 headings',
-        'Provide numbered steps',
-        'Include ingredients list',
-        'Be clear and specific',
-        'Include timing information'
-      ],
-      support: [
-        'Provide ONLY the solution',
-        'Be clear and direct',
-        'Include step-by-step instructions',
-        'Anticipate common issues',
-        'Use simple language',
-        'Focus on problem resolution'
-      ],
-      marketing: [
-        'Provide ONLY the marketing copy',
-        'Be persuasive and engaging',
-        'Know your audience',
-        'Include clear call-to-action',
-        'Use compelling language',
-        'Focus on benefits'
-      ],
-      write: [
-        'Be clear and engaging',
-        'Use appropriate tone',
-        'Structure content logically',
-        'Provide value to reader',
-        'Maintain consistency',
-        'Focus on readability'
-      ],
-      table: [
-        'Provide ONLY the markdown table',
-        'Use proper table formatting',
-        'Include header row',
-        'Align columns properly',
-        'Keep data organized',
-        'No explanation needed'
-      ]
-    };
-    
-    return rules[mode] || rules.write;
+    return IntentRouter.definition(mode).contractRules;
+  }
+  
+  private static definition(mode: TaskMode): ModeDefinition {
+    const definition = modeRegistry.get(mode);
+    return definition?.group === 'task' ? definition : modeRegistry.get(DEFAULT_TASK_MODE)!;
   }
-}
\ No newline at end of file
+}
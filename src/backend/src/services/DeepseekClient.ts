@@ -1,104 +1,38 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
 import { AIServiceError } from '../middleware/errorHandler';
+import { ConfigValidator } from './TextSanitizer';
+import { AIProvider, AIProviderFactory, AIRequest, AIResponse } from './providers';
+import { modeRegistry } from './modes';
 
-export interface AIRequest {
-  model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
-  max_tokens?: number;
-  temperature?: number;
-  top_p?: number;
-  frequency_penalty?: number;
-  presence_penalty?: number;
-}
-
-export interface AIResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+export type { AIRequest, AIResponse } from './providers';
 
 export class DeepseekClient {
-  private client: AxiosInstance;
-  private readonly apiKey: string;
+  private readonly provider: AIProvider;
   private readonly baseURL: string;
   private readonly defaultModel: string;
 
-  constructor() {
-    this.apiKey = process.env.AI_API_KEY || '';
-    this.baseURL = process.env.AI_API_URL || 'https://api.deepseek.com/v1';
-    this.defaultModel = process.env.AI_MODEL || 'deepseek-chat';
+  constructor(provider?: AIProvider) {
+    const config = ConfigValidator.getAIConfig();
+    this.baseURL = config.baseURL;
+    this.defaultModel = config.model;
 
-    if (!this.apiKey) {
+    if (!provider && !config.apiKey && config.provider !== 'ollama' && config.provider !== 'mock') {
       throw new Error('AI_API_KEY environment variable is required');
     }
 
-    this.client = axios.create({
-      baseURL: this.baseURL,
+    this.provider = provider ?? AIProviderFactory.create({
+      ...config,
       timeout: 30000,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
+      enableRetries: false,
+      maxRetries: 0,
+      retryDelay: 0,
     });
-
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        if (error.response) {
-          const status = error.response.status;
-          const data = error.response.data as { error?: { message?: string } } | undefined;
-          const message = data?.error?.message || error.message;
-          
-          if (status === 401) {
-            throw new AIServiceError('Invalid API key', { status, message });
-          } else if (status === 429) {
-            throw new AIServiceError('Rate limit exceeded', { status, message });
-          } else if (status >= 500) {
-            throw new AIServiceError('AI service unavailable', { status, message });
-          } else {
-            throw new AIServiceError(`AI service error: ${message}`, { status, message });
-          }
-        } else if (error.request) {
-          throw new AIServiceError('Unable to connect to AI service', { error: error.message });
-        } else {
-          throw new AIServiceError('AI service configuration error', { error: error.message });
-        }
-      }
-    );
   }
 
   async generateCompletion(request: AIRequest): Promise<AIResponse> {
-    try {
-      const response = await this.client.post<AIResponse>('/chat/completions', {
-        ...request,
-        model: request.model || this.defaultModel,
-      });
-
-      return response.data;
-    } catch (error) {
-      if (error instanceof AIServiceError) {
-        throw error;
-      }
-      throw new AIServiceError('Failed to generate completion', error);
-    }
+    return this.provider.complete({
+      ...request,
+      model: request.model || this.defaultModel,
+    });
   }
 
   async enhancePrompt(
@@ -111,21 +45,9 @@ export class DeepseekClient {
     improvements: string[];
     usage: AIResponse['usage'];
   }> {
-    const systemPrompts = {
-      standard: `You are an AI prompt enhancement expert. Your task is to improve user prompts to make them more effective, clear, and specific while maintaining their original intent. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of specific improvements made in the same language as the original prompt.`,
-      creative: `You are a creative writing and artistic prompt enhancement expert. Your task is to enhance prompts to unlock more imaginative, artistic, and creative responses while maintaining coherence and purpose. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of creative improvements made in the same language as the original prompt.`,
-      technical: `You are a technical prompt enhancement expert specializing in precise specifications and technical accuracy. Your task is to enhance prompts to be more detailed, specific, and technically precise. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of technical improvements made in the same language as the original prompt.`,
-      scientifically: `You are a scientific research and academic communication expert. Your task is to enhance prompts to be more academically rigorous, methodologically sound, and scientifically precise. Focus on incorporating proper scientific methodology, academic terminology, research-oriented language, and scholarly context. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of scientific improvements made in the same language as the original prompt.`,
-    };
-
-    const modeDescriptions = {
-      standard: 'Standard enhancement for general purpose prompts',
-      creative: 'Creative enhancement with imaginative and artistic elements',
-      technical: 'Technical enhancement with precise and detailed specifications',
-      scientifically: 'Scientific enhancement focusing on academic rigor and methodological precision',
-    };
+    const style = modeRegistry.get(mode) ?? modeRegistry.get('standard')!;
     
-    const userPrompt = `Please enhance the following prompt for ${modeDescriptions[mode]}:
+    const userPrompt = `Please enhance the following prompt for ${style.purpose}:
 
 Original Prompt: "${originalPrompt}"
 
@@ -147,7 +69,7 @@ IMPROVEMENTS:
       messages: [
         {
           role: 'system',
-          content: systemPrompts[mode],
+          content: style.roleTemplate,
         },
         {
           role: 'user',
@@ -188,12 +110,7 @@ IMPROVEMENTS:
   }
 
   async isAvailable(): Promise<boolean> {
-    try {
-      await this.client.get('/models');
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return this.provider.isAvailable();
   }
 
   getModelInfo(): { model: string; baseURL: string } {
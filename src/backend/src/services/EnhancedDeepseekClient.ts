@@ -1,58 +1,40 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { AIServiceError } from '../middleware/errorHandler';
+import { SpanKind } from '@opentelemetry/api';
+import { EnhancementStreamEvent } from '@loogi/shared';
 import { ConfigValidator } from './TextSanitizer';
 import { TaskMode, IntentRouter } from './ContractEnforcer';
 import { ContractEnforcer } from './ContractEnforcer';
-import { TextSanitizer } from './TextSanitizer';
-
-export interface AIRequest {
-  model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
-  max_tokens?: number;
-  temperature?: number;
-  top_p?: number;
-  frequency_penalty?: number;
-  presence_penalty?: number;
-  seed?: number;
-}
-
-export interface AIResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-export interface AIConfig {
-  apiKey: string;
-  baseURL: string;
-  model: string;
-  maxTokens: number;
-  temperature: number;
-  topP: number;
-  frequencyPenalty: number;
-  presencePenalty: number;
-  timeout: number;
-  seed?: number;
-  enableRetries: boolean;
-  maxRetries: number;
-  retryDelay: number;
+import { ValidationResult, ValidatorOptions } from './OutputValidators';
+import { normalizeMarkdownTable, type JsonSchema, type MarkdownTable } from './validation';
+import { modeRegistry } from './modes';
+import { SanitizationResult, TextSanitizer } from './TextSanitizer';
+import { metrics } from './metrics';
+import { withSpan, withSpanSync } from './tracing';
+import { logger } from './logging';
+import {
+  AIConfig,
+  AIProvider,
+  AIProviderFactory,
+  AIProviderName,
+  AIRequest,
+  AIResponse,
+  AIUsage,
+  FailoverProvider,
+  FailoverTargetHealth,
+  jsonSchemaResponseFormat,
+} from './providers';
+
+export type { AIConfig, AIRequest, AIResponse } from './providers';
+
+const log = logger.child({ component: 'EnhancedDeepseekClient' });
+
+// Events emitted while an enhancement is streamed to the caller
+export type { EnhancementStreamEvent };
+
+export type EnhancementStreamListener = (event: EnhancementStreamEvent) => void;
+
+export interface StreamOptions {
+  onEvent: EnhancementStreamListener;
+  signal?: AbortSignal;
 }
 
 export interface GenerationOptions {
@@ -62,18 +44,82 @@ export interface GenerationOptions {
   language?: string;
   enableContractEnforcement?: boolean;
   promptId?: string;
+  stream?: StreamOptions;
+  /** Language code output must be written in (code task modes) */
+  codeLanguage?: string;
+  /** Schema the output must conform to (json task modes) */
+  jsonSchema?: JsonSchema;
+  /** Columns the output table must have (table task modes) */
+  tableColumns?: string[];
+}
+
+/**
+ * Mode-specific request options for task routing
+ */
+export interface TaskRoutingOptions {
+  targetLanguage?: string;
+  codeLanguage?: string;
+  jsonSchema?: JsonSchema;
+  tableColumns?: string[];
+  enableContractEnforcement?: boolean;
 }
 
+/**
+ * Provider and model that produced a completion (differs from the configured one after failover)
+ */
+export interface ServedBy {
+  provider: AIProviderName;
+  model: string;
+}
+
+/**
+ * One request to the AI provider, for usage accounting. A generation with contract
+ * re-prompts makes several.
+ */
+export interface UpstreamCall {
+  purpose: 'completion' | 'reprompt';
+  provider: AIProviderName;
+  model: string;
+  usage: AIUsage;
+}
+
+/**
+ * Contract-checked generation; `usage` covers every upstream call, including contract
+ * re-prompts, and `calls` itemizes them
+ */
+export interface ContractGenerationResult {
+  content: string;
+  validationResult: ValidationResult;
+  attempts: number;
+  usage: AIUsage;
+  calls: UpstreamCall[];
+  servedBy: ServedBy;
+}
+
+/**
+ * Token usage of several upstream calls added up
+ */
+export const sumUsage = (calls: UpstreamCall[]): AIUsage => calls.reduce(
+  (sum, { usage }) => ({
+    prompt_tokens: sum.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: sum.completion_tokens + usage.completion_tokens,
+    total_tokens: sum.total_tokens + usage.total_tokens,
+  }),
+  { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+);
+
 export class EnhancedDeepseekClient {
-  private client: AxiosInstance;
+  private readonly provider: AIProvider;
   private readonly config: AIConfig;
   private readonly contractEnforcer: ContractEnforcer;
 
-  constructor(config?: Partial<AIConfig>) {
-    // Validate configuration
-    const validation = ConfigValidator.validateAIConfig();
-    if (!validation.valid) {
-      throw new Error(`Invalid AI configuration: ${validation.errors.join(', ')}`);
+  constructor(config?: Partial<AIConfig>, provider?: AIProvider) {
+    // Validate configuration (an injected provider brings its own connection settings)
+    if (!provider) {
+      const validation = ConfigValidator.validateAIConfig();
+      if (!validation.valid) {
+        throw new Error(`Invalid AI configuration: ${validation.errors.join(', ')}`);
+      }
     }
 
     // Merge with environment config
@@ -86,8 +132,13 @@ export class EnhancedDeepseekClient {
       retryDelay: config?.retryDelay ?? 1000,
     };
 
-    // Create HTTP client with retry logic
-    this.client = this.createHttpClient();
+    // Select the provider backend (retries and error mapping live in the provider),
+    // wrapped in a failover chain when AI_FALLBACK_PROVIDERS is set
+    this.provider = provider ?? AIProviderFactory.createWithFailover(
+      this.config,
+      ConfigValidator.getFallbackConfigs(),
+      ConfigValidator.getCircuitBreakerConfig()
+    );
     
     // Initialize contract enforcer
     this.contractEnforcer = new ContractEnforcer(this, {
@@ -97,108 +148,42 @@ export class EnhancedDeepseekClient {
     });
   }
 
-  private createHttpClient(): AxiosInstance {
-    // OPTIMIZED: Dynamic timeout based on prompt complexity
-    let timeout = this.config.timeout;
-    const isTechnicalMode = this.config.model?.includes('technical') || false;
-    const isLongRequest = this.config.maxTokens > 2000;
-    
-    if (isTechnicalMode || isLongRequest) {
-      timeout = Math.max(timeout, 60000); // Minimum 60s for technical/long requests
-    }
-
-    const client = axios.create({
-      baseURL: this.config.baseURL,
-      timeout: timeout,
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (this.config.enableRetries) {
-      this.setupRetryInterceptor(client);
-    }
-
-    // Add response interceptor for error handling
-    client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        if (error.response) {
-          const status = error.response.status;
-          const message = (error.response.data as any)?.error?.message || error.message;
-          
-          if (status === 401) {
-            throw new AIServiceError('Invalid API key', { status, message });
-          } else if (status === 429) {
-            throw new AIServiceError('Rate limit exceeded', { status, message });
-          } else if (status >= 500) {
-            throw new AIServiceError('AI service unavailable', { status, message });
-          } else {
-            throw new AIServiceError(`AI service error: ${message}`, { status, message });
-          }
-        } else if (error.request) {
-          throw new AIServiceError('Unable to connect to AI service', { error: error.message });
-        } else {
-          throw new AIServiceError('AI service configuration error', { error: error.message });
-        }
-      }
-    );
-
-    return client;
-  }
-
-  private setupRetryInterceptor(client: AxiosInstance): void {
-    client.interceptors.response.use(
-      (response) => response,
-      async (error: AxiosError) => {
-        const config = error.config;
-        
-        if (!config || !this.shouldRetry(error)) {
-          return Promise.reject(error);
-        }
-
-        const retryCount = (config as any).retryCount || 0;
-        
-        if (retryCount >= this.config.maxRetries) {
-          return Promise.reject(error);
-        }
-
-        (config as any).retryCount = retryCount + 1;
-        
-        // Exponential backoff
-        const delay = this.config.retryDelay * Math.pow(2, retryCount);
-        await this.sleep(delay);
-        
-        return client(config);
-      }
-    );
-  }
-
-  private shouldRetry(error: AxiosError): boolean {
-    if (!error.response) return true; // Network errors
-    
-    const status = error.response.status;
-    return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Generate completion with stable parameters and contract enforcement
-   * OPTIMIZED: Dynamic contract configuration based on prompt length and mode
    */
   async generateCompletionWithContract(
     request: AIRequest,
     options: GenerationOptions
-  ): Promise<{ content: string; validationResult: any; attempts: number; usage: AIResponse['usage'] }> {
+  ): Promise<ContractGenerationResult> {
+    const observeDuration = metrics.enhancementDuration.startTimer({ mode: options.mode });
+    return withSpan('ai.generate', { attributes: { 'loogi.task_mode': options.mode } }, async (span) => {
+      try {
+        const result = await this.runWithContract(request, options);
+        observeDuration({ outcome: 'success' });
+        span.setAttributes({
+          'contract.attempts': result.attempts,
+          'contract.valid': result.validationResult.isValid,
+          'gen_ai.usage.input_tokens': result.usage.prompt_tokens,
+          'gen_ai.usage.output_tokens': result.usage.completion_tokens,
+          'loogi.upstream_calls': result.calls.length,
+        });
+        return result;
+      } catch (error) {
+        observeDuration({ outcome: 'error' });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * OPTIMIZED: Dynamic contract configuration based on prompt length and mode
+   */
+  private async runWithContract(request: AIRequest, options: GenerationOptions): Promise<ContractGenerationResult> {
     // Sanitize user text
     if (request.messages.length > 0) {
       const lastMessage = request.messages[request.messages.length - 1];
       if (lastMessage && lastMessage.content) {
-        const sanitizedContent = TextSanitizer.sanitizeUserText(lastMessage.content);
+        const sanitizedContent = this.sanitizeUserText(lastMessage.content);
         lastMessage.content = sanitizedContent.sanitizedText;
       }
     }
@@ -216,22 +201,36 @@ export class EnhancedDeepseekClient {
     if (isLongPrompt && isTechnicalMode) {
       // For long technical documents: Less strict validation
       contractMaxAttempts = 1; // Only 1 attempt instead of 2
-      console.log(`[Performance-Optimization] Reduced Contract-Attempts for long technical prompt: length=${promptLength}, mode=${options.mode}, maxAttempts=${contractMaxAttempts}`);
+      log.info('Reduced contract attempts for long technical prompt', {
+        promptLength,
+        mode: options.mode,
+        maxAttempts: contractMaxAttempts,
+      });
     }
 
     // Apply stable parameters
     const stableRequest = this.applyStableParameters(request);
 
-    // Generate completion
-    const response = await this.generateCompletion(stableRequest);
+    // Generate completion (streamed to the caller when requested)
+    const stream = options.stream;
+    const response = stream
+      ? await this.generateCompletionStream(
+          stableRequest,
+          (delta) => stream.onEvent({ type: 'delta', attempt: 1, content: delta }),
+          stream.signal
+        )
+      : await this.generateCompletion(stableRequest);
     let content = response.choices[0]?.message?.content || '';
     
     // Sanitize AI output
-    content = TextSanitizer.sanitizeAIOutput(content, options.mode);
+    content = withSpanSync('text.sanitize_output', { attributes: { 'loogi.task_mode': options.mode } }, () =>
+      TextSanitizer.sanitizeAIOutput(content, options.mode)
+    );
 
     // OPTIMIZED: Contract-enforcement with dynamic maxAttempts
-    let validationResult: { isValid: boolean; violations: string[] } = { isValid: true, violations: [] };
+    let validationResult: ValidationResult = { isValid: true, violations: [], findings: [] };
     let attempts = 1;
+    const calls: UpstreamCall[] = [this.toUpstreamCall('completion', response)];
 
     if (enableContractEnforcement) {
       // Create optimized contract enforcer with reduced attempts for long technical prompts
@@ -241,23 +240,52 @@ export class EnhancedDeepseekClient {
         enableContractReminder: true
       });
 
-      const enforcementResult = await optimizedContractEnforcer.enforceContract(
-        content,
-        options.mode,
-        options.originalPrompt,
-        options.context
+      const enforcementResult = await withSpan(
+        'contract.enforce',
+        { attributes: { 'loogi.task_mode': options.mode, 'contract.max_attempts': contractMaxAttempts } },
+        async (span) => {
+          const result = await optimizedContractEnforcer.enforceContract(
+            content,
+            options.mode,
+            options.originalPrompt,
+            options.context,
+            options.stream,
+            { language: options.codeLanguage, jsonSchema: options.jsonSchema, columns: options.tableColumns }
+          );
+          span.setAttributes({
+            'contract.attempts': result.attempts,
+            'contract.valid': result.validationResult.isValid,
+            'contract.violations': result.validationResult.violations,
+          });
+          return result;
+        }
       );
 
       content = enforcementResult.content;
       validationResult = enforcementResult.validationResult;
       attempts = enforcementResult.attempts;
+      calls.push(...enforcementResult.rePromptResponses.map(rePrompt => this.toUpstreamCall('reprompt', rePrompt)));
+
+      metrics.contractValidations.inc({ mode: options.mode, result: validationResult.isValid ? 'pass' : 'fail' });
+      metrics.contractAttempts.observe({ mode: options.mode }, attempts);
     }
 
     return {
       content,
       validationResult,
       attempts,
-      usage: response.usage
+      usage: sumUsage(calls),
+      calls,
+      servedBy: { provider: response.provider ?? this.provider.name, model: response.model }
+    };
+  }
+
+  private toUpstreamCall(purpose: UpstreamCall['purpose'], response: AIResponse): UpstreamCall {
+    return {
+      purpose,
+      provider: response.provider ?? this.provider.name,
+      model: response.model,
+      usage: response.usage,
     };
   }
 
@@ -265,19 +293,56 @@ export class EnhancedDeepseekClient {
    * Generate basic completion
    */
   async generateCompletion(request: AIRequest): Promise<AIResponse> {
-    try {
-      const response = await this.client.post<AIResponse>('/chat/completions', {
-        ...request,
-        model: request.model || this.config.model,
-      });
+    const model = request.model || this.config.model;
+    return this.observeUpstream(model, () => this.provider.complete({ ...request, model }));
+  }
 
-      return response.data;
-    } catch (error) {
-      if (error instanceof AIServiceError) {
+  /**
+   * Generate completion as a stream, forwarding each content delta
+   */
+  async generateCompletionStream(
+    request: AIRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const model = request.model || this.config.model;
+    return this.observeUpstream(model, () => this.provider.completeStream({ ...request, model }, onDelta, signal));
+  }
+
+  /**
+   * Record latency and token metrics of a provider request
+   */
+  private async observeUpstream(model: string, call: () => Promise<AIResponse>): Promise<AIResponse> {
+    const observeDuration = metrics.upstreamDuration.startTimer({ provider: this.provider.name, model });
+    const attributes = { 'gen_ai.system': this.provider.name, 'gen_ai.request.model': model };
+    return withSpan('ai.completion', { kind: SpanKind.CLIENT, attributes }, async (span) => {
+      try {
+        const response = await call();
+        // After failover the response names the provider and model that served it
+        const labels = { provider: response.provider ?? this.provider.name, model: response.model || model };
+        observeDuration({ ...labels, outcome: 'success' });
+        metrics.tokens.inc({ ...labels, type: 'prompt' }, response.usage?.prompt_tokens ?? 0);
+        metrics.tokens.inc({ ...labels, type: 'completion' }, response.usage?.completion_tokens ?? 0);
+        span.setAttributes({
+          'gen_ai.response.provider': labels.provider,
+          'gen_ai.response.model': labels.model,
+          'gen_ai.usage.input_tokens': response.usage?.prompt_tokens ?? 0,
+          'gen_ai.usage.output_tokens': response.usage?.completion_tokens ?? 0,
+        });
+        return response;
+      } catch (error) {
+        observeDuration({ outcome: 'error' });
         throw error;
       }
-      throw new AIServiceError('Failed to generate completion', error);
-    }
+    });
+  }
+
+  private sanitizeUserText(text: string): SanitizationResult {
+    return withSpanSync('text.sanitize_input', {}, (span) => {
+      const result = TextSanitizer.sanitizeUserText(text);
+      span.setAttributes({ 'loogi.language': result.originalLanguage, 'loogi.sanitize_warnings': result.warnings.length });
+      return result;
+    });
   }
 
   /**
@@ -303,30 +368,44 @@ export class EnhancedDeepseekClient {
     mode: string,
     maxTokens?: number,
     context?: string,
-    language?: string
+    language?: string,
+    stream?: StreamOptions,
+    options: TaskRoutingOptions = {}
   ): Promise<{
     enhancedPrompt: string;
     improvements: string[];
+    /** Rows of table output */
+    table?: MarkdownTable;
     usage: AIResponse['usage'];
+    calls: UpstreamCall[];
     taskMode: TaskMode;
-    validationResult: any;
+    validationResult: ValidationResult;
     attempts: number;
+    servedBy: ServedBy;
   }> {
     // Determine task mode
-    const taskMode = IntentRouter.inferTaskMode(originalPrompt, mode);
+    const taskMode = withSpanSync('intent.route', { attributes: { 'loogi.mode': mode } }, (span) => {
+      const inferred = IntentRouter.inferTaskMode(originalPrompt, mode);
+      span.setAttribute('loogi.task_mode', inferred);
+      return inferred;
+    });
     
     // Get role template and contract rules
     const roleTemplate = IntentRouter.getRoleTemplate(taskMode);
     const contractRules = IntentRouter.getContractRules(taskMode);
+    const validatorType = modeRegistry.get(taskMode)?.validator.type;
+    // A schema only constrains modes with JSON output
+    const jsonSchema = validatorType === 'json' ? options.jsonSchema : undefined;
     
     // Create system prompt
-    const systemPrompt = this.createEnhancedSystemPrompt(taskMode, roleTemplate, contractRules, context, language);
+    const validatorOptions = { language: options.codeLanguage, jsonSchema, columns: options.tableColumns };
+    const systemPrompt = this.createEnhancedSystemPrompt(taskMode, roleTemplate, contractRules, context, language, validatorOptions);
     
     // Sanitize user text
-    const sanitizedInput = TextSanitizer.sanitizeUserText(originalPrompt);
+    const sanitizedInput = this.sanitizeUserText(originalPrompt);
     
     // Create user prompt
-    const userPrompt = this.createEnhancedUserPrompt(taskMode, sanitizedInput.sanitizedText, context);
+    const userPrompt = this.createEnhancedUserPrompt(taskMode, sanitizedInput.sanitizedText, context, options);
 
     // Generate with contract enforcement
     const result = await this.generateCompletionWithContract(
@@ -337,26 +416,38 @@ export class EnhancedDeepseekClient {
           { role: 'user', content: userPrompt }
         ],
         max_tokens: maxTokens || this.config.maxTokens,
+        ...(jsonSchema && { response_format: jsonSchemaResponseFormat(jsonSchema) }),
       },
       {
         mode: taskMode,
         originalPrompt,
         context,
         language: sanitizedInput.originalLanguage,
-        enableContractEnforcement: true
+        enableContractEnforcement: options.enableContractEnforcement !== false,
+        stream,
+        codeLanguage: options.codeLanguage,
+        jsonSchema,
+        tableColumns: options.tableColumns
       }
     );
 
     // Parse response
-    const { enhancedPrompt, improvements } = this.parseEnhancedResponse(result.content, taskMode);
+    const parsed = this.parseEnhancedResponse(result.content, taskMode);
+    // Tables are re-aligned and returned as rows as well
+    const { content: enhancedPrompt, table } = validatorType === 'table'
+      ? normalizeMarkdownTable(parsed.enhancedPrompt)
+      : { content: parsed.enhancedPrompt, table: undefined };
 
     return {
       enhancedPrompt,
-      improvements,
+      improvements: parsed.improvements,
+      table,
       usage: result.usage,
+      calls: result.calls,
       taskMode,
       validationResult: result.validationResult,
-      attempts: result.attempts
+      attempts: result.attempts,
+      servedBy: result.servedBy
     };
   }
 
@@ -368,7 +459,8 @@ export class EnhancedDeepseekClient {
     roleTemplate: string,
     contractRules: string[],
     context?: string,
-    language?: string
+    language?: string,
+    validatorOptions: ValidatorOptions = {}
   ): string {
     const languageInstruction = language && language !== 'english' 
       ? `IMPORTANT: Respond in ${language}. `
@@ -388,18 +480,30 @@ ${contractRules.map(rule => `• ${rule}`).join('\n')}
 ${contractSentence}
 
 FINAL OUTPUT REQUIREMENTS:
-${this.contractEnforcer.getContractDescription(taskMode)}`;
+${this.contractEnforcer.getContractDescription(taskMode, validatorOptions)}`;
   }
 
   /**
    * Create enhanced user prompt
    */
-  private createEnhancedUserPrompt(taskMode: TaskMode, sanitizedPrompt: string, context?: string): string {
-    const basePrompt = `Process this user request and provide the contracted output:
+  private createEnhancedUserPrompt(
+    taskMode: TaskMode,
+    sanitizedPrompt: string,
+    context?: string,
+    options: TaskRoutingOptions = {}
+  ): string {
+    let basePrompt = `Process this user request and provide the contracted output:
 
 USER_REQUEST:
 ${sanitizedPrompt}`;
 
+    if (taskMode === 'translate' && options.targetLanguage) {
+      basePrompt += `\n\nTARGET_LANGUAGE: ${options.targetLanguage}`;
+    }
+    if (taskMode === 'code' && options.codeLanguage) {
+      basePrompt += `\n\nCODE_LANGUAGE: ${options.codeLanguage}`;
+    }
+
     if (context) {
       return `${basePrompt}
 
@@ -441,24 +545,27 @@ ADDITIONAL_CONTEXT:
    * Check service availability
    */
   async isAvailable(): Promise<boolean> {
-    try {
-      await this.client.get('/models');
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return this.provider.isAvailable();
   }
 
   /**
    * Get model information
    */
-  getModelInfo(): { model: string; baseURL: string } {
+  getModelInfo(): { model: string; baseURL: string; provider: AIProviderName } {
     return {
       model: this.config.model,
       baseURL: this.config.baseURL,
+      provider: this.provider.name,
     };
   }
 
+  /**
+   * Circuit breaker state of each provider in the failover chain, if one is configured
+   */
+  getProviderHealth(): FailoverTargetHealth[] | undefined {
+    return this.provider instanceof FailoverProvider ? this.provider.getHealth() : undefined;
+  }
+
   /**
    * Get current configuration
    */
@@ -478,52 +585,9 @@ export class AIClientFactory {
   static createClientWithConfig(config: Partial<AIConfig>): EnhancedDeepseekClient {
     return new EnhancedDeepseekClient(config);
   }
-}
-
-/**
- * Logger for observability
- */
-export class AILogger {
-  private static instance: AILogger;
-  private logs: any[] = [];
-
-  static getInstance(): AILogger {
-    if (!AILogger.instance) {
-      AILogger.instance = new AILogger();
-    }
-    return AILogger.instance;
-  }
-
-  log(promptId: string, event: string, data: any): void {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      promptId,
-      event,
-      data,
-    };
-
-    this.logs.push(logEntry);
-    
-    // Keep only last 1000 entries to prevent memory issues
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(-1000);
-    }
-
-    // Log to console in development
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[AI] ${event}:`, JSON.stringify(data));
-    }
-  }
-
-  getLogs(promptId?: string): any[] {
-    if (promptId) {
-      return this.logs.filter(log => log.promptId === promptId);
-    }
-    return [...this.logs];
-  }
 
-  clearLogs(): void {
-    this.logs = [];
+  static createClientWithProvider(provider: AIProvider, config?: Partial<AIConfig>): EnhancedDeepseekClient {
+    return new EnhancedDeepseekClient(config, provider);
   }
 }
 
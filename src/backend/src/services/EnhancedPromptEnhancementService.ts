@@ -1,11 +1,38 @@
+import { AIEventPage, BatchEnhanceResponse, BatchItemResult } from '@loogi/shared';
 import { UserInput, UserInputModel } from '../models/UserInput';
 import { EnhancedPrompt, EnhancedPromptModel } from '../models/EnhancedPrompt';
-import { AIClientFactory, AILogger, DeterministicIdGenerator } from './EnhancedDeepseekClient';
-import { AIServiceError } from '../middleware/errorHandler';
+import {
+  AIClientFactory,
+  DeterministicIdGenerator,
+  EnhancedDeepseekClient,
+  StreamOptions,
+  UpstreamCall
+} from './EnhancedDeepseekClient';
+import { AIServiceError, ValidationError, toOperationError } from '../middleware/errorHandler';
 import { IntentRouter } from './ContractEnforcer';
 import { TextSanitizer, TokenBudgetManager } from './TextSanitizer';
+import { FailoverTargetHealth } from './providers';
+import { CacheStatus, CacheStoreFactory, EnhancementCache } from './cache';
+import { AIEventFilter, HistoryRepository, Storage } from './storage';
+import { mapConcurrent } from './concurrency';
+import { UsageContext, UsageService } from './UsageService';
+import { AIEventListener, AIEventLog } from './AIEventLog';
+import { withSpan } from './tracing';
+import { modeRegistry } from './modes';
+import { logger, withLogFields } from './logging';
 import { config } from '../config/index';
 
+const log = logger.child({ component: 'EnhancedPromptEnhancementService' });
+
+export interface CachedEnhancementResult {
+  enhancedPrompt: EnhancedPrompt;
+  cache: CacheStatus;
+  /** ID of the stored history entry; absent when the history store failed */
+  historyId?: string;
+}
+
+export type BatchEnhancementResult = Omit<BatchEnhanceResponse, '_meta'>;
+
 export interface EnhancementResult {
   success: boolean;
   enhancedPrompt: EnhancedPrompt;
@@ -14,15 +41,101 @@ export interface EnhancementResult {
 }
 
 export class EnhancedPromptEnhancementService {
-  private aiClient;
-  private logger;
+  private readonly aiClient: EnhancedDeepseekClient;
+  private readonly events: AIEventLog;
+  private readonly cache: EnhancementCache;
+  private readonly history: HistoryRepository;
+  private readonly usage: UsageService;
+
+  constructor(
+    aiClient: EnhancedDeepseekClient = AIClientFactory.createClient(),
+    cache: EnhancementCache = new EnhancementCache(CacheStoreFactory.create(config.cache), config.cache.ttlSeconds),
+    history: HistoryRepository = Storage.getHistoryRepository(),
+    usage: UsageService = new UsageService(),
+    events: AIEventLog = new AIEventLog()
+  ) {
+    this.aiClient = aiClient;
+    this.cache = cache;
+    this.history = history;
+    this.usage = usage;
+    this.events = events;
+  }
+
+  /**
+   * Enhance a prompt, serving identical prompt+mode+config requests from the cache, and
+   * record the request in the history. `bypassCache` skips the lookup (Cache-Control: no-cache)
+   * but still refreshes the entry. Upstream calls are recorded in the usage ledger and
+   * charged to `apiKeyId`; cache hits cost nothing.
+   */
+  async enhancePromptCached(
+    userInput: UserInput,
+    options: { bypassCache?: boolean; stream?: StreamOptions; apiKeyId?: string } = {}
+  ): Promise<CachedEnhancementResult> {
+    return withSpan('enhancement', { attributes: { 'loogi.mode': userInput.mode } }, async (span) => {
+      const { calls, ...result } = await this.lookupOrEnhance(userInput, options);
+      const { metadata } = result.enhancedPrompt;
+      span.setAttributes({
+        'loogi.cache': result.cache,
+        'loogi.task_mode': result.enhancedPrompt.mode,
+        'gen_ai.usage.input_tokens': metadata.tokenUsage.promptTokens,
+        'gen_ai.usage.output_tokens': metadata.tokenUsage.completionTokens,
+        ...(metadata.promptId && { 'loogi.prompt_id': metadata.promptId }),
+      });
 
-  constructor() {
-    this.aiClient = AIClientFactory.createClient();
-    this.logger = AILogger.getInstance();
+      await this.recordUsage({
+        requestId: metadata.promptId ?? DeterministicIdGenerator.generateShort(),
+        apiKeyId: options.apiKeyId,
+        mode: userInput.mode,
+        kind: 'enhancement',
+      }, calls);
+      return { ...result, historyId: await this.recordHistory(userInput, result.enhancedPrompt, options.apiKeyId) };
+    });
   }
 
-  async enhancePrompt(userInput: UserInput): Promise<EnhancedPrompt> {
+  private async lookupOrEnhance(
+    userInput: UserInput,
+    options: { bypassCache?: boolean; stream?: StreamOptions }
+  ): Promise<CachedEnhancementResult & { calls: UpstreamCall[] }> {
+    if (!this.cache.enabled) {
+      return { ...await this.generate(userInput, options.stream), cache: 'disabled' };
+    }
+
+    const cacheKey = this.getCacheKey(userInput);
+
+    if (!options.bypassCache) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        if (config.logging.enabled) {
+          await this.events.record(cached.metadata.promptId || cacheKey, userInput.mode, 'cache_hit', { cacheKey });
+        }
+        return { enhancedPrompt: cached, cache: 'hit', calls: [] };
+      }
+    }
+
+    const { enhancedPrompt, calls } = await this.generate(userInput, options.stream);
+
+    // Results that broke the output contract are worth regenerating
+    if (enhancedPrompt.metadata.validationResult?.isValid !== false) {
+      await this.cache.set(cacheKey, enhancedPrompt);
+    }
+
+    return { enhancedPrompt, cache: options.bypassCache ? 'bypass' : 'miss', calls };
+  }
+
+  /**
+   * Enhance a prompt; pass stream options to receive deltas and contract events as they happen
+   */
+  async enhancePrompt(userInput: UserInput, stream?: StreamOptions): Promise<EnhancedPrompt> {
+    return (await this.generate(userInput, stream)).enhancedPrompt;
+  }
+
+  /**
+   * Enhance a prompt and report the upstream calls it took
+   */
+  private async generate(
+    userInput: UserInput,
+    stream?: StreamOptions
+  ): Promise<{ enhancedPrompt: EnhancedPrompt; calls: UpstreamCall[] }> {
     const startTime = Date.now();
     const promptId = DeterministicIdGenerator.generateShort();
     
@@ -31,8 +144,7 @@ export class EnhancedPromptEnhancementService {
       const userInputModel = new UserInputModel(userInput);
       
       if (config.logging.enabled) {
-        this.logger.log(promptId, 'enhancement_started', {
-          mode: userInputModel.mode,
+        await this.events.record(promptId, userInputModel.mode, 'enhancement_started', {
           promptLength: userInputModel.prompt.length,
           maxTokens: userInputModel.maxTokens
         });
@@ -47,22 +159,22 @@ export class EnhancedPromptEnhancementService {
       
       if (estimatedPromptTokens > userInputModel.maxTokens * 0.8) {
         if (config.logging.enabled) {
-          this.logger.log(promptId, 'token_budget_warning', {
+          await this.events.record(promptId, userInputModel.mode, 'token_budget_warning', {
             estimatedTokens: estimatedPromptTokens,
             maxTokens: userInputModel.maxTokens
           });
         }
       }
 
-      // Use new enhanced client with task routing
+      // Use new enhanced client with task routing; everything it logs carries the promptId
       let aiResult;
       
       if (userInputModel.isLegacyMode()) {
         // Use legacy enhancement for backward compatibility
-        aiResult = await this.legacyEnhancePrompt(userInputModel, promptId);
+        aiResult = await withLogFields({ promptId }, () => this.legacyEnhancePrompt(userInputModel, promptId, stream));
       } else {
         // Use new task routing enhancement
-        aiResult = await this.enhancePromptWithTaskRouting(userInputModel, promptId);
+        aiResult = await withLogFields({ promptId }, () => this.enhancePromptWithTaskRouting(userInputModel, promptId, stream));
       }
 
       const processingTime = Date.now() - startTime;
@@ -80,10 +192,13 @@ export class EnhancedPromptEnhancementService {
             completionTokens: aiResult.usage.completion_tokens,
             totalTokens: aiResult.usage.total_tokens,
           },
-          model: this.aiClient.getModelInfo().model,
+          // Provider/model that actually answered, which differs from the configured one after failover
+          model: aiResult.servedBy.model,
+          provider: aiResult.servedBy.provider,
           timestamp: new Date().toISOString(),
           taskMode: aiResult.taskMode,
           validationResult: aiResult.validationResult,
+          table: aiResult.table,
           attempts: aiResult.attempts,
           promptId,
           contractEnforced: aiResult.contractEnforced || false,
@@ -91,21 +206,21 @@ export class EnhancedPromptEnhancementService {
       });
 
       if (config.logging.enabled) {
-        this.logger.log(promptId, 'enhancement_completed', {
+        await this.events.record(promptId, userInputModel.mode, 'enhancement_completed', {
           processingTime,
-          tokenUsage: aiResult.usage,
+          tokenUsage: enhancedPromptModel.metadata.tokenUsage,
           taskMode: aiResult.taskMode,
           validationResult: aiResult.validationResult,
           attempts: aiResult.attempts
         });
       }
 
-      return enhancedPromptModel;
+      return { enhancedPrompt: enhancedPromptModel, calls: aiResult.calls };
     } catch (error) {
       const processingTime = Date.now() - startTime;
       
       if (config.logging.enabled) {
-        this.logger.log(promptId, 'enhancement_failed', {
+        await this.events.record(promptId, userInput.mode, 'enhancement_failed', {
           error: error instanceof Error ? error.message : 'Unknown error',
           processingTime
         });
@@ -131,29 +246,18 @@ export class EnhancedPromptEnhancementService {
   /**
    * Legacy enhancement for backward compatibility
    */
-  private async legacyEnhancePrompt(userInputModel: UserInputModel, promptId: string) {
+  private async legacyEnhancePrompt(userInputModel: UserInputModel, promptId: string, stream?: StreamOptions) {
     if (config.logging.enabled) {
-      this.logger.log(promptId, 'using_legacy_enhancement', { mode: userInputModel.mode });
+      await this.events.record(promptId, userInputModel.mode, 'using_legacy_enhancement', {});
     }
     
     // Use the legacy enhancement logic from the original client
     const language = TextSanitizer.sanitizeUserText(userInputModel.prompt).originalLanguage;
     
-    const systemPrompts = {
-      standard: `You are an AI prompt enhancement expert. Your task is to improve user prompts to make them more effective, clear, and specific while maintaining their original intent. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of specific improvements made in the same language as the original prompt.`,
-      creative: `You are a creative writing and artistic prompt enhancement expert. Your task is to enhance prompts to unlock more imaginative, artistic, and creative responses while maintaining coherence and purpose. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of creative improvements made in the same language as the original prompt.`,
-      technical: `You are a technical prompt enhancement expert specializing in precise specifications and technical accuracy. Your task is to enhance prompts to be more detailed, specific, and technically precise. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of technical improvements made in the same language as the original prompt.`,
-      scientifically: `You are a scientific research and academic communication expert. Your task is to enhance prompts to be more academically rigorous, methodologically sound, and scientifically precise. Focus on incorporating proper scientific methodology, academic terminology, research-oriented language, and scholarly context. IMPORTANT: You must respond in the same language as the original prompt. Provide the enhanced prompt and a list of scientific improvements made in the same language as the original prompt.`,
-    };
-
-    const modeDescriptions = {
-      standard: 'Standard enhancement for general purpose prompts',
-      creative: 'Creative enhancement with imaginative and artistic elements',
-      technical: 'Technical enhancement with precise and detailed specifications',
-      scientifically: 'Scientific enhancement focusing on academic rigor and methodological precision',
-    };
+    // Styles are defined by their system prompt (roleTemplate) and purpose
+    const style = modeRegistry.get(userInputModel.mode)!;
     
-    const userPrompt = `Please enhance the following prompt for ${modeDescriptions[userInputModel.mode as keyof typeof modeDescriptions]}:
+    const userPrompt = `Please enhance the following prompt for ${style.purpose}:
 
 Original Prompt: "${userInputModel.prompt}"
 
@@ -174,7 +278,7 @@ IMPROVEMENTS:
       {
         model: this.aiClient.getConfig().model,
         messages: [
-          { role: 'system', content: systemPrompts[userInputModel.mode as keyof typeof systemPrompts] },
+          { role: 'system', content: style.roleTemplate },
           { role: 'user', content: userPrompt }
         ],
         max_tokens: userInputModel.maxTokens,
@@ -182,7 +286,8 @@ IMPROVEMENTS:
       {
         mode: 'write',
         originalPrompt: userInputModel.prompt,
-        enableContractEnforcement: false // Disable for legacy mode
+        enableContractEnforcement: false, // Disable for legacy mode
+        stream
       }
     );
 
@@ -204,10 +309,13 @@ IMPROVEMENTS:
     return {
       enhancedPrompt,
       improvements,
+      table: undefined,
       usage: result.usage,
+      calls: result.calls,
       taskMode: 'write',
       validationResult: result.validationResult,
       attempts: result.attempts,
+      servedBy: result.servedBy,
       contractEnforced: false
     };
   }
@@ -215,10 +323,9 @@ IMPROVEMENTS:
   /**
    * New task routing enhancement
    */
-  private async enhancePromptWithTaskRouting(userInputModel: UserInputModel, promptId: string) {
+  private async enhancePromptWithTaskRouting(userInputModel: UserInputModel, promptId: string, stream?: StreamOptions) {
     if (config.logging.enabled) {
-      this.logger.log(promptId, 'using_task_routing_enhancement', { 
-        mode: userInputModel.mode,
+      await this.events.record(promptId, userInputModel.mode, 'using_task_routing_enhancement', {
         taskMode: userInputModel.getTaskMode()
       });
     }
@@ -228,53 +335,104 @@ IMPROVEMENTS:
       userInputModel.mode,
       userInputModel.maxTokens,
       userInputModel.context,
-      userInputModel.language
+      userInputModel.language,
+      stream,
+      {
+        targetLanguage: userInputModel.targetLanguage,
+        codeLanguage: userInputModel.codeLanguage,
+        jsonSchema: userInputModel.jsonSchema,
+        tableColumns: userInputModel.tableColumns,
+        enableContractEnforcement: userInputModel.enableContractEnforcement,
+      }
     );
 
     return {
       enhancedPrompt: result.enhancedPrompt,
       improvements: result.improvements,
+      table: result.table,
       usage: result.usage,
+      calls: result.calls,
       taskMode: result.taskMode,
       validationResult: result.validationResult,
       attempts: result.attempts,
-      contractEnforced: true
+      servedBy: result.servedBy,
+      contractEnforced: userInputModel.enableContractEnforcement
     };
   }
 
-  async enhancePromptBatch(userInputs: UserInput[]): Promise<EnhancedPrompt[]> {
-    const results: EnhancedPrompt[] = [];
-    
-    // Process prompts sequentially to avoid rate limiting
-    for (const userInput of userInputs) {
+  /**
+   * Enhance several inputs with at most `concurrency` of them in flight. Items succeed or
+   * fail independently; failures are reported at their index instead of being dropped.
+   */
+  async enhancePromptBatch(
+    userInputs: UserInput[],
+    options: { concurrency?: number; bypassCache?: boolean; apiKeyId?: string } = {}
+  ): Promise<BatchEnhancementResult> {
+    const concurrency = options.concurrency ?? config.batch.concurrency;
+
+    const items = await mapConcurrent(userInputs, concurrency, async (userInput, index): Promise<BatchItemResult> => {
       try {
-        const enhancedPrompt = await this.enhancePrompt(userInput);
-        results.push(enhancedPrompt);
+        const validation = this.validatePrompt(userInput.prompt);
+        if (!validation.isValid) {
+          throw new ValidationError('Invalid prompt', validation.issues);
+        }
+
+        const { enhancedPrompt, cache, historyId } = await this.enhancePromptCached(userInput, {
+          bypassCache: options.bypassCache,
+          apiKeyId: options.apiKeyId,
+        });
+
+        return {
+          index,
+          status: 'fulfilled',
+          result: enhancedPrompt,
+          cache,
+          ...(historyId && { historyId }),
+          ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+        };
       } catch (error) {
-        console.error(`Failed to enhance prompt: ${userInput.prompt}`, error);
-        // Continue with other prompts even if one fails
-        continue;
+        log.error('Failed to enhance batch item', { index, error });
+        return {
+          index,
+          status: 'rejected',
+          error: toOperationError(error),
+        };
+      }
+    });
+
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for (const item of items) {
+      if (item.status === 'fulfilled' && item.cache !== 'hit') {
+        usage.promptTokens += item.result.metadata.tokenUsage.promptTokens;
+        usage.completionTokens += item.result.metadata.tokenUsage.completionTokens;
+        usage.totalTokens += item.result.metadata.tokenUsage.totalTokens;
       }
     }
-    
-    return results;
+
+    const succeeded = items.filter(item => item.status === 'fulfilled').length;
+
+    return {
+      items,
+      summary: { total: items.length, succeeded, failed: items.length - succeeded },
+      usage,
+    };
   }
 
-  async getEnhancementSuggestions(userInput: UserInput): Promise<string[]> {
+  async getEnhancementSuggestions(userInput: UserInput, options: { apiKeyId?: string } = {}): Promise<string[]> {
     try {
       const userInputModel = new UserInputModel(userInput);
       
       // Get AI suggestions for improving the prompt
-      const suggestions = await this.getAISuggestions(userInputModel);
+      const suggestions = await this.getAISuggestions(userInputModel, options.apiKeyId);
       
       return suggestions;
     } catch (error) {
-      console.error('Failed to get enhancement suggestions:', error);
+      log.error('Failed to get enhancement suggestions', { error });
       return [];
     }
   }
 
-  private async getAISuggestions(userInput: UserInputModel): Promise<string[]> {
+  private async getAISuggestions(userInput: UserInputModel, apiKeyId?: string): Promise<string[]> {
     const suggestionsPrompt = `Analyze this prompt and provide 3-5 specific suggestions for improvement:
 
 Prompt: "${userInput.prompt}"
@@ -304,6 +462,12 @@ Please provide suggestions in a numbered list format.`;
           enableContractEnforcement: false
         }
       );
+      await this.recordUsage({
+        requestId: DeterministicIdGenerator.generateShort(),
+        apiKeyId,
+        mode: userInput.mode,
+        kind: 'suggestions',
+      }, result.calls);
 
       const content = result.content;
       if (!content) {
@@ -320,7 +484,7 @@ Please provide suggestions in a numbered list format.`;
 
       return suggestions;
     } catch (error) {
-      console.error('Failed to get AI suggestions:', error);
+      log.error('Failed to get AI suggestions', { error });
       return [];
     }
   }
@@ -361,8 +525,11 @@ Please provide suggestions in a numbered list format.`;
   async getServiceStatus(): Promise<{
     available: boolean;
     model: string;
+    providers?: FailoverTargetHealth[];
     lastError?: string;
   }> {
+    const providers = this.aiClient.getProviderHealth();
+
     try {
       const isAvailable = await this.aiClient.isAvailable();
       const modelInfo = this.aiClient.getModelInfo();
@@ -370,28 +537,44 @@ Please provide suggestions in a numbered list format.`;
       return {
         available: isAvailable,
         model: modelInfo.model,
+        ...(providers && { providers }),
       };
     } catch (error) {
       return {
         available: false,
         model: this.aiClient.getModelInfo().model,
+        ...(providers && { providers }),
         lastError: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
   /**
-   * Get AI logs for debugging
+   * Recorded AI events matching `filter`, oldest first
+   */
+  getLogs(filter: AIEventFilter): Promise<AIEventPage> {
+    return this.events.query(filter);
+  }
+
+  /**
+   * Follow the AI events recorded from now on; returns the function that stops following
+   */
+  followLogs(filter: Omit<AIEventFilter, 'cursor' | 'limit'>, listener: AIEventListener): () => void {
+    return this.events.follow(filter, listener);
+  }
+
+  /**
+   * Clear the AI event log; returns the number of events removed
    */
-  getLogs(promptId?: string): any[] {
-    return this.logger.getLogs(promptId);
+  clearLogs(): Promise<number> {
+    return this.events.clear();
   }
 
   /**
-   * Clear AI logs
+   * Drop every cached enhancement, e.g. after changing prompt templates
    */
-  clearLogs(): void {
-    this.logger.clearLogs();
+  clearCache(): Promise<void> {
+    return this.cache.clear();
   }
 
   /**
@@ -401,6 +584,39 @@ Please provide suggestions in a numbered list format.`;
     return this.aiClient.getConfig();
   }
 
+  /**
+   * Persist the request/result pair; history is best-effort and never fails the request
+   */
+  private async recordHistory(userInput: UserInput, enhancedPrompt: EnhancedPrompt, apiKeyId?: string): Promise<string | undefined> {
+    try {
+      const entry = await this.history.save(userInput, enhancedPrompt, apiKeyId);
+      return entry.id;
+    } catch (error) {
+      log.error('Failed to record enhancement history', { error: error instanceof Error ? error.message : error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Record upstream calls in the usage ledger; like history, never fails the request
+   */
+  private async recordUsage(context: UsageContext, calls: UpstreamCall[]): Promise<void> {
+    try {
+      await this.usage.record(context, calls);
+    } catch (error) {
+      log.error('Failed to record token usage', { error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  /**
+   * Deterministic prompt ID plus the hash of the remaining input fields (context, language, ...)
+   */
+  private getCacheKey(userInput: UserInput): string {
+    const userInputModel = new UserInputModel(userInput);
+    // Editing a mode definition invalidates the results generated under the old one
+    return `${this.getDeterministicPromptId(userInput)}:${userInputModel.hash}:${modeRegistry.fingerprint(userInput.mode)}`;
+  }
+
   /**
    * Get deterministic prompt ID for same input
    */
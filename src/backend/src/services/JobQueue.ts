@@ -0,0 +1,226 @@
+import { EnhanceResponse, EnhancementStreamEvent, Job, JobProgress } from '@loogi/shared';
+import { UserInput } from '../models/UserInput';
+import { toOperationError } from '../middleware/errorHandler';
+import { EnhancedPromptEnhancementService } from './EnhancedPromptEnhancementService';
+import { JobChanges, JobRepository, RowOwner, Storage, StoredJob } from './storage';
+import { WebhookDispatcher } from './WebhookDispatcher';
+import { logger, withLogFields } from './logging';
+import { config } from '../config/index';
+
+const log = logger.child({ component: 'JobQueue' });
+
+/**
+ * Runs enhancements in the background for `POST /enhance?async=true`. Jobs are persisted
+ * before they are acknowledged, at most `concurrency` run at once, and jobs interrupted
+ * by a restart are picked up again by start(). Finished jobs with a callbackUrl are
+ * delivered through the webhook dispatcher.
+ */
+export class JobQueue {
+  private readonly service: EnhancedPromptEnhancementService;
+  private readonly repository: JobRepository;
+  private readonly concurrency: number;
+  private readonly webhooks: WebhookDispatcher;
+  private readonly running = new Map<string, AbortController>();
+  private started = false;
+  private pumping = false;
+  private pumpRequested = false;
+
+  constructor(
+    service: EnhancedPromptEnhancementService,
+    repository: JobRepository = Storage.getJobRepository(),
+    concurrency: number = config.jobs.concurrency,
+    webhooks: WebhookDispatcher = new WebhookDispatcher()
+  ) {
+    this.service = service;
+    this.repository = repository;
+    this.concurrency = Math.max(1, concurrency);
+    this.webhooks = webhooks;
+  }
+
+  /** Whether jobs may be submitted with a callbackUrl */
+  get callbacksEnabled(): boolean {
+    return this.webhooks.enabled;
+  }
+
+  /** Why jobs may not call back `url`, or undefined if they may */
+  checkCallbackUrl(url: string): Promise<string | undefined> {
+    return this.webhooks.checkUrl(url);
+  }
+
+  /**
+   * Requeue jobs left running by the previous process, resume pending webhook deliveries
+   * and start processing
+   */
+  async start(): Promise<void> {
+    await this.webhooks.start();
+
+    const requeued = await this.repository.requeueInterrupted();
+    if (requeued > 0) {
+      log.warn('Requeued interrupted enhancement jobs', { requeued });
+    }
+
+    this.started = true;
+    this.pump();
+  }
+
+  /**
+   * Stop taking new jobs; running ones are requeued on the next start()
+   */
+  stop(): void {
+    this.started = false;
+    this.webhooks.stop();
+  }
+
+  async enqueue(
+    input: UserInput,
+    options: { bypassCache?: boolean; callbackUrl?: string; apiKeyId?: string } = {}
+  ): Promise<Job> {
+    const job = await this.repository.create(input, {
+      bypassCache: options.bypassCache ?? false,
+      ...(options.callbackUrl && { callbackUrl: options.callbackUrl }),
+      ...(options.apiKeyId && { apiKeyId: options.apiKeyId }),
+    });
+    this.pump();
+    return job;
+  }
+
+  async get(id: string, owner?: RowOwner): Promise<Job | undefined> {
+    return this.repository.findById(id, owner);
+  }
+
+  /**
+   * Cancel a queued or running job. Returns undefined when the job does not exist (or isn't
+   * `owner`'s) and the unchanged job when it had already finished.
+   */
+  async cancel(id: string, owner?: RowOwner): Promise<Job | undefined> {
+    const job = await this.repository.findById(id, owner);
+    if (!job) {
+      return undefined;
+    }
+
+    const cancelled = await this.repository.transition(id, ['queued', 'running'], { status: 'cancelled' });
+    if (!cancelled) {
+      return this.repository.findById(id);
+    }
+
+    this.running.get(id)?.abort();
+    return cancelled;
+  }
+
+  private pump(): void {
+    this.pumpRequested = true;
+    if (this.pumping) {
+      return;
+    }
+
+    this.pumping = true;
+    void (async () => {
+      try {
+        // Jobs enqueued or finished while claiming trigger another round
+        while (this.pumpRequested) {
+          this.pumpRequested = false;
+          await this.fillWorkers();
+        }
+      } catch (error) {
+        log.error('Failed to claim enhancement jobs', { error });
+      } finally {
+        this.pumping = false;
+      }
+    })();
+  }
+
+  private async fillWorkers(): Promise<void> {
+    while (this.started && this.running.size < this.concurrency) {
+      const job = await this.repository.claimNext();
+      if (!job) {
+        return;
+      }
+
+      const controller = new AbortController();
+      this.running.set(job.id, controller);
+      // A job logs under its own ID (its `_meta.requestId`), not that of the request that woke the queue
+      void withLogFields({ requestId: job.id }, () => this.run(job, controller.signal)).finally(() => {
+        this.running.delete(job.id);
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: StoredJob, signal: AbortSignal): Promise<void> {
+    const startTime = Date.now();
+    let progress: JobProgress = { attempt: 1 };
+
+    const update = async (changes: JobChanges): Promise<Job | undefined> => {
+      // Only running jobs change; a cancelled job keeps its final state
+      try {
+        return await this.repository.transition(job.id, ['running'], changes);
+      } catch (error) {
+        log.error('Failed to update job', { jobId: job.id, error });
+        return undefined;
+      }
+    };
+
+    const onEvent = (event: EnhancementStreamEvent) => {
+      const next = JobQueue.nextProgress(progress, event);
+      if (next !== progress) {
+        progress = next;
+        void update({ progress });
+      }
+    };
+
+    await update({ progress });
+
+    let finished: Job | undefined;
+    try {
+      const validation = this.service.validatePrompt(job.input.prompt);
+      const { enhancedPrompt, cache, historyId } = await this.service.enhancePromptCached(job.input, {
+        bypassCache: job.bypassCache,
+        apiKeyId: job.apiKeyId,
+        stream: { onEvent, signal },
+      });
+
+      const result: EnhanceResponse = {
+        ...enhancedPrompt,
+        ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+        _meta: {
+          processingTime: Date.now() - startTime,
+          cache,
+          ...(historyId && { historyId }),
+          requestId: job.id,
+        },
+      };
+
+      finished = await update({
+        status: 'succeeded',
+        result,
+        progress: {
+          attempt: enhancedPrompt.metadata.attempts,
+          ...(enhancedPrompt.metadata.validationResult && { validationResult: enhancedPrompt.metadata.validationResult }),
+        },
+      });
+    } catch (error) {
+      finished = await update({ status: 'failed', error: toOperationError(error) });
+    }
+
+    if (finished?.callbackUrl) {
+      await this.webhooks.dispatch(finished, job.apiKeyId).catch(error => {
+        log.error('Failed to dispatch webhook', { jobId: job.id, error });
+      });
+    }
+  }
+
+  /**
+   * Fold a stream event into the job progress; returns the same object when nothing changed
+   */
+  static nextProgress(progress: JobProgress, event: EnhancementStreamEvent): JobProgress {
+    switch (event.type) {
+      case 'delta':
+        return event.attempt === progress.attempt ? progress : { attempt: event.attempt };
+      case 'contract_validation':
+        return { attempt: event.attempt, validationResult: { isValid: event.isValid, violations: event.violations } };
+      case 'reprompt_started':
+        // The new attempt is pending; keep the violations that triggered it
+        return { attempt: event.attempt, validationResult: { isValid: false, violations: event.violations } };
+    }
+  }
+}
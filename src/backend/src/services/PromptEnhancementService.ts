@@ -1,7 +1,10 @@
-import { UserInput, UserInputModel } from '../models/UserInput';
+import { LegacyAIMode, LegacyAIModeSchema, UserInput, UserInputModel } from '../models/UserInput';
 import { EnhancedPrompt, EnhancedPromptModel } from '../models/EnhancedPrompt';
 import { DeepseekClient } from './DeepseekClient';
 import { AIServiceError } from '../middleware/errorHandler';
+import { logger } from './logging';
+
+const log = logger.child({ component: 'PromptEnhancementService' });
 
 export interface EnhancementResult {
   success: boolean;
@@ -13,8 +16,8 @@ export interface EnhancementResult {
 export class PromptEnhancementService {
   private aiClient: DeepseekClient;
 
-  constructor() {
-    this.aiClient = new DeepseekClient();
+  constructor(aiClient: DeepseekClient = new DeepseekClient()) {
+    this.aiClient = aiClient;
   }
 
   async enhancePrompt(userInput: UserInput): Promise<EnhancedPrompt> {
@@ -27,7 +30,7 @@ export class PromptEnhancementService {
       // Call AI service to enhance the prompt - let AI handle language detection
       const aiResult = await this.aiClient.enhancePrompt(
         userInputModel.prompt,
-        userInputModel.mode as any, // Cast to handle both legacy and new modes
+        this.toLegacyMode(userInputModel.mode),
         userInputModel.maxTokens
       );
 
@@ -72,6 +75,14 @@ export class PromptEnhancementService {
     }
   }
 
+  /**
+   * The legacy client only knows the four legacy modes; task modes fall back to standard
+   */
+  private toLegacyMode(mode: string): LegacyAIMode {
+    const parsed = LegacyAIModeSchema.safeParse(mode);
+    return parsed.success ? parsed.data : 'standard';
+  }
+
   async enhancePromptBatch(userInputs: UserInput[]): Promise<EnhancedPrompt[]> {
     const results: EnhancedPrompt[] = [];
     
@@ -81,7 +92,7 @@ export class PromptEnhancementService {
         const enhancedPrompt = await this.enhancePrompt(userInput);
         results.push(enhancedPrompt);
       } catch (error) {
-        console.error(`Failed to enhance prompt: ${userInput.prompt}`, error);
+        log.error('Failed to enhance prompt', { prompt: userInput.prompt, mode: userInput.mode, error });
         // Continue with other prompts even if one fails
         continue;
       }
@@ -99,7 +110,7 @@ export class PromptEnhancementService {
       
       return suggestions;
     } catch (error) {
-      console.error('Failed to get enhancement suggestions:', error);
+      log.error('Failed to get enhancement suggestions', { error });
       return [];
     }
   }
@@ -144,7 +155,7 @@ Please provide suggestions in a numbered list format.`;
 
       return suggestions;
     } catch (error) {
-      console.error('Failed to get AI suggestions:', error);
+      log.error('Failed to get AI suggestions', { error });
       return [];
     }
   }
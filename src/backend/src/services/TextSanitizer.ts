@@ -1,3 +1,6 @@
+import { AIProviderName, PROVIDER_DEFAULTS, isAIProviderName } from './providers/types';
+import { CircuitBreakerConfig, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './providers/CircuitBreaker';
+
 export interface SanitizationResult {
   sanitizedText: string;
   originalLanguage: string;
@@ -303,18 +306,25 @@ export class TokenBudgetManager {
 export class ConfigValidator {
   static validateAIConfig(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
+    const provider = process.env.AI_PROVIDER || 'deepseek';
     
-    // Required fields
-    if (!process.env.AI_API_KEY) {
-      errors.push('AI_API_KEY is required');
-    }
-    
-    if (!process.env.AI_API_URL) {
-      errors.push('AI_API_URL is required');
+    if (!isAIProviderName(provider)) {
+      errors.push(`AI_PROVIDER must be one of: ${Object.keys(PROVIDER_DEFAULTS).join(', ')}`);
     }
     
-    if (!process.env.AI_MODEL) {
-      errors.push('AI_MODEL is required');
+    // Required fields (the mock provider runs fully offline)
+    if (provider !== 'mock') {
+      if (!process.env.AI_API_KEY && (!isAIProviderName(provider) || PROVIDER_DEFAULTS[provider].requiresApiKey)) {
+        errors.push('AI_API_KEY is required');
+      }
+      
+      if (!process.env.AI_API_URL) {
+        errors.push('AI_API_URL is required');
+      }
+      
+      if (!process.env.AI_MODEL) {
+        errors.push('AI_MODEL is required');
+      }
     }
     
     // Optional fields with validation
@@ -346,6 +356,22 @@ export class ConfigValidator {
       }
     }
     
+    // Fallback chain: "provider[:model],..." with per-provider credentials
+    for (const { provider: fallback } of this.parseFallbackProviders()) {
+      if (!isAIProviderName(fallback)) {
+        errors.push(`AI_FALLBACK_PROVIDERS entry "${fallback}" must be one of: ${Object.keys(PROVIDER_DEFAULTS).join(', ')}`);
+      } else if (PROVIDER_DEFAULTS[fallback].requiresApiKey && !process.env[`AI_${fallback.toUpperCase()}_API_KEY`]) {
+        errors.push(`AI_${fallback.toUpperCase()}_API_KEY is required for fallback provider ${fallback}`);
+      }
+    }
+    
+    if (process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
+      const threshold = parseFloat(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD);
+      if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+        errors.push('CIRCUIT_BREAKER_FAILURE_THRESHOLD must be between 0 and 1');
+      }
+    }
+    
     return {
       valid: errors.length === 0,
       errors
@@ -353,6 +379,7 @@ export class ConfigValidator {
   }
   
   static getAIConfig(): {
+    provider: AIProviderName;
     apiKey: string;
     baseURL: string;
     model: string;
@@ -364,10 +391,16 @@ export class ConfigValidator {
     timeout: number;
     seed?: number;
   } {
+    const provider = process.env.AI_PROVIDER && isAIProviderName(process.env.AI_PROVIDER)
+      ? process.env.AI_PROVIDER
+      : 'deepseek';
+    const defaults = PROVIDER_DEFAULTS[provider];
+    
     return {
+      provider,
       apiKey: process.env.AI_API_KEY || '',
-      baseURL: process.env.AI_API_URL || 'https://api.deepseek.com/v1',
-      model: process.env.AI_MODEL || 'deepseek-chat',
+      baseURL: process.env.AI_API_URL || defaults.baseURL,
+      model: process.env.AI_MODEL || defaults.model,
       maxTokens: parseInt(process.env.AI_MAX_TOKENS || '2000'),
       temperature: parseFloat(process.env.AI_TEMPERATURE || '0.2'),
       topP: parseFloat(process.env.AI_TOP_P || '0.9'),
@@ -377,4 +410,46 @@ export class ConfigValidator {
       seed: process.env.AI_SEED ? parseInt(process.env.AI_SEED) : undefined
     };
   }
+  
+  /**
+   * Fallback providers from AI_FALLBACK_PROVIDERS, tried in order after the primary.
+   * Credentials come from AI_<PROVIDER>_API_KEY / AI_<PROVIDER>_API_URL.
+   */
+  static getFallbackConfigs(): Array<{ provider: AIProviderName; apiKey: string; baseURL: string; model: string }> {
+    return this.parseFallbackProviders()
+      .filter((entry): entry is { provider: AIProviderName; model?: string } => isAIProviderName(entry.provider))
+      .map(({ provider, model }) => {
+        const prefix = `AI_${provider.toUpperCase()}`;
+        return {
+          provider,
+          apiKey: process.env[`${prefix}_API_KEY`] || '',
+          baseURL: process.env[`${prefix}_API_URL`] || PROVIDER_DEFAULTS[provider].baseURL,
+          model: model || PROVIDER_DEFAULTS[provider].model,
+        };
+      });
+  }
+  
+  static getCircuitBreakerConfig(): CircuitBreakerConfig {
+    const defaults = DEFAULT_CIRCUIT_BREAKER_CONFIG;
+    return {
+      failureThreshold: parseFloat(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || String(defaults.failureThreshold)),
+      minimumRequests: parseInt(process.env.CIRCUIT_BREAKER_MIN_REQUESTS || String(defaults.minimumRequests)),
+      windowMs: parseInt(process.env.CIRCUIT_BREAKER_WINDOW_MS || String(defaults.windowMs)),
+      openDurationMs: parseInt(process.env.CIRCUIT_BREAKER_OPEN_MS || String(defaults.openDurationMs)),
+    };
+  }
+  
+  private static parseFallbackProviders(): Array<{ provider: string; model?: string }> {
+    return (process.env.AI_FALLBACK_PROVIDERS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        // Split on the first colon only; Ollama model tags contain colons (llama3.1:8b)
+        const separator = entry.indexOf(':');
+        return separator === -1
+          ? { provider: entry }
+          : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) || undefined };
+      });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { TaskMode, UsageQuery, UsageReport, UsageTotals } from '@loogi/shared';
+import { ApiKeyService } from './ApiKeyService';
+import type { UpstreamCall } from './EnhancedDeepseekClient';
+import { toCsv } from './csv';
+import { ModelPricing, parseModelPricing, priceUsage } from './pricing';
+import { Storage, UsageRepository } from './storage';
+import { config } from '../config/index';
+
+/**
+ * The request a set of upstream calls was made for
+ */
+export interface UsageContext {
+  requestId: string;
+  apiKeyId?: string;
+  mode: TaskMode;
+  kind: 'enhancement' | 'suggestions';
+}
+
+const CSV_COLUMNS = ['group', 'label', 'requests', 'calls', 'promptTokens', 'completionTokens', 'totalTokens', 'cost'] as const;
+
+// Costs are sums of small fractions; report them to the micro-dollar
+const roundCost = (cost: number) => Math.round(cost * 1_000_000) / 1_000_000;
+
+/**
+ * Records every upstream AI call (generations, contract re-prompts, suggestions) with its
+ * tokens and cost, charges the tokens to the caller's API key and aggregates the ledger.
+ */
+export class UsageService {
+  private readonly repository: UsageRepository;
+  private readonly apiKeys: ApiKeyService;
+  private readonly pricing: ModelPricing;
+
+  constructor(
+    repository: UsageRepository = Storage.getUsageRepository(),
+    apiKeys: ApiKeyService = new ApiKeyService(),
+    pricing: ModelPricing = parseModelPricing(config.usage.pricing)
+  ) {
+    this.repository = repository;
+    this.apiKeys = apiKeys;
+    this.pricing = pricing;
+  }
+
+  async record(context: UsageContext, calls: UpstreamCall[]): Promise<void> {
+    if (calls.length === 0) {
+      return;
+    }
+
+    await this.repository.record(calls.map(call => ({
+      requestId: context.requestId,
+      apiKeyId: context.apiKeyId,
+      mode: context.mode,
+      kind: call.purpose === 'reprompt' ? 'reprompt' : context.kind,
+      provider: call.provider,
+      model: call.model,
+      promptTokens: call.usage.prompt_tokens,
+      completionTokens: call.usage.completion_tokens,
+      totalTokens: call.usage.total_tokens,
+      cost: priceUsage(this.pricing, call.model, call.usage),
+    })));
+
+    if (context.apiKeyId) {
+      const totalTokens = calls.reduce((sum, call) => sum + call.usage.total_tokens, 0);
+      await this.apiKeys.recordUsage(context.apiKeyId, totalTokens);
+    }
+  }
+
+  async report(query: Omit<UsageQuery, 'format'>): Promise<UsageReport> {
+    const groups = (await this.repository.aggregate(query)).map(group => ({ ...group, cost: roundCost(group.cost) }));
+
+    if (query.groupBy === 'key') {
+      const names = new Map((await this.apiKeys.list()).map(key => [key.id, key.name]));
+      groups.forEach(group => {
+        const name = names.get(group.group);
+        if (name) {
+          group.label = name;
+        }
+      });
+    }
+
+    const total = groups.reduce<UsageTotals>(
+      (sum, group) => ({
+        requests: sum.requests + group.requests,
+        calls: sum.calls + group.calls,
+        promptTokens: sum.promptTokens + group.promptTokens,
+        completionTokens: sum.completionTokens + group.completionTokens,
+        totalTokens: sum.totalTokens + group.totalTokens,
+        cost: sum.cost + group.cost,
+      }),
+      { requests: 0, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+    );
+
+    return { groupBy: query.groupBy, groups, total: { ...total, cost: roundCost(total.cost) } };
+  }
+
+  /**
+   * One row per group, RFC 4180 quoting
+   */
+  static toCsv(report: UsageReport): string {
+    return toCsv([CSV_COLUMNS, ...report.groups.map(group => CSV_COLUMNS.map(column => group[column]))]);
+  }
+}
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { Job, WebhookDelivery, WebhookPayload } from '@loogi/shared';
+import { Storage, StoredWebhookDelivery, WebhookDeliveryRepository } from './storage';
+import { logger } from './logging';
+import { config } from '../config/index';
+
+const log = logger.child({ component: 'WebhookDispatcher' });
+
+export interface WebhookOptions {
+  secret: string;
+  maxAttempts: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+  /** Hosts callbacks may go to; empty allows any host that resolves to public addresses only */
+  allowedHosts: string[];
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges;
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const NON_PUBLIC_RANGES: Array<[network: string, prefix: number, type: 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'], ['10.0.0.0', 8, 'ipv4'], ['100.64.0.0', 10, 'ipv4'], ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], ['172.16.0.0', 12, 'ipv4'], ['192.0.0.0', 24, 'ipv4'], ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'], ['224.0.0.0', 3, 'ipv4'],
+  ['::', 127, 'ipv6'], ['64:ff9b::', 96, 'ipv6'], ['fc00::', 7, 'ipv6'], ['fe80::', 10, 'ipv6'], ['ff00::', 8, 'ipv6'],
+];
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+NON_PUBLIC_RANGES.forEach(([network, prefix, type]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, type));
+
+// Error code of connections refused by the lookup check
+const REFUSED_ADDRESS = 'EWEBHOOKADDRESS';
+
+const isPublicAddress = (address: string): boolean =>
+  !NON_PUBLIC_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// URL hostname without the brackets of an IPv6 literal
+const hostnameOf = (url: URL): string => url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+/**
+ * POSTs finished jobs to their callbackUrl. Every attempt is signed with
+ * `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, retried with
+ * exponential backoff on network errors, 408, 429 and 5xx, and recorded in the delivery log.
+ */
+export class WebhookDispatcher {
+  private readonly repository: WebhookDeliveryRepository;
+  private readonly options: WebhookOptions;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  // Check the addresses a callback host resolves to when connecting, so a host that passed
+  // checkUrl() can't be re-pointed at an internal address (DNS rebinding)
+  private readonly httpAgent: http.Agent;
+  private readonly httpsAgent: https.Agent;
+
+  constructor(
+    repository: WebhookDeliveryRepository = Storage.getWebhookDeliveryRepository(),
+    options: WebhookOptions = config.webhooks
+  ) {
+    this.repository = repository;
+    this.options = options;
+    this.httpAgent = new http.Agent({ lookup: this.lookup });
+    this.httpsAgent = new https.Agent({ lookup: this.lookup });
+  }
+
+  /** Callbacks are only accepted once a signing secret is configured */
+  get enabled(): boolean {
+    return this.options.secret.length > 0;
+  }
+
+  /**
+   * Why callbacks may not be sent to `url`, or undefined if they may. Hosts outside
+   * `allowedHosts` (when set) are refused, as are hosts that are or resolve to a non-public address
+   * unless they are listed.
+   */
+  async checkUrl(url: string): Promise<string | undefined> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'Callback URL is invalid';
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'Callback URL must use http or https';
+    }
+
+    const hostname = hostnameOf(parsed);
+    if (this.options.allowedHosts.includes(hostname)) {
+      return undefined;
+    }
+    if (this.options.allowedHosts.length > 0) {
+      return `Callback host ${hostname} is not in WEBHOOK_ALLOWED_HOSTS`;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = net.isIP(hostname) ? [hostname] : (await dns.promises.lookup(hostname, { all: true })).map(({ address }) => address);
+    } catch {
+      return `Callback host ${hostname} cannot be resolved`;
+    }
+    const blocked = addresses.find(address => !isPublicAddress(address));
+    return blocked ? `Callback host ${hostname} resolves to the non-public address ${blocked}` : undefined;
+  }
+
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  /**
+   * Resume deliveries that were pending when the process stopped
+   */
+  async start(): Promise<void> {
+    for (const delivery of await this.repository.listPending()) {
+      this.schedule(delivery, delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0);
+    }
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Log a delivery for a finished job and send it; no-op without a callbackUrl. The delivery
+   * belongs to `apiKeyId`, the key that submitted the job.
+   */
+  async dispatch(job: Job, apiKeyId?: string): Promise<WebhookDelivery | undefined> {
+    if (!job.callbackUrl || (job.status !== 'succeeded' && job.status !== 'failed')) {
+      return undefined;
+    }
+    if (!this.enabled) {
+      log.warn('Not delivering job callback: WEBHOOK_SECRET is not configured', { jobId: job.id });
+      return undefined;
+    }
+
+    const payload: WebhookPayload = {
+      event: job.status === 'succeeded' ? 'job.succeeded' : 'job.failed',
+      job,
+      timestamp: new Date().toISOString(),
+    };
+    const delivery = await this.repository.create({
+      jobId: job.id,
+      url: job.callbackUrl,
+      event: payload.event,
+      payload: JSON.stringify(payload),
+      apiKeyId,
+    });
+
+    this.schedule(delivery, 0);
+    return delivery;
+  }
+
+  /**
+   * dns.lookup() that fails with REFUSED_ADDRESS for unlisted hosts resolving to a non-public address
+   */
+  private readonly lookup = (
+    hostname: string,
+    options: dns.LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+  ): void => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, []);
+        return;
+      }
+      const blocked = this.options.allowedHosts.includes(hostname.toLowerCase())
+        ? undefined
+        : addresses.find(({ address }) => !isPublicAddress(address));
+      if (blocked) {
+        callback(
+          Object.assign(new Error(`Callback host ${hostname} resolves to the non-public address ${blocked.address}`), { code: REFUSED_ADDRESS }),
+          []
+        );
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0]!.address, addresses[0]!.family);
+      }
+    });
+  };
+
+  private schedule(delivery: StoredWebhookDelivery, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery).catch(error => {
+        log.error('Failed to record webhook delivery', { deliveryId: delivery.id, jobId: delivery.jobId, error });
+      });
+    }, Math.max(0, delayMs));
+    // Pending retries must not keep the process alive; they resume on the next start()
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(delivery: StoredWebhookDelivery): Promise<void> {
+    const attempt = delivery.attempts.length + 1;
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000);
+    let statusCode: number | undefined;
+    // Checked again on every attempt: the configuration or the host's addresses may have changed
+    let error = this.enabled ? await this.checkUrl(delivery.url) : 'WEBHOOK_SECRET is not configured';
+    let refused = error !== undefined;
+
+    if (!refused) {
+      try {
+        const response = await axios.post(delivery.url, delivery.payload, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'LOOGI-Prompt-Supercharger-Webhook',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery.id,
+            'X-Webhook-Signature': WebhookDispatcher.sign(this.options.secret, timestamp, delivery.payload),
+          },
+          httpAgent: this.httpAgent,
+          httpsAgent: this.httpsAgent,
+          proxy: false,
+          timeout: this.options.timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true,
+        });
+        statusCode = response.status;
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : 'Unknown error';
+        refused = (requestError as { code?: string }).code === REFUSED_ADDRESS;
+      }
+    }
+
+    const delivered = statusCode !== undefined && statusCode >= 200 && statusCode < 300;
+    // Refused callbacks are not retried
+    const retryable = !delivered && !refused &&
+      (statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500);
+    const retryDelay = retryable && attempt < this.options.maxAttempts
+      ? this.options.retryBaseMs * 2 ** (attempt - 1)
+      : undefined;
+
+    const updated = await this.repository.recordAttempt(
+      delivery.id,
+      {
+        attempt,
+        at: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        ...(statusCode !== undefined && { statusCode }),
+        ...(error && { error }),
+      },
+      delivered
+        ? { status: 'delivered' }
+        : retryDelay !== undefined
+          ? { status: 'pending', nextAttemptAt: new Date(Date.now() + retryDelay).toISOString() }
+          : { status: 'failed' }
+    );
+
+    if (updated && retryDelay !== undefined) {
+      this.schedule(updated, retryDelay);
+    }
+  }
+}
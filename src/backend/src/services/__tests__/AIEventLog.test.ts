@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIEvent, AIEventQuerySchema } from '@loogi/shared';
+import { AIEventLog } from '../AIEventLog';
+import {
+  AIEventRepository,
+  JsonlAIEventRepository,
+  NewAIEvent,
+  SqliteAIEventRepository,
+  openDatabase,
+} from '../storage';
+import { withLogFields } from '../logging';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+
+const query = (params: Record<string, string> = {}) => {
+  const { follow: _follow, ...filter } = AIEventQuerySchema.parse(params);
+  return filter;
+};
+
+const started = (promptId: string, mode: NewAIEvent['mode'] = 'code'): NewAIEvent => ({
+  event: 'enhancement_started',
+  promptId,
+  mode,
+  data: { promptLength: 20, maxTokens: 2000 },
+});
+
+const failed = (promptId: string, mode: NewAIEvent['mode'] = 'code'): NewAIEvent => ({
+  event: 'enhancement_failed',
+  promptId,
+  mode,
+  data: { error: 'Upstream failed', processingTime: 12 },
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-events-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const stores: Array<[string, () => AIEventRepository]> = [
+  ['SqliteAIEventRepository', () => new SqliteAIEventRepository(() => openDatabase(':memory:'))],
+  ['JsonlAIEventRepository', () => new JsonlAIEventRepository({ file: path.join(directory, 'events.jsonl'), maxFileBytes: 1024 * 1024, maxFiles: 3 })],
+];
+
+describe.each(stores)('%s', (_name, createRepository) => {
+  let repository: AIEventRepository;
+
+  beforeEach(async () => {
+    repository = createRepository();
+    await repository.append(started('prompt_a'));
+    await repository.append(failed('prompt_a'));
+    await repository.append(started('prompt_b', 'json'));
+    await repository.append({ ...failed('prompt_b', 'json'), requestId: 'req_1' });
+  });
+
+  it('should assign increasing IDs and timestamps', async () => {
+    const event = await repository.append(started('prompt_c'));
+
+    expect(event).toMatchObject({ id: '5', event: 'enhancement_started', promptId: 'prompt_c', data: { promptLength: 20 } });
+    expect(Number.isNaN(Date.parse(event.timestamp))).toBe(false);
+  });
+
+  it('should filter by prompt, event types and mode', async () => {
+    expect((await repository.query(query({ promptId: 'prompt_a' }))).logs.map(event => event.event))
+      .toEqual(['enhancement_started', 'enhancement_failed']);
+    expect((await repository.query(query({ event: 'enhancement_failed', mode: 'json' }))).logs)
+      .toEqual([expect.objectContaining({ promptId: 'prompt_b', requestId: 'req_1' })]);
+    expect((await repository.query(query({ event: 'enhancement_started,enhancement_failed' }))).count).toBe(4);
+  });
+
+  it('should filter by time range', async () => {
+    const past = new Date(Date.now() - 60_000).toISOString();
+    const future = new Date(Date.now() + 60_000).toISOString();
+
+    expect((await repository.query(query({ from: past, to: future }))).count).toBe(4);
+    expect((await repository.query(query({ from: future }))).count).toBe(0);
+  });
+
+  it('should page through events with the cursor', async () => {
+    const first = await repository.query(query({ limit: '3' }));
+    const second = await repository.query(query({ limit: '3', cursor: first.nextCursor! }));
+
+    expect(first).toMatchObject({ count: 3, nextCursor: '3', hasMore: true });
+    expect(second.logs.map(event => event.id)).toEqual(['4']);
+    expect(second.hasMore).toBe(false);
+    expect(await repository.query(query({ cursor: '4' }))).toEqual({ logs: [], count: 0, hasMore: false });
+  });
+
+  it('should keep counting IDs after clearing', async () => {
+    expect(await repository.clear()).toBe(4);
+    expect((await repository.query(query())).count).toBe(0);
+
+    expect((await repository.append(started('prompt_c'))).id).toBe('5');
+  });
+});
+
+describe('JsonlAIEventRepository', () => {
+  it('should rotate full files and keep only the newest ones', async () => {
+    const file = path.join(directory, 'events.jsonl');
+    const repository = new JsonlAIEventRepository({ file, maxFileBytes: 400, maxFiles: 2 });
+
+    for (let index = 0; index < 8; index++) {
+      await repository.append(started(`prompt_${index}`));
+    }
+
+    expect((await fs.readdir(directory)).sort()).toEqual(['events.1.jsonl', 'events.jsonl']);
+    const { logs } = await repository.query(query());
+    expect(logs.length).toBeLessThan(8);
+    expect(logs[logs.length - 1]?.id).toBe('8');
+    expect(logs.map(event => Number(event.id))).toEqual([...logs.map(event => Number(event.id))].sort((a, b) => a - b));
+  });
+
+  it('should continue the IDs of an existing log and skip truncated lines', async () => {
+    const file = path.join(directory, 'events.jsonl');
+    await new JsonlAIEventRepository({ file, maxFileBytes: 1024 * 1024, maxFiles: 3 }).append(started('prompt_a'));
+    await fs.appendFile(file, '{"id":"2","event":"enhance');
+
+    const repository = new JsonlAIEventRepository({ file, maxFileBytes: 1024 * 1024, maxFiles: 3 });
+    await fs.appendFile(file, '\n');
+    const event = await repository.append(started('prompt_b'));
+
+    expect(event.id).toBe('2');
+    expect((await repository.query(query())).logs.map(logged => logged.promptId)).toEqual(['prompt_a', 'prompt_b']);
+  });
+});
+
+describe('AIEventLog', () => {
+  it('should tag events with the request ID and notify matching followers', async () => {
+    const log = new AIEventLog(new SqliteAIEventRepository(() => openDatabase(':memory:')));
+    const followed: AIEvent[] = [];
+    const stop = log.follow({ event: ['enhancement_failed'] }, event => followed.push(event));
+
+    await withLogFields({ requestId: 'req_42' }, async () => {
+      await log.record('prompt_a', 'code', 'enhancement_started', { promptLength: 20, maxTokens: 2000 });
+      await log.record('prompt_a', 'code', 'enhancement_failed', { error: 'Upstream failed', processingTime: 12 });
+    });
+    stop();
+    await log.record('prompt_b', 'code', 'enhancement_failed', { error: 'Upstream failed', processingTime: 5 });
+
+    expect(followed).toEqual([expect.objectContaining({ id: '2', promptId: 'prompt_a', requestId: 'req_42' })]);
+    expect((await log.query(query())).count).toBe(3);
+  });
+
+  it('should not fail when the store does', async () => {
+    const log = new AIEventLog({
+      append: async () => {
+        throw new Error('disk full');
+      },
+      query: async () => ({ logs: [], count: 0, hasMore: false }),
+      clear: async () => 0,
+    });
+
+    await expect(log.record('prompt_a', 'code', 'cache_hit', { cacheKey: 'key' })).resolves.toBeUndefined();
+  });
+
+  it('should record the lifecycle of an enhancement', async () => {
+    const events = new AIEventLog(new SqliteAIEventRepository(() => openDatabase(':memory:')));
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider('mock-model', { respond: () => '```python\nprint("hello")\n```' })),
+      new EnhancementCache(new MemoryCacheStore(), 60),
+      undefined,
+      undefined,
+      events
+    );
+
+    const input = { prompt: 'Write a python hello world script', mode: 'code' as const, maxTokens: 2000, enableContractEnforcement: true };
+    const { enhancedPrompt } = await service.enhancePromptCached(input);
+    await service.enhancePromptCached(input);
+
+    const { logs } = await service.getLogs(query({ promptId: enhancedPrompt.metadata.promptId! }));
+    expect(logs.map(event => event.event)).toEqual(['enhancement_started', 'using_task_routing_enhancement', 'enhancement_completed', 'cache_hit']);
+    expect(logs[2]).toMatchObject({
+      mode: 'code',
+      data: { tokenUsage: enhancedPrompt.metadata.tokenUsage, attempts: 1, validationResult: { isValid: true } },
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect } from '@jest/globals';
+import { Readable } from 'stream';
+import {
+  AIConfig,
+  AIProviderFactory,
+  AIRequest,
+  AnthropicProvider,
+  MockProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  jsonSchemaResponseFormat,
+} from '../providers';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+
+const baseConfig: AIConfig = {
+  provider: 'openai',
+  apiKey: 'test_api_key',
+  baseURL: 'http://localhost:9999',
+  model: 'test-model',
+  maxTokens: 1000,
+  temperature: 0.2,
+  topP: 0.9,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  timeout: 1000,
+  enableRetries: false,
+  maxRetries: 0,
+  retryDelay: 0,
+};
+
+const request: AIRequest = {
+  model: 'test-model',
+  messages: [
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'Say hello' },
+  ],
+  max_tokens: 100,
+  temperature: 0.2,
+  top_p: 0.9,
+};
+
+const sseChunk = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+
+// Replace the provider's axios instance method with a mock
+const mockHttp = (provider: object, method: 'post' | 'get', value: unknown) => {
+  const fn = jest.fn().mockResolvedValue(value);
+  (provider as { client: Record<string, jest.Mock> }).client[method] = fn;
+  return fn;
+};
+
+describe('AIProviderFactory', () => {
+  it('should create the provider selected in the config', () => {
+    expect(AIProviderFactory.create({ ...baseConfig, provider: 'deepseek' }).name).toBe('deepseek');
+    expect(AIProviderFactory.create({ ...baseConfig, provider: 'openai' })).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(AIProviderFactory.create({ ...baseConfig, provider: 'anthropic' })).toBeInstanceOf(AnthropicProvider);
+    expect(AIProviderFactory.create({ ...baseConfig, provider: 'ollama' })).toBeInstanceOf(OllamaProvider);
+    expect(AIProviderFactory.create({ ...baseConfig, provider: 'mock' })).toBeInstanceOf(MockProvider);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  describe('parseStreamLine', () => {
+    it('should parse data lines', () => {
+      const chunk = OpenAICompatibleProvider.parseStreamLine(
+        'data: {"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}'
+      );
+      expect(chunk?.choices[0]?.delta.content).toBe('Hi');
+    });
+
+    it('should ignore comments, blank lines and the done marker', () => {
+      expect(OpenAICompatibleProvider.parseStreamLine(': keep-alive')).toBeNull();
+      expect(OpenAICompatibleProvider.parseStreamLine('')).toBeNull();
+      expect(OpenAICompatibleProvider.parseStreamLine('data: [DONE]')).toBeNull();
+      expect(OpenAICompatibleProvider.parseStreamLine('data: {not json')).toBeNull();
+    });
+  });
+
+  describe('toChatRequest', () => {
+    const schemaRequest: AIRequest = { ...request, response_format: jsonSchemaResponseFormat({ type: 'object' }) };
+
+    it('should pass JSON Schema response formats through', () => {
+      expect(OpenAICompatibleProvider.toChatRequest(schemaRequest, 'gpt', 'openai').response_format)
+        .toEqual({ type: 'json_schema', json_schema: { name: 'output', schema: { type: 'object' } } });
+    });
+
+    it('should fall back to JSON mode for DeepSeek', () => {
+      expect(OpenAICompatibleProvider.toChatRequest(schemaRequest, 'deepseek-chat', 'deepseek').response_format)
+        .toEqual({ type: 'json_object' });
+    });
+  });
+
+  describe('completeStream', () => {
+    it('should forward deltas and assemble the final response', async () => {
+      const provider = new OpenAICompatibleProvider(baseConfig);
+      const post = mockHttp(provider, 'post', {
+        data: Readable.from([
+          sseChunk({ id: 'cmpl_1', choices: [{ index: 0, delta: { role: 'assistant' }, finish_reason: null }] }),
+          sseChunk({ id: 'cmpl_1', choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: null }] }),
+          // Split a line across two network chunks
+          'data: {"id":"cmpl_1","choices":[{"index":0,"delta":{"content":" world"},',
+          '"finish_reason":"stop"}]}\n\n',
+          sseChunk({ id: 'cmpl_1', choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } }),
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+      const deltas: string[] = [];
+      const response = await provider.completeStream(request, (delta) => deltas.push(delta));
+
+      expect(post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({ stream: true }),
+        expect.objectContaining({ responseType: 'stream' })
+      );
+      expect(deltas).toEqual(['Hello', ' world']);
+      expect(response.id).toBe('cmpl_1');
+      expect(response.choices[0]?.message.content).toBe('Hello world');
+      expect(response.choices[0]?.finish_reason).toBe('stop');
+      expect(response.usage.total_tokens).toBe(7);
+    });
+
+    it('should estimate usage when the stream does not report it', async () => {
+      const provider = new OpenAICompatibleProvider(baseConfig);
+      mockHttp(provider, 'post', {
+        data: Readable.from([sseChunk({ choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: 'stop' }] })]),
+      });
+
+      const response = await provider.completeStream(request, () => undefined);
+
+      expect(response.usage.completion_tokens).toBeGreaterThan(0);
+      expect(response.usage.total_tokens).toBe(response.usage.prompt_tokens + response.usage.completion_tokens);
+    });
+  });
+});
+
+describe('AnthropicProvider', () => {
+  it('should move system messages to the top-level system field', () => {
+    const body = AnthropicProvider.toMessagesRequest(request, 'claude', 1000);
+
+    expect(body.system).toBe('You are a helpful assistant.');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Say hello' }]);
+    expect(body.max_tokens).toBe(100);
+    expect(body).not.toHaveProperty('top_p');
+  });
+
+  it('should normalize a Messages response', async () => {
+    const provider = new AnthropicProvider({ ...baseConfig, provider: 'anthropic' });
+    const post = mockHttp(provider, 'post', {
+      data: {
+        id: 'msg_1',
+        model: 'claude',
+        content: [{ type: 'text', text: 'Hello there' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 12, output_tokens: 3 },
+      },
+    });
+
+    const response = await provider.complete(request);
+
+    expect(post).toHaveBeenCalledWith('/messages', expect.objectContaining({ system: 'You are a helpful assistant.' }));
+    expect(response.choices[0]?.message.content).toBe('Hello there');
+    expect(response.usage).toEqual({ prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 });
+  });
+
+  it('should stream text deltas and usage', async () => {
+    const provider = new AnthropicProvider({ ...baseConfig, provider: 'anthropic' });
+    mockHttp(provider, 'post', {
+      data: Readable.from([
+        'event: message_start\n',
+        sseChunk({ type: 'message_start', message: { id: 'msg_1', model: 'claude', usage: { input_tokens: 12 } } }),
+        sseChunk({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } }),
+        sseChunk({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } }),
+        sseChunk({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } }),
+        sseChunk({ type: 'message_stop' }),
+      ]),
+    });
+
+    const deltas: string[] = [];
+    const response = await provider.completeStream(request, (delta) => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hello', ' there']);
+    expect(response.id).toBe('msg_1');
+    expect(response.choices[0]?.finish_reason).toBe('end_turn');
+    expect(response.usage.total_tokens).toBe(15);
+  });
+});
+
+describe('OllamaProvider', () => {
+  it('should map sampling parameters to Ollama options', () => {
+    const body = OllamaProvider.toChatRequest(request, 'llama', false);
+
+    expect(body.stream).toBe(false);
+    expect(body.options).toEqual({ temperature: 0.2, top_p: 0.9, num_predict: 100 });
+  });
+
+  it('should send a JSON Schema response format as the output format', () => {
+    const body = OllamaProvider.toChatRequest({ ...request, response_format: jsonSchemaResponseFormat({ type: 'array' }) }, 'llama', false);
+
+    expect(body.format).toEqual({ type: 'array' });
+  });
+
+  it('should read newline-delimited JSON streams', async () => {
+    const provider = new OllamaProvider({ ...baseConfig, provider: 'ollama', apiKey: '' });
+    mockHttp(provider, 'post', {
+      data: Readable.from([
+        '{"model":"llama","message":{"role":"assistant","content":"Hel"},"done":false}\n',
+        '{"model":"llama","message":{"role":"assistant","content":"lo"},"done":false}\n',
+        '{"model":"llama","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":9,"eval_count":2}\n',
+      ]),
+    });
+
+    const deltas: string[] = [];
+    const response = await provider.completeStream(request, (delta) => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(response.choices[0]?.message.content).toBe('Hello');
+    expect(response.usage).toEqual({ prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 });
+  });
+});
+
+describe('MockProvider', () => {
+  it('should be deterministic for identical requests', async () => {
+    const provider = new MockProvider();
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first).toEqual(second);
+    expect(first.choices[0]?.message.content).toContain('ENHANCED_PROMPT:');
+    expect(first.choices[0]?.message.content).toContain('Say hello');
+  });
+
+  it('should stream deltas that concatenate to the full content', async () => {
+    const provider = new MockProvider('mock-model', { respond: () => 'one two  three' });
+
+    const deltas: string[] = [];
+    const response = await provider.completeStream(request, (delta) => deltas.push(delta));
+
+    expect(deltas.length).toBe(3);
+    expect(deltas.join('')).toBe(response.choices[0]?.message.content);
+  });
+
+  it('should drive the enhanced client offline', async () => {
+    const provider = new MockProvider('mock-model', {
+      respond: () => '```python\nprint("hello")\n```',
+    });
+    const client = new EnhancedDeepseekClient({ model: 'mock-model' }, provider);
+
+    const result = await client.enhancePromptWithTaskRouting('Write a python hello world script', 'code');
+
+    expect(result.taskMode).toBe('code');
+    expect(result.validationResult.isValid).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(client.getModelInfo().provider).toBe('mock');
+  });
+
+  it('should check code output against the requested code language', async () => {
+    const provider = new MockProvider('mock-model', {
+      respond: () => '```python\nprint("hello")\n```',
+    });
+    const client = new EnhancedDeepseekClient({ model: 'mock-model' }, provider);
+
+    const result = await client.enhancePromptWithTaskRouting(
+      'Write a hello world script', 'code', undefined, undefined, undefined, undefined,
+      { codeLanguage: 'ts' }
+    );
+
+    expect(result.validationResult.violations).toContain('Language mismatch. Expected: ts, Found: python');
+  });
+
+  it('should re-align table output and return its rows', async () => {
+    const provider = new MockProvider('mock-model', {
+      respond: () => '|Name|Price|\n|-|-:|\n|Tea|2|\n|Coffee|12|',
+    });
+    const client = new EnhancedDeepseekClient({ model: 'mock-model' }, provider);
+
+    const result = await client.enhancePromptWithTaskRouting(
+      'Compare drinks in a table', 'table', undefined, undefined, undefined, undefined,
+      { tableColumns: ['Name', 'Price', 'Size'] }
+    );
+
+    expect(result.enhancedPrompt).toBe('| Name   | Price |\n| ------ | ----: |\n| Tea    |     2 |\n| Coffee |    12 |');
+    expect(result.table).toEqual({ columns: ['Name', 'Price'], rows: [['Tea', '2'], ['Coffee', '12']] });
+    expect(result.validationResult.violations).toEqual(['Missing column: Size']);
+  });
+});
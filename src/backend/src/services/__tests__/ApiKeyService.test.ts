@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { ApiKeyService } from '../ApiKeyService';
+import { SqliteApiKeyRepository, SqliteUsageRepository, openDatabase } from '../storage';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+import { UsageService } from '../UsageService';
+
+const createService = () => {
+  const db = openDatabase(':memory:');
+  return { db, apiKeys: new ApiKeyService(new SqliteApiKeyRepository(() => db)) };
+};
+
+describe('ApiKeyService', () => {
+  it('should store only the hash of issued keys', async () => {
+    const { db, apiKeys } = createService();
+
+    const created = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+
+    expect(created.key).toMatch(/^lps_/);
+    expect(created.key.startsWith(created.prefix)).toBe(true);
+    const rows = db.prepare('SELECT * FROM api_keys').all() as Array<Record<string, unknown>>;
+    expect(JSON.stringify(rows)).not.toContain(created.key);
+    expect(rows[0]?.key_hash).toBe(ApiKeyService.hash(created.key));
+  });
+
+  it('should authenticate active keys only', async () => {
+    const { apiKeys } = createService();
+    const created = await apiKeys.issue({ name: 'CI', scopes: ['enhance'], allowedModes: ['code'] });
+
+    const key = await apiKeys.authenticate(created.key);
+    expect(key).toMatchObject({ id: created.id, allowedModes: ['code'] });
+    expect((await apiKeys.get(created.id))?.lastUsedAt).toBeDefined();
+    expect(await apiKeys.authenticate(`${created.key}x`)).toBeUndefined();
+
+    expect((await apiKeys.revoke(created.id))?.revokedAt).toBeDefined();
+    expect(await apiKeys.revoke(created.id)).toBeUndefined();
+    expect(await apiKeys.authenticate(created.key)).toBeUndefined();
+  });
+
+  it('should count tokens against the daily quota', async () => {
+    const { apiKeys } = createService();
+    const created = await apiKeys.issue({ name: 'CI', scopes: ['enhance'], dailyTokenQuota: 1000 });
+    const unlimited = await apiKeys.issue({ name: 'Ops', scopes: ['admin'] });
+
+    await apiKeys.recordUsage(created.id, 400);
+    await apiKeys.recordUsage(created.id, 500);
+    expect(await apiKeys.remainingTokens(created)).toBe(100);
+    expect((await apiKeys.get(created.id))?.tokensUsedToday).toBe(900);
+
+    await apiKeys.recordUsage(created.id, 300);
+    expect(await apiKeys.remainingTokens(created)).toBe(0);
+    expect(await apiKeys.remainingTokens(unlimited)).toBeUndefined();
+  });
+
+  it('should let the admin scope grant every scope', async () => {
+    const { apiKeys } = createService();
+    const admin = await apiKeys.issue({ name: 'Ops', scopes: ['admin'] });
+    const client = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+
+    expect(ApiKeyService.hasScope(admin, 'enhance')).toBe(true);
+    expect(ApiKeyService.hasScope(client, 'admin')).toBe(false);
+  });
+
+  it('should charge generated results, not cache hits, to the key', async () => {
+    const { db, apiKeys } = createService();
+    const { id } = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider()),
+      new EnhancementCache(new MemoryCacheStore(), 60),
+      undefined,
+      new UsageService(new SqliteUsageRepository(() => db), apiKeys, {})
+    );
+    const input = { prompt: 'Write a poem about the sea.', mode: 'standard' as const, maxTokens: 1000, enableContractEnforcement: true };
+
+    const generated = await service.enhancePromptCached(input, { apiKeyId: id });
+    await service.enhancePromptCached(input, { apiKeyId: id });
+
+    const totalTokens = generated.enhancedPrompt.metadata.tokenUsage.totalTokens;
+    expect(totalTokens).toBeGreaterThan(0);
+    expect((await apiKeys.get(id))?.tokensUsedToday).toBe(totalTokens);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { AIRequest, MockProvider } from '../providers';
+import { AIServiceError } from '../../middleware/errorHandler';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+import { mapConcurrent } from '../concurrency';
+import { UserInput } from '../../models/UserInput';
+
+const input = (prompt: string): UserInput => ({
+  prompt,
+  mode: 'standard',
+  maxTokens: 1000,
+  enableContractEnforcement: true,
+});
+
+const createService = (provider: MockProvider = new MockProvider()) => new EnhancedPromptEnhancementService(
+  new EnhancedDeepseekClient({ model: 'mock-model' }, provider),
+  new EnhancementCache(new MemoryCacheStore(), 60)
+);
+
+describe('mapConcurrent', () => {
+  it('should keep at most `limit` calls in flight and preserve order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('EnhancedPromptEnhancementService batch', () => {
+  it('should report failed items in place instead of dropping them', async () => {
+    const provider = new MockProvider('mock-model', {
+      respond: (request: AIRequest) => {
+        if (request.messages.some(message => message.content.includes('unreachable'))) {
+          throw new AIServiceError('AI service unavailable', { status: 503 });
+        }
+        return MockProvider.defaultResponse(request);
+      },
+    });
+
+    const batch = await createService(provider).enhancePromptBatch([
+      input('Write a poem about the sea.'),
+      input('abc'),
+      input('Ask the unreachable oracle a question.'),
+    ]);
+
+    expect(batch.items.map(item => item.status)).toEqual(['fulfilled', 'rejected', 'rejected']);
+    expect(batch.items[1]).toMatchObject({ index: 1, error: { message: 'Invalid prompt', statusCode: 400 } });
+    expect(batch.items[2]).toMatchObject({ index: 2, error: { statusCode: 503 } });
+    expect(batch.summary).toEqual({ total: 3, succeeded: 1, failed: 2 });
+  });
+
+  it('should aggregate token usage without counting cache hits', async () => {
+    const service = createService();
+    const first = await service.enhancePromptBatch([input('Write a poem about the sea.')]);
+    const fulfilled = first.items[0];
+    if (fulfilled?.status !== 'fulfilled') {
+      throw new Error('expected the item to succeed');
+    }
+
+    const second = await service.enhancePromptBatch([
+      input('Write a poem about the sea.'),
+      input('Plan a three day trip to Rome.'),
+    ]);
+
+    const miss = second.items[1];
+
+    expect(first.usage).toEqual(fulfilled.result.metadata.tokenUsage);
+    expect(second.items.map(item => item.status === 'fulfilled' && item.cache)).toEqual(['hit', 'miss']);
+    expect(second.usage).toEqual(miss?.status === 'fulfilled' && miss.result.metadata.tokenUsage);
+  });
+});
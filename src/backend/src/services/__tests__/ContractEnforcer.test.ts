@@ -5,6 +5,7 @@ import { TaskMode } from '../OutputValidators';
 // Mock the DeepseekClient
 const mockDeepseekClient = {
   generateCompletion: jest.fn(),
+  generateCompletionStream: jest.fn(),
   getModelInfo: jest.fn().mockReturnValue({ model: 'deepseek-chat' }),
   getConfig: jest.fn().mockReturnValue({
     temperature: 0.2,
@@ -67,6 +68,39 @@ describe('ContractEnforcer', () => {
       expect(mockDeepseekClient.generateCompletion as jest.Mock).toHaveBeenCalledTimes(1);
     });
 
+    it('should name the failed rules and their positions in the re-prompt', async () => {
+      const invalidContent = 'Here is your code:\n\n```python\nprint("hello")\n```\n\nHope this helps!';
+
+      (mockDeepseekClient.generateCompletion as jest.Mock).mockResolvedValue({
+        choices: [{ message: { content: '```python\nprint("hello")\n```' } }]
+      });
+
+      await contractEnforcer.enforceContract(invalidContent, 'code', 'test prompt');
+
+      const [request] = (mockDeepseekClient.generateCompletion as jest.Mock).mock.calls[0] as [{ messages: Array<{ content: string }> }];
+      const rePrompt = request.messages[1]?.content;
+      expect(rePrompt).toContain('- [noProseOutsideCodeBlock] (line 1, column 1) Prose detected before/after code block.');
+      expect(rePrompt).toContain('- [noProseOutsideCodeBlock] (line 7, column 1)');
+      expect(rePrompt).toContain('Fix: Remove all text outside the code block.');
+    });
+
+    it('should re-prompt with the paths that violate the JSON Schema', async () => {
+      const jsonSchema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' } } }, required: ['tags'] };
+
+      (mockDeepseekClient.generateCompletion as jest.Mock).mockResolvedValue({
+        choices: [{ message: { content: '{"tags": ["a", "b"]}' } }]
+      });
+
+      const result = await contractEnforcer.enforceContract('{"tags": ["a", 2]}', 'json', 'test prompt', undefined, undefined, { jsonSchema });
+
+      expect(result.success).toBe(true);
+      const [request] = (mockDeepseekClient.generateCompletion as jest.Mock).mock.calls[0] as [{ messages: Array<{ content: string }>; response_format: unknown }];
+      expect(request.messages[0]?.content).toContain('"required": [');
+      expect(request.messages[1]?.content).toContain('- [matchesJsonSchema] /tags/1 must be string');
+      expect(request.messages[1]?.content).toContain('Fix: Change the value at /tags/1: it must be string.');
+      expect(request.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'output', schema: jsonSchema } });
+    });
+
     it('should disable contract enforcement when configured', async () => {
       const strictEnforcer = new ContractEnforcer(mockDeepseekClient as any, {
         maxAttempts: 2,
@@ -84,6 +118,32 @@ describe('ContractEnforcer', () => {
       expect(result.attempts).toBe(1);
       expect(mockDeepseekClient.generateCompletion as jest.Mock).not.toHaveBeenCalled();
     });
+
+    it('should emit validation and re-prompt events when streaming', async () => {
+      const invalidContent = 'Here is your code:\n\n```python\nprint("hello")\n```\n\nHope this helps!';
+      const fixedContent = '```python\nprint("hello")\n```';
+      const onEvent = jest.fn();
+
+      (mockDeepseekClient.generateCompletionStream as jest.Mock).mockImplementation(
+        async (_request: unknown, onDelta: (delta: string) => void) => {
+          onDelta(fixedContent);
+          return { choices: [{ message: { content: fixedContent } }] };
+        }
+      );
+
+      const result = await contractEnforcer.enforceContract(invalidContent, 'code', 'test prompt', undefined, { onEvent });
+
+      expect(result.success).toBe(true);
+      expect(mockDeepseekClient.generateCompletion as jest.Mock).not.toHaveBeenCalled();
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'contract_validation',
+        'reprompt_started',
+        'delta',
+        'contract_validation'
+      ]);
+      expect(onEvent).toHaveBeenCalledWith({ type: 'delta', attempt: 2, content: fixedContent });
+      expect(onEvent).toHaveBeenLastCalledWith({ type: 'contract_validation', attempt: 2, isValid: true, violations: [] });
+    });
   });
 
   describe('validateContent', () => {
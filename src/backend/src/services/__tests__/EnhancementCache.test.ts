@@ -0,0 +1,216 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { EnhancementCache, FileCacheStore, MemoryCacheStore, RedisCacheStore } from '../cache';
+import { MockProvider } from '../providers';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+import { UserInput } from '../../models/UserInput';
+
+/**
+ * Tiny in-memory server speaking enough RESP for the cache store
+ */
+const startFakeRedis = async (): Promise<{ url: string; data: Map<string, string>; close: () => Promise<void> }> => {
+  const data = new Map<string, string>();
+  const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = RedisCacheStore.parseReply(buffer);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset);
+        const [command, ...args] = parsed.reply as string[];
+        switch (command) {
+          case 'GET': {
+            const value = data.get(args[0]!);
+            socket.write(value === undefined ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+            break;
+          }
+          case 'SET':
+            data.set(args[0]!, args[1]!);
+            socket.write('+OK\r\n');
+            break;
+          case 'DEL':
+            args.forEach(key => data.delete(key));
+            socket.write(`:${args.length}\r\n`);
+            break;
+          case 'SCAN': {
+            const keys = [...data.keys()];
+            socket.write(`*2\r\n$1\r\n0\r\n*${keys.length}\r\n${keys.map(key => `$${key.length}\r\n${key}\r\n`).join('')}`);
+            break;
+          }
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+        parsed = RedisCacheStore.parseReply(buffer);
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    data,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+    await store.get('a');
+    await store.set('c', '3', 1000);
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should expire entries after their TTL', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore(10, () => now);
+    await store.set('a', '1', 1000);
+
+    now = 999;
+    expect(await store.get('a')).toBe('1');
+    now = 1000;
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should persist entries across store instances until they expire', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'enhancement-cache-'));
+    let now = 0;
+    await new FileCacheStore(directory, () => now).set('prompt_1', '{"a":1}', 1000);
+
+    const reopened = new FileCacheStore(directory, () => now);
+    expect(await reopened.get('prompt_1')).toBe('{"a":1}');
+
+    now = 1000;
+    expect(await reopened.get('prompt_1')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('should not mix up concurrent writes of the same key', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'enhancement-cache-'));
+    const store = new FileCacheStore(directory);
+    const values = Array.from({ length: 10 }, (_, index) => JSON.stringify({ index, padding: 'x'.repeat(100_000) }));
+
+    await Promise.all(values.map(value => store.set('prompt_1', value, 1000)));
+
+    expect(values).toContain(await store.get('prompt_1'));
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('should parse replies split across chunks', () => {
+    expect(RedisCacheStore.parseReply(Buffer.from('$5\r\nhel'))).toBeUndefined();
+    expect(RedisCacheStore.parseReply(Buffer.from('$5\r\nhello\r\n'))?.reply).toBe('hello');
+    expect(RedisCacheStore.parseReply(Buffer.from('*2\r\n:1\r\n$-1\r\n'))?.reply).toEqual([1, null]);
+  });
+
+  it('should get, set and clear prefixed keys on a Redis-protocol server', async () => {
+    const server = await startFakeRedis();
+    const store = new RedisCacheStore(server.url, { keyPrefix: 'test:' });
+
+    try {
+      await store.set('prompt_1', 'cached value', 60000);
+      expect(server.data.get('test:prompt_1')).toBe('cached value');
+      expect(await store.get('prompt_1')).toBe('cached value');
+      expect(await store.get('missing')).toBeUndefined();
+
+      await store.clear();
+      expect(server.data.size).toBe(0);
+    } finally {
+      store.close();
+      await server.close();
+    }
+  });
+});
+
+describe('EnhancedPromptEnhancementService cache', () => {
+  const createService = (store = new MemoryCacheStore()) => {
+    let calls = 0;
+    const provider = new MockProvider('mock-model', {
+      respond: () => {
+        calls++;
+        return '```python\nprint("hello")\n```';
+      },
+    });
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, provider),
+      new EnhancementCache(store, 60)
+    );
+    return { service, calls: () => calls };
+  };
+
+  const input: UserInput = {
+    prompt: 'Write a python hello world script',
+    mode: 'code',
+    maxTokens: 1000,
+    enableContractEnforcement: true,
+  };
+
+  it('should serve identical requests from the cache', async () => {
+    const { service, calls } = createService();
+
+    const first = await service.enhancePromptCached(input);
+    const second = await service.enhancePromptCached(input);
+
+    expect(first.cache).toBe('miss');
+    expect(second.cache).toBe('hit');
+    expect(second.enhancedPrompt.enhancedPrompt).toBe(first.enhancedPrompt.enhancedPrompt);
+    expect(calls()).toBe(1);
+  });
+
+  it('should regenerate when the cache is bypassed', async () => {
+    const { service, calls } = createService();
+
+    await service.enhancePromptCached(input);
+    const bypassed = await service.enhancePromptCached(input, { bypassCache: true });
+
+    expect(bypassed.cache).toBe('bypass');
+    expect(calls()).toBe(2);
+  });
+
+  it('should key entries by the full input', async () => {
+    const { service, calls } = createService();
+
+    await service.enhancePromptCached(input);
+    const withContext = await service.enhancePromptCached({ ...input, context: 'For children' });
+
+    expect(withContext.cache).toBe('miss');
+    expect(calls()).toBe(2);
+  });
+
+  it('should not serve unenforced output to requests with contract enforcement', async () => {
+    const { service, calls } = createService();
+
+    const unenforced = await service.enhancePromptCached({ ...input, enableContractEnforcement: false });
+    const enforced = await service.enhancePromptCached(input);
+    const cached = await service.enhancePromptCached(input);
+
+    expect(unenforced.cache).toBe('miss');
+    expect(enforced.cache).toBe('miss');
+    expect(enforced.enhancedPrompt.metadata.contractEnforced).toBe(true);
+    expect(cached.cache).toBe('hit');
+    expect(calls()).toBe(2);
+  });
+});
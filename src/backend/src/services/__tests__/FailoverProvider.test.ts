@@ -0,0 +1,158 @@
+import { describe, it, expect } from '@jest/globals';
+import { AIRequest, CircuitBreaker, FailoverProvider, MockProvider } from '../providers';
+import { AIServiceError } from '../../middleware/errorHandler';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+
+const request: AIRequest = {
+  model: '',
+  messages: [{ role: 'user', content: 'Say hello' }],
+};
+
+const failing = (status?: number) => new MockProvider('broken-model', {
+  respond: () => {
+    throw new AIServiceError('AI service unavailable', { status, provider: 'mock' });
+  },
+});
+
+const breakerConfig = { failureThreshold: 0.5, minimumRequests: 2, windowMs: 1000, openDurationMs: 500 };
+
+describe('CircuitBreaker', () => {
+  it('should open once the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker(breakerConfig, () => 0);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should let a single trial through after the open duration', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(breakerConfig, () => now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 500;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should re-open when the trial fails', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(breakerConfig, () => now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 600;
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStats().openedAt).toBe(new Date(600).toISOString());
+  });
+
+  it('should forget outcomes older than the window', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(breakerConfig, () => now);
+    breaker.recordFailure();
+
+    now = 1500;
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStats().requests).toBe(1);
+  });
+});
+
+describe('FailoverProvider', () => {
+  it('should route to the next provider when the primary fails', async () => {
+    const provider = new FailoverProvider([
+      { provider: failing(503), model: 'primary-model' },
+      { provider: new MockProvider(), model: 'fallback-model' },
+    ], breakerConfig);
+
+    const response = await provider.complete(request);
+
+    expect(response.provider).toBe('mock');
+    expect(response.model).toBe('fallback-model');
+    expect(provider.getHealth()[0]?.failures).toBe(1);
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    let primaryCalls = 0;
+    const primary = new MockProvider('primary-model', {
+      respond: () => {
+        primaryCalls++;
+        throw new AIServiceError('AI service unavailable', { status: 500 });
+      },
+    });
+    const provider = new FailoverProvider([
+      { provider: primary, model: 'primary-model' },
+      { provider: new MockProvider(), model: 'fallback-model' },
+    ], breakerConfig);
+
+    await provider.complete(request);
+    await provider.complete(request);
+    await provider.complete(request);
+
+    expect(primaryCalls).toBe(2);
+    expect(provider.getHealth()[0]?.state).toBe('open');
+  });
+
+  it('should not fail over on request errors', async () => {
+    const provider = new FailoverProvider([
+      { provider: failing(400), model: 'primary-model' },
+      { provider: new MockProvider(), model: 'fallback-model' },
+    ], breakerConfig);
+
+    await expect(provider.complete(request)).rejects.toThrow('AI service unavailable');
+    expect(provider.getHealth()[0]?.state).toBe('closed');
+  });
+
+  it('should report every attempt when all providers fail', async () => {
+    const provider = new FailoverProvider([
+      { provider: failing(503), model: 'primary-model' },
+      { provider: failing(), model: 'fallback-model' },
+    ], breakerConfig);
+
+    const error = await provider.complete(request).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AIServiceError);
+    expect(((error as AIServiceError).details as { failover: unknown[] }).failover).toHaveLength(2);
+  });
+
+  it('should not fail over once deltas have been streamed', async () => {
+    const primary = new MockProvider('primary-model');
+    primary.completeStream = async (_request, onDelta) => {
+      onDelta('partial');
+      throw new AIServiceError('AI stream interrupted', {});
+    };
+    const provider = new FailoverProvider([
+      { provider: primary, model: 'primary-model' },
+      { provider: new MockProvider(), model: 'fallback-model' },
+    ], breakerConfig);
+
+    const deltas: string[] = [];
+    await expect(provider.completeStream(request, (delta) => deltas.push(delta))).rejects.toThrow('AI stream interrupted');
+    expect(deltas).toEqual(['partial']);
+  });
+
+  it('should record the serving provider in the enhancement result', async () => {
+    const provider = new FailoverProvider([
+      { provider: failing(503), model: 'primary-model' },
+      { provider: new MockProvider('fallback-model'), model: 'fallback-model' },
+    ], breakerConfig);
+    const client = new EnhancedDeepseekClient({ model: 'primary-model' }, provider);
+
+    const result = await client.enhancePromptWithTaskRouting('Write a short poem about the sea', 'write');
+
+    expect(result.servedBy).toEqual({ provider: 'mock', model: 'fallback-model' });
+    expect(client.getProviderHealth()).toHaveLength(2);
+  });
+});
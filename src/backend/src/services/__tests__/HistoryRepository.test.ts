@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ContractStatsQuerySchema, HistoryQuerySchema } from '../../models/History';
+import { EnhancedPrompt } from '../../models/EnhancedPrompt';
+import { UserInput } from '../../models/UserInput';
+import { SqliteHistoryRepository, openDatabase } from '../storage';
+
+const input = (prompt: string, mode: UserInput['mode'] = 'write'): UserInput => ({
+  prompt,
+  mode,
+  maxTokens: 1000,
+  enableContractEnforcement: true,
+});
+
+const result = (prompt: string, enhanced: string, mode: EnhancedPrompt['mode'] = 'write', isValid = true): EnhancedPrompt => ({
+  originalPrompt: prompt,
+  enhancedPrompt: enhanced,
+  mode,
+  improvements: [],
+  metadata: {
+    processingTime: 10,
+    tokenUsage: { promptTokens: 5, completionTokens: 10, totalTokens: 15 },
+    model: 'mock-model',
+    timestamp: new Date().toISOString(),
+    taskMode: mode,
+    validationResult: { isValid, violations: isValid ? [] : ['Missing code block'] },
+    attempts: 1,
+    contractEnforced: true,
+  },
+});
+
+const query = (params: Record<string, string> = {}) => HistoryQuerySchema.parse(params);
+
+describe('SqliteHistoryRepository', () => {
+  let repository: SqliteHistoryRepository;
+
+  beforeEach(async () => {
+    repository = new SqliteHistoryRepository(() => openDatabase(':memory:'));
+    await repository.save(input('Write a poem about the sea'), result('Write a poem about the sea', 'Write a rhyming poem about ocean waves'));
+    await repository.save(input('Sort a list in python', 'code'), result('Sort a list in python', 'Write a python function', 'code', false));
+    await repository.save(input('Plan a trip to Rome', 'plan'), result('Plan a trip to Rome', 'Create a 3-day itinerary for Rome', 'plan'));
+  });
+
+  it('should store and retrieve entries by id', async () => {
+    const saved = await repository.save(input('Summarize this text'), result('Summarize this text', 'Summarize in 3 bullets'));
+
+    const found = await repository.findById(saved.id);
+
+    expect(found?.input.prompt).toBe('Summarize this text');
+    expect(found?.result.enhancedPrompt).toBe('Summarize in 3 bullets');
+    expect(await repository.findById('hist_missing')).toBeUndefined();
+  });
+
+  it('should paginate newest first', async () => {
+    const page = await repository.list(query({ pageSize: '2' }));
+
+    expect(page.total).toBe(3);
+    expect(page.totalPages).toBe(2);
+    expect(page.items.map(item => item.input.prompt)).toEqual(['Plan a trip to Rome', 'Sort a list in python']);
+
+    const second = await repository.list(query({ pageSize: '2', page: '2' }));
+    expect(second.items.map(item => item.input.prompt)).toEqual(['Write a poem about the sea']);
+  });
+
+  it('should filter by mode and validity', async () => {
+    expect((await repository.list(query({ mode: 'code' }))).total).toBe(1);
+    expect((await repository.list(query({ taskMode: 'plan' }))).total).toBe(1);
+    expect((await repository.list(query({ valid: 'false' }))).items[0]?.input.mode).toBe('code');
+    expect((await repository.list(query({ from: '2999-01-01' }))).total).toBe(0);
+  });
+
+  it('should search original and enhanced prompts by word prefix', async () => {
+    expect((await repository.list(query({ q: 'ocean' }))).items[0]?.input.prompt).toBe('Write a poem about the sea');
+    expect((await repository.list(query({ q: 'itin rome' }))).total).toBe(1);
+    // FTS syntax in user input is treated as plain text
+    expect((await repository.list(query({ q: 'python AND "OR' }))).total).toBe(0);
+  });
+
+  it('should delete entries and drop them from the search index', async () => {
+    const [entry] = (await repository.list(query({ q: 'poem' }))).items;
+
+    expect(await repository.delete(entry!.id)).toBe(true);
+    expect(await repository.delete(entry!.id)).toBe(false);
+    expect((await repository.list(query({ q: 'poem' }))).total).toBe(0);
+  });
+
+  it('should report contract pass rates of enforced entries per task mode', async () => {
+    await repository.save(input('Sort a dict in python', 'code'), result('Sort a dict in python', 'Write a python function', 'code'));
+    const legacy = result('Explain recursion', 'Explain recursion with an example', 'standard');
+    delete legacy.metadata.validationResult;
+    legacy.metadata.contractEnforced = false;
+    await repository.save(input('Explain recursion', 'standard'), legacy);
+    const unenforced = result('Sort a set in python', 'Write a python function', 'code', false);
+    unenforced.metadata.contractEnforced = false;
+    await repository.save(input('Sort a set in python', 'code'), unenforced);
+    // Routed to the code contract although requested as a write
+    const routed = result('Write a python script', 'Write a python script that prints hello', 'write');
+    routed.metadata.taskMode = 'code';
+    await repository.save(input('Write a python script'), routed);
+
+    const stats = await repository.contractStats(ContractStatsQuerySchema.parse({}));
+
+    expect(stats.modes).toEqual([
+      { mode: 'code', validated: 3, passed: 2, failed: 1, passRate: 2 / 3 },
+      { mode: 'plan', validated: 1, passed: 1, failed: 0, passRate: 1 },
+      { mode: 'write', validated: 1, passed: 1, failed: 0, passRate: 1 },
+    ]);
+    expect(stats.total).toEqual({ validated: 5, passed: 4, failed: 1, passRate: 0.8 });
+    expect(await repository.contractStats(ContractStatsQuerySchema.parse({ from: '2999-01-01' })))
+      .toEqual({ modes: [], total: { validated: 0, passed: 0, failed: 0, passRate: 0 } });
+  });
+
+  it('should only show entries to the key that made them', async () => {
+    const saved = await repository.save(input('Summarize this text'), result('Summarize this text', 'Summarize in 3 bullets'), 'key_a');
+
+    expect((await repository.list(query(), 'key_a')).items.map(item => item.id)).toEqual([saved.id]);
+    expect((await repository.list(query(), null)).total).toBe(3);
+    expect((await repository.list(query())).total).toBe(4);
+    expect(await repository.findById(saved.id, 'key_b')).toBeUndefined();
+    expect(await repository.findById(saved.id, null)).toBeUndefined();
+    expect((await repository.contractStats(ContractStatsQuerySchema.parse({}), 'key_a')).total.validated).toBe(1);
+
+    expect(await repository.delete(saved.id, 'key_b')).toBe(false);
+    expect(await repository.delete(saved.id, 'key_a')).toBe(true);
+  });
+
+  it('should report connectivity', async () => {
+    expect(await repository.ping()).toBe(true);
+
+    const broken = new SqliteHistoryRepository(() => {
+      throw new Error('unable to open database file');
+    });
+    expect(await broken.ping()).toBe(false);
+  });
+});
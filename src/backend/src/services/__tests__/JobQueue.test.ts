@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import { Job } from '@loogi/shared';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+import { JobQueue } from '../JobQueue';
+import { SqliteJobRepository, openDatabase } from '../storage';
+import { UserInput } from '../../models/UserInput';
+
+const input: UserInput = {
+  prompt: 'Write a python hello world script',
+  mode: 'code',
+  maxTokens: 1000,
+  enableContractEnforcement: true,
+};
+
+const createService = (provider = new MockProvider('mock-model', { respond: () => '```python\nprint("hello")\n```' })) =>
+  new EnhancedPromptEnhancementService(
+    new EnhancedDeepseekClient({ model: 'mock-model' }, provider),
+    new EnhancementCache(new MemoryCacheStore(), 60)
+  );
+
+/**
+ * Provider whose completions wait until release() is called
+ */
+const createBlockingProvider = () => {
+  const provider = new MockProvider('mock-model', { respond: () => '```python\nprint("hello")\n```' });
+  const complete = provider.complete.bind(provider);
+  let release: () => void = () => undefined;
+  const released = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  provider.completeStream = async (request, onDelta) => {
+    await released;
+    const response = await complete(request);
+    onDelta(response.choices[0]?.message.content || '');
+    return response;
+  };
+  return { provider, release };
+};
+
+const createRepository = () => {
+  const db = openDatabase(':memory:');
+  return new SqliteJobRepository(() => db);
+};
+
+const waitForStatus = async (queue: JobQueue, id: string, status: Job['status']): Promise<Job> => {
+  for (let i = 0; i < 200; i++) {
+    const job = await queue.get(id);
+    if (job?.status === status) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${id} never reached ${status}`);
+};
+
+describe('JobQueue', () => {
+  it('should run queued jobs and store the result', async () => {
+    const queue = new JobQueue(createService(), createRepository(), 2);
+    await queue.start();
+
+    const job = await queue.enqueue(input);
+    expect(job.status).toBe('queued');
+
+    const finished = await waitForStatus(queue, job.id, 'succeeded');
+    expect(finished.result?.enhancedPrompt).toContain('print("hello")');
+    expect(finished.result?._meta.requestId).toBe(job.id);
+    expect(finished.progress).toEqual({ attempt: 1, validationResult: { isValid: true, violations: [], findings: [] } });
+  });
+
+  it('should not run more jobs than its worker pool', async () => {
+    const { provider, release } = createBlockingProvider();
+    const queue = new JobQueue(createService(provider), createRepository(), 1);
+    await queue.start();
+
+    const first = await queue.enqueue(input);
+    const second = await queue.enqueue({ ...input, prompt: 'Write a python script that prints the date' });
+
+    await waitForStatus(queue, first.id, 'running');
+    expect((await queue.get(second.id))?.status).toBe('queued');
+
+    release();
+    await waitForStatus(queue, second.id, 'succeeded');
+  });
+
+  it('should resume jobs interrupted by a restart', async () => {
+    const repository = createRepository();
+    const job = await repository.create(input, { bypassCache: false });
+    // Claimed by a process that then stopped
+    await repository.claimNext();
+
+    const queue = new JobQueue(createService(), repository, 1);
+    await queue.start();
+
+    await waitForStatus(queue, job.id, 'succeeded');
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    const { provider, release } = createBlockingProvider();
+    const queue = new JobQueue(createService(provider), createRepository(), 1);
+    await queue.start();
+
+    const running = await queue.enqueue(input);
+    const queued = await queue.enqueue({ ...input, prompt: 'Write a python script that prints the date' });
+    await waitForStatus(queue, running.id, 'running');
+
+    expect((await queue.cancel(queued.id))?.status).toBe('cancelled');
+    expect((await queue.cancel(running.id))?.status).toBe('cancelled');
+
+    release();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect((await queue.get(running.id))?.status).toBe('cancelled');
+    expect((await queue.get(running.id))?.result).toBeUndefined();
+    expect(await queue.cancel('job_missing')).toBeUndefined();
+  });
+
+  it('should only show and cancel jobs to the key that queued them', async () => {
+    const { provider, release } = createBlockingProvider();
+    const queue = new JobQueue(createService(provider), createRepository(), 1);
+    await queue.start();
+
+    const job = await queue.enqueue(input, { apiKeyId: 'key_a' });
+
+    expect(await queue.get(job.id, 'key_b')).toBeUndefined();
+    expect(await queue.get(job.id, null)).toBeUndefined();
+    expect((await queue.get(job.id, 'key_a'))?.id).toBe(job.id);
+    expect(await queue.cancel(job.id, 'key_b')).toBeUndefined();
+    expect((await queue.cancel(job.id, 'key_a'))?.status).toBe('cancelled');
+    release();
+  });
+
+  it('should report failures as the job error', async () => {
+    const provider = new MockProvider('mock-model', {
+      respond: () => {
+        throw new Error('connection reset');
+      },
+    });
+    const queue = new JobQueue(createService(provider), createRepository(), 1);
+    await queue.start();
+
+    const job = await queue.enqueue(input);
+
+    const failed = await waitForStatus(queue, job.id, 'failed');
+    expect(failed.error?.statusCode).toBe(503);
+  });
+
+  it('should track attempts and validation from stream events', () => {
+    let progress = JobQueue.nextProgress({ attempt: 1 }, { type: 'contract_validation', attempt: 1, isValid: false, violations: ['Missing code block'] });
+    progress = JobQueue.nextProgress(progress, { type: 'reprompt_started', attempt: 2, violations: ['Missing code block'] });
+
+    expect(progress).toEqual({ attempt: 2, validationResult: { isValid: false, violations: ['Missing code block'] } });
+    expect(JobQueue.nextProgress(progress, { type: 'delta', attempt: 2, content: 'x' })).toBe(progress);
+  });
+});
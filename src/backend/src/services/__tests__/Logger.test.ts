@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { AIServiceError } from '../../middleware/errorHandler';
+import { LogDestination, Logger, LoggingConfig, withLogFields } from '../logging';
+
+const createLogger = (overrides: Partial<LoggingConfig> = {}) => {
+  const lines: Array<{ level: string; record: Record<string, any> }> = [];
+  const destination: LogDestination = (level, line) => {
+    lines.push({ level, record: JSON.parse(line) });
+  };
+  const logger = new Logger({ level: 'info', enabled: true, logPrompts: false, ...overrides }, {}, destination);
+  return { logger, lines };
+};
+
+describe('Logger', () => {
+  it('should write JSON lines at or above the configured level', () => {
+    const { logger, lines } = createLogger({ level: 'warn' });
+
+    logger.debug('debug line');
+    logger.info('info line');
+    logger.warn('cache read failed', { store: 'redis' });
+    logger.error('request failed');
+
+    expect(lines.map(line => line.level)).toEqual(['warn', 'error']);
+    expect(lines[0]?.record).toMatchObject({ level: 'warn', msg: 'cache read failed', store: 'redis' });
+    expect(Number.isNaN(Date.parse(lines[0]?.record.time))).toBe(false);
+  });
+
+  it('should write nothing when disabled or silent', () => {
+    const disabled = createLogger({ enabled: false });
+    const silent = createLogger({ level: 'silent' });
+
+    disabled.logger.error('dropped');
+    silent.logger.error('dropped');
+
+    expect(disabled.lines).toHaveLength(0);
+    expect(silent.lines).toHaveLength(0);
+  });
+
+  it('should add the bindings of child loggers and the active log fields', () => {
+    const { logger, lines } = createLogger();
+    const child = logger.child({ component: 'JobQueue' }).child({ promptId: 'prompt_1' });
+
+    withLogFields({ requestId: 'req_1' }, () => {
+      withLogFields({ attempt: 2 }, () => child.info('enhancement_started'));
+    });
+    child.info('outside');
+
+    expect(lines[0]?.record).toMatchObject({ component: 'JobQueue', promptId: 'prompt_1', requestId: 'req_1', attempt: 2 });
+    expect(lines[1]?.record.requestId).toBeUndefined();
+  });
+
+  it('should redact prompt text unless prompts are logged', () => {
+    const redacting = createLogger();
+    const logging = createLogger({ logPrompts: true });
+    const fields = { prompt: 'Write a haiku', mode: 'write', request: { messages: [{ role: 'user', content: 'Hi' }] } };
+
+    redacting.logger.info('request', fields);
+    logging.logger.info('request', fields);
+
+    expect(redacting.lines[0]?.record).toMatchObject({
+      prompt: '[redacted 13 chars]',
+      mode: 'write',
+      request: { messages: '[redacted 1 items]' },
+    });
+    expect(logging.lines[0]?.record).toMatchObject(fields);
+  });
+
+  it('should serialize errors without their details', () => {
+    const { logger, lines } = createLogger();
+
+    logger.error('Failed to enhance prompt', { error: new AIServiceError('Upstream failed', { originalPrompt: 'secret' }) });
+
+    expect(lines[0]?.record.error).toEqual({
+      name: 'Error',
+      message: 'Upstream failed',
+      statusCode: 503,
+      stack: expect.any(String),
+    });
+  });
+});
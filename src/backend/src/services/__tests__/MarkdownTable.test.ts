@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeMarkdownTable,
+  parseMarkdownTable,
+  tableData,
+  tableToCsv,
+  tableToRecords,
+} from '../validation';
+
+describe('Markdown tables', () => {
+  it('should parse the first table with its line positions', () => {
+    const table = parseMarkdownTable('Prices:\n\n| Item | Price |\n|:-----|------:|\n| Tea | 2 |\n| A \\| B |\n\nSee above.');
+
+    expect(table).toEqual({
+      columns: ['Item', 'Price'],
+      separator: [':-----', '------:'],
+      rows: [['Tea', '2'], ['A | B']],
+      lines: { header: 2, rows: [4, 5] },
+    });
+  });
+
+  it('should parse tables without outer pipes and ignore thematic breaks', () => {
+    expect(parseMarkdownTable('a | b\n--- | ---\n1 | 2')?.rows).toEqual([['1', '2']]);
+    expect(parseMarkdownTable('Title | Draft\n---\nText')).toBeUndefined();
+    expect(parseMarkdownTable('| A | B |\n| 1 | 2 |')).toBeUndefined();
+  });
+
+  it('should re-align the table and keep the text around it', () => {
+    const { content, table } = normalizeMarkdownTable('Intro\n|Item|Qty|Note|\n|:-:|--:|---|\n|Apples|3|\n|Kiwi|12|ripe|x\ny|\nOutro');
+
+    expect(content).toBe([
+      'Intro',
+      '|  Item  | Qty | Note |     |',
+      '| :----: | --: | ---- | --- |',
+      '| Apples |   3 |      |     |',
+      '|  Kiwi  |  12 | ripe | x   |',
+      '|   y    |     |      |     |',
+      'Outro',
+    ].join('\n'));
+    expect(table).toEqual({
+      columns: ['Item', 'Qty', 'Note', ''],
+      rows: [['Apples', '3', '', ''], ['Kiwi', '12', 'ripe', 'x'], ['y', '', '', '']],
+    });
+    expect(normalizeMarkdownTable('No table')).toEqual({ content: 'No table' });
+  });
+
+  it('should escape pipes when re-aligning', () => {
+    expect(normalizeMarkdownTable('| Op |\n|---|\n| a \\| b |').content).toBe('| Op     |\n| ------ |\n| a \\| b |');
+  });
+
+  it('should export rows as CSV and as records', () => {
+    const table = tableData({ columns: ['Name', 'Note'], rows: [['Tea', 'hot, "strong"'], ['Water']] });
+
+    expect(tableToCsv(table)).toBe('Name,Note\r\nTea,"hot, ""strong"""\r\nWater,\r\n');
+    expect(tableToRecords(table)).toEqual([{ Name: 'Tea', Note: 'hot, "strong"' }, { Name: 'Water', Note: '' }]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MetricsRegistry, metrics, metricsRegistry } from '../metrics';
+import { MockProvider, OpenAICompatibleProvider } from '../providers';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and cumulative histograms in the text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests', ['route', 'status'] as const);
+    const latency = registry.histogram('latency_seconds', 'Latency', ['route'] as const, [0.1, 1]);
+
+    requests.inc({ route: '/a "quoted"', status: 200 });
+    requests.inc({ route: '/a "quoted"', status: 200 }, 2);
+    latency.observe({ route: '/a' }, 0.05);
+    latency.observe({ route: '/a' }, 0.5);
+    latency.observe({ route: '/a' }, 5);
+
+    expect(registry.render()).toBe([
+      '# HELP requests_total Requests',
+      '# TYPE requests_total counter',
+      'requests_total{route="/a \\"quoted\\"",status="200"} 3',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{route="/a",le="0.1"} 1',
+      'latency_seconds_bucket{route="/a",le="1"} 2',
+      'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+      'latency_seconds_sum{route="/a"} 5.55',
+      'latency_seconds_count{route="/a"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('should reject duplicate names and decreasing counters', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('events_total', 'Events');
+
+    expect(() => registry.counter('events_total', 'Events')).toThrow('already registered');
+    expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+  });
+});
+
+describe('EnhancedDeepseekClient metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.reset();
+  });
+
+  it('should record contract results, attempts, upstream latency and tokens', async () => {
+    let attempt = 0;
+    const client = new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider('mock-model', {
+      respond: () => ++attempt === 1
+        ? 'Here is your code:\n\n```python\nprint("hello")\n```\n\nHope this helps!'
+        : '```python\nprint("hello")\n```',
+    }));
+
+    const result = await client.enhancePromptWithTaskRouting('Write a python hello world script', 'code');
+
+    expect(result.attempts).toBe(2);
+    expect(metrics.contractValidations.get({ mode: 'code', result: 'pass' })).toBe(1);
+    expect(metrics.contractAttempts.count({ mode: 'code' })).toBe(1);
+    expect(metrics.enhancementDuration.count({ mode: 'code', outcome: 'success' })).toBe(1);
+    expect(metrics.upstreamDuration.count({ provider: 'mock', model: 'mock-model', outcome: 'success' })).toBe(2);
+    expect(
+      metrics.tokens.get({ provider: 'mock', model: 'mock-model', type: 'prompt' }) +
+      metrics.tokens.get({ provider: 'mock', model: 'mock-model', type: 'completion' })
+    ).toBe(result.usage.total_tokens);
+  });
+
+  it('should count retries of the HTTP providers', async () => {
+    let requests = 0;
+    const server = http.createServer((_req, res) => {
+      requests++;
+      if (requests === 1) {
+        res.writeHead(503).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        id: 'chatcmpl_1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'test-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const provider = new OpenAICompatibleProvider({
+        provider: 'openai',
+        apiKey: 'test_api_key',
+        baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        model: 'test-model',
+        maxTokens: 100,
+        temperature: 0.2,
+        topP: 0.9,
+        frequencyPenalty: 0,
+        presencePenalty: 0,
+        timeout: 1000,
+        enableRetries: true,
+        maxRetries: 2,
+        retryDelay: 0,
+      });
+
+      await provider.complete({ model: 'test-model', messages: [{ role: 'user', content: 'Say hello' }] });
+
+      expect(requests).toBe(2);
+      expect(metrics.upstreamRetries.get({ provider: 'openai', reason: '503' })).toBe(1);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
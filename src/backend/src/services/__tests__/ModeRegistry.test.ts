@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { BUILTIN_MODES_DIR, DEFAULT_TASK_MODE, ModeRegistry } from '../modes';
+import { CodeOutputValidator, OutputValidatorFactory, TextOnlyValidator } from '../OutputValidators';
+import { createModeValidation } from '../../middleware/validation';
+import { errorHandler } from '../../middleware/errorHandler';
+
+const sqlMode = `
+id: sql
+labels: { en: SQL, de: SQL }
+descriptions: { en: A single SQL query, de: Eine einzelne SQL-Abfrage }
+purpose: Generate SQL queries
+roleTemplate: Database engineer fluent in ANSI SQL.
+contractRules:
+  - Provide ONLY the query
+validator:
+  type: code
+  params: { language: sql }
+intent:
+  priority: 200
+  keywords: [sql, query]
+`;
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'modes-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const waitFor = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 50 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+describe('ModeRegistry', () => {
+  it('should load the built-in modes, styles first', () => {
+    const registry = new ModeRegistry([BUILTIN_MODES_DIR]);
+
+    expect(registry.list().map(mode => mode.id)).toEqual([
+      'standard', 'creative', 'technical', 'scientifically',
+      'code', 'json', 'translate', 'summarize', 'analysis', 'plan', 'recipe', 'support', 'marketing', 'write', 'table',
+    ]);
+    expect(registry.get('code')).toMatchObject({ group: 'task', validator: { type: 'code', params: {} }, labels: { de: 'Code' } });
+    expect(registry.get('standard')?.contractRules).toEqual([]);
+  });
+
+  it('should infer task modes from the intent definitions', () => {
+    const registry = new ModeRegistry([BUILTIN_MODES_DIR]);
+
+    expect(registry.inferTaskMode('def main(): pass')).toBe('code');
+    expect(registry.inferTaskMode('Return the users as an array')).toBe('json');
+    expect(registry.inferTaskMode('Give me the steps to bake bread')).toBe('plan');
+    expect(registry.inferTaskMode('Hello there')).toBe(DEFAULT_TASK_MODE);
+    // Styles are no task modes
+    expect(registry.inferTaskMode('Hello there', 'creative')).toBe(DEFAULT_TASK_MODE);
+    expect(registry.inferTaskMode('Hello there', 'table')).toBe('table');
+  });
+
+  it('should add and override modes from later directories', async () => {
+    await fs.writeFile(path.join(directory, 'sql.yaml'), sqlMode);
+    await fs.writeFile(path.join(directory, 'write.json'), JSON.stringify({
+      id: 'write',
+      labels: { en: 'Prose' },
+      descriptions: { en: 'Plain prose' },
+      purpose: 'Generate general written content',
+      roleTemplate: 'Copy editor.',
+    }));
+    const registry = new ModeRegistry([BUILTIN_MODES_DIR, directory]);
+
+    expect(registry.get('sql')).toMatchObject({ order: 100, intent: { keywords: ['sql', 'query'], patterns: [] } });
+    // An override replaces the whole definition, order included
+    expect(registry.list().map(mode => mode.id).slice(-3)).toEqual(['table', 'sql', 'write']);
+    expect(registry.inferTaskMode('Write a SQL query listing all orders')).toBe('sql');
+    expect(registry.get('write')).toMatchObject({ labels: { en: 'Prose' }, roleTemplate: 'Copy editor.', validator: { type: 'text' } });
+  });
+
+  it('should keep the last valid definitions of a broken file', async () => {
+    const file = path.join(directory, 'sql.yaml');
+    await fs.writeFile(file, sqlMode);
+    const registry = new ModeRegistry([directory]);
+    const fingerprint = registry.fingerprint('sql');
+
+    await fs.writeFile(file, sqlMode.replace('type: code', 'type: python'));
+    registry.reload();
+    expect(registry.get('sql')?.validator.type).toBe('code');
+    expect(registry.fingerprint('sql')).toBe(fingerprint);
+
+    await fs.writeFile(file, sqlMode.replace('Provide ONLY the query', 'Provide ONLY one query'));
+    registry.reload();
+    expect(registry.get('sql')?.contractRules).toEqual(['Provide ONLY one query']);
+    expect(registry.fingerprint('sql')).not.toBe(fingerprint);
+
+    await fs.rm(file);
+    registry.reload();
+    expect(registry.has('sql')).toBe(false);
+  });
+
+  it('should reload when a definition file changes', async () => {
+    const registry = new ModeRegistry([BUILTIN_MODES_DIR, directory]);
+    registry.watch();
+
+    try {
+      await fs.writeFile(path.join(directory, 'sql.yml'), sqlMode);
+      await waitFor(() => registry.has('sql'));
+
+      expect(registry.has('sql')).toBe(true);
+    } finally {
+      registry.close();
+    }
+  });
+});
+
+describe('OutputValidatorFactory', () => {
+  it('should create the validator a definition declares', () => {
+    expect(OutputValidatorFactory.fromDefinition({ type: 'code', params: { language: 'sql' } }).getContractDescription())
+      .toContain('```sql');
+    expect(OutputValidatorFactory.fromDefinition({ type: 'code', params: { language: 'sql' } }, { language: 'python' }).getContractDescription())
+      .toContain('```python');
+    expect(OutputValidatorFactory.createValidator('code')).toBeInstanceOf(CodeOutputValidator);
+    expect(OutputValidatorFactory.createValidator('unknown')).toBeInstanceOf(TextOnlyValidator);
+  });
+});
+
+describe('createModeValidation', () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/enhance', createModeValidation(new ModeRegistry([BUILTIN_MODES_DIR])), (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+  app.use(errorHandler);
+
+  it('should pass registered modes', async () => {
+    expect((await request(app).post('/enhance').send({ prompt: 'Hi', mode: 'code' })).status).toBe(200);
+    expect((await request(app).post('/enhance').send({ items: [{ mode: 'code' }, { mode: 'standard' }] })).status).toBe(200);
+  });
+
+  it('should reject unknown modes with the offending fields', async () => {
+    const response = await request(app).post('/enhance').send({ items: [{ mode: 'code' }, { mode: 'sql' }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details).toEqual([expect.objectContaining({ field: 'items.1.mode', message: 'Unknown mode: sql' })]);
+  });
+});
@@ -245,7 +245,7 @@ Just some text without numbered steps.`;
 
   describe('OutputValidatorFactory', () => {
     it('should create correct validator for code mode', () => {
-      const validator = OutputValidatorFactory.createValidator('code', 'python');
+      const validator = OutputValidatorFactory.createValidator('code', { language: 'python' });
       expect(validator).toBeInstanceOf(CodeOutputValidator);
     });
 
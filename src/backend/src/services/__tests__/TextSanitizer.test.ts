@@ -252,6 +252,26 @@ describe('ConfigValidator', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should not require credentials for the mock provider', () => {
+      process.env.AI_PROVIDER = 'mock';
+      delete process.env.AI_API_KEY;
+      delete process.env.AI_API_URL;
+      delete process.env.AI_MODEL;
+
+      const result = ConfigValidator.validateAIConfig();
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.AI_PROVIDER = 'unknown';
+
+      const result = ConfigValidator.validateAIConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('AI_PROVIDER must be one of');
+    });
+
     it('should pass validation with valid config', () => {
       process.env.AI_API_KEY = 'test-key';
       process.env.AI_API_URL = 'https://api.test.com';
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { SpanKind, context, propagation, trace } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { InMemorySpanExporter, NodeTracerProvider, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { FileSpanExporter, withSpan } from '../tracing';
+import { traceRequests } from '../../middleware/tracing';
+import { validateRequest } from '../../middleware/validation';
+import { errorHandler } from '../../middleware/errorHandler';
+import { UserInputSchema } from '../../models/UserInput';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+beforeAll(() => {
+  provider.register({ propagator: new W3CTraceContextPropagator() });
+});
+
+afterAll(async () => {
+  await provider.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+});
+
+beforeEach(() => {
+  exporter.reset();
+});
+
+const spanNamed = (spans: ReadableSpan[], name: string) => {
+  const span = spans.find(candidate => candidate.name === name);
+  if (!span) {
+    throw new Error(`No span ${name} in ${spans.map(candidate => candidate.name).join(', ')}`);
+  }
+  return span;
+};
+
+const createApp = () => {
+  let attempt = 0;
+  const service = new EnhancedPromptEnhancementService(
+    new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider('mock-model', {
+      respond: () => ++attempt === 1
+        ? 'Here is your code:\n\n```python\nprint("hello")\n```\n\nHope this helps!'
+        : '```python\nprint("hello")\n```',
+    })),
+    new EnhancementCache(new MemoryCacheStore(), 60)
+  );
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/enhance', traceRequests, express.Router().post('/', validateRequest(UserInputSchema), async (req, res, next) => {
+    try {
+      const { enhancedPrompt } = await service.enhancePromptCached(req.body);
+      res.status(200).json(enhancedPrompt);
+    } catch (error) {
+      next(error);
+    }
+  }));
+  app.use(errorHandler);
+  return app;
+};
+
+describe('tracing', () => {
+  it('should continue the incoming trace through every enhancement stage', async () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const parentSpanId = '00f067aa0ba902b7';
+
+    const response = await request(createApp())
+      .post('/api/enhance')
+      .set('traceparent', `00-${traceId}-${parentSpanId}-01`)
+      .send({ prompt: 'Write a python hello world script', mode: 'code' });
+
+    expect(response.status).toBe(200);
+    const spans = exporter.getFinishedSpans();
+    expect(spans.every(span => span.spanContext().traceId === traceId)).toBe(true);
+
+    const server = spanNamed(spans, 'POST /api/enhance');
+    expect(server.kind).toBe(SpanKind.SERVER);
+    expect(server.parentSpanContext?.spanId).toBe(parentSpanId);
+    expect(server.attributes).toMatchObject({ 'http.route': '/api/enhance', 'http.response.status_code': 200 });
+
+    const enhancement = spanNamed(spans, 'enhancement');
+    expect(enhancement.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+    expect(enhancement.attributes).toMatchObject({ 'loogi.mode': 'code', 'loogi.cache': 'miss' });
+
+    expect(spanNamed(spans, 'request.validate').parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+    expect(spanNamed(spans, 'intent.route').attributes['loogi.task_mode']).toBe('code');
+    expect(spanNamed(spans, 'text.sanitize_input')).toBeDefined();
+
+    const enforce = spanNamed(spans, 'contract.enforce');
+    expect(enforce.attributes).toMatchObject({ 'contract.attempts': 2, 'contract.valid': true });
+    const reprompt = spanNamed(spans, 'contract.reprompt');
+    expect(reprompt.parentSpanContext?.spanId).toBe(enforce.spanContext().spanId);
+    expect(reprompt.attributes['contract.violations']).toEqual(expect.arrayContaining([expect.any(String)]));
+
+    const completions = spans.filter(span => span.name === 'ai.completion');
+    expect(completions).toHaveLength(2);
+    expect(completions[0]?.kind).toBe(SpanKind.CLIENT);
+    expect(completions[0]?.attributes).toMatchObject({ 'gen_ai.system': 'mock', 'gen_ai.request.model': 'mock-model' });
+
+    const generate = spanNamed(spans, 'ai.generate');
+    const usage = completions.reduce((sum, span) => sum + Number(span.attributes['gen_ai.usage.input_tokens']), 0);
+    expect(generate.attributes['gen_ai.usage.input_tokens']).toBe(usage);
+  });
+
+  it('should mark failed stages and start a new trace without traceparent', async () => {
+    const response = await request(createApp()).post('/api/enhance').send({ mode: 'code' });
+
+    expect(response.status).toBe(400);
+    const spans = exporter.getFinishedSpans();
+    expect(spanNamed(spans, 'POST /api/enhance').parentSpanContext).toBeUndefined();
+    expect(spanNamed(spans, 'request.validate').status.code).toBe(2);
+  });
+
+  it('should write finished spans as JSON lines', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'traces-'));
+    const file = path.join(directory, 'nested', 'traces.jsonl');
+    const fileExporter = new FileSpanExporter(file);
+
+    await withSpan('stage', { attributes: { 'loogi.mode': 'code' } }, async () => undefined);
+    const [span] = exporter.getFinishedSpans();
+    const result = await new Promise(resolve => fileExporter.export([span!], resolve));
+    await fileExporter.shutdown();
+
+    expect(result).toEqual({ code: 0 });
+    const [line] = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    expect(JSON.parse(line!)).toMatchObject({
+      traceId: span!.spanContext().traceId,
+      name: 'stage',
+      status: 'UNSET',
+      attributes: { 'loogi.mode': 'code' },
+    });
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
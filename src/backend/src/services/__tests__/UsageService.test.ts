@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import { UsageService } from '../UsageService';
+import { ApiKeyService } from '../ApiKeyService';
+import { parseModelPricing, priceUsage } from '../pricing';
+import { SqliteApiKeyRepository, SqliteUsageRepository, openDatabase } from '../storage';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient, UpstreamCall } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+
+const call = (model: string, promptTokens: number, completionTokens: number, purpose: UpstreamCall['purpose'] = 'completion'): UpstreamCall => ({
+  purpose,
+  provider: 'mock',
+  model,
+  usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+});
+
+const createUsage = (pricing = '') => {
+  const db = openDatabase(':memory:');
+  const apiKeys = new ApiKeyService(new SqliteApiKeyRepository(() => db));
+  return { db, apiKeys, usage: new UsageService(new SqliteUsageRepository(() => db), apiKeys, parseModelPricing(pricing)) };
+};
+
+describe('pricing', () => {
+  it('should parse per-model prices in USD per million tokens', () => {
+    const pricing = parseModelPricing('deepseek-chat=0.27/1.10, gpt-4o-mini=0.15/0.6');
+
+    expect(pricing).toEqual({
+      'deepseek-chat': { prompt: 0.27, completion: 1.1 },
+      'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+    });
+    expect(priceUsage(pricing, 'deepseek-chat', { prompt_tokens: 1_000_000, completion_tokens: 500_000, total_tokens: 1_500_000 })).toBeCloseTo(0.82);
+    expect(priceUsage(pricing, 'unknown', { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 })).toBe(0);
+    expect(parseModelPricing('')).toEqual({});
+    expect(() => parseModelPricing('deepseek-chat=0.27')).toThrow('MODEL_PRICING');
+  });
+});
+
+describe('UsageService', () => {
+  it('should count contract re-prompts in the token usage and the ledger', async () => {
+    const { db, apiKeys } = createUsage();
+    let attempt = 0;
+    const provider = new MockProvider('mock-model', {
+      respond: () => ++attempt === 1
+        ? 'Here is your code:\n\n```python\nprint("hello")\n```\n\nHope this helps!'
+        : '```python\nprint("hello")\n```',
+    });
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, provider),
+      new EnhancementCache(new MemoryCacheStore(), 60),
+      undefined,
+      new UsageService(new SqliteUsageRepository(() => db), apiKeys, {})
+    );
+    const { id } = await apiKeys.issue({ name: 'CI', scopes: ['enhance'] });
+    const input = { prompt: 'Write a python hello world script', mode: 'code' as const, maxTokens: 1000, enableContractEnforcement: true };
+
+    const result = await service.enhancePromptCached(input, { apiKeyId: id });
+    await service.enhancePromptCached(input, { apiKeyId: id });
+
+    const rows = db.prepare('SELECT kind, total_tokens FROM usage_records ORDER BY id').all() as Array<{ kind: string; total_tokens: number }>;
+    expect(rows.map(row => row.kind)).toEqual(['enhancement', 'reprompt']);
+    const totalTokens = rows.reduce((sum, row) => sum + row.total_tokens, 0);
+    expect(result.enhancedPrompt.metadata.tokenUsage.totalTokens).toBe(totalTokens);
+    expect((await apiKeys.get(id))?.tokensUsedToday).toBe(totalTokens);
+  });
+
+  it('should record suggestion calls', async () => {
+    const { db, apiKeys } = createUsage();
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider('mock-model', { respond: () => '1. Be specific\n2. Name the audience' })),
+      new EnhancementCache(new MemoryCacheStore(), 60),
+      undefined,
+      new UsageService(new SqliteUsageRepository(() => db), apiKeys, {})
+    );
+
+    await service.getEnhancementSuggestions({ prompt: 'Write a poem about the sea.', mode: 'standard', maxTokens: 1000, enableContractEnforcement: true });
+
+    const rows = db.prepare('SELECT kind, mode FROM usage_records').all();
+    expect(rows).toEqual([{ kind: 'suggestions', mode: 'standard' }]);
+  });
+
+  it('should aggregate by mode, key and model with costs', async () => {
+    const { apiKeys, usage } = createUsage('model-a=1/2,model-b=10/10');
+    const key = await apiKeys.issue({ name: 'Partner', scopes: ['enhance'] });
+
+    await usage.record({ requestId: 'r1', apiKeyId: key.id, mode: 'code', kind: 'enhancement' }, [
+      call('model-a', 100, 50),
+      call('model-a', 120, 40, 'reprompt'),
+    ]);
+    await usage.record({ requestId: 'r2', mode: 'json', kind: 'enhancement' }, [call('model-b', 1000, 1000)]);
+
+    const byMode = await usage.report({ groupBy: 'mode' });
+    expect(byMode.groups).toEqual([
+      { group: 'code', requests: 1, calls: 2, promptTokens: 220, completionTokens: 90, totalTokens: 310, cost: 0.0004 },
+      { group: 'json', requests: 1, calls: 1, promptTokens: 1000, completionTokens: 1000, totalTokens: 2000, cost: 0.02 },
+    ]);
+    expect(byMode.total).toMatchObject({ requests: 2, calls: 3, totalTokens: 2310, cost: 0.0204 });
+
+    const byKey = await usage.report({ groupBy: 'key' });
+    expect(byKey.groups.map(group => [group.group, group.label])).toEqual([
+      ['anonymous', undefined],
+      [key.id, 'Partner'],
+    ]);
+
+    const byModel = await usage.report({ groupBy: 'model', keyId: key.id });
+    expect(byModel.groups).toHaveLength(1);
+    expect(byModel.groups[0]).toMatchObject({ group: 'model-a', calls: 2 });
+
+    const byDay = await usage.report({ groupBy: 'day', from: new Date(Date.now() + 60_000) });
+    expect(byDay.groups).toEqual([]);
+  });
+
+  it('should export a report as CSV', () => {
+    const csv = UsageService.toCsv({
+      groupBy: 'key',
+      groups: [{ group: 'key_1', label: 'Acme, "Inc"', requests: 1, calls: 2, promptTokens: 3, completionTokens: 4, totalTokens: 7, cost: 0.5 }],
+      total: { requests: 1, calls: 2, promptTokens: 3, completionTokens: 4, totalTokens: 7, cost: 0.5 },
+    });
+
+    expect(csv).toBe(
+      'group,label,requests,calls,promptTokens,completionTokens,totalTokens,cost\r\n' +
+      'key_1,"Acme, ""Inc""",1,2,3,4,7,0.5\r\n'
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  CodeParserRegistry,
+  ValidationPipeline,
+  codeLanguage,
+  compileJsonSchema,
+  hasLanguageTag,
+  matchesJsonSchema,
+  minNumberedSteps,
+  noProsePrefix,
+  nonEmptyHeaders,
+  parsesAsCode,
+  parsesAsJson,
+  requiredColumns,
+  singleCodeBlock,
+  tableColumnConsistency,
+} from '../validation';
+import { CodeOutputValidator, TableOutputValidator } from '../OutputValidators';
+
+class TestPipeline extends ValidationPipeline {
+  getContractDescription(): string {
+    return 'Test contract';
+  }
+
+  getRePromptInstruction(): string {
+    return 'Follow the test contract';
+  }
+}
+
+describe('Validation rules', () => {
+  it('should locate prose lines', () => {
+    expect(noProsePrefix().check('{"a": 1}\n  Hope this helps!')).toEqual([
+      { message: 'Prose detected. Only the requested output is allowed.', location: { line: 2, column: 3 } },
+    ]);
+    expect(noProsePrefix().check('Surely not prose')).toEqual([]);
+  });
+
+  it('should report every additional code block', () => {
+    const findings = singleCodeBlock().check('```js\na()\n```\n```js\nb()\n```\n```js\nc()\n```');
+
+    expect(findings.map(finding => finding.location?.line)).toEqual([4, 7]);
+    expect(singleCodeBlock().check('no code')[0]?.message).toBe('No properly formatted code block found.');
+  });
+
+  it('should count numbered steps', () => {
+    expect(minNumberedSteps(3).check('1. One\n2. Two\n3. Three')).toEqual([]);
+    expect(minNumberedSteps(3).check('1. One\n2. Two')[0]?.message).toBe('Missing numbered steps (minimum 3 required).');
+  });
+
+  it('should point at rows with a different number of cells', () => {
+    const table = '| A | B |\n|---|---|\n| 1 | 2 |\n| 3 |';
+
+    expect(tableColumnConsistency().check(table)).toEqual([
+      { message: 'Row has 1 cells, the header has 2.', location: { line: 4, column: 1 } },
+    ]);
+  });
+
+  it('should point at a separator that does not match the header', () => {
+    expect(tableColumnConsistency().check('A | B\n---|---|---\n1 | 2')).toEqual([
+      { message: 'Row has 3 cells, the header has 2.', location: { line: 2, column: 1 } },
+    ]);
+  });
+
+  it('should report columns without a header', () => {
+    expect(nonEmptyHeaders().check('| A |  | C |\n|---|---|---|\n| 1 | 2 | 3 |')).toEqual([
+      { message: 'Column 2 has no header.', location: { line: 1, column: 1 } },
+    ]);
+  });
+
+  it('should report missing required columns regardless of case and order', () => {
+    const rule = requiredColumns(['Name', 'price', 'Stock']);
+
+    expect(rule.check('| Price | name |\n|---|---|\n| 1 | Tea |').map(finding => finding.message)).toEqual(['Missing column: Stock']);
+    expect(rule.fix).toBe('Give the table the columns Name, price, Stock.');
+  });
+
+  it('should explain JSON syntax errors in the fix', () => {
+    const [finding] = parsesAsJson().check('{"a": }');
+
+    expect(finding?.message).toBe('Invalid JSON format.');
+    expect(finding?.fix).toMatch(/^Fix the JSON syntax/);
+  });
+
+  it('should report every value that violates a JSON Schema by its path', () => {
+    const rule = matchesJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        items: { type: 'array', items: { type: 'object', properties: { price: { type: 'number' } } } },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    });
+
+    expect(rule.check('{"items": [{"price": 1}, {"price": "2"}], "extra": true}')).toEqual([
+      { message: "(root) must have required property 'name'", path: '', fix: "Change the value at (root): it must have required property 'name'." },
+      { message: "(root) must NOT have additional properties ('extra')", path: '', fix: expect.any(String) },
+      { message: '/items/1/price must be number', path: '/items/1/price', fix: 'Change the value at /items/1/price: it must be number.' },
+    ]);
+    // Unparsable output is parsesAsJson's finding
+    expect(rule.check('{')).toEqual([]);
+  });
+
+  it('should keep compiling schemas after one whose $id names a meta-schema', () => {
+    expect(() => compileJsonSchema({ $id: 'http://json-schema.org/draft-07/schema' })).toThrow();
+
+    const validate = compileJsonSchema({ $schema: 'http://json-schema.org/draft-07/schema#', type: 'number' });
+    expect(validate(1)).toBe(true);
+    expect(validate('1')).toBe(false);
+  });
+
+  describe('parsesAsCode', () => {
+    const findingOf = (content: string, language?: string) => parsesAsCode(language).check(content)[0];
+
+    it('should locate TypeScript and JavaScript syntax errors in the output', () => {
+      expect(findingOf('```ts\nconst a: number = 1;\nconst b = ;\n```')).toEqual({
+        message: 'Syntax error in typescript code: Expression expected.',
+        location: { line: 3, column: 11 },
+        fix: 'Fix the typescript syntax error so the code parses.',
+      });
+      expect(findingOf('```js\nfunction f(a: string) {}\n```')?.message).toContain('can only be used in TypeScript files');
+      expect(findingOf('```tsx\nconst a = <div>{value}</div>;\n```')).toBeUndefined();
+    });
+
+    it('should locate Python syntax errors', () => {
+      expect(findingOf('```python\ndef f():\n    return 1\n```')).toBeUndefined();
+      expect(findingOf('```python\ndef f(:\n    pass\n```')).toEqual(expect.objectContaining({
+        message: 'Syntax error in python code: invalid syntax',
+        location: { line: 2, column: 7 },
+      }));
+    });
+
+    it('should accept SQL of any common dialect unless the tag names one', () => {
+      expect(findingOf('```sql\nSELECT id::text FROM users u JOIN orders o ON o.user_id = u.id;\n```')).toBeUndefined();
+      expect(findingOf('```sql\nSELECT 1;\nSELEC 2\n```')).toEqual(expect.objectContaining({
+        message: 'Syntax error in sql code: Unexpected "2"',
+        location: { line: 3, column: 7 },
+      }));
+    });
+
+    it('should parse untagged blocks in the requested language and skip unknown languages', () => {
+      expect(findingOf('```\n{"a": }\n```', 'json')?.message).toMatch(/^Syntax error in json code: /);
+      expect(findingOf('```brainfuck\n+[-->\n```')).toBeUndefined();
+      expect(findingOf('```\nfoo(\n```')).toBeUndefined();
+    });
+
+    it('should use registered parsers', () => {
+      const parsers = new CodeParserRegistry([{
+        language: 'lisp',
+        aliases: ['el'],
+        parse: code => code.split('(').length === code.split(')').length ? undefined : { message: 'unbalanced parentheses' },
+      }]);
+
+      expect(parsesAsCode(undefined, { parsers }).check('```el\n(car (list 1)\n```')).toEqual([
+        expect.objectContaining({ message: 'Syntax error in lisp code: unbalanced parentheses', location: { line: 1, column: 1 } }),
+      ]);
+    });
+  });
+
+  it('should match code languages by their aliases', () => {
+    expect(codeLanguage('typescript').check('```ts\nlet a = 1;\n```')).toEqual([]);
+    expect(codeLanguage('postgresql').check('```sql\nSELECT 1\n```')).toEqual([]);
+    expect(codeLanguage('python').check('```js\nlet a = 1;\n```')[0]?.message).toBe('Language mismatch. Expected: python, Found: js');
+  });
+
+  it('should take severity and message overrides', () => {
+    const rule = noProsePrefix({ severity: 'warning', message: 'Chatty' });
+
+    expect(rule.severity).toBe('warning');
+    expect(rule.check('Sure, done')[0]?.message).toBe('Chatty');
+  });
+});
+
+describe('ValidationPipeline', () => {
+  it('should run every rule and report rule-level findings', () => {
+    const pipeline = new TestPipeline([singleCodeBlock(), hasLanguageTag(), noProsePrefix()]);
+
+    const result = pipeline.validate('Here is the code:\n```\nx = 1\n```\n```\ny = 2\n```');
+
+    expect(result.isValid).toBe(false);
+    expect(result.findings.map(({ rule, severity, location }) => [rule, severity, location?.line])).toEqual([
+      ['singleCodeBlock', 'error', 5],
+      ['hasLanguageTag', 'warning', 2],
+      ['hasLanguageTag', 'warning', 5],
+      ['noProsePrefix', 'error', 1],
+    ]);
+    expect(result.violations).toEqual([
+      'Multiple code blocks detected. Only one code block allowed.',
+      'Prose detected. Only the requested output is allowed.',
+    ]);
+    expect(result.suggestedFix).toBe('Merge the code into a single code block.');
+  });
+
+  it('should stay valid with warnings only', () => {
+    const result = new CodeOutputValidator().validate('```\nprint(1)\n```');
+
+    expect(result.isValid).toBe(true);
+    expect(result.violations).toEqual([]);
+    expect(result.findings).toEqual([expect.objectContaining({ rule: 'hasLanguageTag', severity: 'warning' })]);
+  });
+
+  it('should report all problems of a table at once', () => {
+    const result = new TableOutputValidator().validate('Here is your table:\n\n| A | B |\n|---|---|\n| 1 |');
+
+    expect(result.findings.map(finding => finding.rule)).toEqual(['tableColumnConsistency', 'noProsePrefix']);
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import http from 'http';
+import net from 'net';
+import { Job, WebhookDelivery, WebhookPayload } from '@loogi/shared';
+import { MockProvider } from '../providers';
+import { EnhancementCache, MemoryCacheStore } from '../cache';
+import { EnhancedDeepseekClient } from '../EnhancedDeepseekClient';
+import { EnhancedPromptEnhancementService } from '../EnhancedPromptEnhancementService';
+import { JobQueue } from '../JobQueue';
+import { WebhookDispatcher, WebhookOptions } from '../WebhookDispatcher';
+import { SqliteJobRepository, SqliteWebhookDeliveryRepository, openDatabase } from '../storage';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP receiver answering with the given status codes in turn (then 200)
+ */
+const startReceiver = async (statuses: number[] = []) => {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+const options: WebhookOptions = { secret: 'test-secret', maxAttempts: 3, retryBaseMs: 10, timeoutMs: 1000, allowedHosts: ['127.0.0.1'] };
+
+const finishedJob = (url: string): Job => ({
+  id: 'job_1',
+  status: 'failed',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  progress: { attempt: 1 },
+  error: { message: 'AI service unavailable', statusCode: 503 },
+  callbackUrl: url,
+});
+
+const waitForDelivery = async (
+  repository: SqliteWebhookDeliveryRepository,
+  id: string,
+  status: WebhookDelivery['status']
+): Promise<WebhookDelivery> => {
+  for (let i = 0; i < 200; i++) {
+    const delivery = await repository.findById(id);
+    if (delivery?.status === status) {
+      return delivery;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Delivery ${id} never reached ${status}`);
+};
+
+describe('WebhookDispatcher', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>> | undefined;
+  let dispatcher: WebhookDispatcher | undefined;
+
+  const createRepository = () => {
+    const db = openDatabase(':memory:');
+    return new SqliteWebhookDeliveryRepository(() => db);
+  };
+
+  afterEach(async () => {
+    dispatcher?.stop();
+    await receiver?.close();
+  });
+
+  it('should POST a signed payload and log the delivery', async () => {
+    receiver = await startReceiver();
+    const repository = createRepository();
+    dispatcher = new WebhookDispatcher(repository, options);
+
+    const delivery = await dispatcher.dispatch(finishedJob(receiver.url));
+
+    const delivered = await waitForDelivery(repository, delivery!.id, 'delivered');
+    expect(delivered.attempts).toMatchObject([{ attempt: 1, statusCode: 200 }]);
+
+    const [request] = receiver.received;
+    const signature = String(request?.headers['x-webhook-signature']);
+    const timestamp = Number(/t=(\d+)/.exec(signature)?.[1]);
+    expect(signature).toBe(WebhookDispatcher.sign('test-secret', timestamp, request!.body));
+    expect(request?.headers['x-webhook-delivery']).toBe(delivery!.id);
+
+    const payload = JSON.parse(request!.body) as WebhookPayload;
+    expect(payload.event).toBe('job.failed');
+    expect(payload.job.error?.statusCode).toBe(503);
+  });
+
+  it('should retry server errors with backoff until delivered', async () => {
+    receiver = await startReceiver([500, 503]);
+    const repository = createRepository();
+    dispatcher = new WebhookDispatcher(repository, options);
+
+    const delivery = await dispatcher.dispatch(finishedJob(receiver.url));
+
+    const delivered = await waitForDelivery(repository, delivery!.id, 'delivered');
+    expect(delivered.attempts.map(attempt => attempt.statusCode)).toEqual([500, 503, 200]);
+  });
+
+  it('should give up after the last attempt or on client errors', async () => {
+    receiver = await startReceiver([500, 500, 500, 404]);
+    const repository = createRepository();
+    dispatcher = new WebhookDispatcher(repository, options);
+
+    const exhausted = await dispatcher.dispatch(finishedJob(receiver.url));
+    expect((await waitForDelivery(repository, exhausted!.id, 'failed')).attempts).toHaveLength(3);
+
+    const rejected = await dispatcher.dispatch(finishedJob(receiver.url));
+    expect((await waitForDelivery(repository, rejected!.id, 'failed')).attempts).toMatchObject([{ statusCode: 404 }]);
+
+    const page = await repository.list({ page: 1, pageSize: 20, jobId: 'job_1', status: 'failed' });
+    expect(page.total).toBe(2);
+  });
+
+  it('should resume pending deliveries on start', async () => {
+    receiver = await startReceiver();
+    const repository = createRepository();
+    const pending = await repository.create({
+      jobId: 'job_1',
+      url: receiver.url,
+      event: 'job.failed',
+      payload: JSON.stringify({ event: 'job.failed' }),
+    });
+
+    dispatcher = new WebhookDispatcher(repository, options);
+    await dispatcher.start();
+
+    await waitForDelivery(repository, pending.id, 'delivered');
+  });
+
+  it('should refuse callback URLs with non-public addresses', async () => {
+    const open = new WebhookDispatcher(createRepository(), { ...options, allowedHosts: [] });
+
+    expect(await open.checkUrl('http://169.254.169.254/latest/meta-data')).toBe('Callback host 169.254.169.254 resolves to the non-public address 169.254.169.254');
+    expect(await open.checkUrl('http://127.0.0.1:6379/')).toMatch(/non-public address 127\.0\.0\.1$/);
+    expect(await open.checkUrl('http://10.1.2.3/hook')).toMatch(/non-public/);
+    expect(await open.checkUrl('http://[::1]/hook')).toMatch(/non-public address ::1$/);
+    expect(await open.checkUrl('http://[::ffff:192.168.0.1]/hook')).toMatch(/non-public/);
+    expect(await open.checkUrl('http://localhost/hook')).toMatch(/non-public/);
+    expect(await open.checkUrl('ftp://93.184.216.34/hook')).toBe('Callback URL must use http or https');
+    expect(await open.checkUrl('https://93.184.216.34/hook')).toBeUndefined();
+  });
+
+  it('should only allow listed hosts when WEBHOOK_ALLOWED_HOSTS is set', async () => {
+    const listed = new WebhookDispatcher(createRepository(), { ...options, allowedHosts: ['hooks.example.com', '127.0.0.1'] });
+
+    expect(await listed.checkUrl('https://93.184.216.34/hook')).toBe('Callback host 93.184.216.34 is not in WEBHOOK_ALLOWED_HOSTS');
+    expect(await listed.checkUrl('https://HOOKS.example.com/hook')).toBeUndefined();
+    // Listed hosts may be internal
+    expect(await listed.checkUrl('http://127.0.0.1/hook')).toBeUndefined();
+  });
+
+  it('should refuse deliveries to non-public addresses without sending them', async () => {
+    receiver = await startReceiver();
+    const repository = createRepository();
+    dispatcher = new WebhookDispatcher(repository, { ...options, allowedHosts: [] });
+
+    const delivery = await dispatcher.dispatch(finishedJob(receiver.url));
+
+    const failed = await waitForDelivery(repository, delivery!.id, 'failed');
+    expect(failed.attempts).toMatchObject([{ attempt: 1, error: 'Callback host 127.0.0.1 resolves to the non-public address 127.0.0.1' }]);
+    expect(receiver.received).toHaveLength(0);
+  });
+
+  it('should refuse hosts that resolve to a non-public address when connecting', async () => {
+    receiver = await startReceiver();
+    const repository = createRepository();
+    dispatcher = new WebhookDispatcher(repository, { ...options, allowedHosts: [] });
+    // The host passed the check, then was re-pointed at an internal address
+    jest.spyOn(dispatcher, 'checkUrl').mockResolvedValue(undefined);
+
+    const delivery = await dispatcher.dispatch(finishedJob(receiver.url.replace('127.0.0.1', 'localhost')));
+
+    const failed = await waitForDelivery(repository, delivery!.id, 'failed');
+    expect(failed.attempts).toHaveLength(1);
+    expect(failed.attempts[0]?.error).toMatch(/^Callback host localhost resolves to the non-public address/);
+    expect(receiver.received).toHaveLength(0);
+  });
+
+  it('should not send callbacks without a signing secret', async () => {
+    receiver = await startReceiver();
+    const repository = createRepository();
+    const pending = await repository.create({
+      jobId: 'job_1',
+      url: receiver.url,
+      event: 'job.failed',
+      payload: JSON.stringify({ event: 'job.failed' }),
+    });
+    dispatcher = new WebhookDispatcher(repository, { ...options, secret: '' });
+
+    expect(await dispatcher.dispatch(finishedJob(receiver.url))).toBeUndefined();
+    await dispatcher.start();
+
+    const failed = await waitForDelivery(repository, pending.id, 'failed');
+    expect(failed.attempts).toMatchObject([{ error: 'WEBHOOK_SECRET is not configured' }]);
+    expect(receiver.received).toHaveLength(0);
+  });
+
+  it('should notify the callbackUrl when a job finishes', async () => {
+    receiver = await startReceiver();
+    const db = openDatabase(':memory:');
+    const deliveries = new SqliteWebhookDeliveryRepository(() => db);
+    dispatcher = new WebhookDispatcher(deliveries, options);
+    const service = new EnhancedPromptEnhancementService(
+      new EnhancedDeepseekClient({ model: 'mock-model' }, new MockProvider()),
+      new EnhancementCache(new MemoryCacheStore(), 60)
+    );
+    const queue = new JobQueue(service, new SqliteJobRepository(() => db), 1, dispatcher);
+    await queue.start();
+
+    const job = await queue.enqueue(
+      { prompt: 'Write a poem about the sea.', mode: 'standard', maxTokens: 1000, enableContractEnforcement: true },
+      { callbackUrl: receiver.url }
+    );
+
+    for (let i = 0; i < 200 && receiver.received.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const payload = JSON.parse(receiver.received[0]!.body) as WebhookPayload;
+    expect(payload.event).toBe('job.succeeded');
+    expect(payload.job.id).toBe(job.id);
+    expect(payload.job.result?._meta.requestId).toBe(job.id);
+    queue.stop();
+  });
+});
@@ -0,0 +1,53 @@
+import { EnhancedPrompt } from '../../models/EnhancedPrompt';
+import { CacheStore } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'EnhancementCache' });
+
+/**
+ * Enhancement results keyed by the deterministic prompt ID. Store failures are logged and
+ * treated as misses so a broken cache never fails a request.
+ */
+export class EnhancementCache {
+  private readonly store?: CacheStore;
+  private readonly ttlMs: number;
+
+  constructor(store: CacheStore | undefined, ttlSeconds: number) {
+    this.store = store;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  get enabled(): boolean {
+    return this.store !== undefined && this.ttlMs > 0;
+  }
+
+  async get(key: string): Promise<EnhancedPrompt | undefined> {
+    if (!this.store || !this.enabled) {
+      return undefined;
+    }
+
+    try {
+      const value = await this.store.get(key);
+      return value === undefined ? undefined : JSON.parse(value) as EnhancedPrompt;
+    } catch (error) {
+      log.warn('Cache read failed', { store: this.store.name, key, error: error instanceof Error ? error.message : error });
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: EnhancedPrompt): Promise<void> {
+    if (!this.store || !this.enabled) {
+      return;
+    }
+
+    try {
+      await this.store.set(key, JSON.stringify(value), this.ttlMs);
+    } catch (error) {
+      log.warn('Cache write failed', { store: this.store.name, key, error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store?.clear();
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { CacheStore, CacheStoreName } from './types';
+
+interface FileCacheEntry {
+  key: string;
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * One JSON file per entry, named by the SHA-256 of the key. Survives restarts and can be
+ * shared by several processes on the same host.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name: CacheStoreName = 'file';
+  private readonly directory: string;
+  private readonly now: () => number;
+
+  constructor(directory: string, now: () => number = Date.now) {
+    this.directory = path.resolve(directory);
+    this.now = now;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: FileCacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch {
+      // Missing or partially written file
+      return undefined;
+    }
+
+    if (entry.key !== key || entry.expiresAt <= this.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const entry: FileCacheEntry = { key, value, expiresAt: this.now() + ttlMs };
+    const target = this.filePath(key);
+    // Write then rename so readers never see a half-written entry
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,55 @@
+import { CacheStore, CacheStoreName } from './types';
+
+/**
+ * In-process LRU store. Map iteration order doubles as recency order:
+ * reads re-insert the entry, so the first key is always the least recently used.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name: CacheStoreName = 'memory';
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(maxEntries = 500, now: () => number = Date.now) {
+    this.maxEntries = Math.max(1, maxEntries);
+    this.now = now;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,222 @@
+import net from 'net';
+import { CacheStore, CacheStoreName } from './types';
+
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+export interface RedisCacheStoreOptions {
+  /** Namespace for all keys written by this store; `clear()` only removes these */
+  keyPrefix?: string;
+  /** Fail a command when the server has not answered within this time */
+  timeoutMs?: number;
+}
+
+/**
+ * Minimal RESP2 client covering the handful of commands the cache needs (GET, SET PX, DEL,
+ * SCAN). Works against Redis, Valkey, KeyDB, Dragonfly or any other server speaking the
+ * Redis protocol, without adding a client library dependency.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name: CacheStoreName = 'redis';
+  private readonly url: URL;
+  private readonly keyPrefix: string;
+  private readonly timeoutMs: number;
+  private connection?: Promise<net.Socket>;
+  private socket?: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+
+  constructor(redisUrl: string, options: RedisCacheStoreOptions = {}) {
+    this.url = new URL(redisUrl);
+    this.keyPrefix = options.keyPrefix ?? 'loogi:cache:';
+    this.timeoutMs = options.timeoutMs ?? 2000;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const reply = await this.command('GET', this.keyPrefix + key);
+    return typeof reply === 'string' ? reply : undefined;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.command('SET', this.keyPrefix + key, value, 'PX', String(Math.max(1, Math.round(ttlMs))));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', this.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const reply = await this.command('SCAN', cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', '100');
+      if (!Array.isArray(reply) || !Array.isArray(reply[1])) {
+        throw new Error('Unexpected SCAN reply');
+      }
+
+      cursor = String(reply[0]);
+      const keys = reply[1].filter((key): key is string => typeof key === 'string');
+      if (keys.length > 0) {
+        await this.command('DEL', ...keys);
+      }
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Close the connection; the next command reconnects
+   */
+  close(): void {
+    this.socket?.end();
+    this.reset(new Error('Redis connection closed'));
+  }
+
+  /**
+   * Encode a command as a RESP array of bulk strings
+   */
+  static encode(args: string[]): string {
+    return `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+  }
+
+  /**
+   * Parse one reply starting at `offset`; returns undefined when the buffer holds an incomplete reply
+   */
+  static parseReply(buffer: Buffer, offset = 0): { reply: RedisReply; offset: number } | undefined {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) {
+      return undefined;
+    }
+
+    const type = String.fromCharCode(buffer[offset] ?? 0);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { reply: line, offset: next };
+      case '-':
+        return { reply: new Error(line), offset: next };
+      case ':':
+        return { reply: Number(line), offset: next };
+      case '$': {
+        const length = Number(line);
+        if (length < 0) {
+          return { reply: null, offset: next };
+        }
+        if (buffer.length < next + length + 2) {
+          return undefined;
+        }
+        return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count < 0) {
+          return { reply: null, offset: next };
+        }
+
+        const items: RedisReply[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parseReply(buffer, cursor);
+          if (!item) {
+            return undefined;
+          }
+          items.push(item.reply);
+          cursor = item.offset;
+        }
+        return { reply: items, offset: cursor };
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type: ${type}`);
+    }
+  }
+
+  private async command(...args: string[]): Promise<RedisReply> {
+    return this.send(await this.connect(), args);
+  }
+
+  private send(socket: net.Socket, args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(RedisCacheStore.encode(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (!this.connection) {
+      this.connection = new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.createConnection({
+          host: this.url.hostname || 'localhost',
+          port: Number(this.url.port || 6379),
+        });
+
+        // The cache must never keep the process alive on its own
+        socket.unref();
+        socket.setTimeout(this.timeoutMs);
+        socket.on('data', (chunk: Buffer) => this.onData(socket, chunk));
+        socket.on('timeout', () => {
+          if (this.pending.length > 0) {
+            socket.destroy(new Error('Redis command timed out'));
+          }
+        });
+        socket.on('error', (error: Error) => {
+          reject(error);
+          this.reset(error);
+        });
+        socket.on('close', () => this.reset(new Error('Redis connection closed')));
+        socket.once('connect', () => {
+          this.socket = socket;
+          resolve(socket);
+        });
+      }).then(async (socket) => {
+        try {
+          if (this.url.password) {
+            const password = decodeURIComponent(this.url.password);
+            await this.send(socket, this.url.username
+              ? ['AUTH', decodeURIComponent(this.url.username), password]
+              : ['AUTH', password]);
+          }
+
+          const db = this.url.pathname.replace(/^\//, '');
+          if (db) {
+            await this.send(socket, ['SELECT', db]);
+          }
+          return socket;
+        } catch (error) {
+          // Rejected AUTH/SELECT: drop the connection so the next command starts over
+          socket.destroy();
+          this.reset(error instanceof Error ? error : new Error('Redis handshake failed'));
+          throw error;
+        }
+      });
+    }
+    return this.connection;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let parsed = RedisCacheStore.parseReply(this.buffer);
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.offset);
+        const waiter = this.pending.shift();
+        if (parsed.reply instanceof Error) {
+          waiter?.reject(parsed.reply);
+        } else {
+          waiter?.resolve(parsed.reply);
+        }
+        parsed = RedisCacheStore.parseReply(this.buffer);
+      }
+    } catch (error) {
+      socket.destroy(error instanceof Error ? error : new Error('Invalid Redis reply'));
+    }
+  }
+
+  private reset(error: Error): void {
+    this.connection = undefined;
+    this.socket = undefined;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(waiter => waiter.reject(error));
+  }
+}
@@ -0,0 +1,30 @@
+import { CacheConfig, CacheStore } from './types';
+import { MemoryCacheStore } from './MemoryCacheStore';
+import { FileCacheStore } from './FileCacheStore';
+import { RedisCacheStore } from './RedisCacheStore';
+
+export * from './types';
+export { MemoryCacheStore } from './MemoryCacheStore';
+export { FileCacheStore } from './FileCacheStore';
+export { RedisCacheStore, type RedisCacheStoreOptions, type RedisReply } from './RedisCacheStore';
+export { EnhancementCache } from './EnhancementCache';
+
+/**
+ * Factory for the store selected by `CACHE_STORE`; `none` disables caching
+ */
+export class CacheStoreFactory {
+  static create(config: CacheConfig): CacheStore | undefined {
+    switch (config.store) {
+      case 'memory':
+        return new MemoryCacheStore(config.maxEntries);
+      case 'file':
+        return new FileCacheStore(config.directory);
+      case 'redis':
+        return new RedisCacheStore(config.redisUrl);
+      case 'none':
+        return undefined;
+      default:
+        throw new Error(`Unsupported cache store: ${config.store}`);
+    }
+  }
+}
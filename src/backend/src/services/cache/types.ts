@@ -0,0 +1,33 @@
+export const CACHE_STORES = ['memory', 'file', 'redis', 'none'] as const;
+export type CacheStoreName = typeof CACHE_STORES[number];
+
+export function isCacheStoreName(value: string): value is CacheStoreName {
+  return (CACHE_STORES as readonly string[]).includes(value);
+}
+
+/**
+ * Key/value store for serialized cache entries. Expiry is handled by the store.
+ */
+export interface CacheStore {
+  readonly name: CacheStoreName;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheConfig {
+  store: CacheStoreName;
+  ttlSeconds: number;
+  /** Upper bound for the in-memory LRU store */
+  maxEntries: number;
+  /** Directory of the file-backed store */
+  directory: string;
+  /** redis://[:password@]host:port[/db] for the Redis-protocol store */
+  redisUrl: string;
+}
+
+/**
+ * How a request interacted with the cache, reported in `_meta.cache`
+ */
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'disabled';
@@ -0,0 +1,12 @@
+export type CsvValue = string | number | undefined;
+
+const quote = (value: CsvValue): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV: one line per row, each ended by CRLF; undefined values are empty fields
+ */
+export const toCsv = (rows: readonly (readonly CsvValue[])[]): string =>
+  rows.map(row => row.map(quote).join(',') + '\r\n').join('');
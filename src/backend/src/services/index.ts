@@ -1,8 +1,13 @@
 // Enhanced services with contract enforcement and validation
 export { EnhancedPromptEnhancementService } from './EnhancedPromptEnhancementService';
-export { EnhancedDeepseekClient, AIClientFactory, AILogger, DeterministicIdGenerator } from './EnhancedDeepseekClient';
+export { EnhancedDeepseekClient, AIClientFactory, DeterministicIdGenerator } from './EnhancedDeepseekClient';
+export { AIEventLog } from './AIEventLog';
 export { ContractEnforcer, IntentRouter } from './ContractEnforcer';
 export { TextSanitizer, ConfigValidator } from './TextSanitizer';
+export { AIProviderFactory, type AIProvider, type AIProviderName } from './providers';
+export { CacheStoreFactory, EnhancementCache, type CacheStore, type CacheStatus } from './cache';
+export { Storage, SqliteHistoryRepository, type HistoryRepository } from './storage';
+export { ModeRegistry, modeRegistry } from './modes';
 export { OutputValidatorFactory, type TaskMode, type ValidationResult, type OutputContract } from './OutputValidators';
 
 // Legacy exports for backward compatibility
@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { isSpanContextValid, trace } from '@opentelemetry/api';
+import { LogFields, LogLevelName, LoggingConfig } from './types';
+
+const SEVERITY: Record<LogLevelName, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Number.POSITIVE_INFINITY,
+};
+
+/** Fields holding prompt or completion text, logged as their length unless LOG_PROMPTS=true */
+export const REDACTED_FIELDS: ReadonlySet<string> = new Set([
+  'prompt',
+  'originalPrompt',
+  'enhancedPrompt',
+  'context',
+  'content',
+  'messages',
+  'systemPrompt',
+  'userPrompt',
+]);
+
+// Nested data beyond this depth is cut off rather than walked
+const MAX_DEPTH = 6;
+
+export type LogDestination = (level: Exclude<LogLevelName, 'silent'>, line: string) => void;
+
+const writeToStdio: LogDestination = (level, line) => {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+// Fields of the request or job being handled (requestId, promptId), picked up by every logger
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` added to every line logged while it, and the work it starts, runs
+ */
+export function withLogFields<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields added by the enclosing withLogFields calls (e.g. the requestId)
+ */
+export function currentLogFields(): LogFields {
+  return logContext.getStore() ?? {};
+}
+
+/**
+ * Writes one JSON object per line: time, level, msg, the logger's bindings and the line's
+ * fields. Lines logged inside a request also carry its requestId and trace ids.
+ */
+export class Logger {
+  private readonly config: LoggingConfig;
+  private readonly bindings: LogFields;
+  private readonly destination: LogDestination;
+
+  constructor(config: LoggingConfig, bindings: LogFields = {}, destination: LogDestination = writeToStdio) {
+    this.config = config;
+    this.bindings = bindings;
+    this.destination = destination;
+  }
+
+  /**
+   * Logger adding `bindings` (e.g. promptId) to every line
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(this.config, { ...this.bindings, ...bindings }, this.destination);
+  }
+
+  isLevelEnabled(level: LogLevelName): boolean {
+    return this.config.enabled && SEVERITY[level] >= SEVERITY[this.config.level];
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: Exclude<LogLevelName, 'silent'>, msg: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    const record = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...logContext.getStore(),
+      ...(spanContext && isSpanContextValid(spanContext) && { traceId: spanContext.traceId, spanId: spanContext.spanId }),
+      ...this.bindings,
+      ...fields,
+    };
+
+    this.destination(level, JSON.stringify(this.serialize(record, 0, false)));
+  }
+
+  private serialize(value: unknown, depth: number, redact: boolean): unknown {
+    if (redact && !this.config.logPrompts) {
+      return Logger.redact(value);
+    }
+    if (value instanceof Error) {
+      return Logger.serializeError(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[truncated]';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.serialize(item, depth + 1, false));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, this.serialize(item, depth + 1, REDACTED_FIELDS.has(key))])
+    );
+  }
+
+  private static redact(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return `[redacted ${value.length} chars]`;
+    }
+    if (Array.isArray(value)) {
+      return `[redacted ${value.length} items]`;
+    }
+    return value === null || value === undefined ? value : '[redacted]';
+  }
+
+  private static serializeError(error: Error): LogFields {
+    return {
+      name: error.name,
+      message: error.message,
+      ...('statusCode' in error && { statusCode: error.statusCode }),
+      stack: error.stack,
+    };
+  }
+}
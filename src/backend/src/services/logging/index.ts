@@ -0,0 +1,11 @@
+import { config } from '../../config/index';
+import { Logger } from './Logger';
+
+export * from './types';
+export { Logger, LogDestination, REDACTED_FIELDS, currentLogFields, withLogFields } from './Logger';
+
+/**
+ * Root logger of the service (LOG_LEVEL, ENABLE_LOGGING, LOG_PROMPTS); services derive
+ * component loggers with `logger.child({ component })`
+ */
+export const logger = new Logger(config.logging);
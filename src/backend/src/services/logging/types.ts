@@ -0,0 +1,17 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevelName = typeof LOG_LEVELS[number];
+
+export function isLogLevelName(value: string): value is LogLevelName {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/** Structured fields of a log line, merged over the logger's bindings */
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingConfig {
+  level: LogLevelName;
+  /** ENABLE_LOGGING=false silences every level */
+  enabled: boolean;
+  /** Write prompt and completion text instead of its length */
+  logPrompts: boolean;
+}
@@ -0,0 +1,196 @@
+/**
+ * Minimal Prometheus client: counters and histograms rendered in the text exposition
+ * format (version 0.0.4). Label values are strings; missing labels render as "".
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type Labels<L extends string> = Partial<Record<L, string | number>>;
+
+const escapeHelp = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (pairs: Array<[string, string]>) =>
+  pairs.length === 0 ? '' : `{${pairs.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+
+const formatNumber = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+abstract class Metric<L extends string, S> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly L[];
+  protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+  constructor(name: string, help: string, labelNames: readonly L[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract readonly type: 'counter' | 'histogram';
+
+  protected abstract initial(): S;
+
+  protected abstract samples(labels: Array<[string, string]>, state: S): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { values, state } of this.series.values()) {
+      const labels = this.labelNames.map((name, index): [string, string] => [name, values[index] ?? '']);
+      lines.push(...this.samples(labels, state));
+    }
+    return lines;
+  }
+
+  protected stateFor(labels: Labels<L>): S {
+    const values = this.labelValues(labels);
+    const key = JSON.stringify(values);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  protected find(labels: Labels<L>): S | undefined {
+    return this.series.get(JSON.stringify(this.labelValues(labels)))?.state;
+  }
+
+  private labelValues(labels: Labels<L>): string[] {
+    return this.labelNames.map(name => String(labels[name] ?? ''));
+  }
+}
+
+export class Counter<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = 'counter';
+
+  inc(labels: Labels<L> = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.stateFor(labels).value += value;
+  }
+
+  get(labels: Labels<L> = {}): number {
+    return this.find(labels)?.value ?? 0;
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  protected samples(labels: Array<[string, string]>, state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatNumber(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  // Non-cumulative count per bucket; rendered cumulatively
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends Metric<L, HistogramState> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly L[], buckets: readonly number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels<L>, value: number): void {
+    const state = this.stateFor(labels);
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) {
+      state.counts[bucket]!++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  /**
+   * Number of observations for `labels`
+   */
+  count(labels: Labels<L> = {}): number {
+    return this.find(labels)?.count ?? 0;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds, with labels
+   * merged over the ones given here
+   */
+  startTimer(labels: Labels<L> = {}): (endLabels?: Labels<L>) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  protected initial(): HistogramState {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected samples(labels: Array<[string, string]>, state: HistogramState): string[] {
+    let cumulative = 0;
+    const buckets = this.buckets.map((bound, index) => {
+      cumulative += state.counts[index] ?? 0;
+      return `${this.name}_bucket${formatLabels([...labels, ['le', formatNumber(bound)]])} ${cumulative}`;
+    });
+
+    return [
+      ...buckets,
+      `${this.name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${state.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatNumber(state.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${state.count}`,
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<string, unknown>>();
+
+  counter<L extends string = never>(name: string, help: string, labelNames: readonly L[] = []): Counter<L> {
+    return this.register(new Counter<L>(name, help, labelNames));
+  }
+
+  histogram<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[],
+    buckets: readonly number[]
+  ): Histogram<L> {
+    return this.register(new Histogram<L>(name, help, labelNames, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return [...this.metrics.values()].map(metric => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  /**
+   * Drop all recorded series, keeping the metrics registered
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<M extends Metric<string, unknown>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,68 @@
+import { MetricsRegistry } from './MetricsRegistry';
+
+export * from './MetricsRegistry';
+
+// Seconds; enhancements run for several seconds, HTTP requests also serve cache hits
+const HTTP_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const GENERATION_BUCKETS = [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+/**
+ * Registry served at GET /metrics
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * Metrics of the service; recorded by the request middleware, the AI client, the HTTP
+ * providers' retry interceptor and the rate limiters
+ */
+export const metrics = {
+  httpRequests: metricsRegistry.counter(
+    'loogi_http_requests_total',
+    'HTTP requests by route, method, status and requested mode',
+    ['route', 'method', 'status', 'mode'] as const
+  ),
+  httpRequestDuration: metricsRegistry.histogram(
+    'loogi_http_request_duration_seconds',
+    'HTTP request latency by route and method',
+    ['route', 'method'] as const,
+    HTTP_BUCKETS
+  ),
+  enhancementDuration: metricsRegistry.histogram(
+    'loogi_enhancement_duration_seconds',
+    'AI generation latency by task mode, including contract re-prompts',
+    ['mode', 'outcome'] as const,
+    GENERATION_BUCKETS
+  ),
+  upstreamDuration: metricsRegistry.histogram(
+    'loogi_upstream_request_duration_seconds',
+    'Latency of requests to the AI provider, including HTTP retries',
+    ['provider', 'model', 'outcome'] as const,
+    GENERATION_BUCKETS
+  ),
+  upstreamRetries: metricsRegistry.counter(
+    'loogi_upstream_retries_total',
+    'AI provider requests retried after a network error or retryable status',
+    ['provider', 'reason'] as const
+  ),
+  contractValidations: metricsRegistry.counter(
+    'loogi_contract_validations_total',
+    'Contract-enforced generations by task mode and final validation result',
+    ['mode', 'result'] as const
+  ),
+  contractAttempts: metricsRegistry.histogram(
+    'loogi_contract_attempts',
+    'Generation attempts per contract-enforced generation, by task mode',
+    ['mode'] as const,
+    [1, 2, 3, 4, 5]
+  ),
+  tokens: metricsRegistry.counter(
+    'loogi_tokens_total',
+    'Tokens used by AI provider requests, by provider, model and type',
+    ['provider', 'model', 'type'] as const
+  ),
+  rateLimitRejections: metricsRegistry.counter(
+    'loogi_rate_limit_rejections_total',
+    'Requests rejected by a rate limit or an API key\'s daily token quota',
+    ['reason', 'client'] as const
+  ),
+};
@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import { FSWatcher, existsSync, readFileSync, readdirSync, watch } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { Mode, ModeDefinition, ModeDefinitionSchema, TaskMode } from '@loogi/shared';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'ModeRegistry' });
+
+// Task mode used when a prompt matches no mode's intent
+export const DEFAULT_TASK_MODE: TaskMode = 'write';
+
+const DEFINITION_EXTENSIONS = ['.yaml', '.yml', '.json'];
+// Editors write a file in several steps; reload once they are done
+const RELOAD_DELAY_MS = 200;
+
+// A file holds one definition or a list of them
+const DefinitionFileSchema = z.union([ModeDefinitionSchema, z.array(ModeDefinitionSchema)]);
+
+/**
+ * The enhancement styles and task modes, loaded from YAML/JSON definition files. Directories
+ * are read in order and a later definition replaces an earlier one with the same ID, so
+ * deployments can add modes and override the built-in ones (MODES_DIR). With `watch()` the
+ * files are reloaded on every change; a file that fails to parse keeps its last valid
+ * definitions until it is fixed.
+ */
+export class ModeRegistry {
+  private readonly directories: string[];
+  // Last valid definitions of every file
+  private readonly files = new Map<string, ModeDefinition[]>();
+  private modes?: Map<TaskMode, ModeDefinition>;
+  private watchers: FSWatcher[] = [];
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(directories: string[]) {
+    this.directories = directories.map(directory => path.resolve(directory));
+  }
+
+  get(id: string): ModeDefinition | undefined {
+    return this.definitions().get(id);
+  }
+
+  has(id: string): boolean {
+    return this.definitions().has(id);
+  }
+
+  /**
+   * Every mode, styles first, each group by its `order`
+   */
+  list(): ModeDefinition[] {
+    return [...this.definitions().values()].sort((a, b) =>
+      a.group.localeCompare(b.group) || a.order - b.order || a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * The task mode a prompt asks for: `userMode` when it names a task mode, otherwise the
+   * first mode, by intent priority, whose keywords or patterns occur in the prompt
+   */
+  inferTaskMode(prompt: string, userMode?: string): TaskMode {
+    if (userMode && this.get(userMode)?.group === 'task') {
+      return userMode;
+    }
+
+    const lowerPrompt = prompt.toLowerCase().trim();
+    const candidates = this.list()
+      .filter(mode => mode.group === 'task')
+      .sort((a, b) => b.intent.priority - a.intent.priority);
+
+    const match = candidates.find(({ intent }) =>
+      intent.keywords.some(keyword => lowerPrompt.includes(keyword.toLowerCase())) ||
+      intent.patterns.some(pattern => prompt.includes(pattern))
+    );
+    return match?.id ?? DEFAULT_TASK_MODE;
+  }
+
+  /**
+   * Hash of a mode's definition, so results generated under an older definition can be told apart
+   */
+  fingerprint(id: string): string {
+    return createHash('sha256').update(JSON.stringify(this.get(id) ?? null)).digest('hex').substring(0, 12);
+  }
+
+  /**
+   * Re-read every definition file
+   */
+  reload(): void {
+    const modes = new Map<TaskMode, ModeDefinition>();
+    const seen = new Set<string>();
+
+    for (const directory of this.directories) {
+      for (const file of ModeRegistry.definitionFiles(directory)) {
+        seen.add(file);
+        try {
+          this.files.set(file, ModeRegistry.readDefinitions(file));
+        } catch (error) {
+          log.error('Invalid mode definition file', {
+            file,
+            error: error instanceof Error ? error.message : error,
+            keeping: this.files.get(file)?.map(mode => mode.id) ?? [],
+          });
+        }
+
+        for (const definition of this.files.get(file) ?? []) {
+          modes.set(definition.id, definition);
+        }
+      }
+    }
+
+    // Deleted files take their modes with them
+    for (const file of this.files.keys()) {
+      if (!seen.has(file)) {
+        this.files.delete(file);
+      }
+    }
+
+    this.modes = modes;
+    log.info('Modes loaded', { modes: [...modes.keys()] });
+  }
+
+  /**
+   * Reload the definitions whenever a file in the directories changes
+   */
+  watch(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    this.definitions();
+    for (const directory of this.directories.filter(existsSync)) {
+      const watcher = watch(directory, () => this.scheduleReload());
+      watcher.on('error', error => log.warn('Mode directory watch failed', { directory, error: error.message }));
+      this.watchers.push(watcher);
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * What clients get to see of a mode (GET /modes)
+   */
+  static toMode({ id, group, order, labels, descriptions, validator }: ModeDefinition): Mode {
+    return { id, group, order, labels, descriptions, validator: validator.type };
+  }
+
+  private definitions(): Map<TaskMode, ModeDefinition> {
+    if (!this.modes) {
+      this.reload();
+    }
+    return this.modes!;
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => this.reload(), RELOAD_DELAY_MS);
+  }
+
+  private static definitionFiles(directory: string): string[] {
+    if (!existsSync(directory)) {
+      return [];
+    }
+    return readdirSync(directory)
+      .filter(name => DEFINITION_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+      .sort()
+      .map(name => path.join(directory, name));
+  }
+
+  private static readDefinitions(file: string): ModeDefinition[] {
+    const content = readFileSync(file, 'utf8');
+    const parsed: unknown = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+    const result = DefinitionFileSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(result.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+    }
+    return Array.isArray(result.data) ? result.data : [result.data];
+  }
+}
@@ -0,0 +1,16 @@
+import path from 'path';
+import { config } from '../../config';
+import { ModeRegistry } from './ModeRegistry';
+
+export { ModeRegistry, DEFAULT_TASK_MODE } from './ModeRegistry';
+
+// Definitions shipped with the server (src/backend/modes), resolved from src/ and dist/ alike
+export const BUILTIN_MODES_DIR = path.resolve(__dirname, '../../../modes');
+
+/**
+ * The registry of the server: the built-in modes, then those of MODES_DIR
+ */
+export const modeRegistry = new ModeRegistry([
+  BUILTIN_MODES_DIR,
+  ...(config.modes.directory ? [config.modes.directory] : []),
+]);
@@ -0,0 +1,41 @@
+import type { AIUsage } from './providers';
+
+/**
+ * USD per million prompt and completion tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export type ModelPricing = Record<string, ModelPrice>;
+
+/**
+ * Parse MODEL_PRICING, `<model>=<prompt>/<completion>,...` in USD per million tokens,
+ * e.g. `deepseek-chat=0.27/1.10,gpt-4o-mini=0.15/0.60`. Throws on malformed entries.
+ */
+export function parseModelPricing(value: string): ModelPricing {
+  const pricing: ModelPricing = {};
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = /^(.+?)=(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(entry);
+    if (!match) {
+      throw new Error(`MODEL_PRICING entry "${entry}" must look like <model>=<prompt>/<completion>`);
+    }
+    const [, model, prompt, completion] = match;
+    pricing[model!.trim()] = { prompt: Number(prompt), completion: Number(completion) };
+  }
+
+  return pricing;
+}
+
+/**
+ * Cost of a call in USD; calls to models without a price cost nothing
+ */
+export function priceUsage(pricing: ModelPricing, model: string, usage: AIUsage): number {
+  const price = pricing[model];
+  if (!price) {
+    return 0;
+  }
+  return (usage.prompt_tokens * price.prompt + usage.completion_tokens * price.completion) / 1_000_000;
+}
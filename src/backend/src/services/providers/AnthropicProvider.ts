@@ -0,0 +1,167 @@
+import { HttpProvider } from './HttpProvider';
+import { AIProviderName, AIRequest, AIResponse } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { id: string; model: string; usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Provider for Anthropic Messages-style APIs (`/messages`)
+ */
+export class AnthropicProvider extends HttpProvider {
+  readonly name: AIProviderName = 'anthropic';
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  /**
+   * Convert a chat request: system messages move to the top-level `system` field
+   */
+  static toMessagesRequest(request: AIRequest, defaultModel: string, defaultMaxTokens: number) {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: request.model || defaultModel,
+      max_tokens: request.max_tokens || defaultMaxTokens,
+      ...(system && { system }),
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      // The Messages API rejects temperature and top_p together; temperature carries the stable setting
+      ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+    };
+  }
+
+  static toAIResponse(data: AnthropicMessagesResponse): AIResponse {
+    const content = data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      id: data.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: data.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content },
+          finish_reason: data.stop_reason || 'stop',
+        },
+      ],
+      usage: {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+    };
+  }
+
+  async complete(request: AIRequest): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<AnthropicMessagesResponse>(
+        '/messages',
+        AnthropicProvider.toMessagesRequest(request, this.config.model, this.config.maxTokens)
+      );
+
+      return AnthropicProvider.toAIResponse(response.data);
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate completion');
+    }
+  }
+
+  async completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<NodeJS.ReadableStream>(
+        '/messages',
+        {
+          ...AnthropicProvider.toMessagesRequest(request, this.config.model, this.config.maxTokens),
+          stream: true,
+        },
+        { responseType: 'stream', signal }
+      );
+
+      let content = '';
+      let id: string | undefined;
+      let model: string | undefined;
+      let finishReason: string | undefined;
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      let streamError: string | undefined;
+
+      await this.readLines(response.data, (line) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(trimmed.slice('data:'.length));
+        } catch {
+          return;
+        }
+
+        if (event.type === 'message_start' && event.message) {
+          id = event.message.id;
+          model = event.message.model;
+          inputTokens = event.message.usage?.input_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta?.text) {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === 'message_delta') {
+          finishReason = event.delta?.stop_reason || finishReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        } else if (event.type === 'error') {
+          streamError = event.error?.message || 'Unknown stream error';
+        }
+      });
+
+      if (streamError) {
+        throw this.toServiceError(undefined, `AI stream error: ${streamError}`);
+      }
+
+      return this.buildResponse(request, {
+        id,
+        model,
+        content,
+        finishReason,
+        usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens },
+      });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate streamed completion');
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.client.get('/models');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Failure rate (0-1) within the window that opens the circuit */
+  failureThreshold: number;
+  /** Minimum calls in the window before the failure rate is evaluated */
+  minimumRequests: number;
+  /** Length of the rolling window of recorded outcomes */
+  windowMs: number;
+  /** How long the circuit stays open before a trial request is let through */
+  openDurationMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 0.5,
+  minimumRequests: 5,
+  windowMs: 60000,
+  openDurationMs: 30000,
+};
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  failureRate: number;
+  requests: number;
+  failures: number;
+  openedAt?: string;
+}
+
+/**
+ * Closed/open/half-open circuit breaker driven by the failure rate of recent calls.
+ * Open circuits reject calls until `openDurationMs` has passed; then a single trial
+ * call decides whether the circuit closes again or re-opens.
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private readonly now: () => number;
+  private outcomes: Array<{ time: number; success: boolean }> = [];
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}, now: () => number = Date.now) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.now = now;
+  }
+
+  /**
+   * Whether a call may be attempted now; moves an expired open circuit to half-open
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.config.openDurationMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.close();
+      return;
+    }
+    this.record(true);
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.record(false);
+
+    const { requests, failures } = this.countWindow();
+    if (requests >= this.config.minimumRequests && failures / requests >= this.config.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Forget a call that neither succeeded nor failed, e.g. one aborted by the caller
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.trialInFlight = false;
+    }
+  }
+
+  getState(): CircuitState {
+    // Report an expired open circuit as half-open without consuming the trial
+    if (this.state === 'open' && this.now() - this.openedAt >= this.config.openDurationMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getStats(): CircuitBreakerStats {
+    const { requests, failures } = this.countWindow();
+    return {
+      state: this.getState(),
+      failureRate: requests > 0 ? failures / requests : 0,
+      requests,
+      failures,
+      ...(this.state === 'open' && { openedAt: new Date(this.openedAt).toISOString() }),
+    };
+  }
+
+  private record(success: boolean): void {
+    this.outcomes.push({ time: this.now(), success });
+  }
+
+  private countWindow(): { requests: number; failures: number } {
+    const cutoff = this.now() - this.config.windowMs;
+    this.outcomes = this.outcomes.filter(outcome => outcome.time >= cutoff);
+    return {
+      requests: this.outcomes.length,
+      failures: this.outcomes.filter(outcome => !outcome.success).length,
+    };
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = this.now();
+    this.trialInFlight = false;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.trialInFlight = false;
+  }
+}
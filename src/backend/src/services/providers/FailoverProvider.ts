@@ -0,0 +1,138 @@
+import { AIServiceError } from '../../middleware/errorHandler';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerStats } from './CircuitBreaker';
+import { AIProvider, AIProviderName, AIRequest, AIResponse } from './types';
+
+export interface FailoverTarget {
+  provider: AIProvider;
+  model: string;
+}
+
+export interface FailoverTargetHealth extends CircuitBreakerStats {
+  provider: AIProviderName;
+  model: string;
+}
+
+/**
+ * Routes requests through an ordered chain of providers/models. Each target sits behind
+ * its own circuit breaker; unhealthy targets are skipped and transient failures
+ * (network errors, timeouts, 429 and 5xx) move on to the next target.
+ */
+export class FailoverProvider implements AIProvider {
+  private static readonly REQUEST_ERROR_STATUSES = [400, 404, 413, 422];
+
+  readonly name: AIProviderName;
+  private readonly targets: Array<FailoverTarget & { breaker: CircuitBreaker }>;
+
+  constructor(targets: FailoverTarget[], breakerConfig: Partial<CircuitBreakerConfig> = {}, now?: () => number) {
+    if (targets.length === 0) {
+      throw new Error('FailoverProvider needs at least one target');
+    }
+
+    this.targets = targets.map(target => ({ ...target, breaker: new CircuitBreaker(breakerConfig, now) }));
+    this.name = targets[0]!.provider.name;
+  }
+
+  async complete(request: AIRequest): Promise<AIResponse> {
+    return this.route(request, (target, targetRequest) => target.provider.complete(targetRequest));
+  }
+
+  async completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse> {
+    let streamed = false;
+
+    return this.route(
+      request,
+      (target, targetRequest) => target.provider.completeStream(
+        targetRequest,
+        (delta) => {
+          streamed = true;
+          onDelta(delta);
+        },
+        signal
+      ),
+      // Text already sent to the caller cannot be taken back
+      () => !streamed,
+      signal
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const target of this.targets) {
+      if (target.breaker.getState() !== 'open' && await target.provider.isAvailable()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getHealth(): FailoverTargetHealth[] {
+    return this.targets.map(target => ({
+      provider: target.provider.name,
+      model: target.model,
+      ...target.breaker.getStats(),
+    }));
+  }
+
+  private async route(
+    request: AIRequest,
+    call: (target: FailoverTarget, request: AIRequest) => Promise<AIResponse>,
+    canFailOver: () => boolean = () => true,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const failures: Array<{ provider: AIProviderName; model: string; error: string }> = [];
+    const primaryModel = this.targets[0]!.model;
+
+    for (const target of this.targets) {
+      if (!target.breaker.canRequest()) {
+        failures.push({ provider: target.provider.name, model: target.model, error: 'Circuit open' });
+        continue;
+      }
+
+      // Fallback targets use their own model; the primary honours the requested one
+      const model = target === this.targets[0] ? request.model || primaryModel : target.model;
+
+      try {
+        const response = await call(target, { ...request, model });
+        target.breaker.recordSuccess();
+        return { ...response, provider: target.provider.name };
+      } catch (error) {
+        if (signal?.aborted) {
+          target.breaker.release();
+          throw error;
+        }
+
+        if (!FailoverProvider.isTransient(error)) {
+          // The provider answered; the request itself is at fault
+          target.breaker.recordSuccess();
+          throw error;
+        }
+
+        target.breaker.recordFailure();
+        failures.push({
+          provider: target.provider.name,
+          model,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+
+        if (!canFailOver()) {
+          throw error;
+        }
+      }
+    }
+
+    throw new AIServiceError('AI service unavailable', { failover: failures });
+  }
+
+  /**
+   * Whether another provider might succeed where this one failed. Network errors,
+   * timeouts, rate limits, auth problems and server errors qualify; malformed requests
+   * would fail everywhere.
+   */
+  static isTransient(error: unknown): boolean {
+    if (!(error instanceof AIServiceError)) {
+      return true;
+    }
+
+    const status = (error.details as { status?: number } | undefined)?.status;
+    return status === undefined || !FailoverProvider.REQUEST_ERROR_STATUSES.includes(status);
+  }
+}
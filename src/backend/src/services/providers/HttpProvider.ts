@@ -0,0 +1,196 @@
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AIServiceError } from '../../middleware/errorHandler';
+import { TokenBudgetManager } from '../TextSanitizer';
+import { metrics } from '../metrics';
+import { AIConfig, AIProvider, AIProviderName, AIRequest, AIResponse, AIUsage } from './types';
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { retryCount?: number };
+
+/**
+ * Base class for providers reached over HTTP: retries, error mapping and stream reading
+ */
+export abstract class HttpProvider implements AIProvider {
+  abstract readonly name: AIProviderName;
+  protected readonly config: AIConfig;
+  protected readonly client: AxiosInstance;
+
+  constructor(config: AIConfig) {
+    this.config = config;
+    this.client = this.createHttpClient();
+  }
+
+  abstract complete(request: AIRequest): Promise<AIResponse>;
+  abstract completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse>;
+  abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Provider-specific authentication and version headers
+   */
+  protected abstract getHeaders(): Record<string, string>;
+
+  /**
+   * Extract the upstream error message from an error response body
+   */
+  protected getErrorMessage(data: unknown): string | undefined {
+    const error = (data as { error?: { message?: string } | string } | undefined)?.error;
+    return typeof error === 'string' ? error : error?.message;
+  }
+
+  private createHttpClient(): AxiosInstance {
+    // OPTIMIZED: Dynamic timeout based on prompt complexity
+    let timeout = this.config.timeout;
+    const isTechnicalMode = this.config.model?.includes('technical') || false;
+    const isLongRequest = this.config.maxTokens > 2000;
+
+    if (isTechnicalMode || isLongRequest) {
+      timeout = Math.max(timeout, 60000); // Minimum 60s for technical/long requests
+    }
+
+    const client = axios.create({
+      baseURL: this.config.baseURL,
+      timeout: timeout,
+      headers: {
+        ...this.getHeaders(),
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (this.config.enableRetries) {
+      this.setupRetryInterceptor(client);
+    }
+
+    // Add response interceptor for error handling
+    client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => {
+        if (error.response) {
+          const status = error.response.status;
+          const message = this.getErrorMessage(error.response.data) || error.message;
+
+          if (status === 401) {
+            throw new AIServiceError('Invalid API key', { status, message, provider: this.name });
+          } else if (status === 429) {
+            throw new AIServiceError('Rate limit exceeded', { status, message, provider: this.name });
+          } else if (status >= 500) {
+            throw new AIServiceError('AI service unavailable', { status, message, provider: this.name });
+          } else {
+            throw new AIServiceError(`AI service error: ${message}`, { status, message, provider: this.name });
+          }
+        } else if (error.request) {
+          throw new AIServiceError('Unable to connect to AI service', { error: error.message, provider: this.name });
+        } else {
+          throw new AIServiceError('AI service configuration error', { error: error.message, provider: this.name });
+        }
+      }
+    );
+
+    return client;
+  }
+
+  private setupRetryInterceptor(client: AxiosInstance): void {
+    client.interceptors.response.use(
+      (response) => response,
+      async (error: AxiosError) => {
+        const config = error.config as RetryableRequestConfig | undefined;
+
+        if (!config || !this.shouldRetry(error)) {
+          return Promise.reject(error);
+        }
+
+        const retryCount = config.retryCount || 0;
+
+        if (retryCount >= this.config.maxRetries) {
+          return Promise.reject(error);
+        }
+
+        config.retryCount = retryCount + 1;
+        metrics.upstreamRetries.inc({ provider: this.name, reason: error.response ? String(error.response.status) : 'network' });
+
+        // Exponential backoff
+        const delay = this.config.retryDelay * Math.pow(2, retryCount);
+        await this.sleep(delay);
+
+        return client(config);
+      }
+    );
+  }
+
+  private shouldRetry(error: AxiosError): boolean {
+    if (error.code === AxiosError.ERR_CANCELED) return false; // Aborted by the caller
+    if (!error.response) return true; // Network errors
+
+    const status = error.response.status;
+    return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Wrap request failures that did not pass through the response interceptor
+   */
+  protected toServiceError(error: unknown, message: string): AIServiceError {
+    if (error instanceof AIServiceError) {
+      return error;
+    }
+    return new AIServiceError(message, error);
+  }
+
+  /**
+   * Feed a streamed response body to `onLine`, one complete line at a time
+   */
+  protected readLines(stream: NodeJS.ReadableStream, onLine: (line: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+
+      stream.setEncoding('utf8');
+      stream.on('data', (data: string) => {
+        buffer += data;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(onLine);
+      });
+      stream.on('end', () => {
+        if (buffer) {
+          onLine(buffer);
+        }
+        resolve();
+      });
+      stream.on('error', (error: Error) => {
+        reject(new AIServiceError('AI stream interrupted', { error: error.message, provider: this.name }));
+      });
+    });
+  }
+
+  /**
+   * Build a normalized response, estimating usage when the provider did not report it
+   */
+  protected buildResponse(
+    request: AIRequest,
+    result: { id?: string; model?: string; content: string; finishReason?: string; usage?: Partial<AIUsage> }
+  ): AIResponse {
+    const promptText = request.messages.map(message => message.content).join('\n');
+    const promptTokens = result.usage?.prompt_tokens ?? TokenBudgetManager.estimateTokens(promptText);
+    const completionTokens = result.usage?.completion_tokens ?? TokenBudgetManager.estimateTokens(result.content);
+
+    return {
+      id: result.id || `${this.name}_${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: result.model || request.model || this.config.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: result.content },
+          finish_reason: result.finishReason || 'stop',
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: result.usage?.total_tokens ?? promptTokens + completionTokens,
+      },
+    };
+  }
+}
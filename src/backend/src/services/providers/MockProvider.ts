@@ -0,0 +1,88 @@
+import { TokenBudgetManager } from '../TextSanitizer';
+import { AIProvider, AIProviderName, AIRequest, AIResponse } from './types';
+
+export interface MockProviderOptions {
+  /** Produce the completion text for a request; defaults to a canned enhancement of the last user message */
+  respond?: (request: AIRequest) => string;
+  /** Reported by isAvailable() */
+  available?: boolean;
+}
+
+/**
+ * Deterministic in-process provider for offline development and tests.
+ * The same request always yields the same content, id and token usage.
+ */
+export class MockProvider implements AIProvider {
+  readonly name: AIProviderName = 'mock';
+  private readonly model: string;
+  private readonly options: MockProviderOptions;
+
+  constructor(model = 'mock-model', options: MockProviderOptions = {}) {
+    this.model = model;
+    this.options = options;
+  }
+
+  static defaultResponse(request: AIRequest): string {
+    const userMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const prompt = (userMessage?.content || '').replace(/\s+/g, ' ').trim();
+
+    return `ENHANCED_PROMPT:
+${prompt}
+
+Please respond with a clear structure, state any assumptions explicitly and keep the answer focused on the request.
+
+IMPROVEMENTS:
+1. Clarified the expected structure of the answer
+2. Asked for explicit assumptions
+3. Focused the request on its core goal`;
+  }
+
+  async complete(request: AIRequest): Promise<AIResponse> {
+    const content = (this.options.respond || MockProvider.defaultResponse)(request);
+    return this.buildResponse(request, content);
+  }
+
+  async completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse> {
+    const response = await this.complete(request);
+    const content = response.choices[0]?.message.content || '';
+
+    // Emit word-sized deltas, keeping whitespace so the deltas concatenate to the full content
+    for (const delta of content.match(/\s*\S+\s*/g) || []) {
+      if (signal?.aborted) break;
+      onDelta(delta);
+    }
+
+    return response;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.options.available ?? true;
+  }
+
+  private buildResponse(request: AIRequest, content: string): AIResponse {
+    const promptText = request.messages.map(message => message.content).join('\n');
+    const promptTokens = TokenBudgetManager.estimateTokens(promptText);
+    const completionTokens = TokenBudgetManager.estimateTokens(content);
+    const crypto = require('crypto');
+    const hash = crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+
+    return {
+      id: `mock_${hash.substring(0, 16)}`,
+      object: 'chat.completion',
+      created: 0,
+      model: request.model || this.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { HttpProvider } from './HttpProvider';
+import { AIProviderName, AIRequest, AIResponse } from './types';
+
+interface OllamaChatResponse {
+  model: string;
+  created_at?: string;
+  message?: { role: string; content: string };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Provider for a local or remote Ollama server (`/api/chat`)
+ */
+export class OllamaProvider extends HttpProvider {
+  readonly name: AIProviderName = 'ollama';
+
+  protected getHeaders(): Record<string, string> {
+    // Ollama needs no key; one is only sent when a proxy in front of it expects it
+    return this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  static toChatRequest(request: AIRequest, defaultModel: string, stream: boolean) {
+    return {
+      model: request.model || defaultModel,
+      messages: request.messages,
+      stream,
+      // Ollama takes the schema itself as the output format
+      ...(request.response_format && { format: request.response_format.json_schema.schema }),
+      options: {
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.top_p !== undefined && { top_p: request.top_p }),
+        ...(request.frequency_penalty !== undefined && { frequency_penalty: request.frequency_penalty }),
+        ...(request.presence_penalty !== undefined && { presence_penalty: request.presence_penalty }),
+        ...(request.max_tokens !== undefined && { num_predict: request.max_tokens }),
+        ...(request.seed !== undefined && { seed: request.seed }),
+      },
+    };
+  }
+
+  async complete(request: AIRequest): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<OllamaChatResponse>(
+        '/api/chat',
+        OllamaProvider.toChatRequest(request, this.config.model, false)
+      );
+      const data = response.data;
+
+      return this.buildResponse(request, {
+        model: data.model,
+        content: data.message?.content || '',
+        finishReason: data.done_reason,
+        usage: { prompt_tokens: data.prompt_eval_count, completion_tokens: data.eval_count },
+      });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate completion');
+    }
+  }
+
+  async completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<NodeJS.ReadableStream>(
+        '/api/chat',
+        OllamaProvider.toChatRequest(request, this.config.model, true),
+        { responseType: 'stream', signal }
+      );
+
+      let content = '';
+      let final: OllamaChatResponse | undefined;
+      let streamError: string | undefined;
+
+      // Ollama streams newline-delimited JSON objects
+      await this.readLines(response.data, (line) => {
+        if (!line.trim()) return;
+
+        let chunk: OllamaChatResponse;
+        try {
+          chunk = JSON.parse(line);
+        } catch {
+          return;
+        }
+
+        if (chunk.error) {
+          streamError = chunk.error;
+          return;
+        }
+
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.done) {
+          final = chunk;
+        }
+      });
+
+      if (streamError) {
+        throw this.toServiceError(undefined, `AI stream error: ${streamError}`);
+      }
+
+      return this.buildResponse(request, {
+        model: final?.model,
+        content,
+        finishReason: final?.done_reason,
+        usage: { prompt_tokens: final?.prompt_eval_count, completion_tokens: final?.eval_count },
+      });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate streamed completion');
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.client.get('/api/tags');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
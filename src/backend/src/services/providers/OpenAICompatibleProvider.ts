@@ -0,0 +1,130 @@
+import { HttpProvider } from './HttpProvider';
+import { AIConfig, AIProviderName, AIRequest, AIResponse, AIUsage } from './types';
+
+export interface AIStreamChunk {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: AIUsage | null;
+}
+
+/**
+ * Provider for OpenAI-compatible `/chat/completions` APIs (OpenAI, DeepSeek, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider extends HttpProvider {
+  readonly name: AIProviderName;
+
+  constructor(config: AIConfig, name: AIProviderName = 'openai') {
+    super(config);
+    this.name = name;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.config.apiKey}` };
+  }
+
+  /**
+   * The request body for a provider; DeepSeek only has a JSON mode, so a schema reaches it
+   * through the prompt alone
+   */
+  static toChatRequest(request: AIRequest, defaultModel: string, name: AIProviderName) {
+    return {
+      ...request,
+      model: request.model || defaultModel,
+      ...(request.response_format && name === 'deepseek' && { response_format: { type: 'json_object' } }),
+    };
+  }
+
+  async complete(request: AIRequest): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<AIResponse>(
+        '/chat/completions',
+        OpenAICompatibleProvider.toChatRequest(request, this.config.model, this.name)
+      );
+
+      return response.data;
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate completion');
+    }
+  }
+
+  async completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse> {
+    try {
+      const response = await this.client.post<NodeJS.ReadableStream>(
+        '/chat/completions',
+        {
+          ...OpenAICompatibleProvider.toChatRequest(request, this.config.model, this.name),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { responseType: 'stream', signal }
+      );
+
+      let content = '';
+      let id: string | undefined;
+      let model: string | undefined;
+      let finishReason: string | undefined;
+      let usage: AIUsage | undefined;
+
+      await this.readLines(response.data, (line) => {
+        const chunk = OpenAICompatibleProvider.parseStreamLine(line);
+        if (!chunk) return;
+
+        id = chunk.id || id;
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+
+        for (const choice of chunk.choices || []) {
+          const delta = choice.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+          finishReason = choice.finish_reason || finishReason;
+        }
+      });
+
+      // Some compatible servers omit usage on streams, buildResponse falls back to an estimate
+      return this.buildResponse(request, { id, model, content, finishReason, usage });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to generate streamed completion');
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.client.get('/models');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a single `data:` line of a completion stream
+   */
+  static parseStreamLine(line: string): AIStreamChunk | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return null;
+    }
+
+    const payload = trimmed.slice('data:'.length).trim();
+    if (!payload || payload === '[DONE]') {
+      return null;
+    }
+
+    try {
+      return JSON.parse(payload) as AIStreamChunk;
+    } catch {
+      return null;
+    }
+  }
+}
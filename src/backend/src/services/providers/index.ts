@@ -0,0 +1,57 @@
+import { AIConfig, AIProvider } from './types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { MockProvider } from './MockProvider';
+import { CircuitBreakerConfig } from './CircuitBreaker';
+import { FailoverProvider } from './FailoverProvider';
+
+export * from './types';
+export { HttpProvider } from './HttpProvider';
+export { OpenAICompatibleProvider, type AIStreamChunk } from './OpenAICompatibleProvider';
+export { AnthropicProvider } from './AnthropicProvider';
+export { OllamaProvider } from './OllamaProvider';
+export { MockProvider, type MockProviderOptions } from './MockProvider';
+export * from './CircuitBreaker';
+export { FailoverProvider, type FailoverTarget, type FailoverTargetHealth } from './FailoverProvider';
+
+/**
+ * Factory for the provider selected by `AI_PROVIDER`
+ */
+export class AIProviderFactory {
+  static create(config: AIConfig): AIProvider {
+    switch (config.provider) {
+      case 'deepseek':
+      case 'openai':
+        return new OpenAICompatibleProvider(config, config.provider);
+      case 'anthropic':
+        return new AnthropicProvider(config);
+      case 'ollama':
+        return new OllamaProvider(config);
+      case 'mock':
+        return new MockProvider(config.model);
+      default:
+        throw new Error(`Unsupported AI provider: ${config.provider}`);
+    }
+  }
+
+  /**
+   * Primary provider followed by fallbacks, each behind its own circuit breaker.
+   * Without fallbacks the primary provider is returned unwrapped.
+   */
+  static createWithFailover(
+    config: AIConfig,
+    fallbacks: Array<Pick<AIConfig, 'provider' | 'apiKey' | 'baseURL' | 'model'>>,
+    breakerConfig?: Partial<CircuitBreakerConfig>
+  ): AIProvider {
+    if (fallbacks.length === 0) {
+      return this.create(config);
+    }
+
+    const targets = [config, ...fallbacks.map(fallback => ({ ...config, ...fallback }))].map(targetConfig => ({
+      provider: this.create(targetConfig),
+      model: targetConfig.model,
+    }));
+    return new FailoverProvider(targets, breakerConfig);
+  }
+}
@@ -0,0 +1,106 @@
+export const AI_PROVIDERS = ['deepseek', 'openai', 'anthropic', 'ollama', 'mock'] as const;
+export type AIProviderName = typeof AI_PROVIDERS[number];
+
+/**
+ * Defaults used when AI_API_URL / AI_MODEL are not set for the selected provider
+ */
+export const PROVIDER_DEFAULTS: Record<AIProviderName, { baseURL: string; model: string; requiresApiKey: boolean }> = {
+  deepseek: { baseURL: 'https://api.deepseek.com/v1', model: 'deepseek-chat', requiresApiKey: true },
+  openai: { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o-mini', requiresApiKey: true },
+  anthropic: { baseURL: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest', requiresApiKey: true },
+  ollama: { baseURL: 'http://localhost:11434', model: 'llama3.1', requiresApiKey: false },
+  mock: { baseURL: 'mock://local', model: 'mock-model', requiresApiKey: false },
+};
+
+export function isAIProviderName(value: string): value is AIProviderName {
+  return (AI_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Provider-neutral completion request (OpenAI chat shape)
+ */
+export interface AIRequest {
+  model: string;
+  messages: Array<{
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+  }>;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  seed?: number;
+  response_format?: AIResponseFormat;
+}
+
+/**
+ * Structured output requested from the model; providers that can't enforce a schema
+ * translate the format to what they support or drop it
+ */
+export interface AIResponseFormat {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
+}
+
+export const jsonSchemaResponseFormat = (schema: Record<string, unknown>): AIResponseFormat => ({
+  type: 'json_schema',
+  json_schema: { name: 'output', schema },
+});
+
+/**
+ * Provider-neutral completion response (OpenAI chat shape)
+ */
+export interface AIResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  /** Set by the failover chain to the provider that actually served the request */
+  provider?: AIProviderName;
+}
+
+export type AIUsage = AIResponse['usage'];
+
+export interface AIConfig {
+  provider: AIProviderName;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  frequencyPenalty: number;
+  presencePenalty: number;
+  timeout: number;
+  seed?: number;
+  enableRetries: boolean;
+  maxRetries: number;
+  retryDelay: number;
+}
+
+/**
+ * A backend capable of serving chat completions
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  complete(request: AIRequest): Promise<AIResponse>;
+  completeStream(request: AIRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<AIResponse>;
+  isAvailable(): Promise<boolean>;
+}
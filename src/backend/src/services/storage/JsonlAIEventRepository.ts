@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AIEvent, AIEventPage } from '@loogi/shared';
+import { AIEventFilter, AIEventRepository, AIEventStoreConfig, NewAIEvent } from './types';
+
+/**
+ * Whether an event passes the filters of a query; the cursor and limit are left to the caller
+ */
+export const matchesAIEventFilter = (event: AIEvent, filter: Omit<AIEventFilter, 'cursor' | 'limit'>): boolean =>
+  (!filter.promptId || event.promptId === filter.promptId) &&
+  (!filter.event || filter.event.includes(event.event)) &&
+  (!filter.mode || event.mode === filter.mode) &&
+  (!filter.from || event.timestamp >= filter.from.toISOString()) &&
+  (!filter.to || event.timestamp <= filter.to.toISOString());
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * AI event log in JSON Lines files, for deployments without a database volume. The file is
+ * rotated once it reaches `maxFileBytes` (events.jsonl -> events.1.jsonl -> ...) and only
+ * the newest `maxFiles` files are kept. Queries scan the files, which suits a debug log of
+ * bounded size. Event IDs continue from the newest file after a restart.
+ */
+export class JsonlAIEventRepository implements AIEventRepository {
+  private readonly file: string;
+  private readonly maxFileBytes: number;
+  private readonly maxFiles: number;
+  // Appends, rotations and scans run one at a time, in order
+  private pending: Promise<unknown> = Promise.resolve();
+  private lastId?: number;
+  private size = 0;
+
+  constructor(options: Pick<AIEventStoreConfig, 'file' | 'maxFileBytes' | 'maxFiles'>) {
+    this.file = path.resolve(options.file);
+    this.maxFileBytes = options.maxFileBytes;
+    this.maxFiles = Math.max(1, options.maxFiles);
+  }
+
+  append(event: NewAIEvent): Promise<AIEvent> {
+    return this.serialized(async () => {
+      const id = (await this.lastEventId()) + 1;
+      const stored = { id: String(id), ...event, timestamp: new Date().toISOString() } as AIEvent;
+      const line = `${JSON.stringify(stored)}\n`;
+      const bytes = Buffer.byteLength(line);
+
+      if (this.size > 0 && this.size + bytes > this.maxFileBytes) {
+        await this.rotate();
+      }
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, line, 'utf8');
+
+      this.lastId = id;
+      this.size += bytes;
+      return stored;
+    });
+  }
+
+  query(filter: AIEventFilter): Promise<AIEventPage> {
+    return this.serialized(async () => {
+      const cursor = filter.cursor ? Number(filter.cursor) : 0;
+      const matches: AIEvent[] = [];
+
+      // One extra event tells whether another page follows
+      for (const file of this.filesOldestFirst()) {
+        for (const event of await JsonlAIEventRepository.readEvents(file)) {
+          if (Number(event.id) > cursor && matchesAIEventFilter(event, filter)) {
+            matches.push(event);
+          }
+        }
+        if (matches.length > filter.limit) {
+          break;
+        }
+      }
+
+      const logs = matches.slice(0, filter.limit);
+      const last = logs[logs.length - 1];
+      return {
+        logs,
+        count: logs.length,
+        ...(last && { nextCursor: last.id }),
+        hasMore: matches.length > filter.limit,
+      };
+    });
+  }
+
+  clear(): Promise<number> {
+    return this.serialized(async () => {
+      // IDs keep counting, so cursors handed out before stay valid
+      await this.lastEventId();
+
+      let removed = 0;
+      for (const file of this.filesOldestFirst()) {
+        removed += (await JsonlAIEventRepository.readEvents(file)).length;
+        await fs.rm(file, { force: true });
+      }
+      this.size = 0;
+      return removed;
+    });
+  }
+
+  private serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async lastEventId(): Promise<number> {
+    if (this.lastId === undefined) {
+      const files = this.filesOldestFirst().reverse();
+      let lastId = 0;
+      for (const file of files) {
+        const events = await JsonlAIEventRepository.readEvents(file);
+        const last = events[events.length - 1];
+        if (last) {
+          lastId = Number(last.id);
+          break;
+        }
+      }
+
+      this.size = await fs.stat(this.file).then(stats => stats.size, () => 0);
+      this.lastId = lastId;
+    }
+    return this.lastId;
+  }
+
+  private async rotate(): Promise<void> {
+    const files = this.filesOldestFirst();
+    await fs.rm(files[0]!, { force: true });
+    // Shift every file one place towards the oldest slot
+    for (let index = 1; index < files.length; index++) {
+      await fs.rename(files[index]!, files[index - 1]!).catch((error) => {
+        if (!isMissing(error)) {
+          throw error;
+        }
+      });
+    }
+    this.size = 0;
+  }
+
+  private filesOldestFirst(): string[] {
+    const { dir, name, ext } = path.parse(this.file);
+    const rotated = Array.from({ length: this.maxFiles - 1 }, (_, index) => path.join(dir, `${name}.${this.maxFiles - 1 - index}${ext}`));
+    return [...rotated, this.file];
+  }
+
+  private static async readEvents(file: string): Promise<AIEvent[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if (isMissing(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    return content.split('\n').flatMap((line) => {
+      try {
+        return line.trim() ? [JSON.parse(line) as AIEvent] : [];
+      } catch {
+        // Line cut short by a crash
+        return [];
+      }
+    });
+  }
+}
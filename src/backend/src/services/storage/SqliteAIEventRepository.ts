@@ -0,0 +1,127 @@
+import { AIEvent, AIEventPage, AIEventType, TaskMode } from '@loogi/shared';
+import { SqliteDatabase, applyMigrations } from './database';
+import { AIEventFilter, AIEventRepository, NewAIEvent } from './types';
+
+// AUTOINCREMENT keeps IDs of cleared events from being handed out again
+const MIGRATIONS = [
+  `CREATE TABLE ai_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    event TEXT NOT NULL,
+    prompt_id TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    request_id TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_ai_events_prompt ON ai_events (prompt_id, seq);
+  CREATE INDEX idx_ai_events_event ON ai_events (event, seq);
+  CREATE INDEX idx_ai_events_created ON ai_events (created_at);`,
+];
+
+interface EventRow {
+  seq: number;
+  event: AIEventType;
+  prompt_id: string;
+  mode: TaskMode;
+  request_id: string | null;
+  created_at: string;
+  data: string;
+}
+
+/**
+ * SQLite-backed AI event log, the default store. Opened on first use, like the history repository.
+ */
+export class SqliteAIEventRepository implements AIEventRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async append(event: NewAIEvent): Promise<AIEvent> {
+    const row = this.database().prepare(`INSERT INTO ai_events (event, prompt_id, mode, request_id, created_at, data)
+      VALUES (@event, @promptId, @mode, @requestId, @createdAt, @data) RETURNING *`
+    ).get({
+      event: event.event,
+      promptId: event.promptId,
+      mode: event.mode,
+      requestId: event.requestId ?? null,
+      createdAt: new Date().toISOString(),
+      data: JSON.stringify(event.data),
+    }) as EventRow;
+
+    return SqliteAIEventRepository.toEvent(row);
+  }
+
+  async query(filter: AIEventFilter): Promise<AIEventPage> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filter.cursor) {
+      conditions.push('seq > @cursor');
+      params.cursor = Number(filter.cursor);
+    }
+    if (filter.promptId) {
+      conditions.push('prompt_id = @promptId');
+      params.promptId = filter.promptId;
+    }
+    if (filter.event) {
+      conditions.push(`event IN (${filter.event.map((_, index) => `@event${index}`).join(', ')})`);
+      filter.event.forEach((type, index) => {
+        params[`event${index}`] = type;
+      });
+    }
+    if (filter.mode) {
+      conditions.push('mode = @mode');
+      params.mode = filter.mode;
+    }
+    if (filter.from) {
+      conditions.push('created_at >= @from');
+      params.from = filter.from.toISOString();
+    }
+    if (filter.to) {
+      conditions.push('created_at <= @to');
+      params.to = filter.to.toISOString();
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // One extra row tells whether another page follows
+    const rows = this.database().prepare(`SELECT * FROM ai_events ${where} ORDER BY seq LIMIT @limit`)
+      .all({ ...params, limit: filter.limit + 1 }) as EventRow[];
+
+    const logs = rows.slice(0, filter.limit).map(SqliteAIEventRepository.toEvent);
+    const last = logs[logs.length - 1];
+    return {
+      logs,
+      count: logs.length,
+      ...(last && { nextCursor: last.id }),
+      hasMore: rows.length > filter.limit,
+    };
+  }
+
+  async clear(): Promise<number> {
+    return this.database().prepare('DELETE FROM ai_events').run().changes;
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'ai_events', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static toEvent(row: EventRow): AIEvent {
+    return {
+      id: String(row.seq),
+      event: row.event,
+      promptId: row.prompt_id,
+      mode: row.mode,
+      ...(row.request_id && { requestId: row.request_id }),
+      timestamp: row.created_at,
+      data: JSON.parse(row.data),
+    } as AIEvent;
+  }
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { ApiKeyScope, TaskMode } from '@loogi/shared';
+import { SqliteDatabase, applyMigrations } from './database';
+import { ApiKeyRecord, ApiKeyRepository, NewApiKey } from './types';
+
+const MIGRATIONS = [
+  `CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    rate_limit INTEGER,
+    daily_token_quota INTEGER,
+    allowed_modes TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+  CREATE TABLE api_key_usage (
+    key_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    total_tokens INTEGER NOT NULL,
+    PRIMARY KEY (key_id, day)
+  );`,
+];
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;
+  rate_limit: number | null;
+  daily_token_quota: number | null;
+  allowed_modes: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * SQLite-backed API key store. Opened on first use, like the history repository.
+ */
+export class SqliteApiKeyRepository implements ApiKeyRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async create(key: NewApiKey, secret: { hash: string; prefix: string }): Promise<ApiKeyRecord> {
+    const record: ApiKeyRecord = {
+      ...key,
+      id: `key_${randomUUID()}`,
+      prefix: secret.prefix,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.database().prepare(`INSERT INTO api_keys
+      (id, name, prefix, key_hash, scopes, rate_limit, daily_token_quota, allowed_modes, created_at)
+      VALUES (@id, @name, @prefix, @hash, @scopes, @rateLimit, @dailyTokenQuota, @allowedModes, @createdAt)`
+    ).run({
+      id: record.id,
+      name: record.name,
+      prefix: record.prefix,
+      hash: secret.hash,
+      scopes: JSON.stringify(record.scopes),
+      rateLimit: record.rateLimit ?? null,
+      dailyTokenQuota: record.dailyTokenQuota ?? null,
+      allowedModes: record.allowedModes ? JSON.stringify(record.allowedModes) : null,
+      createdAt: record.createdAt,
+    });
+
+    return record;
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | undefined> {
+    const row = this.database().prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    return row && SqliteApiKeyRepository.toRecord(row);
+  }
+
+  async findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+    const row = this.database().prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(hash) as ApiKeyRow | undefined;
+    return row && SqliteApiKeyRepository.toRecord(row);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const rows = this.database().prepare('SELECT * FROM api_keys ORDER BY created_at DESC, rowid DESC').all() as ApiKeyRow[];
+    return rows.map(SqliteApiKeyRepository.toRecord);
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord | undefined> {
+    const row = this.database().prepare(`UPDATE api_keys SET revoked_at = @revokedAt
+      WHERE id = @id AND revoked_at IS NULL RETURNING *`
+    ).get({ id, revokedAt: new Date().toISOString() }) as ApiKeyRow | undefined;
+
+    return row && SqliteApiKeyRepository.toRecord(row);
+  }
+
+  async touch(id: string): Promise<void> {
+    this.database().prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  }
+
+  async addTokens(id: string, day: string, tokens: number): Promise<void> {
+    this.database().prepare(`INSERT INTO api_key_usage (key_id, day, total_tokens) VALUES (@id, @day, @tokens)
+      ON CONFLICT (key_id, day) DO UPDATE SET total_tokens = total_tokens + excluded.total_tokens`
+    ).run({ id, day, tokens });
+  }
+
+  async tokensUsed(id: string, day: string): Promise<number> {
+    const row = this.database().prepare('SELECT total_tokens FROM api_key_usage WHERE key_id = ? AND day = ?')
+      .get(id, day) as { total_tokens: number } | undefined;
+    return row?.total_tokens ?? 0;
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'api_keys', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static toRecord(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+      ...(row.rate_limit !== null && { rateLimit: row.rate_limit }),
+      ...(row.daily_token_quota !== null && { dailyTokenQuota: row.daily_token_quota }),
+      ...(row.allowed_modes && { allowedModes: JSON.parse(row.allowed_modes) as TaskMode[] }),
+      createdAt: row.created_at,
+      ...(row.last_used_at && { lastUsedAt: row.last_used_at }),
+      ...(row.revoked_at && { revokedAt: row.revoked_at }),
+    };
+  }
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { ContractStats, ContractStatsQuery, ContractTotals, HistoryEntry, HistoryPage, HistoryQuery } from '../../models/History';
+import { UserInput } from '../../models/UserInput';
+import { EnhancedPrompt } from '../../models/EnhancedPrompt';
+import { SqliteDatabase, applyMigrations, ownerCondition } from './database';
+import { HistoryRepository, RowOwner } from './types';
+
+const MIGRATIONS = [
+  `CREATE TABLE enhancements (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    task_mode TEXT,
+    is_valid INTEGER,
+    original_prompt TEXT NOT NULL,
+    enhanced_prompt TEXT NOT NULL,
+    input TEXT NOT NULL,
+    result TEXT NOT NULL
+  );
+  CREATE INDEX idx_enhancements_created_at ON enhancements (created_at);
+  CREATE INDEX idx_enhancements_mode ON enhancements (mode, task_mode);
+
+  CREATE VIRTUAL TABLE enhancements_fts USING fts5(
+    original_prompt, enhanced_prompt, content='enhancements', content_rowid='rowid'
+  );
+  CREATE TRIGGER enhancements_fts_insert AFTER INSERT ON enhancements BEGIN
+    INSERT INTO enhancements_fts (rowid, original_prompt, enhanced_prompt)
+    VALUES (new.rowid, new.original_prompt, new.enhanced_prompt);
+  END;
+  CREATE TRIGGER enhancements_fts_delete AFTER DELETE ON enhancements BEGIN
+    INSERT INTO enhancements_fts (enhancements_fts, rowid, original_prompt, enhanced_prompt)
+    VALUES ('delete', old.rowid, old.original_prompt, old.enhanced_prompt);
+  END;`,
+  `ALTER TABLE enhancements ADD COLUMN api_key_id TEXT;
+  CREATE INDEX idx_enhancements_api_key ON enhancements (api_key_id, created_at);`,
+  `ALTER TABLE enhancements ADD COLUMN contract_enforced INTEGER NOT NULL DEFAULT 0;
+  UPDATE enhancements SET contract_enforced = COALESCE(json_extract(result, '$.metadata.contractEnforced'), 0);`,
+];
+
+interface ContractRow {
+  mode: ContractStats['modes'][number]['mode'];
+  validated: number;
+  passed: number;
+}
+
+interface EnhancementRow {
+  id: string;
+  created_at: string;
+  input: string;
+  result: string;
+}
+
+/**
+ * SQLite-backed history with an FTS5 index over the original and enhanced prompts.
+ * The database is opened on first use so a broken path shows up as a failed health check
+ * instead of preventing startup.
+ */
+export class SqliteHistoryRepository implements HistoryRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async save(input: UserInput, result: EnhancedPrompt, apiKeyId?: string): Promise<HistoryEntry> {
+    const entry: HistoryEntry = {
+      id: `hist_${randomUUID()}`,
+      createdAt: new Date().toISOString(),
+      input,
+      result,
+    };
+
+    this.database().prepare(`INSERT INTO enhancements
+      (id, created_at, mode, task_mode, is_valid, contract_enforced, original_prompt, enhanced_prompt, input, result, api_key_id)
+      VALUES (@id, @createdAt, @mode, @taskMode, @isValid, @contractEnforced, @originalPrompt, @enhancedPrompt, @input, @result, @apiKeyId)`
+    ).run({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      mode: result.mode,
+      taskMode: result.metadata.taskMode ?? null,
+      isValid: result.metadata.validationResult ? Number(result.metadata.validationResult.isValid) : null,
+      contractEnforced: Number(result.metadata.contractEnforced === true),
+      originalPrompt: result.originalPrompt,
+      enhancedPrompt: result.enhancedPrompt,
+      input: JSON.stringify(input),
+      result: JSON.stringify(result),
+      apiKeyId: apiKeyId ?? null,
+    });
+
+    return entry;
+  }
+
+  async findById(id: string, owner?: RowOwner): Promise<HistoryEntry | undefined> {
+    const row = this.database()
+      .prepare(`SELECT id, created_at, input, result FROM enhancements WHERE id = @id${ownerCondition(owner)}`)
+      .get({ id, owner }) as EnhancementRow | undefined;
+    return row && SqliteHistoryRepository.toEntry(row);
+  }
+
+  async list(query: HistoryQuery, owner?: RowOwner): Promise<HistoryPage> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number | null> = {};
+
+    if (owner !== undefined) {
+      conditions.push('api_key_id IS @owner');
+      params.owner = owner;
+    }
+    if (query.mode) {
+      conditions.push('mode = @mode');
+      params.mode = query.mode;
+    }
+    if (query.taskMode) {
+      conditions.push('task_mode = @taskMode');
+      params.taskMode = query.taskMode;
+    }
+    if (query.from) {
+      conditions.push('created_at >= @from');
+      params.from = query.from.toISOString();
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to');
+      params.to = query.to.toISOString();
+    }
+    if (query.valid !== undefined) {
+      conditions.push('is_valid = @valid');
+      params.valid = Number(query.valid);
+    }
+    if (query.q) {
+      conditions.push('rowid IN (SELECT rowid FROM enhancements_fts WHERE enhancements_fts MATCH @q)');
+      params.q = SqliteHistoryRepository.toMatchQuery(query.q);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const db = this.database();
+
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM enhancements ${where}`).get(params) as { total: number };
+    const rows = db.prepare(`SELECT id, created_at, input, result FROM enhancements ${where}
+      ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset`
+    ).all({ ...params, limit: query.pageSize, offset: (query.page - 1) * query.pageSize }) as EnhancementRow[];
+
+    return {
+      items: rows.map(SqliteHistoryRepository.toEntry),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.ceil(total / query.pageSize),
+    };
+  }
+
+  async delete(id: string, owner?: RowOwner): Promise<boolean> {
+    return this.database().prepare(`DELETE FROM enhancements WHERE id = @id${ownerCondition(owner)}`).run({ id, owner }).changes > 0;
+  }
+
+  async contractStats(query: ContractStatsQuery, owner?: RowOwner): Promise<ContractStats> {
+    // Output is validated without contract enforcement too; only enforced entries count
+    const conditions = ['contract_enforced = 1', 'is_valid IS NOT NULL'];
+    const params: Record<string, string | null> = {};
+
+    if (owner !== undefined) {
+      conditions.push('api_key_id IS @owner');
+      params.owner = owner;
+    }
+    if (query.from) {
+      conditions.push('created_at >= @from');
+      params.from = query.from.toISOString();
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to');
+      params.to = query.to.toISOString();
+    }
+
+    // The contract is the one of the task mode the request was routed to
+    const rows = this.database().prepare(`SELECT COALESCE(task_mode, mode) AS mode, COUNT(*) AS validated, SUM(is_valid) AS passed
+      FROM enhancements WHERE ${conditions.join(' AND ')} GROUP BY 1 ORDER BY 1`
+    ).all(params) as ContractRow[];
+
+    return {
+      modes: rows.map(row => ({ mode: row.mode, ...SqliteHistoryRepository.toTotals(row.validated, row.passed) })),
+      total: SqliteHistoryRepository.toTotals(
+        rows.reduce((sum, row) => sum + row.validated, 0),
+        rows.reduce((sum, row) => sum + row.passed, 0)
+      ),
+    };
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      this.database().prepare('SELECT 1').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Turn free text into an FTS5 query: every word must match, as a prefix.
+   * Quoting each term keeps FTS operators and punctuation in user input from breaking the query.
+   */
+  static toMatchQuery(text: string): string {
+    return text
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, ''))
+      .filter(Boolean)
+      .map(term => `"${term}"*`)
+      .join(' ');
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'history', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static toTotals(validated: number, passed: number): ContractTotals {
+    return { validated, passed, failed: validated - passed, passRate: validated > 0 ? passed / validated : 0 };
+  }
+
+  private static toEntry(row: EnhancementRow): HistoryEntry {
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      input: JSON.parse(row.input),
+      result: JSON.parse(row.result),
+    };
+  }
+}
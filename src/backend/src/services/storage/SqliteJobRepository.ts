@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import { Job, JobStatus } from '@loogi/shared';
+import { UserInput } from '../../models/UserInput';
+import { SqliteDatabase, applyMigrations, ownerCondition } from './database';
+import { JobChanges, JobRepository, RowOwner, StoredJob } from './types';
+
+const MIGRATIONS = [
+  `CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    input TEXT NOT NULL,
+    bypass_cache INTEGER NOT NULL,
+    progress TEXT NOT NULL,
+    result TEXT,
+    error TEXT
+  );
+  CREATE INDEX idx_jobs_status ON jobs (status, created_at);`,
+  `ALTER TABLE jobs ADD COLUMN callback_url TEXT;`,
+  `ALTER TABLE jobs ADD COLUMN api_key_id TEXT;`,
+];
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  updated_at: string;
+  input: string;
+  bypass_cache: number;
+  progress: string;
+  result: string | null;
+  error: string | null;
+  callback_url: string | null;
+  api_key_id: string | null;
+}
+
+/**
+ * SQLite-backed job store. Opened on first use, like the history repository.
+ */
+export class SqliteJobRepository implements JobRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async create(
+    input: UserInput,
+    options: { bypassCache: boolean; callbackUrl?: string; apiKeyId?: string }
+  ): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: `job_${randomUUID()}`,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      progress: { attempt: 0 },
+      ...(options.callbackUrl && { callbackUrl: options.callbackUrl }),
+    };
+
+    this.database().prepare(`INSERT INTO jobs
+      (id, status, created_at, updated_at, input, bypass_cache, progress, callback_url, api_key_id)
+      VALUES (@id, @status, @createdAt, @updatedAt, @input, @bypassCache, @progress, @callbackUrl, @apiKeyId)`
+    ).run({
+      id: job.id,
+      status: job.status,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      input: JSON.stringify(input),
+      bypassCache: Number(options.bypassCache),
+      progress: JSON.stringify(job.progress),
+      callbackUrl: options.callbackUrl ?? null,
+      apiKeyId: options.apiKeyId ?? null,
+    });
+
+    return job;
+  }
+
+  async findById(id: string, owner?: RowOwner): Promise<Job | undefined> {
+    const row = this.database().prepare(`SELECT * FROM jobs WHERE id = @id${ownerCondition(owner)}`).get({ id, owner }) as JobRow | undefined;
+    return row && SqliteJobRepository.toJob(row);
+  }
+
+  async transition(id: string, from: JobStatus[], changes: JobChanges): Promise<Job | undefined> {
+    const columns: string[] = ['updated_at = @updatedAt'];
+    const params: Record<string, string> = { id, updatedAt: new Date().toISOString() };
+
+    if (changes.status) {
+      columns.push('status = @status');
+      params.status = changes.status;
+    }
+    for (const field of ['progress', 'result', 'error'] as const) {
+      if (changes[field]) {
+        columns.push(`${field} = @${field}`);
+        params[field] = JSON.stringify(changes[field]);
+      }
+    }
+
+    const statuses = from.map((status, index) => {
+      params[`from${index}`] = status;
+      return `@from${index}`;
+    });
+
+    const row = this.database().prepare(`UPDATE jobs SET ${columns.join(', ')}
+      WHERE id = @id AND status IN (${statuses.join(', ')}) RETURNING *`
+    ).get(params) as JobRow | undefined;
+
+    return row && SqliteJobRepository.toJob(row);
+  }
+
+  async claimNext(): Promise<StoredJob | undefined> {
+    const row = this.database().prepare(`UPDATE jobs SET status = 'running', updated_at = @updatedAt
+      WHERE id = (SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at, rowid LIMIT 1)
+      RETURNING *`
+    ).get({ updatedAt: new Date().toISOString() }) as JobRow | undefined;
+
+    return row && {
+      ...SqliteJobRepository.toJob(row),
+      input: JSON.parse(row.input),
+      bypassCache: row.bypass_cache === 1,
+      ...(row.api_key_id && { apiKeyId: row.api_key_id }),
+    };
+  }
+
+  async requeueInterrupted(): Promise<number> {
+    return this.database().prepare(`UPDATE jobs SET status = 'queued', progress = @progress, updated_at = @updatedAt
+      WHERE status = 'running'`
+    ).run({ progress: JSON.stringify({ attempt: 0 }), updatedAt: new Date().toISOString() }).changes;
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'jobs', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static toJob(row: JobRow): Job {
+    return {
+      id: row.id,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      progress: JSON.parse(row.progress),
+      ...(row.result && { result: JSON.parse(row.result) }),
+      ...(row.error && { error: JSON.parse(row.error) }),
+      ...(row.callback_url && { callbackUrl: row.callback_url }),
+    };
+  }
+}
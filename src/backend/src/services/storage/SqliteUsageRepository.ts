@@ -0,0 +1,115 @@
+import { UsageGroup, UsageQuery } from '@loogi/shared';
+import { SqliteDatabase, applyMigrations } from './database';
+import { UsageRecord, UsageRepository } from './types';
+
+const MIGRATIONS = [
+  `CREATE TABLE usage_records (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    api_key_id TEXT,
+    mode TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    total_tokens INTEGER NOT NULL,
+    cost REAL NOT NULL
+  );
+  CREATE INDEX idx_usage_records_created ON usage_records (created_at);
+  CREATE INDEX idx_usage_records_key ON usage_records (api_key_id, created_at);`,
+];
+
+// SQL expression per groupBy value; days are UTC like the stored ISO timestamps
+const GROUP_EXPRESSIONS: Record<UsageQuery['groupBy'], string> = {
+  mode: 'mode',
+  day: 'substr(created_at, 1, 10)',
+  key: `COALESCE(api_key_id, 'anonymous')`,
+  model: 'model',
+};
+
+interface GroupRow {
+  grp: string;
+  requests: number;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+/**
+ * SQLite-backed usage ledger. Opened on first use, like the history repository.
+ */
+export class SqliteUsageRepository implements UsageRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async record(records: UsageRecord[]): Promise<void> {
+    const db = this.database();
+    const insert = db.prepare(`INSERT INTO usage_records
+      (created_at, request_id, api_key_id, mode, kind, provider, model, prompt_tokens, completion_tokens, total_tokens, cost)
+      VALUES (@createdAt, @requestId, @apiKeyId, @mode, @kind, @provider, @model, @promptTokens, @completionTokens, @totalTokens, @cost)`);
+    const createdAt = new Date().toISOString();
+
+    db.transaction(() => {
+      for (const record of records) {
+        insert.run({ ...record, apiKeyId: record.apiKeyId ?? null, createdAt });
+      }
+    })();
+  }
+
+  async aggregate(query: Omit<UsageQuery, 'format'>): Promise<UsageGroup[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (query.from) {
+      conditions.push('created_at >= @from');
+      params.from = query.from.toISOString();
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to');
+      params.to = query.to.toISOString();
+    }
+    if (query.keyId) {
+      conditions.push('api_key_id = @keyId');
+      params.keyId = query.keyId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.database().prepare(`SELECT ${GROUP_EXPRESSIONS[query.groupBy]} AS grp,
+        COUNT(DISTINCT request_id) AS requests,
+        COUNT(*) AS calls,
+        SUM(prompt_tokens) AS prompt_tokens,
+        SUM(completion_tokens) AS completion_tokens,
+        SUM(total_tokens) AS total_tokens,
+        SUM(cost) AS cost
+      FROM usage_records ${where}
+      GROUP BY grp ORDER BY grp`
+    ).all(params) as GroupRow[];
+
+    return rows.map(row => ({
+      group: row.grp,
+      requests: row.requests,
+      calls: row.calls,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens,
+      cost: row.cost,
+    }));
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'usage', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { WebhookDelivery, WebhookDeliveryPage, WebhookDeliveryQuery, WebhookEvent } from '@loogi/shared';
+import { SqliteDatabase, applyMigrations, ownerCondition } from './database';
+import { RowOwner, StoredWebhookDelivery, WebhookAttempt, WebhookDeliveryRepository } from './types';
+
+const MIGRATIONS = [
+  `CREATE TABLE webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    next_attempt_at TEXT
+  );
+  CREATE INDEX idx_webhook_deliveries_job ON webhook_deliveries (job_id);
+  CREATE INDEX idx_webhook_deliveries_status ON webhook_deliveries (status, created_at);`,
+  `ALTER TABLE webhook_deliveries ADD COLUMN api_key_id TEXT;`,
+];
+
+interface DeliveryRow {
+  id: string;
+  job_id: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDelivery['status'];
+  attempts: string;
+  payload: string;
+  created_at: string;
+  updated_at: string;
+  next_attempt_at: string | null;
+}
+
+/**
+ * SQLite-backed webhook delivery log. Opened on first use, like the history repository.
+ */
+export class SqliteWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private readonly open: () => SqliteDatabase;
+  private db?: SqliteDatabase;
+
+  constructor(open: () => SqliteDatabase) {
+    this.open = open;
+  }
+
+  async create(
+    delivery: { jobId: string; url: string; event: WebhookEvent; payload: string; apiKeyId?: string }
+  ): Promise<StoredWebhookDelivery> {
+    const now = new Date().toISOString();
+    const stored: StoredWebhookDelivery = {
+      id: `whd_${randomUUID()}`,
+      jobId: delivery.jobId,
+      url: delivery.url,
+      event: delivery.event,
+      status: 'pending',
+      attempts: [],
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now,
+      payload: delivery.payload,
+    };
+
+    this.database().prepare(`INSERT INTO webhook_deliveries
+      (id, job_id, url, event, status, attempts, payload, created_at, updated_at, next_attempt_at, api_key_id)
+      VALUES (@id, @jobId, @url, @event, @status, '[]', @payload, @createdAt, @updatedAt, @nextAttemptAt, @apiKeyId)`
+    ).run({
+      id: stored.id,
+      jobId: stored.jobId,
+      url: stored.url,
+      event: stored.event,
+      status: stored.status,
+      payload: stored.payload,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      nextAttemptAt: stored.nextAttemptAt,
+      apiKeyId: delivery.apiKeyId ?? null,
+    });
+
+    return stored;
+  }
+
+  async findById(id: string, owner?: RowOwner): Promise<WebhookDelivery | undefined> {
+    const row = this.database()
+      .prepare(`SELECT * FROM webhook_deliveries WHERE id = @id${ownerCondition(owner)}`)
+      .get({ id, owner }) as DeliveryRow | undefined;
+    return row && SqliteWebhookDeliveryRepository.toDelivery(row);
+  }
+
+  async list(query: WebhookDeliveryQuery, owner?: RowOwner): Promise<WebhookDeliveryPage> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number | null> = {};
+
+    if (owner !== undefined) {
+      conditions.push('api_key_id IS @owner');
+      params.owner = owner;
+    }
+    if (query.jobId) {
+      conditions.push('job_id = @jobId');
+      params.jobId = query.jobId;
+    }
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const db = this.database();
+
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM webhook_deliveries ${where}`).get(params) as { total: number };
+    const rows = db.prepare(`SELECT * FROM webhook_deliveries ${where}
+      ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset`
+    ).all({ ...params, limit: query.pageSize, offset: (query.page - 1) * query.pageSize }) as DeliveryRow[];
+
+    return {
+      items: rows.map(row => SqliteWebhookDeliveryRepository.toDelivery(row)),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.ceil(total / query.pageSize),
+    };
+  }
+
+  async recordAttempt(
+    id: string,
+    attempt: WebhookAttempt,
+    next: { status: WebhookDelivery['status']; nextAttemptAt?: string }
+  ): Promise<StoredWebhookDelivery | undefined> {
+    const row = this.database().prepare(`UPDATE webhook_deliveries
+      SET attempts = json_insert(attempts, '$[#]', json(@attempt)), status = @status,
+        next_attempt_at = @nextAttemptAt, updated_at = @updatedAt
+      WHERE id = @id RETURNING *`
+    ).get({
+      id,
+      attempt: JSON.stringify(attempt),
+      status: next.status,
+      nextAttemptAt: next.nextAttemptAt ?? null,
+      updatedAt: new Date().toISOString(),
+    }) as DeliveryRow | undefined;
+
+    return row && SqliteWebhookDeliveryRepository.toStored(row);
+  }
+
+  async listPending(): Promise<StoredWebhookDelivery[]> {
+    const rows = this.database()
+      .prepare(`SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY next_attempt_at`)
+      .all() as DeliveryRow[];
+    return rows.map(SqliteWebhookDeliveryRepository.toStored);
+  }
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      const db = this.open();
+      applyMigrations(db, 'webhook_deliveries', MIGRATIONS);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static toDelivery(row: DeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      url: row.url,
+      event: row.event,
+      status: row.status,
+      attempts: JSON.parse(row.attempts),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.next_attempt_at && { nextAttemptAt: row.next_attempt_at }),
+    };
+  }
+
+  private static toStored(row: DeliveryRow): StoredWebhookDelivery {
+    return { ...SqliteWebhookDeliveryRepository.toDelivery(row), payload: row.payload };
+  }
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { RowOwner } from './types';
+
+export type SqliteDatabase = Database.Database;
+
+/**
+ * Open a SQLite database, creating its directory. `:memory:` opens a private in-memory database.
+ */
+export function openDatabase(filename: string): SqliteDatabase {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+/**
+ * Condition restricting a lookup by ID to the rows of `owner`, bound as `@owner`; appended to the WHERE clause
+ */
+export const ownerCondition = (owner: RowOwner): string => owner === undefined ? '' : ' AND api_key_id IS @owner';
+
+/**
+ * Apply the migrations of one component in order. Each component tracks its own version,
+ * so stores can share a database file without coordinating migration numbers.
+ */
+export function applyMigrations(db: SqliteDatabase, component: string, migrations: string[]): void {
+  db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    component TEXT PRIMARY KEY,
+    version INTEGER NOT NULL
+  )`);
+
+  const row = db.prepare('SELECT version FROM schema_migrations WHERE component = ?').get(component) as
+    | { version: number }
+    | undefined;
+  const current = row?.version ?? 0;
+
+  if (current >= migrations.length) {
+    return;
+  }
+
+  db.transaction(() => {
+    migrations.slice(current).forEach(migration => db.exec(migration));
+    db.prepare(`INSERT INTO schema_migrations (component, version) VALUES (?, ?)
+      ON CONFLICT(component) DO UPDATE SET version = excluded.version`).run(component, migrations.length);
+  })();
+}
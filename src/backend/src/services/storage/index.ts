@@ -0,0 +1,103 @@
+import { config } from '../../config/index';
+import { SqliteDatabase, openDatabase } from './database';
+import { SqliteHistoryRepository } from './SqliteHistoryRepository';
+import { SqliteJobRepository } from './SqliteJobRepository';
+import { SqliteWebhookDeliveryRepository } from './SqliteWebhookDeliveryRepository';
+import { SqliteApiKeyRepository } from './SqliteApiKeyRepository';
+import { SqliteUsageRepository } from './SqliteUsageRepository';
+import { SqliteAIEventRepository } from './SqliteAIEventRepository';
+import { JsonlAIEventRepository } from './JsonlAIEventRepository';
+import {
+  AIEventRepository,
+  ApiKeyRepository,
+  HistoryRepository,
+  JobRepository,
+  UsageRepository,
+  WebhookDeliveryRepository,
+} from './types';
+
+export * from './types';
+export { openDatabase, applyMigrations, type SqliteDatabase } from './database';
+export { SqliteHistoryRepository } from './SqliteHistoryRepository';
+export { SqliteJobRepository } from './SqliteJobRepository';
+export { SqliteWebhookDeliveryRepository } from './SqliteWebhookDeliveryRepository';
+export { SqliteApiKeyRepository } from './SqliteApiKeyRepository';
+export { SqliteUsageRepository } from './SqliteUsageRepository';
+export { SqliteAIEventRepository } from './SqliteAIEventRepository';
+export { JsonlAIEventRepository, matchesAIEventFilter } from './JsonlAIEventRepository';
+
+/**
+ * Shared storage for the process: one database connection (DATABASE_PATH) and the
+ * repositories built on it. The AI event log may live in JSON Lines files instead (AI_EVENT_STORE).
+ */
+export class Storage {
+  private static database?: SqliteDatabase;
+  private static historyRepository?: HistoryRepository;
+  private static jobRepository?: JobRepository;
+  private static webhookDeliveryRepository?: WebhookDeliveryRepository;
+  private static apiKeyRepository?: ApiKeyRepository;
+  private static usageRepository?: UsageRepository;
+  private static aiEventRepository?: AIEventRepository;
+
+  static getDatabase(): SqliteDatabase {
+    if (!Storage.database) {
+      Storage.database = openDatabase(config.database.path);
+    }
+    return Storage.database;
+  }
+
+  static getHistoryRepository(): HistoryRepository {
+    if (!Storage.historyRepository) {
+      Storage.historyRepository = new SqliteHistoryRepository(() => Storage.getDatabase());
+    }
+    return Storage.historyRepository;
+  }
+
+  static getJobRepository(): JobRepository {
+    if (!Storage.jobRepository) {
+      Storage.jobRepository = new SqliteJobRepository(() => Storage.getDatabase());
+    }
+    return Storage.jobRepository;
+  }
+
+  static getWebhookDeliveryRepository(): WebhookDeliveryRepository {
+    if (!Storage.webhookDeliveryRepository) {
+      Storage.webhookDeliveryRepository = new SqliteWebhookDeliveryRepository(() => Storage.getDatabase());
+    }
+    return Storage.webhookDeliveryRepository;
+  }
+
+  static getApiKeyRepository(): ApiKeyRepository {
+    if (!Storage.apiKeyRepository) {
+      Storage.apiKeyRepository = new SqliteApiKeyRepository(() => Storage.getDatabase());
+    }
+    return Storage.apiKeyRepository;
+  }
+
+  static getUsageRepository(): UsageRepository {
+    if (!Storage.usageRepository) {
+      Storage.usageRepository = new SqliteUsageRepository(() => Storage.getDatabase());
+    }
+    return Storage.usageRepository;
+  }
+
+  static getAIEventRepository(): AIEventRepository {
+    if (!Storage.aiEventRepository) {
+      Storage.aiEventRepository = config.events.store === 'file'
+        ? new JsonlAIEventRepository(config.events)
+        : new SqliteAIEventRepository(() => Storage.getDatabase());
+    }
+    return Storage.aiEventRepository;
+  }
+
+  static close(): void {
+    Storage.database?.close();
+    Storage.database = undefined;
+    Storage.historyRepository = undefined;
+    Storage.jobRepository = undefined;
+    Storage.webhookDeliveryRepository = undefined;
+    Storage.apiKeyRepository = undefined;
+    Storage.usageRepository = undefined;
+    Storage.aiEventRepository = undefined;
+  }
+}
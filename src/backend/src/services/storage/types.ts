@@ -0,0 +1,180 @@
+import {
+  AIEvent,
+  AIEventPage,
+  AIEventQuery,
+  AIEventType,
+  ApiKey,
+  Job,
+  JobStatus,
+  TaskMode,
+  UsageGroup,
+  UsageKind,
+  UsageQuery,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookDeliveryQuery,
+  WebhookEvent,
+} from '@loogi/shared';
+import { ContractStats, ContractStatsQuery, HistoryEntry, HistoryPage, HistoryQuery } from '../../models/History';
+import { UserInput } from '../../models/UserInput';
+import { EnhancedPrompt } from '../../models/EnhancedPrompt';
+
+/**
+ * Rows a caller may access: those of one API key, `null` for those created without a key,
+ * or undefined for all of them
+ */
+export type RowOwner = string | null | undefined;
+
+/**
+ * Persistence for enhancement requests and their results
+ */
+export interface HistoryRepository {
+  /** `apiKeyId` is the key that made the request */
+  save(input: UserInput, result: EnhancedPrompt, apiKeyId?: string): Promise<HistoryEntry>;
+  findById(id: string, owner?: RowOwner): Promise<HistoryEntry | undefined>;
+  list(query: HistoryQuery, owner?: RowOwner): Promise<HistoryPage>;
+  delete(id: string, owner?: RowOwner): Promise<boolean>;
+  /** Contract pass rates per mode of the entries stored in the query's time range */
+  contractStats(query: ContractStatsQuery, owner?: RowOwner): Promise<ContractStats>;
+  /** Whether the backing store is reachable */
+  ping(): Promise<boolean>;
+}
+
+/**
+ * A queued enhancement together with what is needed to run it
+ */
+export interface StoredJob extends Job {
+  input: UserInput;
+  bypassCache: boolean;
+  /** Key that submitted the job; its token usage is charged to it */
+  apiKeyId?: string;
+}
+
+export type JobChanges = Partial<Pick<Job, 'status' | 'progress' | 'result' | 'error'>>;
+
+/**
+ * Persistence for asynchronous enhancement jobs, so queued work survives a restart
+ */
+export interface JobRepository {
+  create(input: UserInput, options: { bypassCache: boolean; callbackUrl?: string; apiKeyId?: string }): Promise<Job>;
+  findById(id: string, owner?: RowOwner): Promise<Job | undefined>;
+  /** Apply changes only while the job is in one of `from`; undefined when it is not */
+  transition(id: string, from: JobStatus[], changes: JobChanges): Promise<Job | undefined>;
+  /** Mark the oldest queued job as running and return it */
+  claimNext(): Promise<StoredJob | undefined>;
+  /** Put jobs that were running when the process stopped back in the queue */
+  requeueInterrupted(): Promise<number>;
+}
+
+/**
+ * A webhook delivery together with the body that is (re)sent on every attempt
+ */
+export interface StoredWebhookDelivery extends WebhookDelivery {
+  payload: string;
+}
+
+export type WebhookAttempt = WebhookDelivery['attempts'][number];
+
+/**
+ * Log of webhook deliveries and their attempts; pending deliveries are resumed after a restart
+ */
+export interface WebhookDeliveryRepository {
+  /** `apiKeyId` is the key that submitted the job */
+  create(delivery: { jobId: string; url: string; event: WebhookEvent; payload: string; apiKeyId?: string }): Promise<StoredWebhookDelivery>;
+  findById(id: string, owner?: RowOwner): Promise<WebhookDelivery | undefined>;
+  list(query: WebhookDeliveryQuery, owner?: RowOwner): Promise<WebhookDeliveryPage>;
+  /** Append an attempt and move the delivery to its next state */
+  recordAttempt(
+    id: string,
+    attempt: WebhookAttempt,
+    next: { status: WebhookDelivery['status']; nextAttemptAt?: string }
+  ): Promise<StoredWebhookDelivery | undefined>;
+  listPending(): Promise<StoredWebhookDelivery[]>;
+}
+
+/**
+ * An API key as stored: daily usage lives in a separate counter
+ */
+export type ApiKeyRecord = Omit<ApiKey, 'tokensUsedToday'>;
+
+export type NewApiKey = Pick<ApiKeyRecord, 'name' | 'scopes' | 'rateLimit' | 'dailyTokenQuota' | 'allowedModes'>;
+
+/**
+ * API keys, looked up by the SHA-256 hash of the secret, and their daily token usage
+ */
+export interface ApiKeyRepository {
+  create(key: NewApiKey, secret: { hash: string; prefix: string }): Promise<ApiKeyRecord>;
+  findById(id: string): Promise<ApiKeyRecord | undefined>;
+  findByHash(hash: string): Promise<ApiKeyRecord | undefined>;
+  list(): Promise<ApiKeyRecord[]>;
+  /** Revoke an active key; undefined when it does not exist or was already revoked */
+  revoke(id: string): Promise<ApiKeyRecord | undefined>;
+  touch(id: string): Promise<void>;
+  /** Add tokens to the key's counter for `day` (YYYY-MM-DD, UTC) */
+  addTokens(id: string, day: string, tokens: number): Promise<void>;
+  tokensUsed(id: string, day: string): Promise<number>;
+}
+
+/**
+ * One upstream AI call as recorded in the usage ledger
+ */
+export interface UsageRecord {
+  /** Enhancement or suggestion request the call belongs to */
+  requestId: string;
+  apiKeyId?: string;
+  mode: TaskMode;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** USD at the price in effect when the call was made */
+  cost: number;
+}
+
+/**
+ * Ledger of upstream AI calls and their token usage, for cost reporting
+ */
+export interface UsageRepository {
+  record(records: UsageRecord[]): Promise<void>;
+  /** Totals per group, ordered by group */
+  aggregate(query: Omit<UsageQuery, 'format'>): Promise<UsageGroup[]>;
+}
+
+/**
+ * An event to record; the log assigns its ID and timestamp
+ */
+export type NewAIEvent = {
+  [E in AIEventType]: Omit<Extract<AIEvent, { event: E }>, 'id' | 'timestamp'>;
+}[AIEventType];
+
+export type AIEventFilter = Omit<AIEventQuery, 'follow'>;
+
+export const AI_EVENT_STORES = ['sqlite', 'file'] as const;
+export type AIEventStoreName = typeof AI_EVENT_STORES[number];
+
+export function isAIEventStoreName(value: string): value is AIEventStoreName {
+  return (AI_EVENT_STORES as readonly string[]).includes(value);
+}
+
+export interface AIEventStoreConfig {
+  store: AIEventStoreName;
+  /** JSON Lines file of the file store; rotated files get a numeric suffix */
+  file: string;
+  maxFileBytes: number;
+  /** Files kept by the file store, including the one being written */
+  maxFiles: number;
+}
+
+/**
+ * Append-only log of AI events. IDs increase in recording order, so they serve as
+ * pagination cursors.
+ */
+export interface AIEventRepository {
+  append(event: NewAIEvent): Promise<AIEvent>;
+  /** Matching events after `cursor`, oldest first */
+  query(filter: AIEventFilter): Promise<AIEventPage>;
+  /** Remove every event; returns how many were removed */
+  clear(): Promise<number>;
+}
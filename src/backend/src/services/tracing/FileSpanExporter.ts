@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds, hrTimeToTimeStamp } from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-node';
+
+/**
+ * Appends finished spans to a JSON Lines file, one span per line, for local debugging
+ * without a collector
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly file: string;
+  // Exports are appended in order
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  static toRecord(span: ReadableSpan): Record<string, unknown> {
+    const { traceId, spanId } = span.spanContext();
+    return {
+      traceId,
+      spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: span.kind,
+      startTime: hrTimeToTimeStamp(span.startTime),
+      durationMs: hrTimeToMilliseconds(span.duration),
+      status: SpanStatusCode[span.status.code],
+      ...(span.status.message && { statusMessage: span.status.message }),
+      attributes: span.attributes,
+      events: span.events.map(event => ({ name: event.name, time: hrTimeToTimeStamp(event.time), attributes: event.attributes })),
+    };
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map(span => `${JSON.stringify(FileSpanExporter.toRecord(span))}\n`).join('');
+
+    this.pending = this.pending
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.appendFile(this.file, lines, 'utf8');
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      })
+      .catch((error: Error) => {
+        resultCallback({ code: ExportResultCode.FAILED, error });
+      });
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.pending;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pending;
+  }
+}
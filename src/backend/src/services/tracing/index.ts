@@ -0,0 +1,92 @@
+import { Span, SpanOptions, SpanStatusCode, trace } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { FileSpanExporter } from './FileSpanExporter';
+import { TracingConfig } from './types';
+
+export * from './types';
+export { FileSpanExporter } from './FileSpanExporter';
+
+/**
+ * Tracer of the service. Spans are no-ops until a provider is registered (TRACING_EXPORTER).
+ */
+export const tracer = trace.getTracer('loogi-prompt-supercharger');
+
+const markFailed = (span: Span, error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+};
+
+/**
+ * Run `fn` in a new active span that ends when it settles; a thrown error marks the span failed
+ */
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      markFailed(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * withSpan for synchronous stages
+ */
+export function withSpanSync<T>(name: string, options: SpanOptions, fn: (span: Span) => T): T {
+  return tracer.startActiveSpan(name, options, (span) => {
+    try {
+      return fn(span);
+    } catch (error) {
+      markFailed(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Registers the tracer provider selected by `TRACING_EXPORTER` with W3C trace context
+ * propagation; `none` leaves tracing off
+ */
+export class TracerProviderFactory {
+  static register(config: TracingConfig): NodeTracerProvider | undefined {
+    if (config.exporter === 'none') {
+      return undefined;
+    }
+
+    const provider = new NodeTracerProvider({
+      resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: config.serviceName }),
+      spanProcessors: [TracerProviderFactory.createProcessor(config)],
+    });
+    provider.register({ propagator: new W3CTraceContextPropagator() });
+    return provider;
+  }
+
+  private static createProcessor(config: TracingConfig): SpanProcessor {
+    switch (config.exporter) {
+      case 'otlp':
+        return new BatchSpanProcessor(new OTLPTraceExporter(config.otlpEndpoint ? { url: config.otlpEndpoint } : {}));
+      case 'console':
+        return new SimpleSpanProcessor(new ConsoleSpanExporter());
+      case 'file':
+        return new SimpleSpanProcessor(new FileSpanExporter(config.file));
+      default:
+        throw new Error(`Unsupported tracing exporter: ${config.exporter}`);
+    }
+  }
+}
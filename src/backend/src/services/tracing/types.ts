@@ -0,0 +1,15 @@
+export const TRACING_EXPORTERS = ['otlp', 'console', 'file', 'none'] as const;
+export type TracingExporterName = typeof TRACING_EXPORTERS[number];
+
+export function isTracingExporterName(value: string): value is TracingExporterName {
+  return (TRACING_EXPORTERS as readonly string[]).includes(value);
+}
+
+export interface TracingConfig {
+  exporter: TracingExporterName;
+  serviceName: string;
+  /** OTLP/HTTP traces endpoint; the exporter falls back to the OTEL_EXPORTER_OTLP_* variables */
+  otlpEndpoint?: string;
+  /** JSON Lines file of the file exporter */
+  file: string;
+}
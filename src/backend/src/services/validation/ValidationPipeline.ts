@@ -0,0 +1,38 @@
+import { OutputContract, ValidationFinding, ValidationResult, ValidationRule } from './types';
+
+/**
+ * An output contract made of rules. Every rule runs, so a result lists all problems of the
+ * output at once instead of the first one only.
+ */
+export abstract class ValidationPipeline implements OutputContract {
+  protected readonly rules: ValidationRule[];
+
+  constructor(rules: ValidationRule[]) {
+    this.rules = rules;
+  }
+
+  validate(content: string): ValidationResult {
+    const findings: ValidationFinding[] = this.rules.flatMap(rule =>
+      rule.check(content).map(({ message, location, path, fix }) => ({
+        rule: rule.id,
+        severity: rule.severity,
+        message,
+        ...(location && { location }),
+        ...(path !== undefined && { path }),
+        fix: fix ?? rule.fix,
+      }))
+    );
+    const errors = findings.filter(finding => finding.severity === 'error');
+
+    return {
+      isValid: errors.length === 0,
+      violations: [...new Set(errors.map(finding => finding.message))],
+      ...(errors[0] && { suggestedFix: errors[0].fix }),
+      findings,
+    };
+  }
+
+  abstract getContractDescription(): string;
+
+  abstract getRePromptInstruction(): string;
+}
@@ -0,0 +1,15 @@
+export * from './types';
+export * from './rules';
+export { ValidationPipeline } from './ValidationPipeline';
+export { compileJsonSchema, type JsonSchema } from './jsonSchema';
+export { CodeParserRegistry, codeParsers, type CodeParser, type CodeSyntaxError } from './parsers';
+export {
+  formatMarkdownTable,
+  normalizeMarkdownTable,
+  parseMarkdownTable,
+  tableData,
+  tableToCsv,
+  tableToRecords,
+  type MarkdownTable,
+  type ParsedMarkdownTable,
+} from './markdownTable';
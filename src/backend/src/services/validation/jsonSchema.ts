@@ -0,0 +1,20 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Compile a client-supplied schema; throws when Ajv can't compile it
+ */
+export function compileJsonSchema(schema: JsonSchema): ValidateFunction {
+  // A fresh instance per schema: a client's $id must not replace or remove the meta-schemas
+  // or another request's schema, and nothing is left in Ajv's cache
+  return new Ajv({ allErrors: true, strict: false }).compile(schema);
+}
+
+/**
+ * One Ajv error as text, naming the offending property where Ajv keeps it in `params`
+ */
+export function describeSchemaError({ message = 'is invalid', params }: ErrorObject): string {
+  const property = (params as { additionalProperty?: string }).additionalProperty;
+  return property ? `${message} ('${property}')` : message;
+}
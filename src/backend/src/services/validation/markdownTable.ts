@@ -0,0 +1,128 @@
+import type { MarkdownTable } from '@loogi/shared';
+import { toCsv } from '../csv';
+
+export type { MarkdownTable };
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | undefined;
+
+/**
+ * A markdown table as written, before any normalization; rows may have more or fewer
+ * cells than the header
+ */
+export interface ParsedMarkdownTable extends MarkdownTable {
+  /** Cells of the separator row, e.g. `:---:` */
+  separator: string[];
+  /** Line indices of the header row and of the body rows in the parsed content */
+  lines: { header: number; rows: number[] };
+}
+
+const SEPARATOR_CELL = /^:?-+:?$/;
+
+// Cells of a row, split at unescaped pipes; `\|` stays part of the cell text
+const splitCells = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isRow = (line: string): boolean => /(?<!\\)\|/.test(line);
+
+// Unlike a thematic break (---), a separator row has at least one pipe
+const isSeparator = (line: string): boolean =>
+  isRow(line) && splitCells(line).every(cell => SEPARATOR_CELL.test(cell));
+
+/**
+ * The first table of `content` (GitHub Flavored Markdown): a header row followed by a separator
+ * row, then body rows up to the first line without a pipe
+ */
+export function parseMarkdownTable(content: string): ParsedMarkdownTable | undefined {
+  const lines = content.split(/\r?\n/);
+  const header = lines.findIndex((line, index) => isRow(line) && !isSeparator(line) && isSeparator(lines[index + 1] ?? ''));
+  if (header < 0) {
+    return undefined;
+  }
+
+  const rows: number[] = [];
+  for (let index = header + 2; index < lines.length && isRow(lines[index]!); index++) {
+    rows.push(index);
+  }
+  return {
+    columns: splitCells(lines[header]!),
+    separator: splitCells(lines[header + 1]!),
+    rows: rows.map(index => splitCells(lines[index]!)),
+    lines: { header, rows },
+  };
+}
+
+export const columnAlignment = (separatorCell: string | undefined): ColumnAlignment => {
+  const left = separatorCell?.startsWith(':');
+  const right = separatorCell?.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+};
+
+/**
+ * Header and rows with the same number of cells, the widest row's; missing cells are empty
+ */
+export function tableData({ columns, rows }: MarkdownTable): MarkdownTable {
+  const width = Math.max(columns.length, ...rows.map(row => row.length));
+  const pad = (cells: string[]) => [...cells, ...Array<string>(width - cells.length).fill('')];
+  return { columns: pad(columns), rows: rows.map(pad) };
+}
+
+/**
+ * The table as markdown, every column padded to its widest cell and aligned as its separator says
+ */
+export function formatMarkdownTable(table: ParsedMarkdownTable): string {
+  const { columns, rows } = tableData(table);
+  const alignments = columns.map((_, column) => columnAlignment(table.separator[column]));
+  const escaped = [columns, ...rows].map(cells => cells.map(cell => cell.replace(/\|/g, '\\|')));
+  const widths = columns.map((_, column) => Math.max(3, ...escaped.map(cells => cells[column]!.length)));
+
+  const align = (cell: string, column: number) => {
+    const space = widths[column]! - cell.length;
+    switch (alignments[column]) {
+      case 'right':
+        return cell.padStart(widths[column]!);
+      case 'center':
+        return ' '.repeat(Math.floor(space / 2)) + cell + ' '.repeat(Math.ceil(space / 2));
+      default:
+        return cell.padEnd(widths[column]!);
+    }
+  };
+  const separator = widths.map((width, column) => {
+    const alignment = alignments[column];
+    const left = alignment === 'left' || alignment === 'center' ? ':' : '-';
+    const right = alignment === 'right' || alignment === 'center' ? ':' : '-';
+    return left + '-'.repeat(width - 2) + right;
+  });
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+  const [header, ...body] = escaped.map(cells => line(cells.map(align)));
+  return [header!, line(separator), ...body].join('\n');
+}
+
+/**
+ * Re-aligns the first table of `content` and leaves the text around it as is
+ */
+export function normalizeMarkdownTable(content: string): { content: string; table?: MarkdownTable } {
+  const table = parseMarkdownTable(content);
+  if (!table) {
+    return { content };
+  }
+
+  const lines = content.split(/\r?\n/);
+  const end = table.lines.rows[table.lines.rows.length - 1] ?? table.lines.header + 1;
+  lines.splice(table.lines.header, end - table.lines.header + 1, formatMarkdownTable(table));
+  return { content: lines.join('\n'), table: tableData(table) };
+}
+
+/**
+ * Header line and one line per row, RFC 4180 quoting
+ */
+export function tableToCsv({ columns, rows }: MarkdownTable): string {
+  return toCsv([columns, ...rows]);
+}
+
+/**
+ * One object per row, keyed by column header; of columns with the same header, the last one wins
+ */
+export function tableToRecords({ columns, rows }: MarkdownTable): Record<string, string>[] {
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
@@ -0,0 +1,180 @@
+import { FindingLocation } from './types';
+
+export interface CodeSyntaxError {
+  message: string;
+  /** 1-based position in the code, when the parser knows it */
+  location?: FindingLocation;
+}
+
+/**
+ * In-process syntax check for one language
+ */
+export interface CodeParser {
+  /** Canonical name, as used in `codeLanguage` */
+  readonly language: string;
+  /** Further code fence tags of the language */
+  readonly aliases: string[];
+  /** The first syntax error of `code`; `tag` is the fence tag (or requested language) it came with */
+  parse(code: string, tag: string): CodeSyntaxError | undefined;
+}
+
+export const locateOffset = (content: string, offset: number): FindingLocation => {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 };
+};
+
+// Parsers are loaded on first use; most deployments never see some of the languages
+const lazy = <T>(load: () => T): (() => T) => {
+  let value: T | undefined;
+  return () => (value ??= load());
+};
+
+const typescript = lazy(() => require('typescript') as typeof import('typescript'));
+const python = lazy(() => (require('@lezer/python') as typeof import('@lezer/python')).parser);
+const sql = lazy(() => new (require('node-sql-parser') as typeof import('node-sql-parser')).Parser());
+
+const FILE_NAMES: Record<string, string> = { ts: 'output.ts', tsx: 'output.tsx', typescript: 'output.ts', jsx: 'output.jsx' };
+
+// Syntactic diagnostics of the TypeScript compiler, which parses JavaScript as well
+const parseScript = (code: string, tag: string): CodeSyntaxError | undefined => {
+  const ts = typescript();
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: FILE_NAMES[tag] ?? 'output.js',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+  const [diagnostic] = diagnostics;
+  if (!diagnostic) {
+    return undefined;
+  }
+
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : undefined;
+  return {
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+    ...(position && { location: { line: position.line + 1, column: position.character + 1 } }),
+  };
+};
+
+const typescriptParser: CodeParser = {
+  language: 'typescript',
+  aliases: ['ts', 'tsx'],
+  parse: parseScript,
+};
+
+const javascriptParser: CodeParser = {
+  language: 'javascript',
+  aliases: ['js', 'jsx', 'mjs', 'cjs', 'node'],
+  parse: parseScript,
+};
+
+const jsonParser: CodeParser = {
+  language: 'json',
+  aliases: [],
+  parse: code => {
+    try {
+      JSON.parse(code);
+      return undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // V8 names the offset for most, not all, syntax errors
+      const offset = /at position (\d+)/.exec(message)?.[1];
+      return {
+        message,
+        ...(offset !== undefined && { location: locateOffset(code, Number(offset)) }),
+      };
+    }
+  },
+};
+
+const pythonParser: CodeParser = {
+  language: 'python',
+  aliases: ['py', 'python3'],
+  parse: code => {
+    // Lezer recovers from syntax errors with error nodes; like CPython, report the first
+    let offset: number | undefined;
+    python().parse(code).iterate({
+      enter: node => {
+        if (offset === undefined && node.type.isError) {
+          offset = node.from;
+        }
+        return offset === undefined;
+      },
+    });
+    if (offset === undefined) {
+      return undefined;
+    }
+
+    return {
+      message: code.slice(offset).trim() === '' ? 'unexpected end of input' : 'invalid syntax',
+      location: locateOffset(code, offset),
+    };
+  },
+};
+
+const SQL_DIALECTS: Record<string, string[]> = {
+  mysql: ['MySQL'],
+  mariadb: ['MariaDB'],
+  postgresql: ['PostgresQL'],
+  postgres: ['PostgresQL'],
+  psql: ['PostgresQL'],
+  sqlite: ['Sqlite'],
+  tsql: ['TransactSQL'],
+  mssql: ['TransactSQL'],
+  bigquery: ['BigQuery'],
+};
+
+const sqlParser: CodeParser = {
+  language: 'sql',
+  aliases: Object.keys(SQL_DIALECTS),
+  parse: (code, tag) => {
+    // Plain `sql` passes when any common dialect accepts it
+    const errors = (SQL_DIALECTS[tag] ?? ['MySQL', 'PostgresQL']).map(database => {
+      try {
+        sql().astify(code, { database });
+        return undefined;
+      } catch (error) {
+        const { message, location } = error as { message: string; location?: { start: FindingLocation } };
+        // Drop the list of every token the grammar expected
+        const found = /but (.+) found\.$/.exec(message)?.[1];
+        return {
+          message: found ? `Unexpected ${found}` : message,
+          ...(location && { location: { line: location.start.line, column: location.start.column } }),
+        };
+      }
+    });
+    return errors.includes(undefined) ? undefined : errors[0];
+  },
+};
+
+/**
+ * The parsers code output is checked with, by code fence tag. Languages without a parser
+ * are not syntax-checked; `register` adds or replaces one.
+ */
+export class CodeParserRegistry {
+  private readonly parsers = new Map<string, CodeParser>();
+
+  constructor(parsers: CodeParser[] = []) {
+    parsers.forEach(parser => this.register(parser));
+  }
+
+  register(parser: CodeParser): void {
+    for (const tag of [parser.language, ...parser.aliases]) {
+      this.parsers.set(tag.toLowerCase(), parser);
+    }
+  }
+
+  get(tag: string): CodeParser | undefined {
+    return this.parsers.get(tag.toLowerCase());
+  }
+
+  /**
+   * The canonical name of a language tag, e.g. `typescript` for `ts`; unknown tags lower-cased
+   */
+  canonical(tag: string): string {
+    return this.get(tag)?.language ?? tag.toLowerCase();
+  }
+}
+
+export const codeParsers = new CodeParserRegistry([typescriptParser, javascriptParser, jsonParser, pythonParser, sqlParser]);
@@ -0,0 +1,431 @@
+import { JsonSchema, compileJsonSchema, describeSchemaError } from './jsonSchema';
+import { parseMarkdownTable } from './markdownTable';
+import { CodeParserRegistry, codeParsers } from './parsers';
+import { FindingLocation, RuleFinding, RuleOptions, ValidationRule, ValidationSeverity } from './types';
+
+/**
+ * Openers and closers models wrap around the requested output
+ */
+export const DEFAULT_PROSE_PHRASES = [
+  'Here is', 'Here are', "Here's", 'Below is', 'The following', 'Sure', 'Certainly',
+  'Note:', 'Please note', 'Hope this helps', 'I hope',
+];
+
+interface RuleDefinition {
+  id: string;
+  // Empty for rules that phrase the message per finding
+  message: string;
+  fix: string;
+  severity?: ValidationSeverity;
+  check(content: string, message: string): RuleFinding[];
+}
+
+function defineRule({ id, message, fix, severity = 'error', check }: RuleDefinition, options: RuleOptions = {}): ValidationRule {
+  return {
+    id,
+    severity: options.severity ?? severity,
+    fix,
+    check: content => check(content, options.message ?? message),
+  };
+}
+
+const splitLines = (content: string): string[] => content.split(/\r?\n/);
+
+// 1-based position of the first non-blank character of a line, by its index
+const lineStart = (lines: string[], index: number): FindingLocation => ({
+  line: index + 1,
+  column: Math.max((lines[index] ?? '').search(/\S/), 0) + 1,
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface CodeBlock {
+  tag: string;
+  // Line indices of the fences; `close` is missing for an unclosed block
+  open: number;
+  close?: number;
+  body: string[];
+}
+
+const FENCE = /^\s*```\s*([^\s`]*)/;
+
+function codeBlocks(lines: string[]): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  let current: CodeBlock | undefined;
+
+  lines.forEach((line, index) => {
+    const fence = FENCE.exec(line);
+    if (current && fence) {
+      current.close = index;
+      current = undefined;
+    } else if (fence) {
+      current = { tag: fence[1] ?? '', open: index, body: [] };
+      blocks.push(current);
+    } else {
+      current?.body.push(line);
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Lines opening with one of `phrases`, like "Here is your code:"
+ */
+export function noProsePrefix({ phrases = DEFAULT_PROSE_PHRASES, ...options }: RuleOptions & { phrases?: string[] } = {}): ValidationRule {
+  const pattern = new RegExp(`^\\s*(?:${phrases.map(escapeRegExp).join('|')})(?![a-z])`, 'i');
+
+  return defineRule({
+    id: 'noProsePrefix',
+    message: 'Prose detected. Only the requested output is allowed.',
+    fix: 'Remove introductions, explanations and closing remarks.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return lines.flatMap((line, index) => pattern.test(line) ? [{ message, location: lineStart(lines, index) }] : []);
+    },
+  }, options);
+}
+
+/**
+ * Markdown code fences, one finding per block
+ */
+export function noCodeFence(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'noCodeFence',
+    message: 'Markdown code fence detected.',
+    fix: 'Remove the ``` fences and any markdown formatting.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return codeBlocks(lines).map(block => ({ message, location: lineStart(lines, block.open) }));
+    },
+  }, options);
+}
+
+/**
+ * Numbered or bulleted list items
+ */
+export function noListItems(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'noListItems',
+    message: 'List formatting detected.',
+    fix: 'Write running text instead of a list.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return lines.flatMap((line, index) => /^\s*(\d+[.)]|[-*+])\s+/.test(line) ? [{ message, location: lineStart(lines, index) }] : []);
+    },
+  }, options);
+}
+
+export function minLength(characters: number, options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'minLength',
+    message: `Text too short (minimum ${characters} characters).`,
+    fix: 'Provide the complete text.',
+    check: (content, message) => content.trim().length < characters ? [{ message }] : [],
+  }, options);
+}
+
+export function parsesAsJson(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'parsesAsJson',
+    message: 'Invalid JSON format.',
+    fix: 'Provide valid JSON without any additional text.',
+    check: (content, message) => {
+      const error = codeParsers.get('json')!.parse(content, 'json');
+      if (!error) {
+        return [];
+      }
+      return [{
+        message,
+        ...(error.location && { location: error.location }),
+        fix: `Fix the JSON syntax (${error.message}) and provide nothing but the JSON.`,
+      }];
+    },
+  }, options);
+}
+
+/**
+ * JSON that violates `schema`, one finding per offending value. Output that doesn't parse
+ * is left to `parsesAsJson`.
+ */
+export function matchesJsonSchema(schema: JsonSchema, options?: RuleOptions): ValidationRule {
+  const validate = compileJsonSchema(schema);
+
+  return defineRule({
+    id: 'matchesJsonSchema',
+    message: '',
+    fix: 'Make the JSON conform to the schema.',
+    check: (content, message) => {
+      let value: unknown;
+      try {
+        value = JSON.parse(content);
+      } catch {
+        return [];
+      }
+      if (validate(value)) {
+        return [];
+      }
+
+      return (validate.errors ?? []).map(error => {
+        const problem = describeSchemaError(error);
+        const path = error.instancePath || '(root)';
+        return {
+          message: message || `${path} ${problem}`,
+          path: error.instancePath,
+          fix: `Change the value at ${path}: it ${problem}.`,
+        };
+      });
+    },
+  }, options);
+}
+
+export function hasTldr(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'hasTldr',
+    message: 'Missing TL;DR section.',
+    fix: 'Open with a "## TL;DR" section that sums up the result.',
+    check: (content, message) => /^#{1,3}\s*TL;DR/im.test(content) ? [] : [{ message }],
+  }, options);
+}
+
+export function minNumberedSteps(steps: number, options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'minNumberedSteps',
+    message: `Missing numbered steps (minimum ${steps} required).`,
+    fix: `Lay out the steps as a numbered list of at least ${steps} items.`,
+    check: (content, message) => (content.match(/^\s*\d+\.\s+\S/gm)?.length ?? 0) < steps ? [{ message }] : [],
+  }, options);
+}
+
+export function minHeadings(headings: number, options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'minHeadings',
+    message: `Missing H2/H3 headings (minimum ${headings} required).`,
+    fix: `Organize the content in at least ${headings} sections with ## or ### headings.`,
+    check: (content, message) => (content.match(/^#{2,3}\s+\S/gm)?.length ?? 0) < headings ? [{ message }] : [],
+  }, options);
+}
+
+/**
+ * Exactly one closed code block; every further block is a finding of its own
+ */
+export function singleCodeBlock(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'singleCodeBlock',
+    message: 'Multiple code blocks detected. Only one code block allowed.',
+    fix: 'Merge the code into a single code block.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      const blocks = codeBlocks(lines);
+      if (blocks.length === 0) {
+        return [{ message: 'No properly formatted code block found.', fix: 'Wrap the code in one fenced code block.' }];
+      }
+
+      return [
+        ...blocks.filter(block => block.close === undefined).map(block => ({
+          message: 'Unclosed code block.',
+          location: lineStart(lines, block.open),
+          fix: 'Close the code block with ```.',
+        })),
+        ...blocks.slice(1).map(block => ({ message, location: lineStart(lines, block.open) })),
+      ];
+    },
+  }, options);
+}
+
+/**
+ * Text before, between or after the code blocks, one finding per paragraph
+ */
+export function noProseOutsideCodeBlock(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'noProseOutsideCodeBlock',
+    message: 'Prose detected before/after code block. Only code block allowed.',
+    fix: 'Remove all text outside the code block.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      const inside = new Set(codeBlocks(lines).flatMap(({ open, close = lines.length - 1 }) =>
+        Array.from({ length: close - open + 1 }, (_, offset) => open + offset)
+      ));
+      if (inside.size === 0) {
+        return [];
+      }
+
+      const isProse = (index: number) => !inside.has(index) && (lines[index] ?? '').trim() !== '';
+      return lines.flatMap((_, index) =>
+        isProse(index) && !isProse(index - 1) ? [{ message, location: lineStart(lines, index) }] : []
+      );
+    },
+  }, options);
+}
+
+/**
+ * A first code block in another language than `language`; aliases like `ts` for `typescript` match
+ */
+export function codeLanguage(language: string, options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'codeLanguage',
+    message: '',
+    fix: `Open the code block with \`\`\`${language}.`,
+    check: (content, message) => {
+      const lines = splitLines(content);
+      const block = codeBlocks(lines)[0];
+      if (!block || codeParsers.canonical(block.tag) === codeParsers.canonical(language)) {
+        return [];
+      }
+      return [{
+        message: message || `Language mismatch. Expected: ${language}, Found: ${block.tag || 'none'}`,
+        location: lineStart(lines, block.open),
+      }];
+    },
+  }, options);
+}
+
+export function nonEmptyCodeBlock(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'nonEmptyCodeBlock',
+    message: 'Code block is empty.',
+    fix: 'Put the actual code in the code block.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return codeBlocks(lines)
+        .filter(block => block.body.every(line => line.trim() === ''))
+        .map(block => ({ message, location: lineStart(lines, block.open) }));
+    },
+  }, options);
+}
+
+/**
+ * Syntax errors in the code blocks, the first one of each block. A block is parsed in the
+ * language of its tag, or `language` when it has none; languages without a parser pass.
+ */
+export function parsesAsCode(
+  language?: string,
+  { parsers = codeParsers, ...options }: RuleOptions & { parsers?: CodeParserRegistry } = {}
+): ValidationRule {
+  return defineRule({
+    id: 'parsesAsCode',
+    message: '',
+    fix: 'Fix the syntax error so the code parses.',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return codeBlocks(lines).flatMap(block => {
+        const tag = (block.tag || language || '').toLowerCase();
+        const parser = parsers.get(tag);
+        const error = block.close !== undefined ? parser?.parse(block.body.join('\n'), tag) : undefined;
+        if (!parser || !error) {
+          return [];
+        }
+
+        return [{
+          message: message || `Syntax error in ${parser.language} code: ${error.message}`,
+          // The code starts on the line after the opening fence
+          location: error.location
+            ? { line: block.open + 1 + error.location.line, column: error.location.column }
+            : lineStart(lines, block.open),
+          fix: `Fix the ${parser.language} syntax error so the code parses.`,
+        }];
+      });
+    },
+  }, options);
+}
+
+/**
+ * Code blocks without a language after the opening fence; a warning by default
+ */
+export function hasLanguageTag(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'hasLanguageTag',
+    message: 'Code block has no language tag.',
+    fix: 'Name the language after the opening fence, e.g. ```python.',
+    severity: 'warning',
+    check: (content, message) => {
+      const lines = splitLines(content);
+      return codeBlocks(lines)
+        .filter(block => block.tag === '')
+        .map(block => ({ message, location: lineStart(lines, block.open) }));
+    },
+  }, options);
+}
+
+export function hasMarkdownTable(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'hasMarkdownTable',
+    message: 'Invalid table format. Must be markdown table with header and separator.',
+    fix: 'Start with a header row, followed by a separator row like |---|---|.',
+    check: (content, message) => parseMarkdownTable(content) ? [] : [{ message }],
+  }, options);
+}
+
+/**
+ * Separator and rows with more or fewer cells than the header
+ */
+export function tableColumnConsistency(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'tableColumnConsistency',
+    message: '',
+    fix: 'Give every row as many cells as the header.',
+    check: (content, message) => {
+      const table = parseMarkdownTable(content);
+      if (!table) {
+        return [];
+      }
+
+      const lines = splitLines(content);
+      const columns = table.columns.length;
+      const rows = [
+        { index: table.lines.header + 1, cells: table.separator },
+        ...table.lines.rows.map((index, row) => ({ index, cells: table.rows[row]! })),
+      ];
+      return rows.flatMap(({ index, cells }) => cells.length === columns ? [] : [{
+        message: message || `Row has ${cells.length} cells, the header has ${columns}.`,
+        location: lineStart(lines, index),
+      }]);
+    },
+  }, options);
+}
+
+/**
+ * Header cells without text, one finding per column
+ */
+export function nonEmptyHeaders(options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'nonEmptyHeaders',
+    message: '',
+    fix: 'Name every column in the header row.',
+    check: (content, message) => {
+      const table = parseMarkdownTable(content);
+      if (!table) {
+        return [];
+      }
+
+      const lines = splitLines(content);
+      return table.columns.flatMap((column, index) => column === '' ? [{
+        message: message || `Column ${index + 1} has no header.`,
+        location: lineStart(lines, table.lines.header),
+      }] : []);
+    },
+  }, options);
+}
+
+/**
+ * Columns of `columns` the table lacks; headers match case-insensitively, in any order
+ */
+export function requiredColumns(columns: string[], options?: RuleOptions): ValidationRule {
+  return defineRule({
+    id: 'requiredColumns',
+    message: '',
+    fix: `Give the table the columns ${columns.join(', ')}.`,
+    check: (content, message) => {
+      const table = parseMarkdownTable(content);
+      if (!table) {
+        return [];
+      }
+
+      const lines = splitLines(content);
+      const headers = new Set(table.columns.map(header => header.toLowerCase()));
+      return columns.filter(column => !headers.has(column.trim().toLowerCase())).map(column => ({
+        message: message || `Missing column: ${column}`,
+        location: lineStart(lines, table.lines.header),
+      }));
+    },
+  }, options);
+}
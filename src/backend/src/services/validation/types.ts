@@ -0,0 +1,51 @@
+import type { ValidationFinding, ValidationSeverity } from '@loogi/shared';
+
+export type { ValidationFinding, ValidationSeverity };
+
+export type FindingLocation = NonNullable<ValidationFinding['location']>;
+
+export interface ValidationResult {
+  /** True when no rule reported an error; warnings don't break the contract */
+  isValid: boolean;
+  /** Messages of the errors, without duplicates */
+  violations: string[];
+  suggestedFix?: string;
+  /** Everything the rules reported, in rule order */
+  findings: ValidationFinding[];
+}
+
+export interface OutputContract {
+  validate(content: string): ValidationResult;
+  getContractDescription(): string;
+  getRePromptInstruction(): string;
+}
+
+/**
+ * What a rule reports; the pipeline adds the rule's ID and severity
+ */
+export interface RuleFinding {
+  message: string;
+  location?: FindingLocation;
+  /** JSON Pointer of the offending value */
+  path?: string;
+  /** Replaces the rule's fix when the finding knows better */
+  fix?: string;
+}
+
+/**
+ * A named check of the model output, reusable across output contracts
+ */
+export interface ValidationRule {
+  /** Reported with every finding, e.g. `singleCodeBlock` */
+  readonly id: string;
+  readonly severity: ValidationSeverity;
+  /** Instruction for the model on how to resolve a finding */
+  readonly fix: string;
+  check(content: string): RuleFinding[];
+}
+
+export interface RuleOptions {
+  severity?: ValidationSeverity;
+  /** Replaces the default message, to phrase findings for a particular output type */
+  message?: string;
+}
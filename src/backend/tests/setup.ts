@@ -13,7 +13,8 @@ process.env.AI_MODEL = 'deepseek-chat';
 process.env.RATE_LIMIT_WINDOW_MS = '60000';
 process.env.RATE_LIMIT_MAX_REQUESTS = '10';
 process.env.CORS_ORIGIN = 'http://localhost:3000';
-process.env.LOG_LEVEL = 'error';
+process.env.LOG_LEVEL = 'silent';
+process.env.DATABASE_PATH = ':memory:';
 
 // Global test timeout
 jest.setTimeout(30000);
@@ -1,22 +1,61 @@
 import React, { useState, useEffect } from 'react';
 import { PromptInput } from './components/PromptInput';
 import { EnhancedOutput } from './components/EnhancedOutput';
-import { ModeSelector } from './components/ModeSelector';
+import { ModeSelector, defaultModeSelectorText, modeLabelsFrom } from './components/ModeSelector';
+import { ModeOptions } from './components/ModeOptions';
 import { CopyButton } from './components/CopyButton';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { DarkModeToggle } from './components/DarkModeToggle';
 import { GitHubIcon } from './components/GitHubIcon';
 import { LoogiLogo } from './components/LoogiLogo';
+import { HistorySidebar } from './components/HistorySidebar';
+import { PromptDiff } from './components/PromptDiff';
+import { AdminDashboard, defaultAdminDashboardText } from './components/AdminDashboard';
 import { apiService } from './services/api';
-import { AIMode } from './types';
+import {
+  addHistoryEntry,
+  createHistoryEntry,
+  isHistorySyncEnabled,
+  loadHistory,
+  mergeHistory,
+  saveHistory
+} from './services/history';
+import { AIMode, EnhancedPrompt, EnhancementOptions, HistoryEntry, Mode, UserInput } from './types';
+
+// Drops empty fields and options that do not apply to the selected mode
+const buildUserInput = (prompt: string, mode: AIMode, options: EnhancementOptions): UserInput => {
+  const context = options.context?.trim();
+  const targetLanguage = options.targetLanguage?.trim();
+  const codeLanguage = options.codeLanguage?.trim();
+
+  return {
+    prompt,
+    mode,
+    ...(context && { context }),
+    ...(options.maxTokens !== undefined && { maxTokens: options.maxTokens }),
+    ...(options.enableContractEnforcement !== undefined && { enableContractEnforcement: options.enableContractEnforcement }),
+    ...(mode === 'translate' && targetLanguage && { targetLanguage }),
+    ...(mode === 'code' && codeLanguage && { codeLanguage }),
+  };
+};
+
+const splitUserInput = ({ prompt, mode, ...options }: UserInput) => ({ prompt, mode, options });
 
 function App() {
   const [prompt, setPrompt] = useState('');
   const [mode, setMode] = useState<AIMode>('standard');
+  const [options, setOptions] = useState<EnhancementOptions>({});
   const [enhancedPrompt, setEnhancedPrompt] = useState('');
+  const [enhancementResult, setEnhancementResult] = useState<EnhancedPrompt | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAdminOpen, setIsAdminOpen] = useState(false);
+  // Modes offered by the server; the built-in ones until they are loaded
+  const [serverModes, setServerModes] = useState<Mode[] | undefined>(undefined);
 
   // Language detection
   const getLocalizedText = () => {
@@ -35,15 +74,86 @@ function App() {
         poweredBy: 'Powered by LOOGI Prompt Supercharger',
         errorOccurred: 'Ein Fehler ist aufgetreten',
         placeholder: 'Gib hier deinen Prompt ein...',
+        history: {
+          title: 'Verlauf',
+          empty: 'Noch keine Verbesserungen',
+          restore: 'Wiederherstellen',
+          rerun: 'Erneut ausführen',
+          delete: 'Löschen',
+          tokens: 'Tokens'
+        },
+        showChanges: 'Änderungen anzeigen',
+        hideChanges: 'Änderungen ausblenden',
+        diff: {
+          title: 'Änderungen',
+          inline: 'Inline',
+          split: 'Nebeneinander',
+          original: 'Original',
+          enhanced: 'Verbessert',
+          improvements: 'Verbesserungen'
+        },
         modes: {
-          standard: 'Standard',
-          standardDesc: 'Allgemeine Verbesserung',
-          creative: 'Kreativ',
-          creativeDesc: 'Künstlerisch und fantasievoll',
-          technical: 'Technisch',
-          technicalDesc: 'Präzise und detailliert',
-          scientifically: 'Wissenschaftlich',
-          scientificallyDesc: 'Akademisch präzise und methodisch fundiert'
+          legacyGroup: 'Verbesserungsstile',
+          taskGroup: 'Aufgabenmodi',
+          modes: {
+            standard: { label: 'Standard', description: 'Allgemeine Verbesserung' },
+            creative: { label: 'Kreativ', description: 'Künstlerisch und fantasievoll' },
+            technical: { label: 'Technisch', description: 'Präzise und detailliert' },
+            scientifically: { label: 'Wissenschaftlich', description: 'Akademisch präzise und methodisch fundiert' },
+            code: { label: 'Code', description: 'Vollständiger Code in einem Codeblock' },
+            json: { label: 'JSON', description: 'Ausschließlich gültiges JSON' },
+            translate: { label: 'Übersetzen', description: 'Übersetzung in eine Zielsprache' },
+            summarize: { label: 'Zusammenfassen', description: 'Knappe Zusammenfassung in Stichpunkten' },
+            analysis: { label: 'Analyse', description: 'Strukturierte Analyse mit Ergebnissen' },
+            plan: { label: 'Plan', description: 'Nummerierte Schritte mit Ergebnissen' },
+            recipe: { label: 'Rezept', description: 'Zutaten und Zubereitung' },
+            support: { label: 'Support', description: 'Schrittweise Fehlerbehebung' },
+            marketing: { label: 'Marketing', description: 'Überzeugender Text mit Call-to-Action' },
+            write: { label: 'Schreiben', description: 'Ausgefeilter Text mit klarer Struktur' },
+            table: { label: 'Tabelle', description: 'Daten als Markdown-Tabelle' }
+          }
+        },
+        options: {
+          targetLanguage: 'Zielsprache',
+          targetLanguagePlaceholder: 'z. B. Englisch',
+          codeLanguage: 'Programmiersprache',
+          codeLanguagePlaceholder: 'z. B. TypeScript',
+          advanced: 'Erweiterte Optionen',
+          context: 'Kontext',
+          contextPlaceholder: 'Hintergrundinformationen für die KI (optional)',
+          maxTokens: 'Max. Tokens',
+          contractEnforcement: 'Vertragsprüfung',
+          contractEnforcementDesc: 'Ausgabeformat prüfen und bei Verstößen neu anfragen'
+        },
+        openAdmin: 'Admin-Dashboard',
+        closeAdmin: 'Zurück zum Supercharger',
+        admin: {
+          title: 'Admin-Dashboard',
+          apiKey: 'Admin-API-Schlüssel',
+          apiKeyPlaceholder: 'API-Schlüssel mit admin-Berechtigung',
+          signIn: 'Anmelden',
+          signOut: 'Abmelden',
+          refresh: 'Aktualisieren',
+          loadFailed: 'Dashboard konnte nicht geladen werden',
+          status: 'Dienststatus',
+          available: 'Verfügbar',
+          unavailable: 'Nicht verfügbar',
+          model: 'Modell',
+          providers: 'Anbieter',
+          config: 'KI-Client-Konfiguration',
+          passRate: 'Vertragserfüllung nach Modus',
+          tokenUsage: 'Token-Verbrauch pro Tag',
+          tokens: 'Tokens',
+          requests: 'Anfragen',
+          cost: 'Kosten',
+          noData: 'Noch keine Daten',
+          logTail: 'Live-KI-Ereignisprotokoll',
+          logTailEmpty: 'Warte auf Ereignisse...',
+          clearLogs: 'Protokoll leeren',
+          confirmClearLogs: 'Alle aufgezeichneten KI-Ereignisse löschen?',
+          logsCleared: '{count} Ereignisse gelöscht',
+          flushCache: 'Cache leeren',
+          cacheFlushed: 'Verbesserungs-Cache geleert'
         }
       };
     }
@@ -59,16 +169,40 @@ function App() {
       poweredBy: 'Powered by LOOGI Prompt Supercharger',
       errorOccurred: 'An error occurred',
       placeholder: 'Enter your prompt here...',
-      modes: {
-        standard: 'Standard',
-        standardDesc: 'General purpose enhancement',
-        creative: 'Creative',
-        creativeDesc: 'Artistic and imaginative',
-        technical: 'Technical',
-        technicalDesc: 'Precise and detailed',
-        scientifically: 'Scientific',
-        scientificallyDesc: 'Academically precise and methodologically sound'
-      }
+      history: {
+        title: 'History',
+        empty: 'No enhancements yet',
+        restore: 'Restore',
+        rerun: 'Re-run',
+        delete: 'Delete',
+        tokens: 'tokens'
+      },
+      showChanges: 'Show changes',
+      hideChanges: 'Hide changes',
+      diff: {
+        title: 'Changes',
+        inline: 'Inline',
+        split: 'Side by side',
+        original: 'Original',
+        enhanced: 'Enhanced',
+        improvements: 'Improvements'
+      },
+      modes: defaultModeSelectorText,
+      options: {
+        targetLanguage: 'Target language',
+        targetLanguagePlaceholder: 'e.g. German',
+        codeLanguage: 'Programming language',
+        codeLanguagePlaceholder: 'e.g. TypeScript',
+        advanced: 'Advanced options',
+        context: 'Context',
+        contextPlaceholder: 'Background information for the AI (optional)',
+        maxTokens: 'Max tokens',
+        contractEnforcement: 'Contract enforcement',
+        contractEnforcementDesc: 'Validate the output format and re-prompt on violations'
+      },
+      openAdmin: 'Admin dashboard',
+      closeAdmin: 'Back to the Supercharger',
+      admin: defaultAdminDashboardText
     };
   };
 
@@ -114,14 +248,35 @@ function App() {
     }
   }, [isDarkMode]);
 
+  // History persistence and optional backend sync
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    if (!isHistorySyncEnabled()) {
+      return;
+    }
+
+    apiService.getHistory({ pageSize: 50 })
+      .then((page) => setHistory((current) => mergeHistory(current, page.items)))
+      .catch((err) => console.error('Failed to sync history:', err));
+  }, []);
+
+  useEffect(() => {
+    apiService.getModes()
+      .then(setServerModes)
+      .catch((err) => console.error('Failed to load modes:', err));
+  }, []);
+
   const toggleDarkMode = () => {
     setIsDarkMode(!isDarkMode);
   };
 
-  const handleEnhance = async () => {
+  const runEnhancement = async (promptText: string, selectedMode: AIMode, selectedOptions: EnhancementOptions) => {
     const text = getLocalizedText();
     
-    if (!prompt.trim()) {
+    if (!promptText.trim()) {
       setError(text.pleaseEnterPrompt);
       return;
     }
@@ -130,11 +285,20 @@ function App() {
     setError(null);
 
     try {
-      const result = await apiService.enhancePrompt({
-        prompt,
-        mode,
+      setEnhancedPrompt('');
+      setEnhancementResult(null);
+      const input = buildUserInput(promptText, selectedMode, selectedOptions);
+      const result = await apiService.enhancePromptStream(input, (event) => {
+        if (event.type === 'delta') {
+          setEnhancedPrompt((current) => current + event.content);
+        } else if (event.type === 'reprompt_started') {
+          // The contract re-prompt produces a fresh answer
+          setEnhancedPrompt('');
+        }
       });
       setEnhancedPrompt(result.enhancedPrompt);
+      setEnhancementResult(result);
+      setHistory((current) => addHistoryEntry(current, createHistoryEntry(input, result)));
     } catch (err) {
       setError(err instanceof Error ? err.message : text.failedToEnhance);
       setEnhancedPrompt('');
@@ -143,11 +307,42 @@ function App() {
     }
   };
 
+  const handleEnhance = () => runEnhancement(prompt, mode, options);
+
+  const handleRestore = (entry: HistoryEntry) => {
+    const { prompt: restoredPrompt, mode: restoredMode, options: restoredOptions } = splitUserInput(entry.input);
+    setPrompt(restoredPrompt);
+    setMode(restoredMode);
+    setOptions(restoredOptions);
+    setEnhancedPrompt(entry.result.enhancedPrompt);
+    setEnhancementResult(entry.result);
+    setError(null);
+  };
+
+  const handleRerun = (entry: HistoryEntry, selectedMode: AIMode) => {
+    const { prompt: rerunPrompt, options: rerunOptions } = splitUserInput(entry.input);
+    setPrompt(rerunPrompt);
+    setMode(selectedMode);
+    setOptions(rerunOptions);
+    runEnhancement(rerunPrompt, selectedMode, rerunOptions);
+  };
+
+  const handleDeleteHistoryEntry = (entry: HistoryEntry) => {
+    setHistory((current) => current.filter((existing) => existing.id !== entry.id));
+
+    if (entry.synced && isHistorySyncEnabled()) {
+      apiService.deleteHistoryEntry(entry.id)
+        .catch((err) => console.error('Failed to delete history entry:', err));
+    }
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(enhancedPrompt);
   };
 
   const text = getLocalizedText();
+  const language = navigator.language.split('-')[0] || 'en';
+  const modeLabels = { ...text.modes.modes, ...modeLabelsFrom(serverModes ?? [], language) };
 
   return (
     <div className={`min-h-screen transition-colors duration-300 relative ${
@@ -155,93 +350,166 @@ function App() {
         ? 'bg-gradient-to-br from-gray-900 to-gray-800' 
         : 'bg-gradient-to-br from-blue-50 to-indigo-100'
     } py-8 px-4 flex flex-col items-center justify-center`}>
-      <LoadingOverlay isLoading={isLoading} isDarkMode={isDarkMode} />
+      <LoadingOverlay isLoading={isLoading && !enhancedPrompt} isDarkMode={isDarkMode} />
+      <HistorySidebar
+        entries={history}
+        isOpen={isHistoryOpen}
+        onToggle={() => setIsHistoryOpen(!isHistoryOpen)}
+        onRestore={handleRestore}
+        onRerun={handleRerun}
+        onDelete={handleDeleteHistoryEntry}
+        disabled={isLoading}
+        isDarkMode={isDarkMode}
+        localizedText={text.history}
+        modeLabels={modeLabels}
+      />
       
       {/* Absolute positioned header with brand and toggle separated */}
       <div className="absolute top-6 left-6">
         <LoogiLogo className="text-3xl" isDarkMode={isDarkMode} />
       </div>
-      <div className="absolute top-6 right-6">
+      <div className="absolute top-6 right-6 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setIsAdminOpen(!isAdminOpen)}
+          aria-pressed={isAdminOpen}
+          title={isAdminOpen ? text.closeAdmin : text.openAdmin}
+          aria-label={isAdminOpen ? text.closeAdmin : text.openAdmin}
+          className={`w-12 h-12 rounded-full transition-all duration-200 flex items-center justify-center ${
+            isDarkMode
+              ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+              : 'bg-white border-2 border-gray-300 hover:bg-gray-50 text-gray-800 hover:border-gray-400'
+          }`}
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+        </button>
         <DarkModeToggle isDarkMode={isDarkMode} onToggle={toggleDarkMode} />
       </div>
       
       <div className="w-full max-w-4xl mt-20">
-        {/* Tagline with increased spacing and size */}
-        <div className="text-center mb-16">
-          <h2 className={`text-6xl font-bold ${
-            isDarkMode ? 'text-gray-200' : 'text-gray-700'
-          }`}>
-            {text.tagline}
-          </h2>
-        </div>
-
-        <main className={`rounded-lg shadow-lg p-6 transition-colors duration-300 ${
-          isDarkMode 
-            ? 'bg-gray-800 text-white' 
-            : 'bg-white text-gray-900'
-        }`}>
-          <div className="space-y-6">
-            <div>
-              <label className={`block text-sm font-medium mb-2 ${
-                isDarkMode ? 'text-gray-300' : 'text-gray-700'
-              }`}>
-                {text.enhancementMode}
-              </label>
-              <ModeSelector value={mode} onChange={setMode} localizedText={text.modes} />
-            </div>
-
-            <div className="cursor-text-fix">
-              <label className={`block text-sm font-medium mb-2 ${
-                isDarkMode ? 'text-gray-300' : 'text-gray-700'
+        {isAdminOpen ? (
+          <AdminDashboard isDarkMode={isDarkMode} localizedText={text.admin} modeLabels={modeLabels} />
+        ) : (
+          <>
+            {/* Tagline with increased spacing and size */}
+            <div className="text-center mb-16">
+              <h2 className={`text-6xl font-bold ${
+                isDarkMode ? 'text-gray-200' : 'text-gray-700'
               }`}>
-                {text.yourPrompt}
-              </label>
-              <PromptInput
-                value={prompt}
-                onChange={setPrompt}
-                placeholder={text.placeholder}
-                disabled={isLoading}
-                isDarkMode={isDarkMode}
-              />
+                {text.tagline}
+              </h2>
             </div>
 
-            <button
-              onClick={handleEnhance}
-              disabled={isLoading || !prompt.trim()}
-              className={`w-full py-3 px-4 rounded-lg font-medium transition-all duration-300 transform hover:scale-[1.02] ${
-                isDarkMode
-                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 hover:shadow-xl disabled:from-gray-600 disabled:to-gray-700 shadow-lg'
-                  : 'bg-blue-600 text-white hover:bg-blue-700 hover:shadow-xl disabled:bg-gray-400 shadow-md'
-              } disabled:cursor-not-allowed`}
-            >
-              {isLoading ? `${text.enhancePrompt}...` : text.enhancePrompt}
-            </button>
+            <main className={`rounded-lg shadow-lg p-6 transition-colors duration-300 ${
+              isDarkMode 
+                ? 'bg-gray-800 text-white' 
+                : 'bg-white text-gray-900'
+            }`}>
+              <div className="space-y-6">
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    {text.enhancementMode}
+                  </label>
+                  <ModeSelector
+                    value={mode}
+                    onChange={setMode}
+                    modes={serverModes}
+                    language={language}
+                    isDarkMode={isDarkMode}
+                    localizedText={text.modes}
+                  />
+                </div>
 
-            {error && (
-              <div className={`border px-4 py-3 rounded-lg ${
-                isDarkMode 
-                  ? 'bg-red-900 border-red-700 text-red-200' 
-                  : 'bg-red-50 border-red-200 text-red-700'
-              }`}>
-                {error}
-              </div>
-            )}
+                <ModeOptions
+                  mode={mode}
+                  value={options}
+                  onChange={setOptions}
+                  disabled={isLoading}
+                  isDarkMode={isDarkMode}
+                  localizedText={text.options}
+                />
 
-            {enhancedPrompt && (
-              <div className="fade-in">
-                <div className="flex justify-between items-center mb-2">
-                  <label className={`block text-sm font-medium ${
+                <div className="cursor-text-fix">
+                  <label className={`block text-sm font-medium mb-2 ${
                     isDarkMode ? 'text-gray-300' : 'text-gray-700'
                   }`}>
-                    {text.enhancedPrompt}
+                    {text.yourPrompt}
                   </label>
-                  <CopyButton onClick={handleCopy} />
+                  <PromptInput
+                    value={prompt}
+                    onChange={setPrompt}
+                    placeholder={text.placeholder}
+                    disabled={isLoading}
+                    isDarkMode={isDarkMode}
+                  />
                 </div>
-                <EnhancedOutput content={enhancedPrompt} />
+
+                <button
+                  onClick={handleEnhance}
+                  disabled={isLoading || !prompt.trim()}
+                  className={`w-full py-3 px-4 rounded-lg font-medium transition-all duration-300 transform hover:scale-[1.02] ${
+                    isDarkMode
+                      ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 hover:shadow-xl disabled:from-gray-600 disabled:to-gray-700 shadow-lg'
+                      : 'bg-blue-600 text-white hover:bg-blue-700 hover:shadow-xl disabled:bg-gray-400 shadow-md'
+                  } disabled:cursor-not-allowed`}
+                >
+                  {isLoading ? `${text.enhancePrompt}...` : text.enhancePrompt}
+                </button>
+
+                {error && (
+                  <div className={`border px-4 py-3 rounded-lg ${
+                    isDarkMode 
+                      ? 'bg-red-900 border-red-700 text-red-200' 
+                      : 'bg-red-50 border-red-200 text-red-700'
+                  }`}>
+                    {error}
+                  </div>
+                )}
+
+                {enhancedPrompt && (
+                  <div className="fade-in">
+                    <div className="flex justify-between items-center mb-2">
+                      <label className={`block text-sm font-medium ${
+                        isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                      }`}>
+                        {text.enhancedPrompt}
+                      </label>
+                      <div className="flex items-center gap-2">
+                        {enhancementResult && (
+                          <button
+                            type="button"
+                            onClick={() => setShowDiff(!showDiff)}
+                            aria-pressed={showDiff}
+                            className={`text-sm font-medium px-3 py-2 rounded-md transition-colors duration-200 ${
+                              isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                            }`}
+                          >
+                            {showDiff ? text.hideChanges : text.showChanges}
+                          </button>
+                        )}
+                        <CopyButton onClick={handleCopy} />
+                      </div>
+                    </div>
+                    {enhancementResult && showDiff ? (
+                      <PromptDiff
+                        original={enhancementResult.originalPrompt}
+                        enhanced={enhancementResult.enhancedPrompt}
+                        improvements={enhancementResult.improvements}
+                        localizedText={text.diff}
+                      />
+                    ) : (
+                      <EnhancedOutput content={enhancedPrompt} />
+                    )}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </main>
+            </main>
+          </>
+        )}
 
         <footer className={`text-center mt-8 text-sm ${
           isDarkMode ? 'text-gray-400' : 'text-gray-500'
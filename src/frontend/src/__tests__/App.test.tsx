@@ -23,15 +23,23 @@ describe('App Component', () => {
       },
       model: 'deepseek-chat',
       timestamp: new Date().toISOString(),
+      attempts: 1,
+      contractEnforced: false,
     },
   };
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockApiService.enhancePrompt.mockResolvedValue(mockEnhancedResponse);
+    mockApiService.enhancePromptStream.mockResolvedValue(mockEnhancedResponse);
+    // The built-in modes stay on offer while the server's are loading
+    mockApiService.getModes.mockReturnValue(new Promise(() => {}));
     mockApiService.checkHealth.mockResolvedValue({
       status: 'healthy',
       timestamp: new Date().toISOString(),
+      uptime: 1,
+      version: '1.0.0',
+      environment: 'test',
+      dependencies: { database: 'connected', aiService: 'available' },
     });
   });
 
@@ -102,10 +110,10 @@ describe('App Component', () => {
       await user.click(enhanceButton);
       
       await waitFor(() => {
-        expect(mockApiService.enhancePrompt).toHaveBeenCalledWith({
+        expect(mockApiService.enhancePromptStream).toHaveBeenCalledWith({
           prompt: 'Test prompt',
           mode: 'creative',
-        });
+        }, expect.any(Function));
       });
     });
   });
@@ -144,12 +152,12 @@ describe('App Component', () => {
       await user.click(enhanceButton);
       
       expect(screen.getByText('Please enter a prompt to enhance')).toBeInTheDocument();
-      expect(mockApiService.enhancePrompt).not.toHaveBeenCalled();
+      expect(mockApiService.enhancePromptStream).not.toHaveBeenCalled();
     });
 
     it('should handle API errors gracefully', async () => {
       const user = userEvent.setup();
-      mockApiService.enhancePrompt.mockRejectedValueOnce(new Error('API Error'));
+      mockApiService.enhancePromptStream.mockRejectedValueOnce(new Error('API Error'));
       
       render(<App />);
       
@@ -170,7 +178,7 @@ describe('App Component', () => {
     it('should disable enhance button while loading', async () => {
       const user = userEvent.setup();
       // Mock slow API response
-      mockApiService.enhancePrompt.mockImplementation(() => 
+      mockApiService.enhancePromptStream.mockImplementation(() => 
         new Promise(resolve => setTimeout(() => resolve(mockEnhancedResponse), 100))
       );
       
@@ -290,7 +298,7 @@ describe('App Component', () => {
     it('should show loading state during enhancement', async () => {
       const user = userEvent.setup();
       // Mock slow response
-      mockApiService.enhancePrompt.mockImplementation(() => 
+      mockApiService.enhancePromptStream.mockImplementation(() => 
         new Promise(resolve => setTimeout(() => resolve(mockEnhancedResponse), 50))
       );
       
@@ -327,10 +335,10 @@ describe('App Component', () => {
       await user.click(enhanceButton);
       
       await waitFor(() => {
-        expect(mockApiService.enhancePrompt).toHaveBeenCalledWith({
+        expect(mockApiService.enhancePromptStream).toHaveBeenCalledWith({
           prompt: 'My test prompt',
           mode: 'technical',
-        });
+        }, expect.any(Function));
       });
     });
 
@@ -338,7 +346,7 @@ describe('App Component', () => {
       const user = userEvent.setup();
       
       // Mock rate limit error
-      mockApiService.enhancePrompt.mockRejectedValueOnce({
+      mockApiService.enhancePromptStream.mockRejectedValueOnce({
         message: 'Rate limit exceeded',
         statusCode: 429,
       });
@@ -402,10 +410,10 @@ describe('App Component', () => {
       await user.click(enhanceButton);
       
       await waitFor(() => {
-        expect(mockApiService.enhancePrompt).toHaveBeenCalledWith({
+        expect(mockApiService.enhancePromptStream).toHaveBeenCalledWith({
           prompt: longPrompt,
           mode: 'standard',
-        });
+        }, expect.any(Function));
       });
     });
 
@@ -420,10 +428,10 @@ describe('App Component', () => {
       await user.click(enhanceButton);
       
       await waitFor(() => {
-        expect(mockApiService.enhancePrompt).toHaveBeenCalledWith({
+        expect(mockApiService.enhancePromptStream).toHaveBeenCalledWith({
           prompt: 'Test with @#$%^&*() special chars',
           mode: 'standard',
-        });
+        }, expect.any(Function));
       });
     });
 
@@ -443,7 +451,7 @@ describe('App Component', () => {
       
       // Should only be called once due to loading state
       await waitFor(() => {
-        expect(mockApiService.enhancePrompt).toHaveBeenCalledTimes(1);
+        expect(mockApiService.enhancePromptStream).toHaveBeenCalledTimes(1);
       });
     });
   });
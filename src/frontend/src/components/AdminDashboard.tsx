@@ -0,0 +1,444 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminApiService } from '../services/api';
+import { AIEvent, AIMode, ClientConfig, ContractStats, ServiceStatus, UsageReport } from '../types';
+
+export interface AdminDashboardText {
+  title: string;
+  apiKey: string;
+  apiKeyPlaceholder: string;
+  signIn: string;
+  signOut: string;
+  refresh: string;
+  loadFailed: string;
+  status: string;
+  available: string;
+  unavailable: string;
+  model: string;
+  providers: string;
+  config: string;
+  passRate: string;
+  tokenUsage: string;
+  tokens: string;
+  requests: string;
+  cost: string;
+  noData: string;
+  logTail: string;
+  logTailEmpty: string;
+  clearLogs: string;
+  confirmClearLogs: string;
+  logsCleared: string;
+  flushCache: string;
+  cacheFlushed: string;
+}
+
+export const defaultAdminDashboardText: AdminDashboardText = {
+  title: 'Admin dashboard',
+  apiKey: 'Admin API key',
+  apiKeyPlaceholder: 'API key with the admin scope',
+  signIn: 'Sign in',
+  signOut: 'Sign out',
+  refresh: 'Refresh',
+  loadFailed: 'Failed to load the dashboard',
+  status: 'Service status',
+  available: 'Available',
+  unavailable: 'Unavailable',
+  model: 'Model',
+  providers: 'Providers',
+  config: 'AI client configuration',
+  passRate: 'Contract pass rate by mode',
+  tokenUsage: 'Token usage per day',
+  tokens: 'tokens',
+  requests: 'requests',
+  cost: 'cost',
+  noData: 'No data yet',
+  logTail: 'Live AI event log',
+  logTailEmpty: 'Waiting for events...',
+  clearLogs: 'Clear logs',
+  confirmClearLogs: 'Delete every recorded AI event?',
+  logsCleared: '{count} events removed',
+  flushCache: 'Flush cache',
+  cacheFlushed: 'Enhancement cache flushed',
+};
+
+interface AdminDashboardProps {
+  isDarkMode?: boolean;
+  localizedText?: AdminDashboardText;
+  modeLabels?: Partial<Record<AIMode, { label: string }>>;
+}
+
+interface DashboardData {
+  status: ServiceStatus;
+  config: ClientConfig;
+  stats: ContractStats;
+  usage: UsageReport;
+}
+
+// The key is kept for the browser session only
+export const ADMIN_KEY_STORAGE_KEY = 'loogiAdminKey';
+// Events kept in the live tail
+export const MAX_TAIL_EVENTS = 200;
+// Days shown in the token usage chart, including today
+export const USAGE_DAYS = 14;
+// The tail starts with the events of the last hour
+const TAIL_WINDOW_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC days (YYYY-MM-DD) of the usage chart, oldest first, matching the day groups of GET /usage
+const usageDays = (now: number): string[] =>
+  Array.from({ length: USAGE_DAYS }, (_, index) =>
+    new Date(now - (USAGE_DAYS - 1 - index) * DAY_MS).toISOString().slice(0, 10));
+
+const describeEvent = (event: AIEvent): string => {
+  switch (event.event) {
+    case 'enhancement_started':
+      return `${event.data.promptLength} chars, max ${event.data.maxTokens} tokens`;
+    case 'token_budget_warning':
+      return `~${event.data.estimatedTokens} of ${event.data.maxTokens} tokens`;
+    case 'using_task_routing_enhancement':
+      return event.data.taskMode;
+    case 'cache_hit':
+      return event.data.cacheKey;
+    case 'enhancement_completed': {
+      const contract = event.data.validationResult
+        ? `, contract ${event.data.validationResult.isValid ? 'passed' : 'failed'}`
+        : '';
+      return `${event.data.tokenUsage.totalTokens} tokens, ${Math.round(event.data.processingTime)} ms${contract}`;
+    }
+    case 'enhancement_failed':
+      return event.data.error;
+    default:
+      return '';
+  }
+};
+
+const passRateColor = (passRate: number) => {
+  if (passRate >= 0.9) return 'bg-green-500';
+  if (passRate >= 0.7) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+interface ChartProps {
+  isDarkMode: boolean;
+  text: AdminDashboardText;
+}
+
+const PassRateChart: React.FC<ChartProps & {
+  stats: ContractStats;
+  modeLabels: Partial<Record<AIMode, { label: string }>>;
+}> = ({ stats, modeLabels, isDarkMode, text }) => {
+  if (stats.modes.length === 0) {
+    return <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{text.noData}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {stats.modes.map((entry) => {
+        const percent = Math.round(entry.passRate * 100);
+        return (
+          <li key={entry.mode} data-testid="pass-rate" className="text-sm">
+            <div className="flex justify-between mb-1">
+              <span>{modeLabels[entry.mode]?.label || entry.mode}</span>
+              <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                {percent}% ({entry.passed}/{entry.validated})
+              </span>
+            </div>
+            <div className={`h-2 rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+              <div className={`h-2 rounded ${passRateColor(entry.passRate)}`} style={{ width: `${percent}%` }} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+const TokenUsageChart: React.FC<ChartProps & { usage: UsageReport }> = ({ usage, isDarkMode, text }) => {
+  const tokensByDay = new Map(usage.groups.map((group) => [group.group, group.totalTokens]));
+  const days = usageDays(Date.now()).map((day) => ({ day, tokens: tokensByDay.get(day) ?? 0 }));
+  const max = Math.max(1, ...days.map(({ tokens }) => tokens));
+  const barWidth = 20;
+  const height = 100;
+
+  return (
+    <div>
+      <svg
+        role="img"
+        aria-label={text.tokenUsage}
+        viewBox={`0 0 ${days.length * barWidth} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full h-32"
+      >
+        {days.map(({ day, tokens }, index) => {
+          const barHeight = (tokens / max) * height;
+          return (
+            <rect
+              key={day}
+              data-testid="usage-bar"
+              x={index * barWidth + 2}
+              y={height - barHeight}
+              width={barWidth - 4}
+              height={barHeight}
+              className={isDarkMode ? 'fill-blue-400' : 'fill-blue-600'}
+            >
+              <title>{`${day}: ${tokens} ${text.tokens}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className={`flex justify-between text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <span>{days[0]?.day}</span>
+        <span>
+          {usage.total.totalTokens} {text.tokens} · {usage.total.requests} {text.requests} · {text.cost} ${usage.total.cost.toFixed(4)}
+        </span>
+        <span>{days[days.length - 1]?.day}</span>
+      </div>
+    </div>
+  );
+};
+
+export const AdminDashboard: React.FC<AdminDashboardProps> = ({
+  isDarkMode = false,
+  localizedText = defaultAdminDashboardText,
+  modeLabels = {}
+}) => {
+  const text = localizedText;
+  const [apiKey, setApiKey] = useState(() => sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY) || '');
+  const [keyInput, setKeyInput] = useState('');
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [events, setEvents] = useState<AIEvent[]>([]);
+  const [tailError, setTailError] = useState<string | null>(null);
+  // Bumped to restart the log tail, e.g. after clearing the log
+  const [tailGeneration, setTailGeneration] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+    setApiKey('');
+    setData(null);
+    setEvents([]);
+  }, []);
+
+  const handleError = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : text.loadFailed);
+    const statusCode = (err as { statusCode?: number }).statusCode;
+    // Unknown, revoked or non-admin key
+    if (statusCode === 401 || statusCode === 403) {
+      signOut();
+    }
+  }, [signOut, text.loadFailed]);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const [status, config, stats, usage] = await Promise.all([
+        adminApiService.getServiceStatus(),
+        adminApiService.getClientConfig(),
+        adminApiService.getContractStats(),
+        adminApiService.getUsage({ groupBy: 'day', from: new Date(`${usageDays(Date.now())[0]}T00:00:00.000Z`) }),
+      ]);
+      setData({ status, config, stats, usage });
+    } catch (err) {
+      handleError(err);
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    adminApiService.setApiKey(apiKey);
+    if (apiKey) {
+      load();
+    }
+  }, [apiKey, load]);
+
+  // Replays the recent events, then follows the log until the dashboard closes
+  useEffect(() => {
+    if (!apiKey) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setEvents([]);
+    setTailError(null);
+    adminApiService.followLogs(
+      { cursor: '0', from: new Date(Date.now() - TAIL_WINDOW_MS) },
+      (event) => setEvents((current) => [...current, event].slice(-MAX_TAIL_EVENTS)),
+      controller.signal
+    ).catch((err) => setTailError(err instanceof Error ? err.message : text.loadFailed));
+
+    return () => controller.abort();
+  }, [apiKey, tailGeneration, text.loadFailed]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = keyInput.trim();
+    if (!key) {
+      return;
+    }
+    sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, key);
+    setKeyInput('');
+    setError(null);
+    setApiKey(key);
+  };
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setNotice(null);
+    setError(null);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClearLogs = () => {
+    if (!window.confirm(text.confirmClearLogs)) {
+      return;
+    }
+    runAction(async () => {
+      const removed = await adminApiService.clearLogs();
+      setTailGeneration((generation) => generation + 1);
+      return text.logsCleared.replace('{count}', String(removed));
+    });
+  };
+
+  const handleFlushCache = () => runAction(async () => {
+    await adminApiService.clearCache();
+    return text.cacheFlushed;
+  });
+
+  const cardClass = `rounded-lg shadow-lg p-6 transition-colors duration-300 ${
+    isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+  }`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClass = `text-sm font-medium px-3 py-2 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+  const inputClass = `flex-1 px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const errorBox = error && (
+    <div role="alert" className={`border px-4 py-3 rounded-lg ${
+      isDarkMode ? 'bg-red-900 border-red-700 text-red-200' : 'bg-red-50 border-red-200 text-red-700'
+    }`}>
+      {error}
+    </div>
+  );
+
+  if (!apiKey) {
+    return (
+      <section className={cardClass}>
+        <h2 className="text-xl font-semibold mb-4">{text.title}</h2>
+        <form onSubmit={handleSignIn} className="space-y-4">
+          <label htmlFor="admin-api-key" className={`block text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            {text.apiKey}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="admin-api-key"
+              type="password"
+              autoComplete="off"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              placeholder={text.apiKeyPlaceholder}
+              className={inputClass}
+            />
+            <button type="submit" className={buttonClass} disabled={!keyInput.trim()}>
+              {text.signIn}
+            </button>
+          </div>
+          {errorBox}
+        </form>
+      </section>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className={cardClass}>
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 className="text-xl font-semibold mr-auto">{text.title}</h2>
+          <button type="button" className={buttonClass} onClick={load} disabled={isBusy}>{text.refresh}</button>
+          <button type="button" className={buttonClass} onClick={handleFlushCache} disabled={isBusy}>{text.flushCache}</button>
+          <button type="button" className={buttonClass} onClick={handleClearLogs} disabled={isBusy}>{text.clearLogs}</button>
+          <button type="button" className={buttonClass} onClick={signOut}>{text.signOut}</button>
+        </div>
+        {notice && <p role="status" className={`text-sm mt-3 ${mutedClass}`}>{notice}</p>}
+        {error && <div className="mt-3">{errorBox}</div>}
+      </section>
+
+      {data && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <section className={cardClass}>
+            <h3 className="text-lg font-semibold mb-3">{text.status}</h3>
+            <p className="text-sm mb-1">
+              <span className={`inline-block w-2 h-2 rounded-full mr-2 ${data.status.available ? 'bg-green-500' : 'bg-red-500'}`} />
+              {data.status.available ? text.available : text.unavailable}
+            </p>
+            <p className={`text-sm ${mutedClass}`}>{text.model}: {data.status.model}</p>
+            {data.status.lastError && <p className="text-sm text-red-500 mt-1">{data.status.lastError}</p>}
+            {data.status.providers && (
+              <>
+                <h4 className="text-sm font-medium mt-3 mb-1">{text.providers}</h4>
+                <ul className={`text-sm space-y-1 ${mutedClass}`}>
+                  {data.status.providers.map((provider) => (
+                    <li key={`${provider.provider}:${provider.model}`}>
+                      {provider.provider}/{provider.model}: {provider.state} ({Math.round(provider.failureRate * 100)}%)
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+
+          <section className={cardClass}>
+            <h3 className="text-lg font-semibold mb-3">{text.config}</h3>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {Object.entries(data.config)
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => (
+                  <React.Fragment key={key}>
+                    <dt className={mutedClass}>{key}</dt>
+                    <dd className="truncate" title={String(value)}>{String(value)}</dd>
+                  </React.Fragment>
+                ))}
+            </dl>
+          </section>
+
+          <section className={cardClass}>
+            <h3 className="text-lg font-semibold mb-3">{text.passRate}</h3>
+            <PassRateChart stats={data.stats} modeLabels={modeLabels} isDarkMode={isDarkMode} text={text} />
+          </section>
+
+          <section className={cardClass}>
+            <h3 className="text-lg font-semibold mb-3">{text.tokenUsage}</h3>
+            <TokenUsageChart usage={data.usage} isDarkMode={isDarkMode} text={text} />
+          </section>
+        </div>
+      )}
+
+      <section className={cardClass}>
+        <h3 className="text-lg font-semibold mb-3">{text.logTail}</h3>
+        {tailError && <p className="text-sm text-red-500 mb-2">{tailError}</p>}
+        {events.length === 0 ? (
+          <p className={`text-sm ${mutedClass}`}>{text.logTailEmpty}</p>
+        ) : (
+          <ol className="font-mono text-xs space-y-1 max-h-80 overflow-y-auto">
+            {[...events].reverse().map((event) => (
+              <li key={event.id} data-testid="log-event" className="flex gap-2">
+                <time dateTime={event.timestamp} className={mutedClass}>{new Date(event.timestamp).toLocaleTimeString()}</time>
+                <span className={event.event === 'enhancement_failed' ? 'text-red-500' : ''}>{event.event}</span>
+                <span className={mutedClass}>{event.mode}</span>
+                <span className="truncate" title={event.promptId}>{describeEvent(event)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </div>
+  );
+};
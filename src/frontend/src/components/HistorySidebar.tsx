@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { AIMode, ALL_MODES, HistoryEntry } from '../types';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  isOpen: boolean;
+  onToggle: () => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry, mode: AIMode) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+  isDarkMode?: boolean;
+  localizedText?: {
+    title: string;
+    empty: string;
+    restore: string;
+    rerun: string;
+    delete: string;
+    tokens: string;
+  };
+  modeLabels?: Partial<Record<AIMode, { label: string }>>;
+}
+
+const defaultText = {
+  title: 'History',
+  empty: 'No enhancements yet',
+  restore: 'Restore',
+  rerun: 'Re-run',
+  delete: 'Delete',
+  tokens: 'tokens',
+};
+
+interface HistoryItemProps extends Omit<HistorySidebarProps, 'entries' | 'isOpen' | 'onToggle' | 'localizedText'> {
+  entry: HistoryEntry;
+  text: typeof defaultText;
+}
+
+const HistoryItem: React.FC<HistoryItemProps> = ({
+  entry,
+  onRestore,
+  onRerun,
+  onDelete,
+  disabled = false,
+  isDarkMode = false,
+  text,
+  modeLabels = {}
+}) => {
+  const [rerunMode, setRerunMode] = useState<AIMode>(entry.input.mode);
+  const modeLabel = (mode: AIMode) => modeLabels[mode]?.label || mode;
+  const buttonClass = `text-xs font-medium px-2 py-1 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <li
+      data-testid="history-entry"
+      className={`p-3 rounded-lg border ${
+        isDarkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-white'
+      }`}
+    >
+      <div className={`flex justify-between items-center text-xs mb-1 ${
+        isDarkMode ? 'text-gray-400' : 'text-gray-500'
+      }`}>
+        <span className="font-medium uppercase tracking-wide">{modeLabel(entry.result.mode)}</span>
+        <time dateTime={entry.createdAt}>{new Date(entry.createdAt).toLocaleString()}</time>
+      </div>
+      <p className={`text-sm truncate ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`} title={entry.input.prompt}>
+        {entry.input.prompt}
+      </p>
+      <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {entry.result.metadata.tokenUsage.totalTokens} {text.tokens}
+      </p>
+      <div className="flex items-center gap-1 mt-2">
+        <button type="button" className={buttonClass} onClick={() => onRestore(entry)} disabled={disabled}>
+          {text.restore}
+        </button>
+        <select
+          aria-label={text.rerun}
+          value={rerunMode}
+          onChange={(e) => setRerunMode(e.target.value as AIMode)}
+          disabled={disabled}
+          className={`text-xs rounded border px-1 py-1 ${
+            isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'
+          }`}
+        >
+          {ALL_MODES.map((mode) => (
+            <option key={mode} value={mode}>{modeLabel(mode)}</option>
+          ))}
+        </select>
+        <button type="button" className={buttonClass} onClick={() => onRerun(entry, rerunMode)} disabled={disabled}>
+          {text.rerun}
+        </button>
+        <button
+          type="button"
+          className={`ml-auto ${buttonClass}`}
+          onClick={() => onDelete(entry)}
+          title={text.delete}
+          aria-label={text.delete}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  entries,
+  isOpen,
+  onToggle,
+  isDarkMode = false,
+  localizedText = defaultText,
+  ...itemProps
+}) => {
+  return (
+    <aside
+      className={`fixed top-0 left-0 h-full z-40 flex transition-transform duration-300 ${
+        isOpen ? 'translate-x-0' : '-translate-x-80'
+      }`}
+    >
+      <div className={`w-80 h-full overflow-y-auto p-4 shadow-lg ${
+        isDarkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'
+      }`}>
+        <h3 className="text-lg font-semibold mb-4">{localizedText.title}</h3>
+        {entries.length === 0 ? (
+          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{localizedText.empty}</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <HistoryItem
+                key={entry.id}
+                entry={entry}
+                isDarkMode={isDarkMode}
+                text={localizedText}
+                {...itemProps}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onToggle}
+        aria-expanded={isOpen}
+        title={localizedText.title}
+        aria-label={localizedText.title}
+        className={`self-start mt-24 w-10 h-10 rounded-r-lg shadow-md flex items-center justify-center transition-colors duration-200 ${
+          isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-white hover:bg-gray-50 text-gray-700'
+        }`}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+    </aside>
+  );
+};
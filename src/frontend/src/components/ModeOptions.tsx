@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AIMode, EnhancementOptions, MAX_TOKENS_RANGE } from '../types';
+
+export interface ModeOptionsText {
+  targetLanguage: string;
+  targetLanguagePlaceholder: string;
+  codeLanguage: string;
+  codeLanguagePlaceholder: string;
+  advanced: string;
+  context: string;
+  contextPlaceholder: string;
+  maxTokens: string;
+  contractEnforcement: string;
+  contractEnforcementDesc: string;
+}
+
+interface ModeOptionsProps {
+  mode: AIMode;
+  value: EnhancementOptions;
+  onChange: (options: EnhancementOptions) => void;
+  disabled?: boolean;
+  isDarkMode?: boolean;
+  localizedText?: ModeOptionsText;
+}
+
+const defaultText: ModeOptionsText = {
+  targetLanguage: 'Target language',
+  targetLanguagePlaceholder: 'e.g. German',
+  codeLanguage: 'Programming language',
+  codeLanguagePlaceholder: 'e.g. TypeScript',
+  advanced: 'Advanced options',
+  context: 'Context',
+  contextPlaceholder: 'Background information for the AI (optional)',
+  maxTokens: 'Max tokens',
+  contractEnforcement: 'Contract enforcement',
+  contractEnforcementDesc: 'Validate the output format and re-prompt on violations',
+};
+
+export const ModeOptions: React.FC<ModeOptionsProps> = ({
+  mode,
+  value,
+  onChange,
+  disabled = false,
+  isDarkMode = false,
+  localizedText = defaultText
+}) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const update = <K extends keyof EnhancementOptions>(key: K, fieldValue: EnhancementOptions[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const labelClass = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      {mode === 'translate' && (
+        <div>
+          <label htmlFor="target-language" className={labelClass}>{localizedText.targetLanguage}</label>
+          <input
+            id="target-language"
+            type="text"
+            value={value.targetLanguage || ''}
+            onChange={(e) => update('targetLanguage', e.target.value)}
+            placeholder={localizedText.targetLanguagePlaceholder}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {mode === 'code' && (
+        <div>
+          <label htmlFor="code-language" className={labelClass}>{localizedText.codeLanguage}</label>
+          <input
+            id="code-language"
+            type="text"
+            value={value.codeLanguage || ''}
+            onChange={(e) => update('codeLanguage', e.target.value)}
+            placeholder={localizedText.codeLanguagePlaceholder}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowAdvanced(!showAdvanced)}
+        aria-expanded={showAdvanced}
+        className={`flex items-center text-sm font-medium transition-colors duration-200 ${
+          isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <svg
+          className={`w-4 h-4 mr-1 transition-transform duration-200 ${showAdvanced ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        {localizedText.advanced}
+      </button>
+
+      {showAdvanced && (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="context" className={labelClass}>{localizedText.context}</label>
+            <textarea
+              id="context"
+              rows={3}
+              value={value.context || ''}
+              onChange={(e) => update('context', e.target.value)}
+              placeholder={localizedText.contextPlaceholder}
+              disabled={disabled}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="max-tokens" className={labelClass}>
+              {localizedText.maxTokens}: {value.maxTokens ?? MAX_TOKENS_RANGE.default}
+            </label>
+            <input
+              id="max-tokens"
+              type="range"
+              min={MAX_TOKENS_RANGE.min}
+              max={MAX_TOKENS_RANGE.max}
+              step={100}
+              value={value.maxTokens ?? MAX_TOKENS_RANGE.default}
+              onChange={(e) => update('maxTokens', Number(e.target.value))}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+
+          <label className="flex items-start cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value.enableContractEnforcement ?? true}
+              onChange={(e) => update('enableContractEnforcement', e.target.checked)}
+              disabled={disabled}
+              className="mt-1 mr-2"
+            />
+            <span>
+              <span className={`block text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {localizedText.contractEnforcement}
+              </span>
+              <span className={`block text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {localizedText.contractEnforcementDesc}
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
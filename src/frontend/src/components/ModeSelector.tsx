@@ -1,56 +1,105 @@
 import React from 'react';
-import { AIMode } from '../types';
+import { AIMode, LEGACY_MODES, Mode, TASK_MODES } from '../types';
+
+export interface ModeLabel {
+  label: string;
+  description: string;
+}
+
+export interface ModeSelectorText {
+  legacyGroup: string;
+  taskGroup: string;
+  modes: Record<AIMode, ModeLabel>;
+}
 
 interface ModeSelectorProps {
   value: AIMode;
   onChange: (mode: AIMode) => void;
+  /** Modes offered by the server (GET /modes); the built-in modes until they are loaded */
+  modes?: Mode[];
+  /** Locale of the server-provided labels, e.g. 'de'; English when missing */
+  language?: string;
   className?: string;
-  localizedText?: {
-    standard: string;
-    standardDesc: string;
-    creative: string;
-    creativeDesc: string;
-    technical: string;
-    technicalDesc: string;
-    scientifically: string;
-    scientificallyDesc: string;
-  };
+  isDarkMode?: boolean;
+  localizedText?: ModeSelectorText;
 }
 
+export const defaultModeSelectorText: ModeSelectorText = {
+  legacyGroup: 'Enhancement styles',
+  taskGroup: 'Task modes',
+  modes: {
+    standard: { label: 'Standard', description: 'General purpose enhancement' },
+    creative: { label: 'Creative', description: 'Artistic and imaginative' },
+    technical: { label: 'Technical', description: 'Precise and detailed' },
+    scientifically: { label: 'Scientific', description: 'Academically precise and methodologically sound' },
+    code: { label: 'Code', description: 'Complete code in a fenced block' },
+    json: { label: 'JSON', description: 'Valid, parseable JSON only' },
+    translate: { label: 'Translate', description: 'Translation into a target language' },
+    summarize: { label: 'Summarize', description: 'Concise bullet-point summary' },
+    analysis: { label: 'Analysis', description: 'Structured analysis with findings' },
+    plan: { label: 'Plan', description: 'Numbered steps with deliverables' },
+    recipe: { label: 'Recipe', description: 'Ingredients and instructions' },
+    support: { label: 'Support', description: 'Step-by-step troubleshooting' },
+    marketing: { label: 'Marketing', description: 'Persuasive copy with a call to action' },
+    write: { label: 'Write', description: 'Polished prose with clear structure' },
+    table: { label: 'Table', description: 'Data as a markdown table' },
+  },
+};
+
+/**
+ * Labels of the server-provided modes in `language`, falling back to English
+ */
+export const modeLabelsFrom = (modes: Mode[], language: string): Record<AIMode, ModeLabel> =>
+  Object.fromEntries(modes.map((mode) => [mode.id, {
+    label: mode.labels[language] ?? mode.labels.en,
+    description: mode.descriptions[language] ?? mode.descriptions.en,
+  }]));
+
 export const ModeSelector: React.FC<ModeSelectorProps> = ({
   value,
   onChange,
+  modes,
+  language = 'en',
   className = '',
-  localizedText
+  isDarkMode = false,
+  localizedText = defaultModeSelectorText
 }) => {
-  const modes = localizedText ? [
-    { value: 'standard' as AIMode, label: localizedText.standard, description: localizedText.standardDesc },
-    { value: 'creative' as AIMode, label: localizedText.creative, description: localizedText.creativeDesc },
-    { value: 'technical' as AIMode, label: localizedText.technical, description: localizedText.technicalDesc },
-    { value: 'scientifically' as AIMode, label: localizedText.scientifically, description: localizedText.scientificallyDesc },
-  ] : [
-    { value: 'standard' as AIMode, label: 'Standard', description: 'General purpose enhancement' },
-    { value: 'creative' as AIMode, label: 'Creative', description: 'Artistic and imaginative' },
-    { value: 'technical' as AIMode, label: 'Technical', description: 'Precise and detailed' },
-    { value: 'scientifically' as AIMode, label: 'Scientific', description: 'Academically precise and methodologically sound' },
-  ];
+  const labels = { ...localizedText.modes, ...modeLabelsFrom(modes ?? [], language) };
+  const groups: Array<{ title: string; modes: readonly AIMode[] }> = [
+    { title: localizedText.legacyGroup, modes: modes ? modes.filter((mode) => mode.group === 'style').map((mode) => mode.id) : LEGACY_MODES },
+    { title: localizedText.taskGroup, modes: modes ? modes.filter((mode) => mode.group === 'task').map((mode) => mode.id) : TASK_MODES },
+  ].filter((group) => group.modes.length > 0);
 
   return (
-    <div className={`grid grid-cols-2 md:grid-cols-4 gap-3 ${className}`}>
-      {modes.map((mode) => (
-        <button
-          key={mode.value}
-          onClick={() => onChange(mode.value)}
-          className={`p-3 rounded-lg border-2 transition-all duration-200 text-left ${
-            value === mode.value
-              ? 'border-blue-500 bg-blue-50 text-blue-900'
-              : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300 hover:bg-gray-50'
-          }`}
-        >
-          <div className="font-medium text-sm">{mode.label}</div>
-          <div className="text-xs text-gray-500 mt-1">{mode.description}</div>
-        </button>
+    <div className={`space-y-4 ${className}`}>
+      {groups.map((group) => (
+        <div key={group.title} role="radiogroup" aria-label={group.title}>
+          <div className={`text-xs font-medium uppercase tracking-wide mb-2 ${
+            isDarkMode ? 'text-gray-400' : 'text-gray-500'
+          }`}>
+            {group.title}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {group.modes.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                role="radio"
+                aria-checked={value === mode}
+                onClick={() => onChange(mode)}
+                className={`p-3 rounded-lg border-2 transition-all duration-200 text-left ${
+                  value === mode
+                    ? 'border-blue-500 bg-blue-50 text-blue-900'
+                    : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium text-sm">{labels[mode]?.label ?? mode}</div>
+                <div className="text-xs text-gray-500 mt-1">{labels[mode]?.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
       ))}
     </div>
   );
-};
\ No newline at end of file
+};
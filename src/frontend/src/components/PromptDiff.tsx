@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+
+export type DiffView = 'inline' | 'split';
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Above this many LCS cells the diff degrades to "everything replaced"
+const MAX_DIFF_CELLS = 4000000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else if (text) {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff based on the longest common subsequence of word and whitespace tokens
+ */
+export const diffWords = (original: string, enhanced: string): DiffSegment[] => {
+  const a = tokenize(original);
+  const b = tokenize(enhanced);
+  const segments: DiffSegment[] = [];
+
+  // Common prefix and suffix keep the LCS table small for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'delete', midA.join(''));
+    pushSegment(segments, 'insert', midB.join(''));
+  } else {
+    // lengths[i * cols + j] = LCS length of midA[i..] and midB[j..]
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        pushSegment(segments, 'delete', midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, 'insert', midB[j]);
+        j++;
+      }
+    }
+    pushSegment(segments, 'delete', midA.slice(i).join(''));
+    pushSegment(segments, 'insert', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
+
+interface PromptDiffProps {
+  original: string;
+  enhanced: string;
+  improvements?: string[];
+  defaultView?: DiffView;
+  className?: string;
+  localizedText?: {
+    title: string;
+    inline: string;
+    split: string;
+    original: string;
+    enhanced: string;
+    improvements: string;
+  };
+}
+
+const defaultText = {
+  title: 'Changes',
+  inline: 'Inline',
+  split: 'Side by side',
+  original: 'Original',
+  enhanced: 'Enhanced',
+  improvements: 'Improvements',
+};
+
+const segmentClass: Record<DiffSegment['type'], string> = {
+  equal: '',
+  insert: 'diff-insert no-underline bg-green-100 text-green-900 dark:bg-green-900 dark:text-green-100',
+  delete: 'diff-delete bg-red-100 text-red-900 line-through dark:bg-red-900 dark:text-red-100',
+};
+
+const renderSegments = (segments: DiffSegment[]) => segments.map((segment, index) => {
+  if (segment.type === 'equal') {
+    return <span key={index}>{segment.text}</span>;
+  }
+  const Tag = segment.type === 'insert' ? 'ins' : 'del';
+  return <Tag key={index} className={`rounded-sm ${segmentClass[segment.type]}`}>{segment.text}</Tag>;
+});
+
+export const PromptDiff: React.FC<PromptDiffProps> = ({
+  original,
+  enhanced,
+  improvements = [],
+  defaultView = 'inline',
+  className = '',
+  localizedText = defaultText
+}) => {
+  const [view, setView] = useState<DiffView>(defaultView);
+  const segments = useMemo(() => diffWords(original, enhanced), [original, enhanced]);
+
+  const viewButton = (value: DiffView, label: string) => (
+    <button
+      type="button"
+      onClick={() => setView(value)}
+      aria-pressed={view === value}
+      className={`text-xs font-medium px-3 py-1 rounded transition-colors duration-200 ${
+        view === value
+          ? 'bg-blue-600 text-white'
+          : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-600'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const panelClass = 'whitespace-pre-wrap font-sans text-gray-800 dark:text-gray-100 leading-relaxed';
+
+  return (
+    <div className={`prompt-diff bg-gray-50 border border-gray-200 rounded-lg p-4 dark:bg-gray-700 dark:border-gray-600 ${className}`}>
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{localizedText.title}</span>
+        <div className="flex gap-1">
+          {viewButton('inline', localizedText.inline)}
+          {viewButton('split', localizedText.split)}
+        </div>
+      </div>
+
+      {view === 'inline' ? (
+        <pre data-testid="diff-inline" className={panelClass}>
+          {renderSegments(segments)}
+        </pre>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">{localizedText.original}</div>
+            <pre data-testid="diff-original" className={panelClass}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'insert'))}
+            </pre>
+          </div>
+          <div>
+            <div className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">{localizedText.enhanced}</div>
+            <pre data-testid="diff-enhanced" className={panelClass}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'delete'))}
+            </pre>
+          </div>
+        </div>
+      )}
+
+      {improvements.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
+          <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{localizedText.improvements}</div>
+          <ul className="list-disc list-inside text-sm text-gray-600 dark:text-gray-300 space-y-1">
+            {improvements.map((improvement, index) => (
+              <li key={index}>{improvement}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
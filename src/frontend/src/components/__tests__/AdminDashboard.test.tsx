@@ -0,0 +1,141 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AdminDashboard, ADMIN_KEY_STORAGE_KEY, USAGE_DAYS } from '../AdminDashboard';
+import { adminApiService, apiService } from '../../services/api';
+import { AIEvent } from '../../types';
+
+jest.mock('../../services/api', () => ({
+  apiService: {
+    setApiKey: jest.fn(),
+  },
+  adminApiService: {
+    setApiKey: jest.fn(),
+    getServiceStatus: jest.fn(),
+    getClientConfig: jest.fn(),
+    getContractStats: jest.fn(),
+    getUsage: jest.fn(),
+    followLogs: jest.fn(),
+    clearLogs: jest.fn(),
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedApi = adminApiService as jest.Mocked<typeof adminApiService>;
+const today = new Date().toISOString().slice(0, 10);
+
+const completed: AIEvent = {
+  id: '7',
+  event: 'enhancement_completed',
+  promptId: 'prompt_1',
+  mode: 'code',
+  timestamp: new Date().toISOString(),
+  data: {
+    processingTime: 840,
+    tokenUsage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    validationResult: { isValid: false, violations: ['Missing code block'] },
+    attempts: 2,
+  },
+};
+
+describe('AdminDashboard Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionStorage.clear();
+    mockedApi.getServiceStatus.mockResolvedValue({ service: 'enhancement', available: true, model: 'deepseek-chat' });
+    mockedApi.getClientConfig.mockResolvedValue({ provider: 'deepseek', model: 'deepseek-chat', temperature: 0.7 });
+    mockedApi.getContractStats.mockResolvedValue({
+      modes: [
+        { mode: 'code', validated: 4, passed: 3, failed: 1, passRate: 0.75 },
+        { mode: 'json', validated: 2, passed: 2, failed: 0, passRate: 1 },
+      ],
+      total: { validated: 6, passed: 5, failed: 1, passRate: 5 / 6 },
+    });
+    mockedApi.getUsage.mockResolvedValue({
+      groupBy: 'day',
+      groups: [{ group: today, requests: 3, calls: 4, promptTokens: 300, completionTokens: 150, totalTokens: 450, cost: 0.0012 }],
+      total: { requests: 3, calls: 4, promptTokens: 300, completionTokens: 150, totalTokens: 450, cost: 0.0012 },
+    });
+    mockedApi.followLogs.mockImplementation(async (_params, onEvent) => onEvent(completed));
+  });
+
+  const signIn = () => {
+    fireEvent.change(screen.getByLabelText('Admin API key'), { target: { value: 'admin-key' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+  };
+
+  it('should ask for an API key before loading anything', () => {
+    render(<AdminDashboard />);
+
+    expect(screen.getByRole('button', { name: 'Sign in' })).toBeTruthy();
+    expect(mockedApi.getServiceStatus).not.toHaveBeenCalled();
+    expect(mockedApi.followLogs).not.toHaveBeenCalled();
+  });
+
+  it('should show status, config and charts from the backend after signing in', async () => {
+    render(<AdminDashboard modeLabels={{ code: { label: 'Code' } }} />);
+    signIn();
+
+    expect(await screen.findByText('Available')).toBeTruthy();
+    expect(mockedApi.setApiKey).toHaveBeenLastCalledWith('admin-key');
+    // The key stays out of the client the rest of the app uses
+    expect(apiService.setApiKey).not.toHaveBeenCalled();
+    expect(sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY)).toBe('admin-key');
+    expect(screen.getByText('temperature')).toBeTruthy();
+
+    const passRates = screen.getAllByTestId('pass-rate');
+    expect(passRates).toHaveLength(2);
+    expect(passRates[0].textContent).toContain('Code');
+    expect(passRates[0].textContent).toContain('75% (3/4)');
+
+    expect(mockedApi.getUsage).toHaveBeenCalledWith(expect.objectContaining({ groupBy: 'day' }));
+    const bars = screen.getAllByTestId('usage-bar');
+    expect(bars).toHaveLength(USAGE_DAYS);
+    expect(bars[USAGE_DAYS - 1].textContent).toBe(`${today}: 450 tokens`);
+  });
+
+  it('should tail the AI event log', async () => {
+    sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, 'admin-key');
+    render(<AdminDashboard />);
+
+    const event = await screen.findByTestId('log-event');
+    expect(event.textContent).toContain('enhancement_completed');
+    expect(event.textContent).toContain('150 tokens, 840 ms, contract failed');
+    expect(mockedApi.followLogs).toHaveBeenCalledWith(expect.objectContaining({ cursor: '0' }), expect.any(Function), expect.any(AbortSignal));
+    await screen.findByText('Available');
+  });
+
+  it('should clear the logs and restart the tail', async () => {
+    sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, 'admin-key');
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    mockedApi.clearLogs.mockResolvedValue(12);
+    render(<AdminDashboard />);
+    await screen.findByText('Available');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear logs' }));
+
+    expect(await screen.findByText('12 events removed')).toBeTruthy();
+    await waitFor(() => expect(mockedApi.followLogs).toHaveBeenCalledTimes(2));
+  });
+
+  it('should flush the cache', async () => {
+    sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, 'admin-key');
+    mockedApi.clearCache.mockResolvedValue();
+    render(<AdminDashboard />);
+    await screen.findByText('Available');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Flush cache' }));
+
+    expect(await screen.findByText('Enhancement cache flushed')).toBeTruthy();
+    expect(mockedApi.clearCache).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sign out when the key lacks the admin scope', async () => {
+    mockedApi.getClientConfig.mockRejectedValue(Object.assign(new Error('API key lacks the admin scope'), { statusCode: 403 }));
+    render(<AdminDashboard />);
+    signIn();
+
+    expect(await screen.findByText('API key lacks the admin scope')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Sign in' })).toBeTruthy();
+    expect(sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY)).toBeNull();
+  });
+});
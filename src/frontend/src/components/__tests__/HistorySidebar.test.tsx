@@ -0,0 +1,138 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { HistorySidebar } from '../HistorySidebar';
+import { HistoryEntry } from '../../types';
+import { addHistoryEntry, mergeHistory, MAX_HISTORY_ENTRIES } from '../../services/history';
+
+const createEntry = (id: string, prompt: string, createdAt: string): HistoryEntry => ({
+  id,
+  createdAt,
+  input: { prompt, mode: 'creative' },
+  result: {
+    originalPrompt: prompt,
+    enhancedPrompt: `Enhanced: ${prompt}`,
+    mode: 'creative',
+    improvements: [],
+    metadata: {
+      processingTime: 100,
+      tokenUsage: { promptTokens: 10, completionTokens: 32, totalTokens: 42 },
+      model: 'mock-model',
+      timestamp: createdAt,
+      attempts: 1,
+      contractEnforced: false,
+    },
+  },
+});
+
+describe('HistorySidebar Component', () => {
+  const entries = [
+    createEntry('local_2', 'Write a poem about the sea', '2024-01-02T10:00:00.000Z'),
+    createEntry('local_1', 'Explain recursion', '2024-01-01T10:00:00.000Z'),
+  ];
+
+  const defaultProps = {
+    entries,
+    isOpen: true,
+    onToggle: jest.fn(),
+    onRestore: jest.fn(),
+    onRerun: jest.fn(),
+    onDelete: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Rendering', () => {
+    it('should list entries with mode and token usage', () => {
+      render(<HistorySidebar {...defaultProps} />);
+
+      expect(screen.getAllByTestId('history-entry')).toHaveLength(2);
+      expect(screen.getByText('Write a poem about the sea')).toBeTruthy();
+      expect(screen.getAllByText('creative', { selector: 'span' })).toHaveLength(2);
+      expect(screen.getAllByText('42 tokens')).toHaveLength(2);
+    });
+
+    it('should show an empty state', () => {
+      render(<HistorySidebar {...defaultProps} entries={[]} />);
+
+      expect(screen.getByText('No enhancements yet')).toBeTruthy();
+    });
+
+    it('should use localized mode labels', () => {
+      render(<HistorySidebar {...defaultProps} modeLabels={{ creative: { label: 'Kreativ' } }} />);
+
+      expect(screen.getAllByText('Kreativ').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('User Interaction', () => {
+    it('should toggle the panel', () => {
+      render(<HistorySidebar {...defaultProps} isOpen={false} />);
+
+      const toggle = screen.getByRole('button', { name: 'History' });
+      expect(toggle.getAttribute('aria-expanded')).toBe('false');
+
+      fireEvent.click(toggle);
+      expect(defaultProps.onToggle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore an entry', () => {
+      render(<HistorySidebar {...defaultProps} />);
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Restore' })[0]);
+
+      expect(defaultProps.onRestore).toHaveBeenCalledWith(entries[0]);
+    });
+
+    it('should re-run an entry in the selected mode', () => {
+      render(<HistorySidebar {...defaultProps} />);
+
+      fireEvent.change(screen.getAllByRole('combobox', { name: 'Re-run' })[1], { target: { value: 'technical' } });
+      fireEvent.click(screen.getAllByRole('button', { name: 'Re-run' })[1]);
+
+      expect(defaultProps.onRerun).toHaveBeenCalledWith(entries[1], 'technical');
+    });
+
+    it('should delete an entry', () => {
+      render(<HistorySidebar {...defaultProps} />);
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Delete' })[1]);
+
+      expect(defaultProps.onDelete).toHaveBeenCalledWith(entries[1]);
+    });
+
+    it('should disable restore and re-run while loading', () => {
+      render(<HistorySidebar {...defaultProps} disabled />);
+
+      screen.getAllByRole('button', { name: 'Restore' }).forEach((button) => expect((button as HTMLButtonElement).disabled).toBe(true));
+      screen.getAllByRole('button', { name: 'Re-run' }).forEach((button) => expect((button as HTMLButtonElement).disabled).toBe(true));
+    });
+  });
+});
+
+describe('history storage helpers', () => {
+  it('should add entries newest first and cap the list', () => {
+    let history: HistoryEntry[] = [];
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      history = addHistoryEntry(history, createEntry(`local_${i}`, `Prompt ${i}`, new Date(i * 1000).toISOString()));
+    }
+
+    expect(history).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history[0].id).toBe(`local_${MAX_HISTORY_ENTRIES + 4}`);
+  });
+
+  it('should merge server entries over local copies', () => {
+    const local = [
+      createEntry('hist_1', 'Local copy', '2024-01-01T10:00:00.000Z'),
+      createEntry('local_1', 'Only local', '2024-01-03T10:00:00.000Z'),
+    ];
+    const remote = [createEntry('hist_1', 'Server copy', '2024-01-01T10:00:00.000Z')];
+
+    const merged = mergeHistory(local, remote);
+
+    expect(merged.map((entry) => entry.id)).toEqual(['local_1', 'hist_1']);
+    expect(merged[1].input.prompt).toBe('Server copy');
+    expect(merged[1].synced).toBe(true);
+  });
+});
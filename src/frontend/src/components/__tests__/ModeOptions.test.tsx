@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ModeOptions } from '../ModeOptions';
+
+describe('ModeOptions Component', () => {
+  const defaultProps = {
+    mode: 'standard' as const,
+    value: {},
+    onChange: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Mode-specific inputs', () => {
+    it('should ask for a target language in translate mode', () => {
+      render(<ModeOptions {...defaultProps} mode="translate" />);
+
+      fireEvent.change(screen.getByLabelText('Target language'), { target: { value: 'German' } });
+
+      expect(defaultProps.onChange).toHaveBeenCalledWith({ targetLanguage: 'German' });
+      expect(screen.queryByLabelText('Programming language')).toBeNull();
+    });
+
+    it('should ask for a programming language in code mode', () => {
+      render(<ModeOptions {...defaultProps} mode="code" value={{ codeLanguage: 'Go' }} />);
+
+      const input = screen.getByLabelText('Programming language') as HTMLInputElement;
+      expect(input.value).toBe('Go');
+      expect(screen.queryByLabelText('Target language')).toBeNull();
+    });
+
+    it('should not show language inputs for other modes', () => {
+      render(<ModeOptions {...defaultProps} mode="summarize" />);
+
+      expect(screen.queryByLabelText('Target language')).toBeNull();
+      expect(screen.queryByLabelText('Programming language')).toBeNull();
+    });
+  });
+
+  describe('Advanced options', () => {
+    it('should be collapsed by default', () => {
+      render(<ModeOptions {...defaultProps} />);
+
+      expect(screen.getByRole('button', { name: 'Advanced options' }).getAttribute('aria-expanded')).toBe('false');
+      expect(screen.queryByLabelText('Context')).toBeNull();
+    });
+
+    it('should edit context, max tokens and contract enforcement', () => {
+      render(<ModeOptions {...defaultProps} value={{ context: 'For kids' }} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Advanced options' }));
+
+      fireEvent.change(screen.getByLabelText('Context'), { target: { value: 'For adults' } });
+      expect(defaultProps.onChange).toHaveBeenLastCalledWith({ context: 'For adults' });
+
+      fireEvent.change(screen.getByLabelText('Max tokens: 2000'), { target: { value: '3000' } });
+      expect(defaultProps.onChange).toHaveBeenLastCalledWith({ context: 'For kids', maxTokens: 3000 });
+
+      const checkbox = screen.getByRole('checkbox') as HTMLInputElement;
+      expect(checkbox.checked).toBe(true);
+      fireEvent.click(checkbox);
+      expect(defaultProps.onChange).toHaveBeenLastCalledWith({ context: 'For kids', enableContractEnforcement: false });
+    });
+
+    it('should disable inputs while loading', () => {
+      render(<ModeOptions {...defaultProps} mode="translate" disabled />);
+
+      expect((screen.getByLabelText('Target language') as HTMLInputElement).disabled).toBe(true);
+    });
+  });
+});
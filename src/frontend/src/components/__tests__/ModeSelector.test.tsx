@@ -1,8 +1,8 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { ModeSelector } from '../ModeSelector';
-import { AIMode } from '../../types';
+import { ModeSelector, defaultModeSelectorText } from '../ModeSelector';
+import { AIMode, Mode, TASK_MODES } from '../../types';
 
 describe('ModeSelector Component', () => {
   const defaultProps = {
@@ -63,6 +63,56 @@ describe('ModeSelector Component', () => {
     });
   });
 
+  describe('Mode groups', () => {
+    it('should group legacy styles and task modes', () => {
+      render(<ModeSelector {...defaultProps} />);
+
+      const groups = screen.getAllByRole('radiogroup');
+      expect(groups.map((group) => group.getAttribute('aria-label'))).toEqual(['Enhancement styles', 'Task modes']);
+      expect(groups[1].querySelectorAll('button')).toHaveLength(TASK_MODES.length);
+    });
+
+    it('should select task modes', () => {
+      render(<ModeSelector {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Translate'));
+
+      expect(defaultProps.onChange).toHaveBeenCalledWith('translate');
+    });
+
+    it('should mark the selected mode as checked', () => {
+      render(<ModeSelector {...defaultProps} value="table" />);
+
+      expect(screen.getByText('Table').closest('button')?.getAttribute('aria-checked')).toBe('true');
+      expect(screen.getByText('Standard').closest('button')?.getAttribute('aria-checked')).toBe('false');
+    });
+  });
+
+  describe('Server modes', () => {
+    const serverModes: Mode[] = [
+      { id: 'standard', group: 'style', order: 1, labels: { en: 'Standard' }, descriptions: { en: 'General purpose enhancement' }, validator: 'text' },
+      { id: 'sql', group: 'task', order: 1, labels: { en: 'SQL', de: 'SQL-Abfrage' }, descriptions: { en: 'A single SQL query', de: 'Eine einzelne SQL-Abfrage' }, validator: 'code' },
+    ];
+
+    it('should offer the modes the server provides, labelled in the given language', () => {
+      render(<ModeSelector {...defaultProps} modes={serverModes} language="de" />);
+
+      const groups = screen.getAllByRole('radiogroup');
+      expect(groups.map((group) => group.querySelectorAll('button').length)).toEqual([1, 1]);
+      expect(screen.queryByText('Creative')).toBeNull();
+
+      fireEvent.click(screen.getByText('SQL-Abfrage'));
+      expect(defaultProps.onChange).toHaveBeenCalledWith('sql');
+      expect(screen.getByText('Eine einzelne SQL-Abfrage')).toBeTruthy();
+    });
+
+    it('should fall back to English labels', () => {
+      render(<ModeSelector {...defaultProps} modes={serverModes} language="fr" />);
+
+      expect(screen.getByText('SQL')).toBeTruthy();
+    });
+  });
+
   describe('User Interaction', () => {
     it('should call onChange when a mode is clicked', async () => {
       const user = userEvent.setup();
@@ -133,8 +183,8 @@ describe('ModeSelector Component', () => {
     it('should have consistent button styling', () => {
       render(<ModeSelector {...defaultProps} />);
       
-      const buttons = screen.getAllByRole('button');
-      expect(buttons).toHaveLength(4);
+      const buttons = screen.getAllByRole('radio');
+      expect(buttons).toHaveLength(15);
       
       buttons.forEach(button => {
         expect(button).toHaveClass('p-3', 'rounded-lg', 'border-2', 'transition-all', 'duration-200', 'text-left');
@@ -321,11 +371,5 @@ describe('ModeSelector Component', () => {
 
 // Helper function to get mode label
 function getModeLabel(mode: AIMode): string {
-  const labels = {
-    standard: 'Standard',
-    creative: 'Creative',
-    technical: 'Technical',
-    scientifically: 'Scientific',
-  };
-  return labels[mode];
+  return defaultModeSelectorText.modes[mode].label;
 }
\ No newline at end of file
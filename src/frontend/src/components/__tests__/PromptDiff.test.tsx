@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PromptDiff, diffWords } from '../PromptDiff';
+
+describe('diffWords', () => {
+  it('should mark inserted and deleted words', () => {
+    expect(diffWords('Write a poem', 'Write a short rhyming poem')).toEqual([
+      { type: 'equal', text: 'Write a ' },
+      { type: 'insert', text: 'short rhyming ' },
+      { type: 'equal', text: 'poem' },
+    ]);
+
+    expect(diffWords('Explain the code quickly', 'Explain the code')).toEqual([
+      { type: 'equal', text: 'Explain the code' },
+      { type: 'delete', text: ' quickly' },
+    ]);
+  });
+
+  it('should handle replacements', () => {
+    const segments = diffWords('Summarize this article', 'Summarize this paper');
+
+    expect(segments.filter((segment) => segment.type === 'delete').map((segment) => segment.text)).toEqual(['article']);
+    expect(segments.filter((segment) => segment.type === 'insert').map((segment) => segment.text)).toEqual(['paper']);
+  });
+
+  it('should reproduce both texts from the segments', () => {
+    const original = 'Tell me about\nthe ocean';
+    const enhanced = 'Describe the ocean\n\nin 3 paragraphs';
+    const segments = diffWords(original, enhanced);
+
+    expect(segments.filter((segment) => segment.type !== 'insert').map((segment) => segment.text).join('')).toBe(original);
+    expect(segments.filter((segment) => segment.type !== 'delete').map((segment) => segment.text).join('')).toBe(enhanced);
+  });
+
+  it('should handle empty input', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New prompt')).toEqual([{ type: 'insert', text: 'New prompt' }]);
+  });
+});
+
+describe('PromptDiff Component', () => {
+  const defaultProps = {
+    original: 'Write a poem',
+    enhanced: 'Write a short rhyming poem',
+    improvements: ['Added length constraint', 'Specified rhyme scheme'],
+  };
+
+  describe('Rendering', () => {
+    it('should render an inline diff by default', () => {
+      render(<PromptDiff {...defaultProps} />);
+
+      const inline = screen.getByTestId('diff-inline');
+      expect(inline.textContent).toBe('Write a short rhyming poem');
+      expect(inline.querySelector('ins')?.textContent).toBe('short rhyming ');
+      expect(inline.querySelector('ins')?.classList.contains('diff-insert')).toBe(true);
+    });
+
+    it('should highlight deletions', () => {
+      render(<PromptDiff original="Explain the code quickly" enhanced="Explain the code" />);
+
+      const deletion = screen.getByTestId('diff-inline').querySelector('del');
+      expect(deletion?.textContent).toBe(' quickly');
+      expect(deletion?.classList.contains('diff-delete')).toBe(true);
+    });
+
+    it('should list improvements', () => {
+      render(<PromptDiff {...defaultProps} />);
+
+      expect(screen.getByText('Improvements')).toBeTruthy();
+      expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual(defaultProps.improvements);
+    });
+
+    it('should omit the improvements section when there are none', () => {
+      render(<PromptDiff {...defaultProps} improvements={[]} />);
+
+      expect(screen.queryByText('Improvements')).toBeNull();
+    });
+
+    it('should escape HTML-like content', () => {
+      render(<PromptDiff original="<b>hi</b>" enhanced={'<script>alert("XSS")</script>'} />);
+
+      expect(screen.getByTestId('diff-inline').innerHTML).toContain('&lt;script&gt;');
+    });
+  });
+
+  describe('View switching', () => {
+    it('should switch to the split view', () => {
+      render(<PromptDiff {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Side by side' }));
+
+      expect(screen.queryByTestId('diff-inline')).toBeNull();
+      expect(screen.getByTestId('diff-original').textContent).toBe('Write a poem');
+      expect(screen.getByTestId('diff-original').querySelector('ins')).toBeNull();
+      expect(screen.getByTestId('diff-enhanced').textContent).toBe('Write a short rhyming poem');
+      expect(screen.getByRole('button', { name: 'Side by side' }).getAttribute('aria-pressed')).toBe('true');
+    });
+
+    it('should honour the default view and localized labels', () => {
+      render(
+        <PromptDiff
+          {...defaultProps}
+          defaultView="split"
+          localizedText={{
+            title: 'Änderungen',
+            inline: 'Inline',
+            split: 'Nebeneinander',
+            original: 'Original',
+            enhanced: 'Verbessert',
+            improvements: 'Verbesserungen',
+          }}
+        />
+      );
+
+      expect(screen.getByText('Verbessert')).toBeTruthy();
+      expect(screen.getByText('Verbesserungen')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Inline' }));
+      expect(screen.getByTestId('diff-inline')).toBeTruthy();
+    });
+  });
+});
@@ -36,6 +36,13 @@ describe('API Service', () => {
             },
             model: 'deepseek-chat',
             timestamp: new Date().toISOString(),
+            attempts: 1,
+            contractEnforced: false,
+          },
+          _meta: {
+            processingTime: 1000,
+            cache: 'miss' as const,
+            requestId: 'req_1',
           },
         },
       };
@@ -54,6 +61,20 @@ describe('API Service', () => {
       expect(result).toEqual(mockResponse.data);
     });
 
+    it('should reject responses that break the API contract', async () => {
+      const mockClient = mockedAxios.create();
+      (mockClient.post as jest.Mock).mockResolvedValue({
+        data: { enhancedPrompt: 'Enhanced test prompt' },
+      });
+
+      const input: UserInput = {
+        prompt: 'Test prompt',
+        mode: 'standard',
+      };
+
+      await expect(apiService.enhancePrompt(input)).rejects.toThrow('Unexpected response from the server');
+    });
+
     it('should handle API errors gracefully', async () => {
       const mockError = {
         response: {
@@ -131,6 +152,13 @@ describe('API Service', () => {
             },
             model: 'deepseek-chat',
             timestamp: new Date().toISOString(),
+            attempts: 1,
+            contractEnforced: false,
+          },
+          _meta: {
+            processingTime: 1000,
+            cache: 'miss' as const,
+            requestId: 'req_1',
           },
         },
       };
@@ -392,6 +420,13 @@ describe('API Service', () => {
             },
             model: 'deepseek-chat',
             timestamp: new Date().toISOString(),
+            attempts: 1,
+            contractEnforced: false,
+          },
+          _meta: {
+            processingTime: 1000,
+            cache: 'miss' as const,
+            requestId: 'req_1',
           },
         },
       };
@@ -427,6 +462,13 @@ describe('API Service', () => {
             },
             model: 'deepseek-chat',
             timestamp: new Date().toISOString(),
+            attempts: 1,
+            contractEnforced: false,
+          },
+          _meta: {
+            processingTime: 1000,
+            cache: 'miss' as const,
+            requestId: 'req_1',
           },
         },
       };
@@ -462,6 +504,13 @@ describe('API Service', () => {
             },
             model: 'deepseek-chat',
             timestamp: new Date().toISOString(),
+            attempts: 1,
+            contractEnforced: false,
+          },
+          _meta: {
+            processingTime: 1000,
+            cache: 'miss' as const,
+            requestId: 'req_1',
           },
         },
       };
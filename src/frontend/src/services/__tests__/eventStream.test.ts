@@ -0,0 +1,62 @@
+import { createEventStreamParser, streamError } from '../eventStream';
+
+describe('createEventStreamParser', () => {
+  const collect = () => {
+    const events: Array<[string, unknown]> = [];
+    const parser = createEventStreamParser((eventName, data) => events.push([eventName, data]));
+    return { events, parser };
+  };
+
+  it('should pass each event name and its JSON data', () => {
+    const { events, parser } = collect();
+
+    parser.push('event: delta\ndata: {"content":"Hel"}\n\nevent: result\ndata: {"enhancedPrompt":"Hello"}\n\n');
+
+    expect(events).toEqual([
+      ['delta', { content: 'Hel' }],
+      ['result', { enhancedPrompt: 'Hello' }],
+    ]);
+  });
+
+  it('should skip keep-alive comments', () => {
+    const { events, parser } = collect();
+
+    parser.push(': keep-alive\n\nevent: delta\ndata: {"content":"x"}\n\n: keep-alive\n\n');
+
+    expect(events).toEqual([['delta', { content: 'x' }]]);
+  });
+
+  it('should join events split across chunks', () => {
+    const { events, parser } = collect();
+
+    parser.push('event: del');
+    parser.push('ta\ndata: {"cont');
+    expect(events).toEqual([]);
+
+    parser.push('ent":"x"}\n');
+    parser.push('\nevent: result\ndata: {}');
+    expect(events).toEqual([['delta', { content: 'x' }]]);
+
+    parser.end();
+    expect(events).toEqual([['delta', { content: 'x' }], ['result', {}]]);
+  });
+
+  it('should default the event name to message and join multi-line data', () => {
+    const { events, parser } = collect();
+
+    parser.push('data: {"a":\ndata: 1}\n\n');
+
+    expect(events).toEqual([['message', { a: 1 }]]);
+  });
+
+  it('should stop at an error event that the handler throws', () => {
+    const parser = createEventStreamParser((eventName, data) => {
+      if (eventName === 'error') {
+        throw streamError(data);
+      }
+    });
+
+    expect(() => parser.push('event: error\ndata: {"message":"AI service unavailable","statusCode":503}\n\n'))
+      .toThrow(expect.objectContaining({ message: 'AI service unavailable', statusCode: 503 }));
+  });
+});
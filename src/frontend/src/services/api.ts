@@ -1,8 +1,76 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { UserInput, EnhancedPrompt, ApiError } from '../types';
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIEventPageSchema,
+  AIEventSchema,
+  ClientConfigSchema,
+  ContractStatsSchema,
+  EnhanceResponseSchema,
+  HistoryPageSchema,
+  ModeListSchema,
+  ServiceStatusSchema,
+  UsageReportSchema
+} from '@loogi/shared';
+import {
+  UserInput,
+  EnhancedPrompt,
+  ApiError,
+  EnhancementStreamEvent,
+  HealthStatus,
+  HistoryPage,
+  HistoryQueryParams,
+  Mode,
+  AIEvent,
+  AIEventPage,
+  AIEventQueryParams,
+  ClientConfig,
+  ContractStats,
+  ContractStatsQueryParams,
+  ServiceStatus,
+  UsageQueryParams,
+  UsageReport
+} from '../types';
+import { readEventStream, streamError } from './eventStream';
+
+// Responses are checked against the shared API contract so backend drift fails loudly
+const parseResponse = <T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown): T => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw Object.assign(new Error('Unexpected response from the server'), {
+      details: parsed.error.issues,
+    });
+  }
+  return parsed.data;
+};
+
+// Error of a failed fetch() request, in the shape the axios interceptor produces
+const responseError = async (response: Response): Promise<Error> => {
+  const body = await response.json().catch(() => null) as ApiError | null;
+  if (body?.error) {
+    return Object.assign(new Error(body.error.message), {
+      statusCode: body.error.statusCode,
+      details: body.error.details,
+    });
+  }
+  return new Error(`HTTP ${response.status}: ${response.statusText}`);
+};
+
+// Query string of a fetch() request; undefined values are left out
+const toQueryString = (params: Record<string, string | number | boolean | Date | undefined>): string => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) {
+      search.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  });
+  return search.toString();
+};
 
 class ApiService {
   private client: AxiosInstance;
+  private readonly baseURL: string;
+  // Sent as a bearer token; required by the admin routes
+  private apiKey?: string;
 
   constructor() {
     // Für Entwicklung mit Proxy, für Produktion direkte API-URL
@@ -13,6 +81,7 @@ class ApiService {
     const baseURL = process.env.NODE_ENV === 'production' 
       ? process.env.REACT_APP_API_URL || `http://${backendHost}:${backendPort}/api`
       : '/api';
+    this.baseURL = baseURL;
     
     this.client = axios.create({
       baseURL: baseURL,
@@ -25,7 +94,9 @@ class ApiService {
     // Request interceptor
     this.client.interceptors.request.use(
       (config) => {
-        // Add any auth headers here if needed
+        if (this.apiKey) {
+          config.headers = Object.assign(config.headers ?? {}, this.authHeaders());
+        }
         return config;
       },
       (error) => {
@@ -69,17 +140,207 @@ class ApiService {
 
   async enhancePrompt(input: UserInput): Promise<EnhancedPrompt> {
     try {
-      const response = await this.client.post<EnhancedPrompt>('/enhance', input);
-      return response.data;
+      const response = await this.client.post<unknown>('/enhance', input);
+      return parseResponse(EnhanceResponseSchema, response.data);
     } catch (error) {
       console.error('Error enhancing prompt:', error);
       throw error;
     }
   }
 
-  async checkHealth(): Promise<{ status: string; timestamp: string }> {
+  // Streams the enhancement via server-sent events; falls back to a plain request without fetch streaming support
+  async enhancePromptStream(
+    input: UserInput,
+    onEvent: (event: EnhancementStreamEvent) => void
+  ): Promise<EnhancedPrompt> {
+    if (typeof fetch !== 'function' || typeof TextDecoder === 'undefined') {
+      return this.enhancePrompt(input);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/enhance/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...this.authHeaders(),
+        },
+        body: JSON.stringify(input),
+      });
+    } catch (error) {
+      console.error('Error streaming prompt enhancement:', error);
+      throw new Error('Network error: Unable to connect to the server. Please check your connection and try again.');
+    }
+
+    if (!response.ok || !response.body) {
+      throw await responseError(response);
+    }
+
+    let result: unknown = null;
+    await readEventStream(response.body, (eventName, data) => {
+      if (eventName === 'result') {
+        result = data;
+      } else if (eventName === 'error') {
+        throw streamError(data);
+      } else {
+        onEvent(data as EnhancementStreamEvent);
+      }
+    });
+
+    if (!result) {
+      throw new Error('The enhancement stream ended unexpectedly. Please try again.');
+    }
+    return parseResponse(EnhanceResponseSchema, result);
+  }
+
+  async getHistory(params: HistoryQueryParams = {}): Promise<HistoryPage> {
     try {
-      const response = await this.client.get('/health');
+      const response = await this.client.get<unknown>('/history', { params });
+      return parseResponse(HistoryPageSchema, response.data);
+    } catch (error) {
+      console.error('Error loading history:', error);
+      throw error;
+    }
+  }
+
+  async deleteHistoryEntry(id: string): Promise<void> {
+    try {
+      await this.client.delete(`/history/${encodeURIComponent(id)}`);
+    } catch (error) {
+      console.error('Error deleting history entry:', error);
+      throw error;
+    }
+  }
+
+  // Modes offered by the server, styles first
+  async getModes(): Promise<Mode[]> {
+    try {
+      const response = await this.client.get<unknown>('/modes');
+      return parseResponse(ModeListSchema, response.data).modes;
+    } catch (error) {
+      console.error('Error loading modes:', error);
+      throw error;
+    }
+  }
+
+  async getServiceStatus(): Promise<ServiceStatus> {
+    try {
+      const response = await this.client.get<unknown>('/enhance/status');
+      return parseResponse(ServiceStatusSchema, response.data);
+    } catch (error) {
+      console.error('Error loading service status:', error);
+      throw error;
+    }
+  }
+
+  // Requires an admin key
+  async getClientConfig(): Promise<ClientConfig> {
+    try {
+      const response = await this.client.get<{ config?: unknown }>('/enhance/config');
+      return parseResponse(ClientConfigSchema, response.data?.config);
+    } catch (error) {
+      console.error('Error loading client config:', error);
+      throw error;
+    }
+  }
+
+  async getContractStats(params: ContractStatsQueryParams = {}): Promise<ContractStats> {
+    try {
+      const response = await this.client.get<unknown>('/history/stats', { params });
+      return parseResponse(ContractStatsSchema, response.data);
+    } catch (error) {
+      console.error('Error loading contract stats:', error);
+      throw error;
+    }
+  }
+
+  async getUsage(params: UsageQueryParams = {}): Promise<UsageReport> {
+    try {
+      const response = await this.client.get<unknown>('/usage', { params });
+      return parseResponse(UsageReportSchema, response.data);
+    } catch (error) {
+      console.error('Error loading token usage:', error);
+      throw error;
+    }
+  }
+
+  // AI event log, oldest first; requires an admin key
+  async getLogs(params: Omit<AIEventQueryParams, 'follow'> = {}): Promise<AIEventPage> {
+    try {
+      const response = await this.client.get<unknown>('/enhance/logs', { params });
+      return parseResponse(AIEventPageSchema, response.data);
+    } catch (error) {
+      console.error('Error loading AI logs:', error);
+      throw error;
+    }
+  }
+
+  // Streams matching AI events (after `cursor`, then live) until `signal` aborts or the server ends the stream
+  async followLogs(
+    params: Omit<AIEventQueryParams, 'follow'>,
+    onEvent: (event: AIEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/enhance/logs?${toQueryString({ ...params, follow: true })}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...this.authHeaders(),
+        },
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Error following AI logs:', error);
+      throw new Error('Network error: Unable to connect to the server. Please check your connection and try again.');
+    }
+
+    if (!response.ok || !response.body) {
+      throw await responseError(response);
+    }
+
+    try {
+      await readEventStream(response.body, (eventName, data) => {
+        if (eventName === 'error') {
+          throw streamError(data);
+        }
+        onEvent(parseResponse(AIEventSchema, data));
+      });
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+  }
+
+  // Returns the number of events removed
+  async clearLogs(): Promise<number> {
+    try {
+      const response = await this.client.delete<{ removed: number }>('/enhance/logs');
+      return response.data.removed;
+    } catch (error) {
+      console.error('Error clearing AI logs:', error);
+      throw error;
+    }
+  }
+
+  async clearCache(): Promise<void> {
+    try {
+      await this.client.delete('/enhance/cache');
+    } catch (error) {
+      console.error('Error clearing the enhancement cache:', error);
+      throw error;
+    }
+  }
+
+  setApiKey(apiKey: string | undefined): void {
+    this.apiKey = apiKey || undefined;
+  }
+
+  async checkHealth(): Promise<HealthStatus> {
+    try {
+      const response = await this.client.get<HealthStatus>('/health');
       return response.data;
     } catch (error) {
       console.error('Health check failed:', error);
@@ -87,6 +348,10 @@ class ApiService {
     }
   }
 
+  private authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
   // Utility method to check if the API is available
   async isAvailable(): Promise<boolean> {
     try {
@@ -99,4 +364,6 @@ class ApiService {
 }
 
 export const apiService = new ApiService();
+// Carries the admin dashboard's key, so the rest of the app never sends it
+export const adminApiService = new ApiService();
 export default apiService;
\ No newline at end of file
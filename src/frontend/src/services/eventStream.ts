@@ -0,0 +1,78 @@
+// Error sent as an `error` event when a stream fails after the response started
+interface StreamError {
+  message: string;
+  statusCode: number;
+}
+
+export const streamError = (data: unknown) => {
+  const { message, statusCode } = data as StreamError;
+  return Object.assign(new Error(message), { statusCode });
+};
+
+export interface EventStreamParser {
+  // Text as received; events may be split across chunks
+  push: (text: string) => void;
+  // Handles an event the stream ended without a blank line after
+  end: () => void;
+}
+
+// Splits server-sent event text into events, passing each event's name and JSON data
+export const createEventStreamParser = (
+  onEvent: (eventName: string, data: unknown) => void
+): EventStreamParser => {
+  let buffer = '';
+
+  const handleEvent = (rawEvent: string) => {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+    rawEvent.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) {
+        eventName = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice('data:'.length).trim());
+      }
+    });
+    // Comments (keep-alives) carry no data
+    if (dataLines.length === 0) return;
+
+    onEvent(eventName, JSON.parse(dataLines.join('\n')));
+  };
+
+  return {
+    push: (text) => {
+      buffer += text;
+      let separatorIndex = buffer.indexOf('\n\n');
+      while (separatorIndex !== -1) {
+        handleEvent(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        separatorIndex = buffer.indexOf('\n\n');
+      }
+    },
+    end: () => {
+      if (buffer.trim()) {
+        handleEvent(buffer);
+      }
+      buffer = '';
+    },
+  };
+};
+
+// Reads a server-sent event stream until it ends, passing each event's name and JSON data
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (eventName: string, data: unknown) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createEventStreamParser(onEvent);
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+
+  parser.end();
+};
@@ -0,0 +1,61 @@
+import { EnhancedPrompt, HistoryEntry, UserInput } from '../types';
+
+const STORAGE_KEY = 'enhancementHistory';
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Sync with the backend history API only when explicitly enabled
+export const isHistorySyncEnabled = () => process.env.REACT_APP_HISTORY_SYNC === 'true';
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry => {
+  const entry = value as HistoryEntry | null;
+  return typeof entry?.id === 'string'
+    && typeof entry.createdAt === 'string'
+    && typeof entry.input?.prompt === 'string'
+    && typeof entry.result?.enhancedPrompt === 'string';
+};
+
+const newestFirst = (a: HistoryEntry, b: HistoryEntry) => b.createdAt.localeCompare(a.createdAt);
+
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isHistoryEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_HISTORY_ENTRIES)));
+  } catch (error) {
+    // Quota exceeded or storage disabled: history stays in memory for this session
+    console.error('Failed to persist history:', error);
+  }
+};
+
+// Uses the backend history ID when the server stored the result, so deletes can be synced
+export const createHistoryEntry = (input: UserInput, result: EnhancedPrompt): HistoryEntry => {
+  const historyId = result._meta?.historyId;
+  return {
+    id: historyId || `local_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    createdAt: new Date().toISOString(),
+    input,
+    result,
+    synced: Boolean(historyId),
+  };
+};
+
+export const addHistoryEntry = (entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] =>
+  [entry, ...entries.filter((existing) => existing.id !== entry.id)].slice(0, MAX_HISTORY_ENTRIES);
+
+// Server entries win over local copies with the same ID
+export const mergeHistory = (local: HistoryEntry[], remote: HistoryEntry[]): HistoryEntry[] => {
+  const remoteIds = new Set(remote.map((entry) => entry.id));
+  return [
+    ...remote.map((entry) => ({ ...entry, synced: true })),
+    ...local.filter((entry) => !remoteIds.has(entry.id)),
+  ]
+    .sort(newestFirst)
+    .slice(0, MAX_HISTORY_ENTRIES);
+};
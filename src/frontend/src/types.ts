@@ -1,41 +1,60 @@
-export type AIMode = 'standard' | 'creative' | 'technical' | 'scientifically';
+import {
+  ApiErrorResponse,
+  EnhancedPrompt as ApiEnhancedPrompt,
+  EnhanceResponse,
+  LEGACY_MODES,
+  TASK_MODES,
+  TaskMode,
+  UserInputRequest
+} from '@loogi/shared';
 
-export interface UserInput {
-  prompt: string;
-  mode: AIMode;
-  context?: string;
-  maxTokens?: number;
-}
+// API contract shared with the backend (schemas in src/shared)
+export type {
+  AIEvent,
+  AIEventPage,
+  AIEventQueryParams,
+  AIEventType,
+  ApiErrorResponse as ApiError,
+  ClientConfig,
+  ContractStats,
+  ContractStatsQueryParams,
+  EnhancementMeta,
+  EnhancementStreamEvent,
+  HealthStatus,
+  HistoryPage,
+  HistoryQueryParams,
+  LegacyAIMode,
+  Mode,
+  ServiceStatus,
+  UsageQueryParams,
+  UsageReport
+} from '@loogi/shared';
+export { LEGACY_MODES, TASK_MODES, MAX_TOKENS_RANGE } from '@loogi/shared';
 
-export interface EnhancedPrompt {
-  originalPrompt: string;
-  enhancedPrompt: string;
-  mode: AIMode;
-  improvements: string[];
-  metadata: {
-    processingTime: number;
-    tokenUsage: {
-      promptTokens: number;
-      completionTokens: number;
-      totalTokens: number;
-    };
-    model: string;
-    timestamp: string;
-  };
-}
+// Legacy enhancement styles and task modes
+export type AIMode = TaskMode;
+
+export const ALL_MODES: readonly AIMode[] = [...LEGACY_MODES, ...TASK_MODES];
+
+// The UI always picks a mode explicitly
+export type UserInput = UserInputRequest & { mode: AIMode };
+
+// Per-request options besides the prompt and mode
+export type EnhancementOptions = Omit<UserInput, 'prompt' | 'mode'>;
+
+// Enhancement result; stored history entries carry no response metadata
+export type EnhancedPrompt = ApiEnhancedPrompt & Partial<Pick<EnhanceResponse, 'warnings' | '_meta'>>;
 
-export interface ApiError {
-  error: {
-    message: string;
-    statusCode: number;
-    timestamp: string;
-    path: string;
-    method: string;
-    details?: unknown;
-  };
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  input: UserInput;
+  result: EnhancedPrompt;
+  /** Stored in the backend history as well as locally */
+  synced?: boolean;
 }
 
 export interface ApiResponse<T> {
   data?: T;
-  error?: ApiError;
+  error?: ApiErrorResponse;
 }
\ No newline at end of file
@@ -0,0 +1,493 @@
+import { z } from 'zod';
+import { TaskModeSchema, UserInputSchema } from './userInput';
+import { EnhancedPromptSchema } from './enhancedPrompt';
+
+/**
+ * Request and response contracts of the HTTP API (mounted under /api)
+ */
+
+export const CACHE_STATUSES = ['hit', 'miss', 'bypass', 'disabled'] as const;
+
+export const EnhancementMetaSchema = z.object({
+  processingTime: z.number().nonnegative(),
+  cache: z.enum(CACHE_STATUSES).optional(),
+  historyId: z.string().optional(),
+  requestId: z.string(),
+});
+
+export type EnhancementMeta = z.infer<typeof EnhancementMetaSchema>;
+
+// POST /enhance, and the `result` event of POST /enhance/stream
+export const EnhanceResponseSchema = EnhancedPromptSchema.extend({
+  warnings: z.array(z.string()).optional(),
+  _meta: EnhancementMetaSchema,
+});
+
+export type EnhanceResponse = z.infer<typeof EnhanceResponseSchema>;
+
+// Error of one operation (batch item, job) reported inside a successful response
+export const OperationErrorSchema = z.object({
+  message: z.string(),
+  statusCode: z.number().int(),
+  details: z.unknown().optional(),
+});
+
+export type OperationError = z.infer<typeof OperationErrorSchema>;
+
+export const TokenUsageSchema = EnhancedPromptSchema.shape.metadata.shape.tokenUsage;
+
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+// POST /enhance/batch; the server caps the number of items (BATCH_MAX_ITEMS)
+export const BatchEnhanceRequestSchema = z.object({
+  items: z.array(UserInputSchema).min(1),
+});
+
+export type BatchEnhanceRequest = z.input<typeof BatchEnhanceRequestSchema>;
+
+export const BatchItemResultSchema = z.discriminatedUnion('status', [
+  z.object({
+    index: z.number().int().nonnegative(),
+    status: z.literal('fulfilled'),
+    result: EnhancedPromptSchema,
+    cache: z.enum(CACHE_STATUSES),
+    historyId: z.string().optional(),
+    warnings: z.array(z.string()).optional(),
+  }),
+  z.object({
+    index: z.number().int().nonnegative(),
+    status: z.literal('rejected'),
+    error: OperationErrorSchema,
+  }),
+]);
+
+export type BatchItemResult = z.infer<typeof BatchItemResultSchema>;
+
+export const BatchEnhanceResponseSchema = z.object({
+  // One entry per request item, in request order
+  items: z.array(BatchItemResultSchema),
+  summary: z.object({
+    total: z.number().int().nonnegative(),
+    succeeded: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative(),
+  }),
+  // Tokens spent on this batch; cache hits cost nothing
+  usage: TokenUsageSchema,
+  _meta: EnhancementMetaSchema.pick({ processingTime: true, requestId: true }),
+});
+
+export type BatchEnhanceResponse = z.infer<typeof BatchEnhanceResponseSchema>;
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const JobProgressSchema = z.object({
+  // Generation attempt in progress; 0 while queued, > 1 after contract re-prompts
+  attempt: z.number().int().nonnegative(),
+  // Contract validation of the latest attempt, once checked
+  validationResult: EnhancedPromptSchema.shape.metadata.shape.validationResult,
+});
+
+export type JobProgress = z.infer<typeof JobProgressSchema>;
+
+// POST /enhance?async=true (202) and GET/DELETE /jobs/:id
+export const JobSchema = z.object({
+  id: z.string(),
+  status: z.enum(JOB_STATUSES),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  progress: JobProgressSchema,
+  // Set once the job succeeded; same shape as the POST /enhance response
+  result: EnhanceResponseSchema.optional(),
+  // Set once the job failed
+  error: OperationErrorSchema.optional(),
+  // Notified when the job succeeds or fails
+  callbackUrl: z.string().optional(),
+});
+
+export type Job = z.infer<typeof JobSchema>;
+
+export const WEBHOOK_EVENTS = ['job.succeeded', 'job.failed'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Body POSTed to a job's callbackUrl; the delivery ID is sent in the X-Webhook-Delivery header
+export const WebhookPayloadSchema = z.object({
+  event: z.enum(WEBHOOK_EVENTS),
+  job: JobSchema,
+  timestamp: z.string(),
+});
+
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export const WebhookAttemptSchema = z.object({
+  attempt: z.number().int().min(1),
+  at: z.string(),
+  durationMs: z.number().nonnegative(),
+  // Absent when no response was received
+  statusCode: z.number().int().optional(),
+  error: z.string().optional(),
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  url: z.string(),
+  event: z.enum(WEBHOOK_EVENTS),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  attempts: z.array(WebhookAttemptSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  // When the next retry is due, while pending
+  nextAttemptAt: z.string().optional(),
+});
+
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+// GET /webhooks/deliveries query string
+export const WebhookDeliveryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  jobId: z.string().min(1).optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+});
+
+export type WebhookDeliveryQuery = z.infer<typeof WebhookDeliveryQuerySchema>;
+
+export const WebhookDeliveryPageSchema = z.object({
+  items: z.array(WebhookDeliverySchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int().min(1),
+  pageSize: z.number().int().min(1),
+  totalPages: z.number().int().nonnegative(),
+});
+
+export type WebhookDeliveryPage = z.infer<typeof WebhookDeliveryPageSchema>;
+
+export const API_KEY_SCOPES = ['enhance', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// GET /keys items; the secret itself is never stored or returned after creation
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // First characters of the key, to recognise it in listings
+  prefix: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  // Enhancement requests per rate-limit window; the server default when absent
+  rateLimit: z.number().int().positive().optional(),
+  // Tokens of all upstream calls (enhancements, re-prompts, suggestions) per UTC day; unlimited when absent
+  dailyTokenQuota: z.number().int().positive().optional(),
+  tokensUsedToday: z.number().int().nonnegative(),
+  // Modes the key may request; all modes when absent
+  allowedModes: z.array(TaskModeSchema).optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  revokedAt: z.string().optional(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+// POST /keys
+export const CreateApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['enhance']),
+  rateLimit: z.number().int().positive().optional(),
+  dailyTokenQuota: z.number().int().positive().optional(),
+  allowedModes: z.array(TaskModeSchema).min(1).optional(),
+});
+
+export type CreateApiKeyRequest = z.input<typeof CreateApiKeyRequestSchema>;
+
+// POST /keys (201); `key` is shown only in this response
+export const CreatedApiKeySchema = ApiKeySchema.extend({
+  key: z.string(),
+});
+
+export type CreatedApiKey = z.infer<typeof CreatedApiKeySchema>;
+
+// What an upstream AI call was made for
+export const USAGE_KINDS = ['enhancement', 'reprompt', 'suggestions'] as const;
+
+export type UsageKind = typeof USAGE_KINDS[number];
+
+export const USAGE_GROUP_BY = ['mode', 'day', 'key', 'model'] as const;
+
+// GET /usage query string
+export const UsageQuerySchema = z.object({
+  groupBy: z.enum(USAGE_GROUP_BY).default('day'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Only calls made with this API key (always the caller's own key without the admin scope)
+  keyId: z.string().min(1).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export type UsageQuery = z.infer<typeof UsageQuerySchema>;
+export type UsageQueryParams = z.input<typeof UsageQuerySchema>;
+
+export const UsageTotalsSchema = z.object({
+  // Distinct enhancement or suggestion requests
+  requests: z.number().int().nonnegative(),
+  // Upstream AI calls, including contract re-prompts
+  calls: z.number().int().nonnegative(),
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+  // USD, priced per model when the calls were made (MODEL_PRICING)
+  cost: z.number().nonnegative(),
+});
+
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+
+export const UsageGroupSchema = UsageTotalsSchema.extend({
+  // Mode, YYYY-MM-DD (UTC), API key ID ('anonymous' without a key) or model
+  group: z.string(),
+  // Name of the API key when grouping by key
+  label: z.string().optional(),
+});
+
+export type UsageGroup = z.infer<typeof UsageGroupSchema>;
+
+// GET /usage
+export const UsageReportSchema = z.object({
+  groupBy: z.enum(USAGE_GROUP_BY),
+  groups: z.array(UsageGroupSchema),
+  total: UsageTotalsSchema,
+});
+
+export type UsageReport = z.infer<typeof UsageReportSchema>;
+
+/**
+ * Events emitted while an enhancement is streamed to the caller
+ */
+export type EnhancementStreamEvent =
+  | { type: 'delta'; attempt: number; content: string }
+  | { type: 'contract_validation'; attempt: number; isValid: boolean; violations: string[] }
+  | { type: 'reprompt_started'; attempt: number; violations: string[] };
+
+// GET /history query string
+export const HistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  mode: TaskModeSchema.optional(),
+  taskMode: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  valid: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  // Full-text search over the original and enhanced prompt
+  q: z.string().trim().min(1).max(500).optional(),
+});
+
+export type HistoryQuery = z.infer<typeof HistoryQuerySchema>;
+export type HistoryQueryParams = z.input<typeof HistoryQuerySchema>;
+
+export const HistoryEntrySchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  input: UserInputSchema,
+  result: EnhancedPromptSchema,
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+// GET /history
+export const HistoryPageSchema = z.object({
+  items: z.array(HistoryEntrySchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int().min(1),
+  pageSize: z.number().int().min(1),
+  totalPages: z.number().int().nonnegative(),
+});
+
+export type HistoryPage = z.infer<typeof HistoryPageSchema>;
+
+// GET /history/:id/table query string
+export const TableExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export type TableExportQuery = z.infer<typeof TableExportQuerySchema>;
+
+// Events of the AI event log (GET /enhance/logs), recorded for every enhancement
+export const AI_EVENT_TYPES = [
+  'enhancement_started',
+  'token_budget_warning',
+  'using_legacy_enhancement',
+  'using_task_routing_enhancement',
+  'cache_hit',
+  'enhancement_completed',
+  'enhancement_failed',
+] as const;
+
+export type AIEventType = typeof AI_EVENT_TYPES[number];
+
+const aiEvent = <E extends AIEventType, D extends z.ZodRawShape>(event: E, data: D) => z.object({
+  // Position in the log; pass it as `cursor` to read the events after it
+  id: z.string(),
+  event: z.literal(event),
+  promptId: z.string(),
+  mode: TaskModeSchema,
+  // X-Request-Id of the request, or the job ID, that caused the event
+  requestId: z.string().optional(),
+  timestamp: z.string(),
+  data: z.object(data),
+});
+
+export const AIEventSchema = z.discriminatedUnion('event', [
+  aiEvent('enhancement_started', {
+    promptLength: z.number().int().nonnegative(),
+    maxTokens: z.number().int().positive(),
+  }),
+  aiEvent('token_budget_warning', {
+    estimatedTokens: z.number().int().nonnegative(),
+    maxTokens: z.number().int().positive(),
+  }),
+  aiEvent('using_legacy_enhancement', {}),
+  aiEvent('using_task_routing_enhancement', {
+    taskMode: z.string(),
+  }),
+  aiEvent('cache_hit', {
+    cacheKey: z.string(),
+  }),
+  aiEvent('enhancement_completed', {
+    processingTime: z.number().nonnegative(),
+    tokenUsage: TokenUsageSchema,
+    taskMode: z.string().optional(),
+    validationResult: EnhancedPromptSchema.shape.metadata.shape.validationResult,
+    attempts: z.number().int().min(1),
+  }),
+  aiEvent('enhancement_failed', {
+    error: z.string(),
+    processingTime: z.number().nonnegative(),
+  }),
+]);
+
+export type AIEvent = z.infer<typeof AIEventSchema>;
+export type AIEventData<E extends AIEventType> = Extract<AIEvent, { event: E }>['data'];
+
+// GET /enhance/logs query string
+export const AIEventQuerySchema = z.object({
+  promptId: z.string().min(1).optional(),
+  // One or more event types, comma-separated
+  event: z.string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(AI_EVENT_TYPES)).min(1))
+    .optional(),
+  mode: TaskModeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // `nextCursor` of the previous page; events are returned oldest first
+  cursor: z.string().regex(/^\d+$/, 'Expected a cursor from a previous page').optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  // Stream matching events as server-sent events as they are recorded
+  follow: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export type AIEventQuery = z.infer<typeof AIEventQuerySchema>;
+export type AIEventQueryParams = z.input<typeof AIEventQuerySchema>;
+
+// GET /enhance/logs
+export const AIEventPageSchema = z.object({
+  logs: z.array(AIEventSchema),
+  count: z.number().int().nonnegative(),
+  // ID of the last event; absent when the page is empty
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
+export type AIEventPage = z.infer<typeof AIEventPageSchema>;
+
+// GET /enhance/status
+export const ServiceStatusSchema = z.object({
+  service: z.literal('enhancement'),
+  available: z.boolean(),
+  model: z.string(),
+  // Circuit breaker state of every failover target (AI_FAILOVER_CHAIN)
+  providers: z.array(z.object({
+    provider: z.string(),
+    model: z.string(),
+    state: z.enum(['closed', 'open', 'half-open']),
+    failureRate: z.number(),
+    requests: z.number().int(),
+    failures: z.number().int(),
+    openedAt: z.string().optional(),
+  })).optional(),
+  lastError: z.string().optional(),
+});
+
+export type ServiceStatus = z.infer<typeof ServiceStatusSchema>;
+
+// GET /enhance/config: the AI client configuration, without credentials
+export const ClientConfigSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string(),
+  baseURL: z.string().optional(),
+  maxTokens: z.number().optional(),
+  temperature: z.number().optional(),
+  topP: z.number().optional(),
+  frequencyPenalty: z.number().optional(),
+  presencePenalty: z.number().optional(),
+  timeout: z.number().optional(),
+  maxRetries: z.number().optional(),
+  retryDelay: z.number().optional(),
+});
+
+export type ClientConfig = z.infer<typeof ClientConfigSchema>;
+
+// GET /history/stats query string
+export const ContractStatsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ContractStatsQuery = z.infer<typeof ContractStatsQuerySchema>;
+export type ContractStatsQueryParams = z.input<typeof ContractStatsQuerySchema>;
+
+export const ContractTotalsSchema = z.object({
+  // Stored enhancements whose output was validated against the mode contract
+  validated: z.number().int().nonnegative(),
+  passed: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  // passed / validated; 0 without validated enhancements
+  passRate: z.number().min(0).max(1),
+});
+
+export type ContractTotals = z.infer<typeof ContractTotalsSchema>;
+
+// GET /history/stats: contract pass rates of the stored enhancements
+export const ContractStatsSchema = z.object({
+  modes: z.array(ContractTotalsSchema.extend({ mode: TaskModeSchema })),
+  total: ContractTotalsSchema,
+});
+
+export type ContractStats = z.infer<typeof ContractStatsSchema>;
+
+// GET /health
+export interface HealthStatus {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  timestamp: string;
+  uptime: number;
+  version: string;
+  environment: string;
+  dependencies: {
+    database: 'connected' | 'disconnected';
+    aiService: 'available' | 'unavailable';
+  };
+}
+
+// Body of every error response
+export interface ApiErrorResponse {
+  error: {
+    message: string;
+    statusCode: number;
+    timestamp: string;
+    path: string;
+    method: string;
+    details?: unknown;
+  };
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { TaskModeSchema } from './userInput';
+
+export const VALIDATION_SEVERITIES = ['error', 'warning'] as const;
+
+export const ValidationSeveritySchema = z.enum(VALIDATION_SEVERITIES);
+
+// One result of a validation rule; only errors break the output contract
+export const ValidationFindingSchema = z.object({
+  rule: z.string(),
+  severity: ValidationSeveritySchema,
+  message: z.string(),
+  // 1-based position in the output the finding refers to
+  location: z.object({
+    line: z.number().int().min(1),
+    column: z.number().int().min(1),
+  }).optional(),
+  // JSON Pointer of the offending value, for findings on JSON output
+  path: z.string().optional(),
+  fix: z.string().optional(),
+});
+
+// Markdown table of table output, every row with one cell per column
+export const MarkdownTableSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(z.string())),
+});
+
+export const EnhancedPromptSchema = z.object({
+  originalPrompt: z.string().min(1),
+  enhancedPrompt: z.string().min(1),
+  mode: TaskModeSchema,
+  improvements: z.array(z.string()),
+  metadata: z.object({
+    processingTime: z.number().nonnegative(),
+    tokenUsage: z.object({
+      promptTokens: z.number().int().nonnegative(),
+      completionTokens: z.number().int().nonnegative(),
+      totalTokens: z.number().int().nonnegative(),
+    }),
+    model: z.string(),
+    provider: z.string().optional(),
+    timestamp: z.string().datetime(),
+    taskMode: z.string().optional(),
+    validationResult: z.object({
+      isValid: z.boolean(),
+      violations: z.array(z.string()),
+      findings: z.array(ValidationFindingSchema).optional(),
+    }).optional(),
+    // Parsed table of table modes, when the output has one
+    table: MarkdownTableSchema.optional(),
+    attempts: z.number().int().min(1).default(1),
+    promptId: z.string().optional(),
+    contractEnforced: z.boolean().default(false),
+  }),
+});
+
+export type ValidationSeverity = z.infer<typeof ValidationSeveritySchema>;
+export type ValidationFinding = z.infer<typeof ValidationFindingSchema>;
+export type MarkdownTable = z.infer<typeof MarkdownTableSchema>;
+export type EnhancedPrompt = z.infer<typeof EnhancedPromptSchema>;
@@ -0,0 +1,4 @@
+export * from './userInput';
+export * from './enhancedPrompt';
+export * from './modes';
+export * from './api';
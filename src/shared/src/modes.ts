@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { TaskModeSchema } from './userInput';
+
+/**
+ * Mode definitions, loaded by the server's mode registry from YAML/JSON files
+ */
+
+// Enhancement styles rewrite the prompt; task modes route it to a role and an output contract
+export const MODE_GROUPS = ['style', 'task'] as const;
+export const ModeGroupSchema = z.enum(MODE_GROUPS);
+export type ModeGroup = z.infer<typeof ModeGroupSchema>;
+
+// Output contract checked on task mode results
+export const VALIDATOR_TYPES = ['code', 'json', 'text', 'structured', 'table'] as const;
+export const ValidatorTypeSchema = z.enum(VALIDATOR_TYPES);
+export type ValidatorType = z.infer<typeof ValidatorTypeSchema>;
+
+// Text per locale ('en', 'de', ...); English is the fallback
+export const LocalizedTextSchema = z.object({ en: z.string().min(1) }).catchall(z.string().min(1));
+export type LocalizedText = z.infer<typeof LocalizedTextSchema>;
+
+export const ModeDefinitionSchema = z.object({
+  id: TaskModeSchema,
+  group: ModeGroupSchema.default('task'),
+  // Position within its group in mode lists
+  order: z.number().int().default(100),
+  labels: LocalizedTextSchema,
+  descriptions: LocalizedTextSchema,
+  // What the mode is for, in the prompts sent to the model
+  purpose: z.string().min(1),
+  // Role of the model for task modes, the whole system prompt for styles
+  roleTemplate: z.string().min(1),
+  contractRules: z.array(z.string().min(1)).default([]),
+  validator: z.object({
+    type: ValidatorTypeSchema,
+    // Validator options, e.g. { language: 'python' } for code
+    params: z.record(z.unknown()).default({}),
+  }).default({ type: 'text' }),
+  // Inference of the mode from the prompt when the client picks none that exists
+  intent: z.object({
+    // Matched case-insensitively anywhere in the prompt
+    keywords: z.array(z.string().min(1)).default([]),
+    // Matched verbatim, e.g. '```' or 'def '
+    patterns: z.array(z.string().min(1)).default([]),
+    // Modes are tried from the highest priority down
+    priority: z.number().int().default(0),
+  }).default({}),
+}).strict();
+
+export type ModeDefinition = z.infer<typeof ModeDefinitionSchema>;
+/** Definition as written in a file (defaulted fields optional) */
+export type ModeDefinitionInput = z.input<typeof ModeDefinitionSchema>;
+
+// GET /modes: the modes offered to clients
+export const ModeSchema = ModeDefinitionSchema.pick({ id: true, group: true, order: true, labels: true, descriptions: true }).extend({
+  validator: ValidatorTypeSchema,
+});
+
+export type Mode = z.infer<typeof ModeSchema>;
+
+export const ModeListSchema = z.object({
+  modes: z.array(ModeSchema),
+});
+
+export type ModeList = z.infer<typeof ModeListSchema>;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+// Legacy modes for backward compatibility
+export const LegacyAIModeSchema = z.enum(['standard', 'creative', 'technical', 'scientifically']);
+export type LegacyAIMode = z.infer<typeof LegacyAIModeSchema>;
+
+// Built-in task modes; deployments add their own through mode definition files (MODES_DIR)
+export const BUILTIN_TASK_MODES = [
+  'code', 'json', 'translate', 'summarize', 'analysis', 'plan', 'recipe',
+  'support', 'marketing', 'write', 'table'
+] as const;
+
+// Any mode ID; whether the mode exists is up to the server's mode registry (GET /modes)
+export const TaskModeSchema = z.string().regex(/^[a-z][a-z0-9_-]{0,31}$/, 'Mode IDs are lowercase letters, digits, "-" and "_"');
+export type TaskMode = z.infer<typeof TaskModeSchema>;
+
+export const LEGACY_MODES: readonly TaskMode[] = LegacyAIModeSchema.options;
+export const TASK_MODES: readonly TaskMode[] = BUILTIN_TASK_MODES;
+
+export const MAX_TOKENS_RANGE = { min: 100, max: 4000, default: 2000 } as const;
+
+export const UserInputSchema = z.object({
+  prompt: z.string().min(1).max(50000),
+  mode: TaskModeSchema.default('standard'),
+  context: z.string().optional(),
+  maxTokens: z.number().int().min(MAX_TOKENS_RANGE.min).max(MAX_TOKENS_RANGE.max).default(MAX_TOKENS_RANGE.default),
+  language: z.string().optional(),
+  enableContractEnforcement: z.boolean().default(true),
+  targetLanguage: z.string().optional(), // For translation tasks
+  codeLanguage: z.string().optional(), // For code tasks
+  // For json tasks: JSON Schema (draft-07) the output must conform to
+  jsonSchema: z.record(z.unknown()).optional(),
+  // For table tasks: columns the table must have, in any order
+  tableColumns: z.array(z.string().trim().min(1).max(100)).min(1).max(50).optional(),
+  // Run as a job and POST the outcome to this URL when it finishes
+  callbackUrl: z.string().url().max(2048).refine(url => /^https?:\/\//i.test(url), 'Callback URL must use http or https').optional(),
+});
+
+/** Validated input with defaults applied */
+export type UserInput = z.infer<typeof UserInputSchema>;
+/** Request body as sent by clients (defaulted fields optional) */
+export type UserInputRequest = z.input<typeof UserInputSchema>;